@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createApp } from "./app.ts";
+import type { Runtime } from "./runtime/types.ts";
+
+vi.mock("./utils/logger.ts", () => {
+  const categoryLogger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  return {
+    logger: {
+      cli: categoryLogger,
+      chat: categoryLogger,
+      history: categoryLogger,
+      api: categoryLogger,
+      app: categoryLogger,
+    },
+  };
+});
+
+const runtime = {
+  upgradeWebSocket: () => async () => {},
+  createStaticFileMiddleware: () => async () => {},
+} as unknown as Runtime;
+
+describe("Admin routes", () => {
+  let tempDir: string;
+  let app: ReturnType<typeof createApp>;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "app-test-"));
+    const htpasswdPath = join(tempDir, ".htpasswd");
+    // alice:secret (htpasswd -m), bob:secret (htpasswd -s)
+    await writeFile(
+      htpasswdPath,
+      "alice:$apr1$r31....$gnsoqlxyxQQ0Ot5JCwiei.\nbob:{SHA}5en6G6MezRroT3XKqkdPOmY/BfQ=\n",
+    );
+    app = createApp(runtime, {
+      debugMode: false,
+      staticPath: join(tempDir, "static"),
+      cliPath: "claude",
+      dataDir: tempDir,
+      rulesPromptMode: "append",
+      auth: {
+        mode: "basic",
+        htpasswdPath,
+        sessionSecret: "test-secret",
+        sessionTtlHours: 1,
+        adminUsers: ["bob"],
+      },
+      scheduler: {
+        maxConcurrent: 0,
+        maxConcurrentPerUser: 0,
+        requestTimeoutMinutes: 0,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const request = (path: string, user: string) =>
+    app.request(path, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`${user}:secret`)}`,
+        "Content-Type": "application/json",
+      },
+      body: "{}",
+    });
+
+  it.each(["/api/policy", "/api/policy/reload", "/api/rules/reload"])(
+    "rejects non-admins on POST %s",
+    async (path) => {
+      expect((await request(path, "alice")).status).toBe(403);
+      expect((await request(path, "bob")).status).not.toBe(403);
+    },
+  );
+});
+
+describe("Cross-origin requests", () => {
+  let tempDir: string;
+  let app: ReturnType<typeof createApp>;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "app-test-"));
+    app = createApp(runtime, {
+      debugMode: false,
+      staticPath: join(tempDir, "static"),
+      cliPath: "claude",
+      dataDir: tempDir,
+      rulesPromptMode: "append",
+      auth: {
+        mode: "none",
+        sessionSecret: "test-secret",
+        sessionTtlHours: 1,
+        adminUsers: [],
+      },
+      scheduler: {
+        maxConcurrent: 0,
+        maxConcurrentPerUser: 0,
+        requestTimeoutMinutes: 0,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("rejects requests changing state from pages of other origins", async () => {
+    const request = (origin: string) =>
+      app.request("http://localhost:8080/api/rules/reload", {
+        method: "POST",
+        headers: { Host: "localhost:8080", Origin: origin },
+      });
+
+    expect((await request("http://localhost:3001")).status).toBe(403);
+    expect((await request("http://localhost:8080")).status).not.toBe(403);
+  });
+
+  it("only allows its own origin to read responses", async () => {
+    const request = (origin: string) =>
+      app.request("http://localhost:8080/api/config", {
+        headers: { Host: "localhost:8080", Origin: origin },
+      });
+
+    expect(
+      (await request("https://evil.example")).headers.get(
+        "Access-Control-Allow-Origin",
+      ),
+    ).toBeNull();
+    expect(
+      (await request("http://localhost:8080")).headers.get(
+        "Access-Control-Allow-Origin",
+      ),
+    ).toBe("http://localhost:8080");
+  });
+});
@@ -15,12 +15,75 @@ import {
 import { handleProjectsRequest } from "./handlers/projects.ts";
 import { handleHistoriesRequest } from "./handlers/histories.ts";
 import { handleConversationRequest } from "./handlers/conversations.ts";
+import { handleSearchRequest } from "./handlers/search.ts";
+import { handleExportRequest } from "./handlers/export.ts";
+import { handleForkRequest } from "./handlers/fork.ts";
+import {
+  handleDeleteMetadataRequest,
+  handleGetMetadataRequest,
+  handleUpdateMetadataRequest,
+} from "./handlers/metadata.ts";
 import { handleChatRequest } from "./handlers/chat.ts";
+import {
+  handleActiveStreamRequest,
+  handleLiveStreamRequest,
+} from "./handlers/liveStream.ts";
+import { createChatSocketEvents } from "./handlers/chatSocket.ts";
+import {
+  handleGetSettingsRequest,
+  handleUpdateSettingsRequest,
+} from "./handlers/settings.ts";
 import { handleAbortRequest } from "./handlers/abort.ts";
-import { handleGetRulesRequest, handleReloadRulesRequest } from "./handlers/rules.ts";
+import {
+  handleGetRulesRequest,
+  handleReloadRulesRequest,
+  handleRulesEventsRequest,
+  handleListRulesVersionsRequest,
+  handleGetRulesVersionRequest,
+  handleRollbackRulesRequest,
+  handleUpdateRulesRequest,
+  handleRulesDryRunRequest,
+} from "./handlers/rules.ts";
+import {
+  handleGetPolicyRequest,
+  handleReloadPolicyRequest,
+  handleUpdatePolicyRequest,
+} from "./handlers/policy.ts";
+import { handleUsageRequest } from "./handlers/usage.ts";
+import { handleMetricsRequest } from "./handlers/metrics.ts";
+import {
+  handleAuthStatusRequest,
+  handleLoginRequest,
+  handleLogoutRequest,
+  handleOidcCallbackRequest,
+  handleOidcLoginRequest,
+} from "./handlers/auth.ts";
+import {
+  type AuthContext,
+  createAdminMiddleware,
+  createAuthMiddleware,
+} from "./middleware/auth.ts";
+import { createMetricsMiddleware } from "./middleware/metrics.ts";
+import {
+  createSameOriginMiddleware,
+  isSameOrigin,
+} from "./middleware/origin.ts";
+import { createAuthService } from "./auth/service.ts";
+import type { AuthConfig } from "./auth/types.ts";
+import type { RulesPromptMode } from "./types.ts";
 import { logger } from "./utils/logger.ts";
 import { readBinaryFile } from "./utils/fs-deno.ts";
-import { initializeRulesLoader } from "./rules/loader.ts";
+import { initializeRulesLoader, watchRules } from "./rules/loader.ts";
+import { initializeRulesVersionStore } from "./rules/versions.ts";
+import { initializeHistoryCache } from "./history/summaryCache.ts";
+import { initializePolicyLoader } from "./policy/loader.ts";
+import { initializePolicyAudit } from "./policy/audit.ts";
+import { initializeRedactionLoader } from "./redaction/loader.ts";
+import { initializeSessionOwnership } from "./auth/ownership.ts";
+import { initializeConversationMetadata } from "./history/metadata.ts";
+import { initializeServerSettings } from "./settings/serverSettings.ts";
+import { initializeScheduler, type SchedulerConfig } from "./chat/scheduler.ts";
+import { initializeUsageStore } from "./chat/usage.ts";
 import { cwd } from "node:process";
 
 function getContentType(ext: string): string {
@@ -48,28 +111,47 @@ export interface AppConfig {
   staticPath: string;
   cliPath: string; // Actual CLI script path detected by validateClaudeCli
   defaultProjectPath?: string; // Default project directory
+  dataDir: string; // Directory for server data (audit logs, etc.)
+  rulesPromptMode: RulesPromptMode;
+  auth: AuthConfig;
+  scheduler: SchedulerConfig; // Concurrency limits and timeout of Claude requests
 }
 
 export function createApp(
   runtime: Runtime,
   config: AppConfig,
-): Hono<ConfigContext> {
-  const app = new Hono<ConfigContext>();
+): Hono<ConfigContext & AuthContext> {
+  const app = new Hono<ConfigContext & AuthContext>();
+  const auth = createAuthService(config.auth);
 
   // Store AbortControllers for each request (shared with chat handler)
   const requestAbortControllers = new Map<string, AbortController>();
 
   // Initialize rules loader with project root
   const projectRoot = cwd();
+  initializeRulesVersionStore(config.dataDir);
   initializeRulesLoader(projectRoot);
+  watchRules();
+  initializePolicyLoader(projectRoot);
+  initializeRedactionLoader(projectRoot);
+  initializePolicyAudit(config.dataDir);
+  initializeSessionOwnership(config.dataDir);
+  initializeHistoryCache(config.dataDir);
+  initializeConversationMetadata(config.dataDir);
+  initializeServerSettings(config.dataDir);
+  initializeScheduler(config.scheduler);
+  initializeUsageStore(config.dataDir);
 
-  // CORS middleware
+  // Request counts and latencies of every route
+  app.use("*", createMetricsMiddleware());
+
+  // CORS middleware - only pages served by this server may read responses
   app.use(
     "*",
     cors({
-      origin: "*",
-      allowMethods: ["GET", "POST", "OPTIONS"],
-      allowHeaders: ["Content-Type"],
+      origin: (origin, c) => (isSameOrigin(origin, c) ? origin : null),
+      allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+      allowHeaders: ["Content-Type", "Authorization", "Last-Event-ID"],
     }),
   );
 
@@ -80,9 +162,30 @@ export function createApp(
       debugMode: config.debugMode,
       runtime,
       cliPath: config.cliPath,
+      rulesPromptMode: config.rulesPromptMode,
     }),
   );
 
+  // Cookies are sent along from other pages of the same site, so requests
+  // changing state must come from pages of this server
+  app.on(
+    ["POST", "PUT", "PATCH", "DELETE"],
+    "/api/*",
+    createSameOriginMiddleware(),
+  );
+
+  // Authentication - every API route except /api/auth/* and /api/config
+  app.use("/api/*", createAuthMiddleware(auth));
+
+  // Authentication API
+  app.get("/api/auth/me", (c) => handleAuthStatusRequest(c, auth));
+  app.post("/api/auth/login", (c) => handleLoginRequest(c, auth));
+  app.post("/api/auth/logout", (c) => handleLogoutRequest(c, auth));
+  app.get("/api/auth/oidc/login", (c) => handleOidcLoginRequest(c, auth));
+  app.get("/api/auth/oidc/callback", (c) =>
+    handleOidcCallbackRequest(c, auth),
+  );
+
   // API routes
   app.get("/api/projects", (c) => handleProjectsRequest(c));
 
@@ -94,15 +197,89 @@ export function createApp(
     handleConversationRequest(c),
   );
 
+  app.get(
+    "/api/projects/:encodedProjectName/histories/:sessionId/export",
+    (c) => handleExportRequest(c),
+  );
+
+  app.post(
+    "/api/projects/:encodedProjectName/histories/:sessionId/fork",
+    (c) => handleForkRequest(c),
+  );
+
+  // Conversation titles, tags, pinning and notes
+  app.get(
+    "/api/projects/:encodedProjectName/histories/:sessionId/metadata",
+    (c) => handleGetMetadataRequest(c),
+  );
+  app.put(
+    "/api/projects/:encodedProjectName/histories/:sessionId/metadata",
+    (c) => handleUpdateMetadataRequest(c),
+  );
+  app.delete(
+    "/api/projects/:encodedProjectName/histories/:sessionId/metadata",
+    (c) => handleDeleteMetadataRequest(c),
+  );
+
+  app.get("/api/projects/:encodedProjectName/search", (c) =>
+    handleSearchRequest(c),
+  );
+
   app.post("/api/abort/:requestId", (c) =>
     handleAbortRequest(c, requestAbortControllers),
   );
 
   app.post("/api/chat", (c) => handleChatRequest(c, requestAbortControllers));
+  app.get("/api/chat/active", (c) => handleActiveStreamRequest(c));
+  app.get("/api/chat/:requestId/stream", (c) => handleLiveStreamRequest(c));
+  app.get(
+    "/api/chat/ws",
+    createSameOriginMiddleware(),
+    runtime.upgradeWebSocket((c) =>
+      createChatSocketEvents(c, requestAbortControllers),
+    ),
+  );
 
   // Rules management API
   app.get("/api/rules", (c) => handleGetRulesRequest(c));
-  app.post("/api/rules/reload", (c) => handleReloadRulesRequest(c));
+  app.put("/api/rules", createAdminMiddleware(), (c) =>
+    handleUpdateRulesRequest(c),
+  );
+  app.post("/api/rules/dry-run", createAdminMiddleware(), (c) =>
+    handleRulesDryRunRequest(c, requestAbortControllers),
+  );
+  app.post("/api/rules/reload", createAdminMiddleware(), (c) =>
+    handleReloadRulesRequest(c),
+  );
+  app.get("/api/rules/events", (c) => handleRulesEventsRequest(c));
+  app.get("/api/rules/versions", (c) => handleListRulesVersionsRequest(c));
+  app.get("/api/rules/versions/:hash", (c) =>
+    handleGetRulesVersionRequest(c),
+  );
+  app.post("/api/rules/rollback/:hash", createAdminMiddleware(), (c) =>
+    handleRollbackRulesRequest(c),
+  );
+
+  // Tool policy API
+  app.get("/api/policy", (c) => handleGetPolicyRequest(c));
+  app.post("/api/policy", createAdminMiddleware(), (c) =>
+    handleUpdatePolicyRequest(c),
+  );
+  app.post("/api/policy/reload", createAdminMiddleware(), (c) =>
+    handleReloadPolicyRequest(c),
+  );
+
+  // Server settings API
+  app.get("/api/settings", (c) => handleGetSettingsRequest(c));
+  app.put("/api/settings", createAdminMiddleware(), (c) =>
+    handleUpdateSettingsRequest(c),
+  );
+
+  // Usage API
+  app.get("/api/usage", (c) => handleUsageRequest(c));
+
+  // Prometheus metrics, outside /api so scrapers need no login
+  app.get("/metrics", (c) => handleMetricsRequest(c, requestAbortControllers));
 
   // Config API - return frontend configuration
   app.get("/api/config", (c) => {
@@ -0,0 +1,32 @@
+/**
+ * Cryptographic helpers shared by the authentication strategies
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Compare two strings in constant time
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+  return timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Generate a random URL-safe string
+ * @param bytes - Number of random bytes
+ */
+export function randomToken(bytes = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * SHA-256 digest encoded as base64url (used for PKCE code challenges)
+ */
+export function sha256Base64Url(value: string): string {
+  return createHash("sha256").update(value).digest("base64url");
+}
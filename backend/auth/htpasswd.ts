@@ -0,0 +1,185 @@
+/**
+ * htpasswd basic authentication
+ *
+ * Verifies users against an Apache htpasswd file. Supported hash formats:
+ * - $apr1$ (htpasswd -m, the default on most systems)
+ * - {SHA} (htpasswd -s)
+ * - plain text (htpasswd -p)
+ * bcrypt hashes ($2y$) are not supported and are rejected with a warning.
+ */
+
+import type { Context } from "hono";
+import { createHash } from "node:crypto";
+import { logger } from "../utils/logger.ts";
+import { readTextFile } from "../utils/fs.ts";
+import { safeEqual } from "./crypto.ts";
+import type { AuthStrategy, AuthUser } from "./types.ts";
+
+const APR1_MAGIC = "$apr1$";
+const ITOA64 =
+  "./0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+function md5(...parts: Buffer[]): Buffer {
+  const hash = createHash("md5");
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return hash.digest();
+}
+
+function to64(value: number, length: number): string {
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += ITOA64[value & 0x3f];
+    value >>= 6;
+  }
+  return result;
+}
+
+/**
+ * Compute an Apache APR1 MD5 hash
+ * @param password - Plain text password
+ * @param salt - Salt (up to 8 characters)
+ * @returns Full hash in "$apr1$salt$hash" format
+ */
+export function apr1Hash(password: string, salt: string): string {
+  const pw = Buffer.from(password);
+  const saltBuffer = Buffer.from(salt.substring(0, 8));
+  const magic = Buffer.from(APR1_MAGIC);
+
+  let final = md5(pw, saltBuffer, pw);
+  const ctx: Buffer[] = [pw, magic, saltBuffer];
+  for (let remaining = pw.length; remaining > 0; remaining -= 16) {
+    ctx.push(final.subarray(0, Math.min(remaining, 16)));
+  }
+  for (let i = pw.length; i; i >>= 1) {
+    ctx.push(i & 1 ? Buffer.from([0]) : pw.subarray(0, 1));
+  }
+  final = md5(...ctx);
+
+  for (let i = 0; i < 1000; i++) {
+    const round: Buffer[] = [i & 1 ? pw : final];
+    if (i % 3) round.push(saltBuffer);
+    if (i % 7) round.push(pw);
+    round.push(i & 1 ? final : pw);
+    final = md5(...round);
+  }
+
+  const f = final;
+  const hash =
+    to64((f[0] << 16) | (f[6] << 8) | f[12], 4) +
+    to64((f[1] << 16) | (f[7] << 8) | f[13], 4) +
+    to64((f[2] << 16) | (f[8] << 8) | f[14], 4) +
+    to64((f[3] << 16) | (f[9] << 8) | f[15], 4) +
+    to64((f[4] << 16) | (f[10] << 8) | f[5], 4) +
+    to64(f[11], 2);
+
+  return `${APR1_MAGIC}${salt.substring(0, 8)}$${hash}`;
+}
+
+/**
+ * Verify a password against a single htpasswd hash
+ */
+export function verifyHtpasswdHash(password: string, hash: string): boolean {
+  if (hash.startsWith(APR1_MAGIC)) {
+    const salt = hash.substring(APR1_MAGIC.length).split("$")[0];
+    return safeEqual(apr1Hash(password, salt), hash);
+  }
+  if (hash.startsWith("{SHA}")) {
+    const digest = createHash("sha1").update(password).digest("base64");
+    return safeEqual(`{SHA}${digest}`, hash);
+  }
+  if (/^\$2[abxy]\$/.test(hash)) {
+    logger.api.warn("bcrypt hashes are not supported in htpasswd files");
+    return false;
+  }
+  return safeEqual(password, hash);
+}
+
+/**
+ * Parse htpasswd file content into a username → hash map
+ */
+export function parseHtpasswd(content: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+    const separator = trimmed.indexOf(":");
+    if (separator > 0) {
+      entries.set(
+        trimmed.substring(0, separator),
+        trimmed.substring(separator + 1),
+      );
+    }
+  }
+  return entries;
+}
+
+/**
+ * Extract username and password from an "Authorization: Basic ..." header
+ */
+function getBasicCredentials(
+  c: Context,
+): { username: string; password: string } | null {
+  const header = c.req.header("Authorization");
+  const match = header?.match(/^Basic\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  const decoded = Buffer.from(match[1].trim(), "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  if (separator < 0) {
+    return null;
+  }
+  return {
+    username: decoded.substring(0, separator),
+    password: decoded.substring(separator + 1),
+  };
+}
+
+/**
+ * Create a strategy verifying users against an htpasswd file
+ * The file is re-read on every login, so users can be added without a restart
+ * @param htpasswdPath - Path configured with --htpasswd
+ */
+export function createHtpasswdStrategy(htpasswdPath: string): AuthStrategy {
+  const verify = async (
+    username: string | undefined,
+    password: string | undefined,
+  ): Promise<AuthUser | null> => {
+    if (!username || password === undefined) {
+      return null;
+    }
+
+    let entries: Map<string, string>;
+    try {
+      entries = parseHtpasswd(await readTextFile(htpasswdPath));
+    } catch (error) {
+      logger.api.error("Failed to read htpasswd file {path}: {error}", {
+        path: htpasswdPath,
+        error,
+      });
+      return null;
+    }
+
+    const hash = entries.get(username);
+    if (!hash || !verifyHtpasswdHash(password, hash)) {
+      return null;
+    }
+    return { id: username, name: username, provider: "basic" };
+  };
+
+  return {
+    mode: "basic",
+    authenticateRequest: async (c) => {
+      const credentials = getBasicCredentials(c);
+      return credentials
+        ? await verify(credentials.username, credentials.password)
+        : null;
+    },
+    login: async (credentials) =>
+      await verify(credentials.username, credentials.password),
+  };
+}
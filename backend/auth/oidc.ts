@@ -0,0 +1,237 @@
+/**
+ * OpenID Connect login flow
+ *
+ * Implements the authorization code flow with PKCE. ID tokens are verified
+ * against the provider's JWKS (RS256) before a session is created.
+ */
+
+import { createPublicKey, verify, type JsonWebKey } from "node:crypto";
+import { logger } from "../utils/logger.ts";
+import { randomToken, sha256Base64Url } from "./crypto.ts";
+import type { AuthUser, OidcConfig } from "./types.ts";
+
+/** How long a started login may take before it expires */
+export const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+/** Allowed clock difference when checking token expiry */
+const CLOCK_SKEW_SECONDS = 60;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  returnTo: string;
+  createdAt: number;
+}
+
+interface IdTokenClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nonce?: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+}
+
+export interface OidcClient {
+  /**
+   * Start a login and return the provider URL to redirect the browser to,
+   * with the state the callback must come back with
+   */
+  getAuthorizationUrl: (
+    returnTo: string,
+  ) => Promise<{ url: string; state: string }>;
+  /** Complete a login from the callback parameters */
+  handleCallback: (
+    code: string,
+    state: string,
+  ) => Promise<{ user: AuthUser; returnTo: string }>;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(
+      `OIDC request to ${url} failed: ${response.status} ${await response.text()}`,
+    );
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Create an OIDC client for the configured provider
+ * @param config - Provider settings from the command line
+ */
+export function createOidcClient(config: OidcConfig): OidcClient {
+  const pendingLogins = new Map<string, PendingLogin>();
+  let discovery: Promise<OidcDiscovery> | null = null;
+  let jwks: (JsonWebKey & { kid?: string })[] = [];
+
+  const getDiscovery = (): Promise<OidcDiscovery> => {
+    if (!discovery) {
+      const url = `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+      discovery = fetchJson<OidcDiscovery>(url).catch((error) => {
+        // Retry discovery on the next login
+        discovery = null;
+        throw error;
+      });
+    }
+    return discovery;
+  };
+
+  const findSigningKey = async (kid?: string) => {
+    const find = () => jwks.find((key) => !kid || key.kid === kid);
+    if (!find()) {
+      // Unknown key id - the provider may have rotated its keys
+      const { jwks_uri } = await getDiscovery();
+      jwks = (await fetchJson<{ keys: JsonWebKey[] }>(jwks_uri)).keys;
+    }
+    const key = find();
+    if (!key) {
+      throw new Error(`OIDC login failed: signing key ${kid} not found`);
+    }
+    return createPublicKey({ key, format: "jwk" });
+  };
+
+  const verifyIdToken = async (
+    idToken: string,
+    nonce: string,
+  ): Promise<IdTokenClaims> => {
+    const [headerSegment, payloadSegment, signatureSegment] =
+      idToken.split(".");
+    if (!headerSegment || !payloadSegment || !signatureSegment) {
+      throw new Error("OIDC login failed: malformed ID token");
+    }
+
+    const header = decodeSegment<{ alg?: string; kid?: string }>(headerSegment);
+    if (header.alg !== "RS256") {
+      throw new Error(
+        `OIDC login failed: unsupported signing algorithm ${header.alg}`,
+      );
+    }
+
+    const key = await findSigningKey(header.kid);
+    const valid = verify(
+      "RSA-SHA256",
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      key,
+      Buffer.from(signatureSegment, "base64url"),
+    );
+    if (!valid) {
+      throw new Error("OIDC login failed: invalid ID token signature");
+    }
+
+    const claims = decodeSegment<IdTokenClaims>(payloadSegment);
+    const { issuer } = await getDiscovery();
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== issuer) {
+      throw new Error("OIDC login failed: unexpected token issuer");
+    }
+    if (!audiences.includes(config.clientId)) {
+      throw new Error("OIDC login failed: token not issued for this client");
+    }
+    if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new Error("OIDC login failed: ID token expired");
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error("OIDC login failed: nonce mismatch");
+    }
+    if (!claims.sub) {
+      throw new Error("OIDC login failed: ID token has no subject");
+    }
+
+    return claims;
+  };
+
+  return {
+    getAuthorizationUrl: async (returnTo) => {
+      const { authorization_endpoint } = await getDiscovery();
+
+      // Drop logins that were never completed
+      const now = Date.now();
+      for (const [state, login] of pendingLogins) {
+        if (now - login.createdAt > PENDING_LOGIN_TTL_MS) {
+          pendingLogins.delete(state);
+        }
+      }
+
+      const state = randomToken();
+      const login: PendingLogin = {
+        codeVerifier: randomToken(48),
+        nonce: randomToken(),
+        returnTo,
+        createdAt: now,
+      };
+      pendingLogins.set(state, login);
+
+      const url = new URL(authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", config.clientId);
+      url.searchParams.set("redirect_uri", config.redirectUri);
+      url.searchParams.set("scope", config.scopes.join(" "));
+      url.searchParams.set("state", state);
+      url.searchParams.set("nonce", login.nonce);
+      url.searchParams.set(
+        "code_challenge",
+        sha256Base64Url(login.codeVerifier),
+      );
+      url.searchParams.set("code_challenge_method", "S256");
+      return { url: url.toString(), state };
+    },
+
+    handleCallback: async (code, state) => {
+      const login = pendingLogins.get(state);
+      pendingLogins.delete(state);
+      if (!login || Date.now() - login.createdAt > PENDING_LOGIN_TTL_MS) {
+        throw new Error("OIDC login failed: unknown or expired login state");
+      }
+
+      const { token_endpoint } = await getDiscovery();
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.redirectUri,
+        client_id: config.clientId,
+        code_verifier: login.codeVerifier,
+      });
+      if (config.clientSecret) {
+        body.set("client_secret", config.clientSecret);
+      }
+
+      const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+      });
+      if (!tokens.id_token) {
+        throw new Error("OIDC login failed: no ID token in token response");
+      }
+
+      const claims = await verifyIdToken(tokens.id_token, login.nonce);
+      const sub = claims.sub as string;
+      logger.api.info("OIDC login for {sub}", { sub });
+
+      return {
+        user: {
+          id: sub,
+          name: claims.name || claims.preferred_username || claims.email || sub,
+          provider: "oidc",
+        },
+        returnTo: login.returnTo,
+      };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  canAccessSession,
+  filterAccessibleSessions,
+  initializeSessionOwnership,
+  recordSessionOwner,
+} from "./ownership.ts";
+import type { AuthUser } from "./types.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    history: {
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const alice: AuthUser = { id: "alice", name: "Alice", provider: "basic" };
+const bob: AuthUser = { id: "bob", name: "Bob", provider: "basic" };
+const admin: AuthUser = {
+  id: "root",
+  name: "Root",
+  provider: "basic",
+  isAdmin: true,
+};
+
+describe("Session ownership", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "ownership-test-"));
+    initializeSessionOwnership(dataDir);
+    await recordSessionOwner("session-a", alice, {
+      workingDirectory: "/work/project",
+      rulesHash: "0123456789ab",
+    });
+    await recordSessionOwner("session-b", bob);
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("only lets owners and admins access a session", async () => {
+    expect(await canAccessSession(alice, "session-a")).toBe(true);
+    expect(await canAccessSession(bob, "session-a")).toBe(false);
+    expect(await canAccessSession(admin, "session-a")).toBe(true);
+  });
+
+  it("keeps sessions without an owner admin only", async () => {
+    expect(await canAccessSession(alice, "session-cli")).toBe(false);
+    expect(await canAccessSession(admin, "session-cli")).toBe(true);
+  });
+
+  it("filters history lists by owner", async () => {
+    const items = [
+      { sessionId: "session-a" },
+      { sessionId: "session-b" },
+      { sessionId: "session-cli" },
+    ];
+
+    expect(await filterAccessibleSessions(alice, items)).toEqual([
+      { sessionId: "session-a" },
+    ]);
+    expect(await filterAccessibleSessions(admin, items)).toHaveLength(3);
+  });
+
+  it("does not transfer ownership when another user resumes", async () => {
+    await recordSessionOwner("session-a", bob);
+    expect(await canAccessSession(bob, "session-a")).toBe(false);
+  });
+
+  it("persists the index in the data directory", async () => {
+    const index = JSON.parse(
+      await readFile(join(dataDir, "sessions.json"), "utf8"),
+    );
+    expect(index["session-a"]).toMatchObject({
+      owner: "alice",
+      ownerName: "Alice",
+      workingDirectory: "/work/project",
+      rulesHash: "0123456789ab",
+    });
+
+    // A fresh load reads the same owners back
+    initializeSessionOwnership(dataDir);
+    expect(await canAccessSession(bob, "session-b")).toBe(true);
+  });
+});
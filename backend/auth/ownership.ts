@@ -0,0 +1,167 @@
+/**
+ * Session ownership index
+ *
+ * Claude stores all conversations of a project in one directory, without any
+ * notion of who started them. This index maps each Claude session ID to the
+ * user whose chat request created it, so that users only see their own
+ * sessions. It is persisted as JSON in <dataDir>/sessions.json.
+ */
+
+import { dirname, join } from "node:path";
+import { logger } from "../utils/logger.ts";
+import { ensureDir, exists, readTextFile, writeTextFile } from "../utils/fs.ts";
+import type { AuthUser } from "./types.ts";
+
+export interface SessionOwnerRecord {
+  owner: string; // User id
+  ownerName: string; // Display name at the time the session was created
+  workingDirectory?: string;
+  rulesHash?: string; // Rules the session was started with
+  createdAt: string;
+}
+
+/** Details recorded with a new session */
+export interface SessionDetails {
+  workingDirectory?: string;
+  rulesHash?: string;
+}
+
+/** Path of the index file, null keeps the index in memory only */
+let indexPath: string | null = null;
+
+/** Loaded index by session ID */
+let owners: Map<string, SessionOwnerRecord> | null = null;
+
+/** Serializes writes so concurrent requests don't overwrite each other */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the ownership index with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializeSessionOwnership(dataDir: string): void {
+  indexPath = join(dataDir, "sessions.json");
+  owners = null;
+}
+
+async function loadIndex(): Promise<Map<string, SessionOwnerRecord>> {
+  if (owners) {
+    return owners;
+  }
+
+  const loaded = new Map<string, SessionOwnerRecord>();
+  if (indexPath && (await exists(indexPath))) {
+    try {
+      const data = JSON.parse(await readTextFile(indexPath)) as Record<
+        string,
+        SessionOwnerRecord
+      >;
+      for (const [sessionId, record] of Object.entries(data)) {
+        loaded.set(sessionId, record);
+      }
+    } catch (error) {
+      logger.history.error("Failed to read session ownership index: {error}", {
+        error,
+      });
+    }
+  }
+
+  owners = loaded;
+  return loaded;
+}
+
+function saveIndex(index: Map<string, SessionOwnerRecord>): Promise<void> {
+  const path = indexPath;
+  if (!path) {
+    return Promise.resolve();
+  }
+
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await ensureDir(dirname(path));
+      await writeTextFile(
+        path,
+        JSON.stringify(Object.fromEntries(index), null, 2) + "\n",
+      );
+    } catch (error) {
+      logger.history.error("Failed to write session ownership index: {error}", {
+        error,
+      });
+    }
+  });
+  return pendingWrite;
+}
+
+/**
+ * Record the user who created a session
+ * Sessions keep their first owner, resuming does not transfer them
+ * @param sessionId - Claude session ID
+ * @param user - User whose chat request created the session
+ * @param details - Project directory and rules of the session
+ */
+export async function recordSessionOwner(
+  sessionId: string,
+  user: AuthUser,
+  details: SessionDetails = {},
+): Promise<void> {
+  const index = await loadIndex();
+  if (index.has(sessionId)) {
+    return;
+  }
+
+  index.set(sessionId, {
+    owner: user.id,
+    ownerName: user.name,
+    ...(details.workingDirectory
+      ? { workingDirectory: details.workingDirectory }
+      : {}),
+    ...(details.rulesHash ? { rulesHash: details.rulesHash } : {}),
+    createdAt: new Date().toISOString(),
+  });
+  logger.history.debug("Session {sessionId} owned by {user}", {
+    sessionId,
+    user: user.id,
+  });
+  await saveIndex(index);
+}
+
+/**
+ * Get the ownership record of a session
+ * @returns Record, or null for sessions created outside the web UI
+ */
+export async function getSessionOwner(
+  sessionId: string,
+): Promise<SessionOwnerRecord | null> {
+  return (await loadIndex()).get(sessionId) ?? null;
+}
+
+/**
+ * Check whether a user may view or resume a session
+ * Sessions without an owner (e.g. started from the CLI) are admin only
+ */
+export async function canAccessSession(
+  user: AuthUser,
+  sessionId: string,
+): Promise<boolean> {
+  if (user.isAdmin) {
+    return true;
+  }
+  return (await getSessionOwner(sessionId))?.owner === user.id;
+}
+
+/**
+ * Keep only the sessions a user may access
+ * @param user - Current user
+ * @param items - Items identified by a session ID
+ */
+export async function filterAccessibleSessions<T extends { sessionId: string }>(
+  user: AuthUser,
+  items: T[],
+): Promise<T[]> {
+  if (user.isAdmin) {
+    return items;
+  }
+
+  const index = await loadIndex();
+  return items.filter((item) => index.get(item.sessionId)?.owner === user.id);
+}
@@ -0,0 +1,138 @@
+/**
+ * Authentication service
+ *
+ * Combines the configured strategy with cookie-based sessions. API clients
+ * can authenticate every request with an Authorization header, while the
+ * browser logs in once and then sends the session cookie.
+ */
+
+import type { Context } from "hono";
+import { deleteCookie, getSignedCookie, setSignedCookie } from "hono/cookie";
+import { createHtpasswdStrategy } from "./htpasswd.ts";
+import { createOidcClient, type OidcClient } from "./oidc.ts";
+import { createSession, deleteSession, getSession } from "./sessions.ts";
+import { createTokenStrategy } from "./token.ts";
+import type { AuthConfig, AuthStrategy, AuthUser } from "./types.ts";
+
+/** Name of the session cookie */
+export const SESSION_COOKIE_NAME = "fs_helper_session";
+
+/** User for all requests when authentication is disabled */
+export const LOCAL_USER: AuthUser = {
+  id: "local",
+  name: "Local user",
+  provider: "none",
+  isAdmin: true,
+};
+
+export interface AuthService {
+  config: AuthConfig;
+  strategy: AuthStrategy | null; // null when authentication is disabled
+  oidc: OidcClient | null; // Only set in oidc mode
+  /** Resolve the user of a request from its session cookie or Authorization header */
+  getUser: (c: Context) => Promise<AuthUser | null>;
+  /** Attach the role from --admin-users to an authenticated user */
+  withRole: (user: AuthUser) => AuthUser;
+  /** Create a session and set the session cookie */
+  startSession: (c: Context, user: AuthUser) => Promise<void>;
+  /** End the current session and clear the cookie */
+  endSession: (c: Context) => Promise<void>;
+}
+
+function createStrategy(config: AuthConfig): AuthStrategy | null {
+  switch (config.mode) {
+    case "token":
+      if (!config.token) {
+        throw new Error("--auth-token is required for token authentication");
+      }
+      return createTokenStrategy(config.token);
+    case "basic":
+      if (!config.htpasswdPath) {
+        throw new Error("--htpasswd is required for basic authentication");
+      }
+      return createHtpasswdStrategy(config.htpasswdPath);
+    case "oidc":
+      // Browser login only, API requests use the session cookie
+      return { mode: "oidc", authenticateRequest: async () => null };
+    case "none":
+      return null;
+  }
+}
+
+/**
+ * Create the authentication service for the configured mode
+ * @throws Error when the configuration for the mode is incomplete
+ */
+export function createAuthService(config: AuthConfig): AuthService {
+  const strategy = createStrategy(config);
+  let oidc: OidcClient | null = null;
+  if (config.mode === "oidc") {
+    if (!config.oidc) {
+      throw new Error(
+        "--oidc-issuer, --oidc-client-id and --oidc-redirect-uri are required for OIDC authentication",
+      );
+    }
+    oidc = createOidcClient(config.oidc);
+  }
+
+  const getSessionId = async (c: Context): Promise<string | null> => {
+    const value = await getSignedCookie(
+      c,
+      config.sessionSecret,
+      SESSION_COOKIE_NAME,
+    );
+    return typeof value === "string" ? value : null;
+  };
+
+  const withRole = (user: AuthUser): AuthUser => ({
+    ...user,
+    isAdmin: config.adminUsers.includes(user.id),
+  });
+
+  return {
+    config,
+    strategy,
+    oidc,
+    withRole,
+
+    getUser: async (c) => {
+      if (!strategy) {
+        return LOCAL_USER;
+      }
+
+      const sessionId = await getSessionId(c);
+      const session = sessionId ? getSession(sessionId) : null;
+      const user = session
+        ? session.user
+        : await strategy.authenticateRequest(c);
+
+      return user ? withRole(user) : null;
+    },
+
+    startSession: async (c, user) => {
+      const ttlMs = config.sessionTtlHours * 60 * 60 * 1000;
+      const session = createSession(user, ttlMs);
+      await setSignedCookie(
+        c,
+        SESSION_COOKIE_NAME,
+        session.id,
+        config.sessionSecret,
+        {
+          path: "/",
+          httpOnly: true,
+          sameSite: "Lax",
+          secure: new URL(c.req.url).protocol === "https:",
+          maxAge: Math.floor(ttlMs / 1000),
+        },
+      );
+    },
+
+    endSession: async (c) => {
+      const sessionId = await getSessionId(c);
+      if (sessionId) {
+        deleteSession(sessionId);
+      }
+      deleteCookie(c, SESSION_COOKIE_NAME, { path: "/" });
+    },
+  };
+}
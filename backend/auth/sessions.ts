@@ -0,0 +1,67 @@
+/**
+ * In-memory login sessions
+ *
+ * Sessions are referenced by a signed cookie and are lost on restart,
+ * which simply asks users to log in again.
+ */
+
+import { randomToken } from "./crypto.ts";
+import type { AuthUser } from "./types.ts";
+
+export interface AuthSession {
+  id: string;
+  user: AuthUser;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/** Active sessions by id */
+const sessions = new Map<string, AuthSession>();
+
+/**
+ * Create a session for a logged in user
+ * @param user - Authenticated user
+ * @param ttlMs - Session lifetime in milliseconds
+ */
+export function createSession(user: AuthUser, ttlMs: number): AuthSession {
+  const now = Date.now();
+
+  // Drop expired sessions while we are here
+  for (const [id, session] of sessions) {
+    if (session.expiresAt <= now) {
+      sessions.delete(id);
+    }
+  }
+
+  const session: AuthSession = {
+    id: randomToken(),
+    user,
+    createdAt: now,
+    expiresAt: now + ttlMs,
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+/**
+ * Get a session by id
+ * @returns Session, or null when unknown or expired
+ */
+export function getSession(id: string): AuthSession | null {
+  const session = sessions.get(id);
+  if (!session) {
+    return null;
+  }
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(id);
+    return null;
+  }
+  return session;
+}
+
+/**
+ * End a session (logout)
+ */
+export function deleteSession(id: string): void {
+  sessions.delete(id);
+}
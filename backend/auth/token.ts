@@ -0,0 +1,37 @@
+/**
+ * Static bearer token authentication
+ */
+
+import type { Context } from "hono";
+import { safeEqual } from "./crypto.ts";
+import type { AuthStrategy, AuthUser } from "./types.ts";
+
+const TOKEN_USER: AuthUser = {
+  id: "token",
+  name: "Token user",
+  provider: "token",
+};
+
+/**
+ * Extract the token from an "Authorization: Bearer <token>" header
+ */
+export function getBearerToken(c: Context): string | null {
+  const header = c.req.header("Authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Create a strategy accepting a single shared token
+ * @param token - Token configured with --auth-token
+ */
+export function createTokenStrategy(token: string): AuthStrategy {
+  const verify = (candidate: string | null | undefined): AuthUser | null =>
+    candidate && safeEqual(candidate, token) ? TOKEN_USER : null;
+
+  return {
+    mode: "token",
+    authenticateRequest: async (c) => verify(getBearerToken(c)),
+    login: async (credentials) => verify(credentials.token),
+  };
+}
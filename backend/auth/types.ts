@@ -0,0 +1,54 @@
+/**
+ * Authentication type definitions
+ */
+
+import type { Context } from "hono";
+import type { AuthMode, AuthUser } from "../../shared/types.ts";
+
+export type { AuthMode, AuthUser };
+
+/**
+ * How users authenticate
+ * - none: no authentication (local use only)
+ * - token: static bearer token shared with the team
+ * - basic: username/password from an htpasswd file
+ * - oidc: login through an OpenID Connect provider
+ */
+export const AUTH_MODES: AuthMode[] = ["none", "token", "basic", "oidc"];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Optional for public clients (PKCE only)
+  redirectUri: string; // Must point to /api/auth/oidc/callback
+  scopes: string[];
+}
+
+/** Authentication settings from the command line */
+export interface AuthConfig {
+  mode: AuthMode;
+  token?: string;
+  htpasswdPath?: string;
+  oidc?: OidcConfig;
+  sessionSecret: string; // Secret for signing session cookies
+  sessionTtlHours: number;
+  adminUsers: string[]; // User ids with the admin role
+}
+
+/** Credentials posted by the login page */
+export interface LoginCredentials {
+  token?: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * A pluggable way of authenticating requests
+ */
+export interface AuthStrategy {
+  mode: AuthMode;
+  /** Authenticate an API request from its Authorization header */
+  authenticateRequest: (c: Context) => Promise<AuthUser | null>;
+  /** Verify credentials from the login page, when supported */
+  login?: (credentials: LoginCredentials) => Promise<AuthUser | null>;
+}
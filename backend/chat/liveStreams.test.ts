@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { AuthUser, StreamResponse } from "../../shared/types.ts";
+import {
+  LIVE_STREAM_BUFFER_SIZE,
+  type LiveStreamChunk,
+  appendLiveStreamChunk,
+  findLiveStreamBySession,
+  finishLiveStream,
+  followLiveStream,
+  getLiveStreamInfo,
+  setLiveStreamSession,
+  startLiveStream,
+} from "./liveStreams.ts";
+
+const alice: AuthUser = { id: "alice", name: "Alice", provider: "oidc" };
+const bob: AuthUser = { id: "bob", name: "Bob", provider: "oidc" };
+const admin: AuthUser = {
+  id: "admin",
+  name: "Admin",
+  provider: "oidc",
+  isAdmin: true,
+};
+
+const text = (value: string): StreamResponse => ({
+  type: "claude_json",
+  data: value,
+});
+
+async function collect(
+  stream: AsyncGenerator<LiveStreamChunk>,
+): Promise<StreamResponse[]> {
+  const chunks: StreamResponse[] = [];
+  for await (const { chunk } of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("Live streams", () => {
+  it("replays buffered chunks and follows new ones", async () => {
+    startLiveStream("r1", alice, { message: "Hello" });
+    appendLiveStreamChunk("r1", text("a"));
+    appendLiveStreamChunk("r1", text("b"));
+
+    const following = collect(followLiveStream("r1", 1));
+    appendLiveStreamChunk("r1", text("c"));
+    appendLiveStreamChunk("r1", { type: "done" });
+    finishLiveStream("r1");
+
+    expect(await following).toEqual([text("b"), text("c"), { type: "done" }]);
+    expect(await collect(followLiveStream("r1", 0))).toHaveLength(4);
+  });
+
+  it("stops following when aborted", async () => {
+    startLiveStream("r2", alice, { message: "Hello" });
+    appendLiveStreamChunk("r2", text("a"));
+
+    const abortController = new AbortController();
+    const following = collect(
+      followLiveStream("r2", 0, abortController.signal),
+    );
+    abortController.abort();
+
+    expect(await following).toEqual([text("a")]);
+    finishLiveStream("r2");
+  });
+
+  it("skips chunks dropped from the buffer", async () => {
+    startLiveStream("r3", alice, { message: "Hello" });
+    for (let index = 0; index < LIVE_STREAM_BUFFER_SIZE + 5; index++) {
+      appendLiveStreamChunk("r3", text(String(index)));
+    }
+    finishLiveStream("r3");
+
+    const chunks = await collect(followLiveStream("r3", 0));
+    expect(chunks).toHaveLength(LIVE_STREAM_BUFFER_SIZE);
+    expect(chunks[0]).toEqual(text("5"));
+  });
+
+  it("numbers chunks by their position in the stream", async () => {
+    startLiveStream("r5", alice, { message: "Hello" });
+    appendLiveStreamChunk("r5", text("a"));
+    appendLiveStreamChunk("r5", text("b"));
+    finishLiveStream("r5");
+
+    const ids: number[] = [];
+    for await (const { id } of followLiveStream("r5", 1)) {
+      ids.push(id);
+    }
+    expect(ids).toEqual([1]);
+  });
+
+  it("keeps the first stream when a request ID is reused", async () => {
+    expect(startLiveStream("r6", alice, { message: "Hello" })).toBe(true);
+    appendLiveStreamChunk("r6", text("a"));
+
+    expect(startLiveStream("r6", bob, { message: "Hijack" })).toBe(false);
+    expect(getLiveStreamInfo(bob, "r6")).toBeNull();
+    expect(getLiveStreamInfo(alice, "r6")?.message).toBe("Hello");
+
+    finishLiveStream("r6");
+    expect(startLiveStream("r6", bob, { message: "Hijack" })).toBe(false);
+    expect(await collect(followLiveStream("r6", 0))).toEqual([text("a")]);
+  });
+
+  it("finds streams by session for their owner and admins", () => {
+    startLiveStream("r4", alice, {
+      message: "Continue",
+      resumedSessionId: "old-session",
+    });
+    setLiveStreamSession("r4", "new-session");
+
+    expect(findLiveStreamBySession(alice, "old-session")).toMatchObject({
+      requestId: "r4",
+      sessionId: "new-session",
+      message: "Continue",
+      done: false,
+    });
+    expect(findLiveStreamBySession(admin, "new-session")?.requestId).toBe("r4");
+    expect(findLiveStreamBySession(bob, "new-session")).toBeNull();
+    expect(getLiveStreamInfo(bob, "r4")).toBeNull();
+    expect(getLiveStreamInfo(alice, "missing")).toBeNull();
+    finishLiveStream("r4");
+  });
+});
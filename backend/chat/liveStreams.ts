@@ -0,0 +1,210 @@
+/**
+ * Live streams of chat requests
+ *
+ * Claude keeps working when the browser tab that sent a request is closed.
+ * Every chunk sent for a request is kept in a ring buffer, so the stream can
+ * be replayed and followed again after a refresh or from another device.
+ * Buffers are kept in memory for a while after the request finished.
+ */
+
+import type {
+  AuthUser,
+  LiveStreamInfo,
+  StreamResponse,
+} from "../../shared/types.ts";
+
+/** Chunks kept per request, older ones are dropped */
+export const LIVE_STREAM_BUFFER_SIZE = 2000;
+
+/** How long a finished stream can still be replayed */
+export const LIVE_STREAM_RETENTION_MS = 10 * 60 * 1000;
+
+export interface LiveStreamChunk {
+  id: number; // Index of the chunk in the request's stream
+  chunk: StreamResponse;
+}
+
+interface LiveStream {
+  info: LiveStreamInfo;
+  userId: string;
+  chunks: StreamResponse[]; // Ring buffer, chunk n is at n % LIVE_STREAM_BUFFER_SIZE
+  waiters: Set<() => void>;
+}
+
+/** Streams by request ID */
+const streams = new Map<string, LiveStream>();
+
+function wakeFollowers(stream: LiveStream): void {
+  for (const wake of stream.waiters) {
+    wake();
+  }
+  stream.waiters.clear();
+}
+
+/**
+ * Start buffering the chunks of a request
+ * @param requestId - Request ID chosen by the client
+ * @param user - User who sent the request
+ * @param options - Message sent and the session it resumes
+ * @returns False when the request ID already has a stream, running or kept
+ *   for replay, which is left as it is
+ */
+export function startLiveStream(
+  requestId: string,
+  user: AuthUser,
+  options: { message: string; resumedSessionId?: string },
+): boolean {
+  if (streams.has(requestId)) {
+    return false;
+  }
+  streams.set(requestId, {
+    info: {
+      requestId,
+      sessionId: null,
+      resumedSessionId: options.resumedSessionId ?? null,
+      message: options.message,
+      chunkCount: 0,
+      done: false,
+      startedAt: new Date().toISOString(),
+    },
+    userId: user.id,
+    chunks: [],
+    waiters: new Set(),
+  });
+  return true;
+}
+
+/**
+ * Add a chunk to the stream of a request and pass it to its followers
+ */
+export function appendLiveStreamChunk(
+  requestId: string,
+  chunk: StreamResponse,
+): void {
+  const stream = streams.get(requestId);
+  if (!stream || stream.info.done) {
+    return;
+  }
+  stream.chunks[stream.info.chunkCount % LIVE_STREAM_BUFFER_SIZE] = chunk;
+  stream.info.chunkCount++;
+  wakeFollowers(stream);
+}
+
+/**
+ * Record the session ID Claude reported for a request
+ */
+export function setLiveStreamSession(
+  requestId: string,
+  sessionId: string,
+): void {
+  const stream = streams.get(requestId);
+  if (stream) {
+    stream.info.sessionId = sessionId;
+  }
+}
+
+/**
+ * Mark the stream of a request as complete
+ * The buffer is removed after LIVE_STREAM_RETENTION_MS
+ */
+export function finishLiveStream(requestId: string): void {
+  const stream = streams.get(requestId);
+  if (!stream || stream.info.done) {
+    return;
+  }
+  stream.info.done = true;
+  wakeFollowers(stream);
+
+  const timer = setTimeout(() => {
+    if (streams.get(requestId) === stream) {
+      streams.delete(requestId);
+    }
+  }, LIVE_STREAM_RETENTION_MS);
+  // Don't keep the process alive for the cleanup (Node only)
+  (timer as { unref?: () => void }).unref?.();
+}
+
+function canAccess(user: AuthUser, stream: LiveStream): boolean {
+  return Boolean(user.isAdmin) || stream.userId === user.id;
+}
+
+/**
+ * Get the details of a request's stream
+ * @returns The details, or null when the stream is unknown or belongs to
+ *   another user
+ */
+export function getLiveStreamInfo(
+  user: AuthUser,
+  requestId: string,
+): LiveStreamInfo | null {
+  const stream = streams.get(requestId);
+  return stream && canAccess(user, stream) ? { ...stream.info } : null;
+}
+
+/**
+ * Find the latest stream of a session
+ * Matches the session a request resumed as well as the one it created
+ */
+export function findLiveStreamBySession(
+  user: AuthUser,
+  sessionId: string,
+): LiveStreamInfo | null {
+  let latest: LiveStream | null = null;
+  for (const stream of streams.values()) {
+    const { info } = stream;
+    if (
+      (info.sessionId === sessionId || info.resumedSessionId === sessionId) &&
+      canAccess(user, stream) &&
+      (!latest || info.startedAt >= latest.info.startedAt)
+    ) {
+      latest = stream;
+    }
+  }
+  return latest ? { ...latest.info } : null;
+}
+
+/**
+ * Replay the stream of a request and follow it until the request finishes
+ * Chunks that were dropped from the buffer are skipped. Each chunk comes with
+ * its index, which transports use as event ID to resume from.
+ * @param requestId - Request to follow
+ * @param from - Number of chunks the client already has
+ * @param signal - Stops following when aborted
+ */
+export async function* followLiveStream(
+  requestId: string,
+  from: number,
+  signal?: AbortSignal,
+): AsyncGenerator<LiveStreamChunk> {
+  const stream = streams.get(requestId);
+  if (!stream) {
+    return;
+  }
+
+  let next = Math.max(
+    from,
+    stream.info.chunkCount - LIVE_STREAM_BUFFER_SIZE,
+    0,
+  );
+  while (!signal?.aborted) {
+    while (next < stream.info.chunkCount) {
+      // Followers that fall behind the buffer skip ahead
+      next = Math.max(next, stream.info.chunkCount - LIVE_STREAM_BUFFER_SIZE);
+      yield { id: next, chunk: stream.chunks[next % LIVE_STREAM_BUFFER_SIZE] };
+      next++;
+    }
+    if (stream.info.done || signal?.aborted) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        signal?.removeEventListener("abort", wake);
+        stream.waiters.delete(wake);
+        resolve();
+      };
+      stream.waiters.add(wake);
+      signal?.addEventListener("abort", wake);
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_SCHEDULER_CONFIG,
+  getSchedulerStatus,
+  initializeScheduler,
+  requestSlot,
+} from "./scheduler.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    chat: {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    },
+  },
+}));
+
+describe("Request scheduler", () => {
+  afterEach(() => {
+    initializeScheduler(DEFAULT_SCHEDULER_CONFIG);
+    vi.useRealTimers();
+  });
+
+  it("queues requests over the global limit in order", async () => {
+    initializeScheduler({
+      maxConcurrent: 1,
+      maxConcurrentPerUser: 0,
+      requestTimeoutMinutes: 0,
+    });
+    const positions: number[][] = [[], []];
+
+    const first = requestSlot("r1", "alice");
+    const second = requestSlot("r2", "bob", {
+      onQueuePosition: (position) => positions[0].push(position),
+    });
+    const third = requestSlot("r3", "carol", {
+      onQueuePosition: (position) => positions[1].push(position),
+    });
+    expect([first.running, second.running, third.running]).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    expect(getSchedulerStatus()).toEqual({ running: 1, queued: 2 });
+
+    first.release();
+    expect(await second.ready).toBe(true);
+    expect(third.running).toBe(false);
+    expect(positions).toEqual([[1], [2, 1]]);
+
+    second.release();
+    expect(await third.ready).toBe(true);
+    third.release();
+  });
+
+  it("lets other users pass a user at the per-user limit", () => {
+    initializeScheduler({
+      maxConcurrent: 3,
+      maxConcurrentPerUser: 1,
+      requestTimeoutMinutes: 0,
+    });
+
+    const first = requestSlot("r1", "alice");
+    const second = requestSlot("r2", "alice");
+    const third = requestSlot("r3", "bob");
+    expect([first.running, second.running, third.running]).toEqual([
+      true,
+      false,
+      true,
+    ]);
+
+    first.release();
+    expect(second.running).toBe(true);
+    second.release();
+    third.release();
+  });
+
+  it("removes aborted requests from the queue", async () => {
+    initializeScheduler({
+      maxConcurrent: 1,
+      maxConcurrentPerUser: 0,
+      requestTimeoutMinutes: 0,
+    });
+    const abortController = new AbortController();
+
+    const first = requestSlot("r1", "alice");
+    const second = requestSlot("r2", "bob", {
+      signal: abortController.signal,
+    });
+    const third = requestSlot("r3", "carol");
+    abortController.abort();
+
+    expect(await second.ready).toBe(false);
+    first.release();
+    expect(third.running).toBe(true);
+    second.release(); // Nothing to free
+    third.release();
+  });
+
+  it("reports requests running longer than the timeout", () => {
+    vi.useFakeTimers();
+    initializeScheduler({
+      maxConcurrent: 0,
+      maxConcurrentPerUser: 0,
+      requestTimeoutMinutes: 1,
+    });
+    const onTimeout = vi.fn();
+
+    const slot = requestSlot("r1", "alice", { onTimeout });
+    vi.advanceTimersByTime(59_000);
+    expect(onTimeout).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1_000);
+    expect(onTimeout).toHaveBeenCalledOnce();
+
+    slot.release();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Request scheduler
+ *
+ * Every chat request runs its own Claude process. The scheduler caps how
+ * many run at once, overall and per user; other requests wait in a FIFO
+ * queue and are told their position while they wait. A request whose user
+ * is at the cap doesn't hold up requests of other users queued behind it.
+ * Running requests are stopped after a wall-clock timeout.
+ */
+
+import { logger } from "../utils/logger.ts";
+
+export interface SchedulerConfig {
+  maxConcurrent: number; // Requests running at once, 0 for no limit
+  maxConcurrentPerUser: number; // Requests running at once per user, 0 for no limit
+  requestTimeoutMinutes: number; // Time a request may run, 0 for no limit
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxConcurrent: 4,
+  maxConcurrentPerUser: 2,
+  requestTimeoutMinutes: 30,
+};
+
+export interface RequestSlotOptions {
+  signal?: AbortSignal; // Aborting removes a waiting request from the queue
+  onQueuePosition?: (position: number) => void; // 1 for the next request to run
+  onTimeout?: () => void; // Called when the running request exceeds the timeout
+}
+
+export interface RequestSlot {
+  running: boolean; // Whether the request may run, true right away when a slot was free
+  ready: Promise<boolean>; // Resolves when the request may run, false when aborted while waiting
+  release: () => void; // Frees the slot once the request finished
+}
+
+interface QueuedRequest {
+  requestId: string;
+  userId: string;
+  position: number; // Last position reported
+  start: () => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+let config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG;
+let running = 0;
+const runningByUser = new Map<string, number>();
+const queue: QueuedRequest[] = [];
+
+/**
+ * Set the limits of the scheduler
+ */
+export function initializeScheduler(schedulerConfig: SchedulerConfig): void {
+  config = schedulerConfig;
+  logger.chat.info(
+    "Running at most {maxConcurrent} requests, {maxConcurrentPerUser} per user, for {requestTimeoutMinutes} minutes each (0 = unlimited)",
+    { ...schedulerConfig },
+  );
+}
+
+/**
+ * Get the number of running and waiting requests
+ */
+export function getSchedulerStatus(): { running: number; queued: number } {
+  return { running, queued: queue.length };
+}
+
+function canStart(userId: string): boolean {
+  const { maxConcurrent, maxConcurrentPerUser } = config;
+  return (
+    (maxConcurrent <= 0 || running < maxConcurrent) &&
+    (maxConcurrentPerUser <= 0 ||
+      (runningByUser.get(userId) ?? 0) < maxConcurrentPerUser)
+  );
+}
+
+/**
+ * Start the queued requests that fit and report the new positions
+ */
+function dispatch(): void {
+  for (let index = 0; index < queue.length;) {
+    const entry = queue[index];
+    if (canStart(entry.userId)) {
+      queue.splice(index, 1);
+      entry.start();
+    } else {
+      index++;
+    }
+  }
+  queue.forEach((entry, index) => {
+    if (entry.position !== index + 1) {
+      entry.position = index + 1;
+      entry.onQueuePosition?.(entry.position);
+    }
+  });
+}
+
+/**
+ * Ask for a slot to run a request in
+ * @param requestId - Request to run
+ * @param userId - User who sent the request
+ * @param options - Abort signal and callbacks for position and timeout
+ * @returns The slot, running right away or once the queue reaches it
+ */
+export function requestSlot(
+  requestId: string,
+  userId: string,
+  options: RequestSlotOptions = {},
+): RequestSlot {
+  const { signal, onQueuePosition, onTimeout } = options;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let released = false;
+  let resolveReady: (ready: boolean) => void = () => {};
+
+  const slot: RequestSlot = {
+    running: false,
+    ready: new Promise<boolean>((resolve) => {
+      resolveReady = resolve;
+    }),
+    release: () => {
+      if (!slot.running || released) {
+        return;
+      }
+      released = true;
+      clearTimeout(timer);
+      running--;
+      const userRunning = (runningByUser.get(userId) ?? 1) - 1;
+      if (userRunning > 0) {
+        runningByUser.set(userId, userRunning);
+      } else {
+        runningByUser.delete(userId);
+      }
+      dispatch();
+    },
+  };
+
+  const start = () => {
+    signal?.removeEventListener("abort", cancel);
+    running++;
+    runningByUser.set(userId, (runningByUser.get(userId) ?? 0) + 1);
+    slot.running = true;
+
+    const timeoutMs = config.requestTimeoutMinutes * 60 * 1000;
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        logger.chat.warn("Request {requestId} timed out", { requestId });
+        onTimeout?.();
+      }, timeoutMs);
+    }
+    resolveReady(true);
+  };
+
+  const entry: QueuedRequest = {
+    requestId,
+    userId,
+    position: 0,
+    start,
+    onQueuePosition,
+  };
+
+  const cancel = () => {
+    const index = queue.indexOf(entry);
+    if (index !== -1) {
+      queue.splice(index, 1);
+      dispatch();
+    }
+    resolveReady(false);
+  };
+
+  if (signal?.aborted) {
+    resolveReady(false);
+  } else if (canStart(userId)) {
+    // Queued requests are waiting for a cap this request isn't blocked by
+    start();
+  } else {
+    signal?.addEventListener("abort", cancel);
+    queue.push(entry);
+    logger.chat.debug("Request {requestId} of {user} queued", {
+      requestId,
+      user: userId,
+    });
+    dispatch();
+  }
+
+  return slot;
+}
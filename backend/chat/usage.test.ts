@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type {
+  SDKAssistantMessage,
+  SDKResultMessage,
+} from "@anthropic-ai/claude-code";
+import type { ServerSettings } from "../../shared/types.ts";
+import {
+  checkDailyBudget,
+  createUsageTracker,
+  getResultUsage,
+  getUsage,
+  getUsageDay,
+  initializeUsageStore,
+  parseUsageQuery,
+  recordUsage,
+} from "./usage.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    chat: {
+      debug: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const settings: ServerSettings = {
+  showSubagentActivity: false,
+  dailyBudgetUsd: null,
+  dailyUserBudgetUsd: null,
+};
+
+vi.mock("../settings/serverSettings.ts", () => ({
+  getServerSettings: async () => settings,
+}));
+
+const result = (costUsd: number, inputTokens = 100) =>
+  getResultUsage({
+    type: "result",
+    subtype: "success",
+    session_id: "ignored",
+    total_cost_usd: costUsd,
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: 50,
+      cache_read_input_tokens: 10,
+      cache_creation_input_tokens: 5,
+    },
+  } as unknown as SDKResultMessage);
+
+const assistant = (id: string, model: string, outputTokens: number) =>
+  ({
+    type: "assistant",
+    session_id: "s1",
+    parent_tool_use_id: null,
+    message: {
+      id,
+      model,
+      usage: {
+        input_tokens: 1000,
+        output_tokens: outputTokens,
+        cache_read_input_tokens: 10000,
+        cache_creation_input_tokens: null,
+      },
+    },
+  }) as unknown as SDKAssistantMessage;
+
+describe("Usage store", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "usage-test-"));
+    initializeUsageStore(dataDir);
+
+    const day1 = new Date("2025-03-01T12:00:00Z");
+    const day2 = new Date("2025-03-02T12:00:00Z");
+    await recordUsage(
+      { userId: "alice", project: "/p/web", sessionId: "s1" },
+      result(0.5),
+      day1,
+    );
+    await recordUsage(
+      { userId: "alice", project: "/p/web", sessionId: "s1" },
+      result(0.25),
+      day1,
+    );
+    await recordUsage(
+      { userId: "bob", project: "/p/api", sessionId: "s2" },
+      result(2),
+      day2,
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("adds up requests by day, user and session", async () => {
+    const usage = await getUsage({
+      from: "2025-03-01",
+      to: "2025-03-02",
+      groupBy: "day",
+    });
+
+    expect(usage.total).toEqual({
+      requests: 3,
+      inputTokens: 300,
+      outputTokens: 150,
+      cacheReadTokens: 30,
+      cacheCreationTokens: 15,
+      costUsd: 2.75,
+    });
+    expect(usage.groups.map((group) => [group.key, group.costUsd])).toEqual([
+      ["2025-03-01", 0.75],
+      ["2025-03-02", 2],
+    ]);
+  });
+
+  it("groups by project, most expensive first, and filters by user and day", async () => {
+    const byProject = await getUsage({
+      from: "2025-03-01",
+      to: "2025-03-02",
+      groupBy: "project",
+    });
+    expect(byProject.groups.map((group) => group.key)).toEqual([
+      "/p/api",
+      "/p/web",
+    ]);
+
+    const alice = await getUsage({
+      from: "2025-03-01",
+      to: "2025-03-31",
+      groupBy: "session",
+      userId: "alice",
+    });
+    expect(alice.groups).toEqual([
+      expect.objectContaining({ key: "s1", requests: 2 }),
+    ]);
+
+    const secondDay = await getUsage({
+      from: "2025-03-02",
+      to: "2025-03-02",
+      groupBy: "user",
+    });
+    expect(secondDay.groups.map((group) => group.key)).toEqual(["bob"]);
+  });
+
+  it("persists records", async () => {
+    const stored = JSON.parse(
+      await readFile(join(dataDir, "usage.json"), "utf8"),
+    );
+    expect(stored).toHaveLength(2);
+
+    // Loaded again from the file
+    initializeUsageStore(dataDir);
+    const usage = await getUsage({
+      from: "2025-03-01",
+      to: "2025-03-02",
+      groupBy: "user",
+    });
+    expect(usage.total.requests).toBe(3);
+  });
+
+  it("refuses requests once a daily budget is used up", async () => {
+    await recordUsage({ userId: "alice", sessionId: "s3" }, result(1));
+    await recordUsage({ userId: "bob", sessionId: "s4" }, result(3));
+    expect(await checkDailyBudget("alice")).toBeNull();
+
+    settings.dailyUserBudgetUsd = 2;
+    expect(await checkDailyBudget("alice")).toBeNull();
+    expect(await checkDailyBudget("bob")).toBe(
+      "Your daily usage budget is used up, try again tomorrow",
+    );
+
+    settings.dailyBudgetUsd = 4;
+    expect(await checkDailyBudget("alice")).toBe(
+      "The daily usage budget of this server is used up, try again tomorrow",
+    );
+  });
+});
+
+describe("createUsageTracker", () => {
+  it("adds up assistant messages once each and estimates their cost", () => {
+    const tracker = createUsageTracker();
+    expect(tracker.hasUsage()).toBe(false);
+
+    // Content blocks of one message repeat its usage
+    tracker.add(assistant("m1", "claude-sonnet-4-20250514", 10));
+    tracker.add(assistant("m1", "claude-sonnet-4-20250514", 100));
+    tracker.add(assistant("m2", "claude-opus-4-1-20250805", 100));
+
+    expect(tracker.hasUsage()).toBe(true);
+    const totals = tracker.getTotals();
+    expect(totals).toEqual({
+      requests: 1,
+      inputTokens: 2000,
+      outputTokens: 200,
+      cacheReadTokens: 20000,
+      cacheCreationTokens: 0,
+      costUsd: expect.any(Number),
+    });
+    // Sonnet: (1000 + 1000) * $3 + 100 * $15, Opus: (1000 + 1000) * $15 + 100 * $75
+    expect(totals.costUsd).toBeCloseTo(0.0075 + 0.0375, 10);
+  });
+});
+
+describe("parseUsageQuery", () => {
+  it("defaults to the last 30 days grouped by day", () => {
+    expect(parseUsageQuery({}, "2025-03-31")).toEqual({
+      from: "2025-03-02",
+      to: "2025-03-31",
+      groupBy: "day",
+    });
+    expect(
+      parseUsageQuery(
+        { from: "2025-01-01", to: "2025-01-31", groupBy: "user", user: "bob" },
+        "2025-03-31",
+      ),
+    ).toEqual({
+      from: "2025-01-01",
+      to: "2025-01-31",
+      groupBy: "user",
+      userId: "bob",
+    });
+  });
+
+  it("rejects invalid values", () => {
+    expect(parseUsageQuery({ groupBy: "model" })).toBe(
+      "groupBy must be one of day, user, project, session",
+    );
+    expect(parseUsageQuery({ from: "yesterday" })).toBe(
+      "from and to must be dates (YYYY-MM-DD)",
+    );
+    expect(parseUsageQuery({ from: "2025-02-01", to: "2025-01-01" })).toBe(
+      "from must not be after to",
+    );
+  });
+
+  it("uses the day in UTC", () => {
+    expect(getUsageDay(new Date("2025-03-01T23:30:00-02:00"))).toBe(
+      "2025-03-02",
+    );
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Usage accounting
+ *
+ * Every finished request ends with a result message holding its token usage
+ * and cost. Requests that are stopped or time out end without one, so their
+ * usage is added up from the assistant messages sent until then and the cost
+ * estimated from list prices. The usage is added up per day (UTC), user,
+ * project and session, so it can be aggregated along any of them, and
+ * checked against the daily budgets of the server settings. Persisted as
+ * JSON in <dataDir>/usage.json.
+ */
+
+import { dirname, join } from "node:path";
+import type {
+  SDKAssistantMessage,
+  SDKResultMessage,
+} from "@anthropic-ai/claude-code";
+import type {
+  UsageBudgetStatus,
+  UsageGroup,
+  UsageGroupBy,
+  UsageTotals,
+} from "../../shared/types.ts";
+import { getServerSettings } from "../settings/serverSettings.ts";
+import { logger } from "../utils/logger.ts";
+import { ensureDir, exists, readTextFile, writeTextFile } from "../utils/fs.ts";
+
+/** Days covered when a query doesn't set a start */
+export const DEFAULT_USAGE_DAYS = 30;
+
+/**
+ * List prices in USD per million input and output tokens, by model family.
+ * Cache writes cost 1.25 times and cache reads 0.1 times the input price.
+ * Only used to estimate stopped requests; result messages carry the cost.
+ */
+const MODEL_PRICES: Array<{ model: string; input: number; output: number }> = [
+  { model: "opus-4-5", input: 5, output: 25 },
+  { model: "opus", input: 15, output: 75 },
+  { model: "haiku", input: 0.8, output: 4 },
+  { model: "sonnet", input: 3, output: 15 },
+];
+const DEFAULT_PRICE = MODEL_PRICES[MODEL_PRICES.length - 1];
+
+const USAGE_GROUP_BY: UsageGroupBy[] = ["day", "user", "project", "session"];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface UsageRecord extends UsageTotals {
+  day: string; // YYYY-MM-DD (UTC)
+  userId: string;
+  project: string; // Working directory, "" when the request had none
+  sessionId: string;
+}
+
+/** Request the usage is recorded for */
+export interface UsageSource {
+  userId: string;
+  project?: string;
+  sessionId: string;
+}
+
+/** Adds up the usage of a request that ended without a result message */
+export interface UsageTracker {
+  add: (message: SDKAssistantMessage) => void;
+  hasUsage: () => boolean;
+  getTotals: () => UsageTotals;
+}
+
+export interface UsageQuery {
+  from: string; // First day, YYYY-MM-DD
+  to: string; // Last day, YYYY-MM-DD
+  groupBy: UsageGroupBy;
+  userId?: string; // Limits the usage to one user
+}
+
+/** Path of the store file, null keeps the store in memory only */
+let storePath: string | null = null;
+
+/** Loaded records by day, user and session */
+let records: Map<string, UsageRecord> | null = null;
+
+/** Serializes writes so concurrent requests don't overwrite each other */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the usage store with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializeUsageStore(dataDir: string): void {
+  storePath = join(dataDir, "usage.json");
+  records = null;
+}
+
+/**
+ * Get the day a time is accounted to
+ */
+export function getUsageDay(date: Date = new Date()): string {
+  return date.toISOString().substring(0, 10);
+}
+
+const recordKey = (day: string, userId: string, sessionId: string) =>
+  `${day}\n${userId}\n${sessionId}`;
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  costUsd: 0,
+});
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheReadTokens += source.cacheReadTokens;
+  target.cacheCreationTokens += source.cacheCreationTokens;
+  target.costUsd += source.costUsd;
+}
+
+async function loadStore(): Promise<Map<string, UsageRecord>> {
+  if (records) {
+    return records;
+  }
+
+  const loaded = new Map<string, UsageRecord>();
+  if (storePath && (await exists(storePath))) {
+    try {
+      const data = JSON.parse(await readTextFile(storePath)) as UsageRecord[];
+      for (const record of data) {
+        loaded.set(
+          recordKey(record.day, record.userId, record.sessionId),
+          record,
+        );
+      }
+    } catch (error) {
+      logger.chat.error("Failed to read usage records: {error}", { error });
+    }
+  }
+
+  records = loaded;
+  return loaded;
+}
+
+function saveStore(store: Map<string, UsageRecord>): Promise<void> {
+  const path = storePath;
+  if (!path) {
+    return Promise.resolve();
+  }
+
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await ensureDir(dirname(path));
+      await writeTextFile(
+        path,
+        JSON.stringify([...store.values()], null, 2) + "\n",
+      );
+    } catch (error) {
+      logger.chat.error("Failed to write usage records: {error}", { error });
+    }
+  });
+  return pendingWrite;
+}
+
+/**
+ * Get the usage of a finished request
+ * @param result - Result message the request ended with
+ */
+export function getResultUsage(result: SDKResultMessage): UsageTotals {
+  const { usage } = result;
+  return {
+    requests: 1,
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheReadTokens: usage?.cache_read_input_tokens ?? 0,
+    cacheCreationTokens: usage?.cache_creation_input_tokens ?? 0,
+    costUsd: result.total_cost_usd ?? 0,
+  };
+}
+
+/**
+ * Create a tracker for the usage of a request's assistant messages
+ * A message split into several content blocks repeats its usage under the
+ * same message ID, so only the last usage per message is counted.
+ */
+export function createUsageTracker(): UsageTracker {
+  const messages = new Map<string, UsageTotals>();
+
+  return {
+    add(message) {
+      const { id, model, usage } = message.message as {
+        id?: string;
+        model?: string;
+        usage?: {
+          input_tokens?: number;
+          output_tokens?: number;
+          cache_read_input_tokens?: number | null;
+          cache_creation_input_tokens?: number | null;
+        };
+      };
+      if (!usage) {
+        return;
+      }
+
+      const price =
+        MODEL_PRICES.find((price) => model?.includes(price.model)) ??
+        DEFAULT_PRICE;
+      const totals: UsageTotals = {
+        requests: 0,
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+        cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+        costUsd: 0,
+      };
+      totals.costUsd =
+        (price.input *
+          (totals.inputTokens +
+            1.25 * totals.cacheCreationTokens +
+            0.1 * totals.cacheReadTokens) +
+          price.output * totals.outputTokens) /
+        1_000_000;
+      messages.set(id ?? `message-${messages.size}`, totals);
+    },
+    hasUsage: () => messages.size > 0,
+    getTotals() {
+      const total = { ...emptyTotals(), requests: 1 };
+      for (const totals of messages.values()) {
+        addTotals(total, totals);
+      }
+      return total;
+    },
+  };
+}
+
+/**
+ * Add the usage of a request
+ * @param source - User, project and session of the request
+ * @param totals - Usage of the request, see getResultUsage and
+ *   createUsageTracker
+ * @param date - Time the request finished
+ */
+export async function recordUsage(
+  source: UsageSource,
+  totals: UsageTotals,
+  date: Date = new Date(),
+): Promise<void> {
+  const store = await loadStore();
+  const day = getUsageDay(date);
+  const key = recordKey(day, source.userId, source.sessionId);
+
+  let record = store.get(key);
+  if (!record) {
+    record = {
+      day,
+      userId: source.userId,
+      project: source.project ?? "",
+      sessionId: source.sessionId,
+      ...emptyTotals(),
+    };
+    store.set(key, record);
+  }
+  addTotals(record, totals);
+
+  logger.chat.debug("Recorded usage of session {sessionId}: ${costUsd}", {
+    sessionId: source.sessionId,
+    costUsd: totals.costUsd,
+  });
+  await saveStore(store);
+}
+
+/**
+ * Check usage query parameters
+ * @param params - Query parameters
+ * @param today - Day the default range ends on
+ * @returns The query, or an error message
+ */
+export function parseUsageQuery(
+  params: { from?: string; to?: string; groupBy?: string; user?: string },
+  today: string = getUsageDay(),
+): UsageQuery | string {
+  const groupBy = (params.groupBy || "day") as UsageGroupBy;
+  if (!USAGE_GROUP_BY.includes(groupBy)) {
+    return `groupBy must be one of ${USAGE_GROUP_BY.join(", ")}`;
+  }
+
+  const to = params.to || today;
+  let from = params.from;
+  if (!from) {
+    const start = new Date(`${to}T00:00:00Z`);
+    start.setUTCDate(start.getUTCDate() - (DEFAULT_USAGE_DAYS - 1));
+    from = isNaN(start.getTime()) ? to : getUsageDay(start);
+  }
+  for (const day of [from, to]) {
+    if (!DAY_PATTERN.test(day) || isNaN(new Date(day).getTime())) {
+      return "from and to must be dates (YYYY-MM-DD)";
+    }
+  }
+  if (from > to) {
+    return "from must not be after to";
+  }
+
+  return { from, to, groupBy, ...(params.user ? { userId: params.user } : {}) };
+}
+
+function getGroupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case "day":
+      return record.day;
+    case "user":
+      return record.userId;
+    case "project":
+      return record.project;
+    case "session":
+      return record.sessionId;
+  }
+}
+
+/**
+ * Add up the usage of a range of days
+ * @param query - Days, grouping and user to limit the usage to
+ * @returns The total and the groups, by day in date order, otherwise most
+ *   expensive first
+ */
+export async function getUsage(
+  query: UsageQuery,
+): Promise<{ total: UsageTotals; groups: UsageGroup[] }> {
+  const store = await loadStore();
+  const total = emptyTotals();
+  const groups = new Map<string, UsageGroup>();
+
+  for (const record of store.values()) {
+    if (
+      record.day < query.from ||
+      record.day > query.to ||
+      (query.userId !== undefined && record.userId !== query.userId)
+    ) {
+      continue;
+    }
+    addTotals(total, record);
+
+    const key = getGroupKey(record, query.groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, ...emptyTotals() };
+      groups.set(key, group);
+    }
+    addTotals(group, record);
+  }
+
+  return {
+    total,
+    groups: [...groups.values()].sort((a, b) =>
+      query.groupBy === "day"
+        ? a.key.localeCompare(b.key)
+        : b.costUsd - a.costUsd,
+    ),
+  };
+}
+
+/**
+ * Get today's spending and the daily budgets
+ * @param userId - User whose own spending is included
+ */
+export async function getBudgetStatus(
+  userId: string,
+): Promise<Required<UsageBudgetStatus>> {
+  const { dailyBudgetUsd, dailyUserBudgetUsd } = await getServerSettings();
+  const today = getUsageDay();
+
+  let spentTodayUsd = 0;
+  let userSpentTodayUsd = 0;
+  for (const record of (await loadStore()).values()) {
+    if (record.day === today) {
+      spentTodayUsd += record.costUsd;
+      if (record.userId === userId) {
+        userSpentTodayUsd += record.costUsd;
+      }
+    }
+  }
+
+  return {
+    dailyBudgetUsd,
+    dailyUserBudgetUsd,
+    spentTodayUsd,
+    userSpentTodayUsd,
+  };
+}
+
+/**
+ * Check whether a user may start another request today
+ * @returns Why the request is refused, or null when it may run
+ */
+export async function checkDailyBudget(userId: string): Promise<string | null> {
+  const budget = await getBudgetStatus(userId);
+
+  if (
+    budget.dailyBudgetUsd !== null &&
+    budget.spentTodayUsd >= budget.dailyBudgetUsd
+  ) {
+    return "The daily usage budget of this server is used up, try again tomorrow";
+  }
+  if (
+    budget.dailyUserBudgetUsd !== null &&
+    budget.userSpentTodayUsd >= budget.dailyUserBudgetUsd
+  ) {
+    return "Your daily usage budget is used up, try again tomorrow";
+  }
+  return null;
+}
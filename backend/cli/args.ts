@@ -6,7 +6,17 @@
 
 import { program } from "commander";
 import { VERSION } from "./version.ts";
-import { getEnv, getArgs } from "../utils/os.ts";
+import { join } from "node:path";
+import { getEnv, getArgs, getHomeDir } from "../utils/os.ts";
+import { AUTH_MODES, type AuthConfig, type AuthMode } from "../auth/types.ts";
+import { randomToken } from "../auth/crypto.ts";
+import { RULES_PROMPT_MODES, type RulesPromptMode } from "../types.ts";
+import {
+  DEFAULT_SCHEDULER_CONFIG,
+  type SchedulerConfig,
+} from "../chat/scheduler.ts";
+import type { LoggerOptions } from "../utils/logger.ts";
+import { LOG_ROTATIONS, type LogRotation } from "../utils/logFile.ts";
 
 export interface ParsedArgs {
   debug: boolean;
@@ -14,6 +24,24 @@ export interface ParsedArgs {
   host: string;
   claudePath?: string;
   projectPath?: string;
+  dataDir: string;
+  rulesPromptMode: RulesPromptMode;
+  auth: AuthConfig;
+  scheduler: SchedulerConfig;
+  logging: Omit<LoggerOptions, "debug">;
+}
+
+/**
+ * Parse a non-negative whole number option
+ */
+function parseLimit(name: string) {
+  return (value: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
 }
 
 export function parseCliArgs(): ParsedArgs {
@@ -23,6 +51,10 @@ export function parseCliArgs(): ParsedArgs {
   // Get default port from environment
   const defaultPort = parseInt(getEnv("PORT") || "8080", 10);
 
+  // Get default data directory (audit logs, etc.) from environment or home
+  const defaultDataDir =
+    getEnv("FS_HELPER_DATA_DIR") || join(getHomeDir() || ".", ".fs-helper-ui");
+
   // Configure program
   program
     .name("claude-code-webui")
@@ -53,6 +85,125 @@ export function parseCliArgs(): ParsedArgs {
       "--project-path <path>",
       "Default project directory to load on startup",
     )
+    .option(
+      "--data-dir <path>",
+      "Directory for server data such as policy audit logs",
+      defaultDataDir,
+    )
+    .option(
+      "--rules-prompt <mode>",
+      "How rules are passed to Claude: append to its system prompt, or replace it",
+      (value) => {
+        if (!RULES_PROMPT_MODES.includes(value as RulesPromptMode)) {
+          throw new Error(`Invalid rules prompt mode: ${value}`);
+        }
+        return value;
+      },
+      "append",
+    )
+    .option(
+      "--auth <mode>",
+      `Authentication mode (${AUTH_MODES.join(", ")})`,
+      (value) => {
+        if (!AUTH_MODES.includes(value as AuthMode)) {
+          throw new Error(`Invalid auth mode: ${value}`);
+        }
+        return value;
+      },
+      getEnv("AUTH_MODE") || "none",
+    )
+    .option(
+      "--auth-token <token>",
+      "Bearer token for token authentication (or AUTH_TOKEN)",
+    )
+    .option(
+      "--htpasswd <path>",
+      "htpasswd file with users for basic authentication",
+    )
+    .option("--oidc-issuer <url>", "OpenID Connect issuer URL")
+    .option("--oidc-client-id <id>", "OpenID Connect client ID")
+    .option(
+      "--oidc-client-secret <secret>",
+      "OpenID Connect client secret (or OIDC_CLIENT_SECRET)",
+    )
+    .option(
+      "--oidc-redirect-uri <url>",
+      "OpenID Connect redirect URI (https://<host>/api/auth/oidc/callback)",
+    )
+    .option(
+      "--oidc-scopes <scopes>",
+      "OpenID Connect scopes (comma separated)",
+      "openid,profile,email",
+    )
+    .option(
+      "--session-secret <secret>",
+      "Secret for signing session cookies (or SESSION_SECRET, random by default)",
+    )
+    .option(
+      "--session-ttl <hours>",
+      "Session lifetime in hours",
+      (value) => {
+        const parsed = parseFloat(value);
+        if (isNaN(parsed) || parsed <= 0) {
+          throw new Error(`Invalid session lifetime: ${value}`);
+        }
+        return parsed;
+      },
+      12,
+    )
+    .option(
+      "--admin-users <ids>",
+      "User ids allowed to see all sessions (comma separated, or ADMIN_USERS)",
+    )
+    .option(
+      "--max-concurrent <count>",
+      "Claude requests running at once, others wait in a queue (0 for no limit)",
+      parseLimit("concurrency limit"),
+      DEFAULT_SCHEDULER_CONFIG.maxConcurrent,
+    )
+    .option(
+      "--max-concurrent-per-user <count>",
+      "Claude requests running at once per user (0 for no limit)",
+      parseLimit("per-user concurrency limit"),
+      DEFAULT_SCHEDULER_CONFIG.maxConcurrentPerUser,
+    )
+    .option(
+      "--request-timeout <minutes>",
+      "Stop requests running longer than this (0 for no limit)",
+      parseLimit("request timeout"),
+      DEFAULT_SCHEDULER_CONFIG.requestTimeoutMinutes,
+    )
+    .option(
+      "--log-file <path>",
+      "Also write logs to this file as JSON lines (or LOG_FILE)",
+    )
+    .option(
+      "--log-max-size <megabytes>",
+      "Rotate the log file once it grows past this size (0 for no limit)",
+      parseLimit("log file size"),
+      10,
+    )
+    .option(
+      "--log-rotation <interval>",
+      `Rotate the log file when a new period starts (${LOG_ROTATIONS.join(", ")})`,
+      (value) => {
+        if (!LOG_ROTATIONS.includes(value as LogRotation)) {
+          throw new Error(`Invalid log rotation: ${value}`);
+        }
+        return value;
+      },
+      "daily",
+    )
+    .option(
+      "--log-retention <days>",
+      "Delete rotated log files older than this (0 to keep them)",
+      parseLimit("log retention"),
+      14,
+    )
+    .option(
+      "--log-config <path>",
+      "JSON file with log levels per category (or LOG_CONFIG)",
+    )
     .option("-d, --debug", "Enable debug mode", false);
 
   // Parse arguments - Commander.js v14 handles this automatically
@@ -69,5 +220,51 @@ export function parseCliArgs(): ParsedArgs {
     host: options.host,
     claudePath: options.claudePath,
     projectPath: options.projectPath,
+    dataDir: options.dataDir,
+    rulesPromptMode: options.rulesPrompt,
+    auth: {
+      mode: options.auth,
+      token: options.authToken || getEnv("AUTH_TOKEN"),
+      htpasswdPath: options.htpasswd,
+      oidc:
+        options.oidcIssuer && options.oidcClientId && options.oidcRedirectUri
+          ? {
+              issuer: options.oidcIssuer,
+              clientId: options.oidcClientId,
+              clientSecret:
+                options.oidcClientSecret || getEnv("OIDC_CLIENT_SECRET"),
+              redirectUri: options.oidcRedirectUri,
+              scopes: String(options.oidcScopes)
+                .split(",")
+                .map((scope) => scope.trim())
+                .filter(Boolean),
+            }
+          : undefined,
+      // A random secret invalidates sessions on restart
+      sessionSecret:
+        options.sessionSecret || getEnv("SESSION_SECRET") || randomToken(),
+      sessionTtlHours: options.sessionTtl,
+      adminUsers: String(options.adminUsers || getEnv("ADMIN_USERS") || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    },
+    scheduler: {
+      maxConcurrent: options.maxConcurrent,
+      maxConcurrentPerUser: options.maxConcurrentPerUser,
+      requestTimeoutMinutes: options.requestTimeout,
+    },
+    logging: {
+      file:
+        options.logFile || getEnv("LOG_FILE")
+          ? {
+              path: options.logFile || getEnv("LOG_FILE"),
+              maxSizeMb: options.logMaxSize,
+              rotation: options.logRotation,
+              retentionDays: options.logRetention,
+            }
+          : undefined,
+      configPath: options.logConfig || getEnv("LOG_CONFIG"),
+    },
   };
 }
@@ -20,12 +20,21 @@ async function main(runtime: NodeRuntime) {
   const args = parseCliArgs();
 
   // Initialize logging system
-  await setupLogger(args.debug);
+  await setupLogger({ debug: args.debug, ...args.logging });
 
   if (args.debug) {
     logger.cli.info("🐛 Debug mode enabled");
   }
 
+  if (
+    args.auth.mode === "none" &&
+    !["127.0.0.1", "localhost", "::1"].includes(args.host)
+  ) {
+    logger.cli.warn(
+      `⚠️  Authentication is disabled while listening on ${args.host}. Use --auth to protect the server.`,
+    );
+  }
+
   // Validate Claude CLI availability and get the detected CLI path
   const cliPath = await validateClaudeCli(runtime, args.claudePath);
 
@@ -41,6 +50,10 @@ async function main(runtime: NodeRuntime) {
     staticPath,
     cliPath,
     defaultProjectPath: args.projectPath,
+    dataDir: args.dataDir,
+    rulesPromptMode: args.rulesPromptMode,
+    auth: args.auth,
+    scheduler: args.scheduler,
   });
 
   // Start server (only show this message when everything is ready)
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+import type { AuthUser } from "../../shared/types.ts";
+import { handleAbortRequest } from "./abort.ts";
+import { finishLiveStream, startLiveStream } from "../chat/liveStreams.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      debug: vi.fn(),
+    },
+  },
+}));
+
+describe("POST /api/abort/:requestId", () => {
+  const alice: AuthUser = { id: "alice", name: "Alice", provider: "oidc" };
+  const bob: AuthUser = { id: "bob", name: "Bob", provider: "oidc" };
+  let user = alice;
+
+  const requestAbortControllers = new Map<string, AbortController>();
+  const app = new Hono();
+  app.use("*", async (c, next) => {
+    c.set("user" as never, user as never);
+    await next();
+  });
+  app.post("/api/abort/:requestId", (c) =>
+    handleAbortRequest(c, requestAbortControllers),
+  );
+
+  it("only lets the owner abort a request", async () => {
+    const abortController = new AbortController();
+    requestAbortControllers.set("running", abortController);
+    startLiveStream("running", alice, { message: "Hello" });
+
+    user = bob;
+    const denied = await app.request("/api/abort/running", { method: "POST" });
+    user = alice;
+    expect(denied.status).toBe(404);
+    expect(abortController.signal.aborted).toBe(false);
+
+    const response = await app.request("/api/abort/running", {
+      method: "POST",
+    });
+    expect(response.status).toBe(200);
+    expect(abortController.signal.aborted).toBe(true);
+    expect(requestAbortControllers.has("running")).toBe(false);
+    finishLiveStream("running");
+  });
+});
@@ -1,5 +1,8 @@
 import { Context } from "hono";
+import { withContext } from "@logtape/logtape";
 import { logger } from "../utils/logger.ts";
+import { chatAbortsTotal } from "../metrics/metrics.ts";
+import { getLiveStreamInfo } from "../chat/liveStreams.ts";
 
 /**
  * Handles POST /api/abort/:requestId requests
@@ -18,6 +21,27 @@ export function handleAbortRequest(
     return c.json({ error: "Request ID is required" }, 400);
   }
 
+  // Other users' requests are reported as missing, as when following them
+  const info = getLiveStreamInfo(c.var.user, requestId);
+  if (!info) {
+    return c.json({ error: "Request not found or already completed" }, 404);
+  }
+
+  // Logged with the IDs of the chat, like the request's own records
+  const { sessionId } = info;
+  return withContext({ requestId, sessionId }, () =>
+    abortRequest(c, requestId, requestAbortControllers),
+  );
+}
+
+/**
+ * Aborts a request, see handleAbortRequest
+ */
+function abortRequest(
+  c: Context,
+  requestId: string,
+  requestAbortControllers: Map<string, AbortController>,
+) {
   logger.api.debug(`Abort attempt for request: ${requestId}`);
   logger.api.debug(
     `Active requests: ${Array.from(requestAbortControllers.keys())}`,
@@ -27,6 +51,7 @@ export function handleAbortRequest(
   if (abortController) {
     abortController.abort();
     requestAbortControllers.delete(requestId);
+    chatAbortsTotal.inc();
 
     logger.api.debug(`Aborted request: ${requestId}`);
 
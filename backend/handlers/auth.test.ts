@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+import type { AuthService } from "../auth/service.ts";
+import { handleOidcCallbackRequest, handleOidcLoginRequest } from "./auth.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+describe("OIDC login", () => {
+  const oidc = {
+    getAuthorizationUrl: vi.fn(async () => ({
+      url: "https://idp.example/authorize?state=state-1",
+      state: "state-1",
+    })),
+    handleCallback: vi.fn(async () => ({
+      user: { id: "alice", name: "Alice", provider: "oidc" as const },
+      returnTo: "/projects",
+    })),
+  };
+  const auth = {
+    config: { mode: "oidc", sessionSecret: "test-secret" },
+    oidc,
+    startSession: vi.fn(async () => {}),
+  } as unknown as AuthService;
+
+  const app = new Hono();
+  app.get("/api/auth/oidc/login", (c) => handleOidcLoginRequest(c, auth));
+  app.get("/api/auth/oidc/callback", (c) => handleOidcCallbackRequest(c, auth));
+
+  const login = (returnTo: string) =>
+    app.request(
+      `http://localhost/api/auth/oidc/login?returnTo=${encodeURIComponent(returnTo)}`,
+    );
+
+  it("only returns to paths of this server after the login", async () => {
+    for (const returnTo of ["/\\evil.com", "//evil.com", "/\t/evil.com"]) {
+      await login(returnTo);
+      expect(oidc.getAuthorizationUrl).toHaveBeenLastCalledWith("/");
+    }
+
+    await login("/projects/app?tab=history");
+    expect(oidc.getAuthorizationUrl).toHaveBeenLastCalledWith(
+      "/projects/app?tab=history",
+    );
+  });
+
+  it("completes the login only in the browser that started it", async () => {
+    const response = await login("/projects");
+    const cookie = response.headers.get("Set-Cookie")!.split(";")[0];
+
+    const callback = (headers: Record<string, string> = {}) =>
+      app.request("/api/auth/oidc/callback?code=code-1&state=state-1", {
+        headers,
+      });
+
+    const forged = await callback();
+    expect(forged.headers.get("Location")).toBe("/?authError=login_failed");
+    expect(oidc.handleCallback).not.toHaveBeenCalled();
+
+    const completed = await callback({ Cookie: cookie });
+    expect(completed.headers.get("Location")).toBe("/projects");
+    expect(oidc.handleCallback).toHaveBeenCalledWith("code-1", "state-1");
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Authentication API Handlers
+ *
+ * Provides endpoints for the frontend login page and the OIDC login flow
+ */
+
+import type { Context } from "hono";
+import { deleteCookie, getSignedCookie, setSignedCookie } from "hono/cookie";
+import type { AuthStatusResponse } from "../../shared/types.ts";
+import { PENDING_LOGIN_TTL_MS } from "../auth/oidc.ts";
+import type { AuthService } from "../auth/service.ts";
+import type { LoginCredentials } from "../auth/types.ts";
+import { logger } from "../utils/logger.ts";
+
+/** Name of the cookie tying an OIDC login to the browser that started it */
+const OIDC_STATE_COOKIE_NAME = "fs_helper_oidc_state";
+const OIDC_COOKIE_PATH = "/api/auth/oidc";
+
+/**
+ * Only allow redirects to paths of this application
+ * The value is resolved like the browser would, so "/\\evil.com" or paths
+ * with control characters can't lead to another host.
+ */
+function getSafeReturnTo(c: Context, value: string | undefined): string {
+  if (!value?.startsWith("/")) {
+    return "/";
+  }
+  const { origin } = new URL(c.req.url);
+  try {
+    const url = new URL(value, origin);
+    return url.origin === origin
+      ? `${url.pathname}${url.search}${url.hash}`
+      : "/";
+  } catch {
+    return "/";
+  }
+}
+
+/**
+ * Handles GET /api/auth/me - Return authentication mode and current user
+ */
+export async function handleAuthStatusRequest(c: Context, auth: AuthService) {
+  const user = await auth.getUser(c);
+  const response: AuthStatusResponse = {
+    mode: auth.config.mode,
+    authenticated: user !== null,
+    user,
+  };
+  return c.json(response);
+}
+
+/**
+ * Handles POST /api/auth/login - Verify credentials and start a session
+ */
+export async function handleLoginRequest(c: Context, auth: AuthService) {
+  if (!auth.strategy?.login) {
+    return c.json(
+      {
+        error: `Login with credentials is not available in ${auth.config.mode} mode`,
+      },
+      400,
+    );
+  }
+
+  let credentials: LoginCredentials;
+  try {
+    credentials = await c.req.json();
+  } catch {
+    return c.json({ error: "Request body must be JSON" }, 400);
+  }
+
+  const user = await auth.strategy.login(credentials);
+  if (!user) {
+    logger.api.warn("Failed login attempt for {username}", {
+      username: credentials.username ?? "(token)",
+    });
+    return c.json({ error: "Invalid credentials" }, 401);
+  }
+
+  await auth.startSession(c, user);
+  logger.api.info("User {user} logged in", { user: user.id });
+  const response: AuthStatusResponse = {
+    mode: auth.config.mode,
+    authenticated: true,
+    user: auth.withRole(user),
+  };
+  return c.json(response);
+}
+
+/**
+ * Handles POST /api/auth/logout - End the current session
+ */
+export async function handleLogoutRequest(c: Context, auth: AuthService) {
+  await auth.endSession(c);
+  return c.json({ success: true });
+}
+
+/**
+ * Handles GET /api/auth/oidc/login - Redirect to the OIDC provider
+ */
+export async function handleOidcLoginRequest(c: Context, auth: AuthService) {
+  if (!auth.oidc) {
+    return c.json({ error: "OIDC authentication is not enabled" }, 404);
+  }
+
+  try {
+    const { url, state } = await auth.oidc.getAuthorizationUrl(
+      getSafeReturnTo(c, c.req.query("returnTo")),
+    );
+    await setSignedCookie(
+      c,
+      OIDC_STATE_COOKIE_NAME,
+      state,
+      auth.config.sessionSecret,
+      {
+        path: OIDC_COOKIE_PATH,
+        httpOnly: true,
+        sameSite: "Lax",
+        secure: new URL(c.req.url).protocol === "https:",
+        maxAge: Math.floor(PENDING_LOGIN_TTL_MS / 1000),
+      },
+    );
+    return c.redirect(url);
+  } catch (error) {
+    logger.api.error("Failed to start OIDC login: {error}", { error });
+    return c.json(
+      {
+        error: "Failed to start OIDC login",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      502,
+    );
+  }
+}
+
+/**
+ * Handles GET /api/auth/oidc/callback - Complete the OIDC login
+ */
+export async function handleOidcCallbackRequest(c: Context, auth: AuthService) {
+  if (!auth.oidc) {
+    return c.json({ error: "OIDC authentication is not enabled" }, 404);
+  }
+
+  const code = c.req.query("code");
+  const state = c.req.query("state");
+  const providerError = c.req.query("error");
+  if (providerError || !code || !state) {
+    logger.api.warn("OIDC login rejected by provider: {error}", {
+      error: providerError ?? "missing code or state",
+    });
+    return c.redirect(
+      `/?authError=${encodeURIComponent(providerError ?? "invalid_request")}`,
+    );
+  }
+
+  // Only the browser that started the login may complete it, so nobody can
+  // log a victim into their own account with a callback link
+  const expectedState = await getSignedCookie(
+    c,
+    auth.config.sessionSecret,
+    OIDC_STATE_COOKIE_NAME,
+  );
+  deleteCookie(c, OIDC_STATE_COOKIE_NAME, { path: OIDC_COOKIE_PATH });
+  if (expectedState !== state) {
+    logger.api.warn("OIDC callback from another browser rejected");
+    return c.redirect("/?authError=login_failed");
+  }
+
+  try {
+    const { user, returnTo } = await auth.oidc.handleCallback(code, state);
+    await auth.startSession(c, user);
+    return c.redirect(returnTo);
+  } catch (error) {
+    logger.api.error("OIDC login failed: {error}", { error });
+    return c.redirect("/?authError=login_failed");
+  }
+}
@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Context } from "hono";
-import { handleChatRequest } from "./chat";
+import { handleChatRequest, startChatRequest } from "./chat";
 import type { ChatRequest } from "../../shared/types";
 import { query } from "@anthropic-ai/claude-code";
+import { getUsage, getUsageDay } from "../chat/usage";
 
 // Define minimal mock types for Claude Code SDK to maintain type safety in tests
 type MockClaudeCode = {
@@ -20,6 +21,11 @@ vi.mock(
 vi.mock("../utils/logger", () => ({
   logger: {
     chat: {
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    history: {
       debug: vi.fn(),
       error: vi.fn(),
     },
@@ -28,6 +34,18 @@ vi.mock("../utils/logger", () => ({
 
 const mockQuery = vi.mocked(query);
 
+/**
+ * Reads the user message text from the streaming prompt passed to the SDK
+ */
+async function getPromptText(callIndex = 0): Promise<string> {
+  const prompt = mockQuery.mock.calls[callIndex][0].prompt;
+  if (typeof prompt === "string") {
+    return prompt;
+  }
+  const { value } = await prompt[Symbol.asyncIterator]().next();
+  return value.message.content;
+}
+
 describe("Chat Handler - Permission Mode Tests", () => {
   let mockContext: Context;
   let requestAbortControllers: Map<string, AbortController>;
@@ -39,11 +57,18 @@ describe("Chat Handler - Permission Mode Tests", () => {
     mockContext = {
       req: {
         json: vi.fn(),
+        header: vi.fn(),
       },
       var: {
         config: {
           cliPath: "/path/to/claude-cli",
         },
+        user: {
+          id: "local",
+          name: "Local user",
+          provider: "none",
+          isAdmin: true,
+        },
       },
     } as any;
 
@@ -86,15 +111,17 @@ describe("Chat Handler - Permission Mode Tests", () => {
       );
 
       expect(mockQuery).toHaveBeenCalledWith({
-        prompt: "Test message",
+        prompt: expect.anything(),
         options: expect.objectContaining({
           permissionMode: "plan",
+          disallowedTools: expect.arrayContaining(["Read(.env)"]),
           abortController: expect.any(AbortController),
           executable: "node",
           executableArgs: [],
           pathToClaudeCodeExecutable: "/path/to/claude-cli",
         }),
       });
+      expect(await getPromptText()).toBe("Test message");
 
       expect(response).toBeInstanceOf(Response);
       expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
@@ -127,11 +154,12 @@ describe("Chat Handler - Permission Mode Tests", () => {
       await handleChatRequest(mockContext, requestAbortControllers);
 
       expect(mockQuery).toHaveBeenCalledWith({
-        prompt: "Test message",
+        prompt: expect.anything(),
         options: expect.objectContaining({
           permissionMode: "acceptEdits",
         }),
       });
+      expect(await getPromptText()).toBe("Test message");
     });
 
     it("should pass permissionMode 'default' to Claude SDK", async () => {
@@ -161,11 +189,12 @@ describe("Chat Handler - Permission Mode Tests", () => {
       await handleChatRequest(mockContext, requestAbortControllers);
 
       expect(mockQuery).toHaveBeenCalledWith({
-        prompt: "Test message",
+        prompt: expect.anything(),
         options: expect.objectContaining({
           permissionMode: "default",
         }),
       });
+      expect(await getPromptText()).toBe("Test message");
     });
 
     it("should not include permissionMode in options when undefined", async () => {
@@ -228,7 +257,7 @@ describe("Chat Handler - Permission Mode Tests", () => {
       await handleChatRequest(mockContext, requestAbortControllers);
 
       expect(mockQuery).toHaveBeenCalledWith({
-        prompt: "Test message with all params",
+        prompt: expect.anything(),
         options: expect.objectContaining({
           permissionMode: "plan",
           resume: "session-123",
@@ -240,6 +269,7 @@ describe("Chat Handler - Permission Mode Tests", () => {
           pathToClaudeCodeExecutable: "/path/to/claude-cli",
         }),
       });
+      expect(await getPromptText()).toBe("Test message with all params");
     });
   });
 
@@ -272,11 +302,12 @@ describe("Chat Handler - Permission Mode Tests", () => {
 
       // Should strip the slash and pass "help" to SDK
       expect(mockQuery).toHaveBeenCalledWith({
-        prompt: "help",
+        prompt: expect.anything(),
         options: expect.objectContaining({
           permissionMode: "plan",
         }),
       });
+      expect(await getPromptText()).toBe("help");
     });
 
     it("should handle regular messages with permissionMode", async () => {
@@ -306,11 +337,81 @@ describe("Chat Handler - Permission Mode Tests", () => {
       await handleChatRequest(mockContext, requestAbortControllers);
 
       expect(mockQuery).toHaveBeenCalledWith({
-        prompt: "Regular message",
+        prompt: expect.anything(),
         options: expect.objectContaining({
           permissionMode: "acceptEdits",
         }),
       });
+      expect(await getPromptText()).toBe("Regular message");
+    });
+  });
+
+  describe("Rules System Prompt", () => {
+    const mockResponse = () =>
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield {
+            type: "assistant",
+            message: { content: [{ type: "text", text: "Response" }] },
+            session_id: "test-session",
+            parent_tool_use_id: null,
+          } as any;
+        },
+        interrupt: vi.fn(),
+        next: vi.fn(),
+        return: vi.fn(),
+        throw: vi.fn(),
+      } as any);
+
+    it("should append rules to the system prompt on every request", async () => {
+      const chatRequest: ChatRequest = {
+        message: "Continue",
+        requestId: "test-rules",
+        sessionId: "session-123",
+      };
+      mockContext.req.json = vi.fn().mockResolvedValue(chatRequest);
+      mockResponse();
+
+      await handleChatRequest(mockContext, requestAbortControllers);
+
+      const queryCall = mockQuery.mock.calls[0][0];
+      expect(queryCall.options?.appendSystemPrompt).toContain("## ");
+      expect(queryCall.options).not.toHaveProperty("customSystemPrompt");
+      expect(await getPromptText()).toBe("Continue");
+    });
+
+    it("should replace the system prompt in replace mode", async () => {
+      const chatRequest: ChatRequest = {
+        message: "Hello",
+        requestId: "test-rules-replace",
+      };
+      mockContext.req.json = vi.fn().mockResolvedValue(chatRequest);
+      mockContext.var.config.rulesPromptMode = "replace";
+      mockResponse();
+
+      await handleChatRequest(mockContext, requestAbortControllers);
+
+      const queryCall = mockQuery.mock.calls[0][0];
+      expect(queryCall.options?.customSystemPrompt).toContain("## ");
+      expect(queryCall.options).not.toHaveProperty("appendSystemPrompt");
+    });
+    it("should use given rules and pass the sessions on when finished", async () => {
+      mockResponse();
+      const onFinished = vi.fn().mockResolvedValue(undefined);
+
+      const failure = await startChatRequest(
+        mockContext,
+        { message: "Hello", requestId: "test-rules-given" },
+        requestAbortControllers,
+        { rules: "Draft rules", recordSession: false, onFinished },
+      );
+
+      expect(failure).toBeNull();
+      await vi.waitFor(() =>
+        expect(onFinished).toHaveBeenCalledWith(["test-session"]),
+      );
+      const queryCall = mockQuery.mock.calls[0][0];
+      expect(queryCall.options?.appendSystemPrompt).toContain("Draft rules");
     });
   });
 
@@ -399,6 +500,87 @@ describe("Chat Handler - Permission Mode Tests", () => {
 
       expect(parsedLines[3]).toEqual({
         type: "done",
+        redactions: { total: 0, byType: {} },
+      });
+    });
+    it("should stream policy_denied events for blocked tools", async () => {
+      const chatRequest: ChatRequest = {
+        message: "Run a command",
+        requestId: "test-policy",
+        sessionId: "session-policy",
+      };
+
+      mockContext.req.json = vi.fn().mockResolvedValue(chatRequest);
+
+      const assistantMessage = {
+        type: "assistant",
+        message: { content: [{ type: "text", text: "Blocked" }] },
+        session_id: "session-policy",
+        parent_tool_use_id: null,
+      } as any;
+
+      mockQuery.mockImplementation(
+        (args: any) =>
+          ({
+            [Symbol.asyncIterator]: async function* () {
+              const preToolUse = args.options.hooks.PreToolUse[0].hooks[0];
+              const output = await preToolUse(
+                {
+                  hook_event_name: "PreToolUse",
+                  session_id: "session-policy",
+                  tool_name: "Bash",
+                  tool_input: { command: "rm -rf /" },
+                },
+                "tool-1",
+                { signal: new AbortController().signal },
+              );
+              expect(output.hookSpecificOutput.permissionDecision).toBe(
+                "deny",
+              );
+              yield assistantMessage;
+            },
+            interrupt: vi.fn(),
+            next: vi.fn(),
+            return: vi.fn(),
+            throw: vi.fn(),
+          }) as any,
+      );
+
+      const response = await handleChatRequest(
+        mockContext,
+        requestAbortControllers,
+      );
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+
+      let allChunks = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        allChunks += decoder.decode(value);
+      }
+
+      const parsedLines = allChunks
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+      expect(parsedLines).toHaveLength(3);
+      expect(parsedLines[0]).toEqual({
+        type: "policy_denied",
+        policyDenial: {
+          toolName: "Bash",
+          toolUseId: "tool-1",
+          reason: "Blocked by policy: Bash is not allowed (Shell commands are disabled)",
+        },
+      });
+      expect(parsedLines[1]).toEqual({
+        type: "claude_json",
+        data: assistantMessage,
+      });
+      expect(parsedLines[2]).toEqual({
+        type: "done",
+        redactions: { total: 0, byType: {} },
       });
     });
   });
@@ -448,6 +630,108 @@ describe("Chat Handler - Permission Mode Tests", () => {
     });
 
     // TODO: Re-enable when AbortError is properly exported from Claude SDK
+    it("should refuse requests without a request ID", async () => {
+      for (const requestId of [undefined, "", 42]) {
+        expect(
+          await startChatRequest(
+            mockContext,
+            { message: "Hello", requestId } as unknown as ChatRequest,
+            requestAbortControllers,
+          ),
+        ).toEqual({ status: 400, error: "requestId is required" });
+      }
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should record the usage of stopped requests", async () => {
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield {
+            type: "assistant",
+            message: {
+              id: "msg-stopped",
+              model: "claude-sonnet-4-20250514",
+              content: [{ type: "text", text: "Partial" }],
+              usage: { input_tokens: 1000, output_tokens: 100 },
+            },
+            session_id: "stopped-session",
+            parent_tool_use_id: null,
+          } as any;
+          const error = new Error("Request was aborted by user");
+          error.name = "AbortError";
+          throw error;
+        },
+        interrupt: vi.fn(),
+        next: vi.fn(),
+        return: vi.fn(),
+        throw: vi.fn(),
+      } as any);
+      const onFinished = vi.fn().mockResolvedValue(undefined);
+
+      await startChatRequest(
+        mockContext,
+        { message: "Stop me", requestId: "test-stopped" },
+        requestAbortControllers,
+        { onFinished },
+      );
+      await vi.waitFor(() => expect(onFinished).toHaveBeenCalled());
+
+      const today = getUsageDay();
+      const usage = await getUsage({
+        from: today,
+        to: today,
+        groupBy: "session",
+      });
+      expect(
+        usage.groups.find((group) => group.key === "stopped-session"),
+      ).toEqual(
+        expect.objectContaining({
+          requests: 1,
+          inputTokens: 1000,
+          outputTokens: 100,
+          costUsd: expect.closeTo(0.0045, 10),
+        }),
+      );
+    });
+
+    it("should not record requests stopped before any usage", async () => {
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield {
+            type: "system",
+            subtype: "init",
+            session_id: "stopped-early-session",
+          } as any;
+          const error = new Error("Request was aborted by user");
+          error.name = "AbortError";
+          throw error;
+        },
+        interrupt: vi.fn(),
+        next: vi.fn(),
+        return: vi.fn(),
+        throw: vi.fn(),
+      } as any);
+      const onFinished = vi.fn().mockResolvedValue(undefined);
+
+      await startChatRequest(
+        mockContext,
+        { message: "Stop me", requestId: "test-stopped-early" },
+        requestAbortControllers,
+        { onFinished },
+      );
+      await vi.waitFor(() => expect(onFinished).toHaveBeenCalled());
+
+      const today = getUsageDay();
+      const usage = await getUsage({
+        from: today,
+        to: today,
+        groupBy: "session",
+      });
+      expect(usage.groups.map((group) => group.key)).not.toContain(
+        "stopped-early-session",
+      );
+    });
+
     it.skip("should handle abort errors when using permissionMode", async () => {
       // Test currently skipped because AbortError is not exported from Claude SDK
       // When AbortError becomes available, update this test accordingly
@@ -1,71 +1,87 @@
 import { Context } from "hono";
-import { query, type PermissionMode } from "@anthropic-ai/claude-code";
-import type { ChatRequest, StreamResponse } from "../../shared/types.ts";
+import { withContext } from "@logtape/logtape";
+import {
+  query,
+  type PermissionMode,
+  type SDKMessage,
+  type SDKUserMessage,
+} from "@anthropic-ai/claude-code";
+import type {
+  ChatRequest,
+  PolicyDenial,
+  StreamResponse,
+} from "../../shared/types.ts";
 import { logger } from "../utils/logger.ts";
-import { getCachedRules } from "../rules/loader.ts";
+import { getEffectiveRules } from "../rules/loader.ts";
+import { saveRulesSnapshot } from "../rules/versions.ts";
+import { getCurrentPolicy } from "../policy/loader.ts";
+import { getAllowedTools } from "../policy/evaluator.ts";
+import { createPolicyEnforcer } from "../policy/enforcement.ts";
+import { getSandboxDenyRules } from "../policy/sandbox.ts";
+import { getCurrentRedactionConfig } from "../redaction/loader.ts";
+import { createStreamRedactor } from "../redaction/redactor.ts";
+import { canAccessSession, recordSessionOwner } from "../auth/ownership.ts";
+import { carryOverConversationMetadata } from "../history/metadata.ts";
+import { canSeeSubagentActivity } from "../settings/serverSettings.ts";
+import {
+  appendLiveStreamChunk,
+  finishLiveStream,
+  setLiveStreamSession,
+  startLiveStream,
+} from "../chat/liveStreams.ts";
+import { requestSlot } from "../chat/scheduler.ts";
+import {
+  checkDailyBudget,
+  createUsageTracker,
+  getResultUsage,
+  recordUsage,
+} from "../chat/usage.ts";
+import {
+  chatErrorsTotal,
+  chatTimeToFirstToken,
+  startTimer,
+} from "../metrics/metrics.ts";
+import { createLiveStreamResponse } from "./liveStream.ts";
+import type { RulesPromptMode } from "../types.ts";
 
 /**
- * Read-only tools whitelist for safe mode
- * These tools can only read content, not modify anything
+ * Builds the SDK options that pass rules as a system prompt
+ * The system prompt is not stored in the session, so rules are sent with
+ * every request, including resumed sessions.
+ * @param rules - Effective rules for the request
+ * @param mode - Append to Claude Code's system prompt, or replace it
+ * @returns appendSystemPrompt or customSystemPrompt option
  */
-const READ_ONLY_TOOLS = [
-  "Read",      // Read file contents
-  "Grep",      // Search code content
-  "Glob",      // Find file paths
-  "LSP",       // Code definition, reference queries
-  "Task",      // Sub-agent for read-only exploration
-] as const;
-
-/**
- * Get allowed tools for safe read-only mode
- * Merges the read-only whitelist with user-approved tools from frontend
- * @param frontendAllowedTools - Tools explicitly approved by user in frontend
- * @returns Merged list of allowed tools
- */
-export function getAllowedTools(frontendAllowedTools?: string[]): string[] {
-  // Always include read-only tools
-  const tools: string[] = [...READ_ONLY_TOOLS];
-  
-  // Add user-approved tools from frontend (MCP tools, etc.)
-  // but still block write operations
-  const BLOCKED_WRITE_TOOLS = [
-    "Write", "Edit", "Delete", "Move", "Bash",
-  ];
-  
-  if (frontendAllowedTools) {
-    for (const tool of frontendAllowedTools) {
-      // Skip blocked write tools
-      if (BLOCKED_WRITE_TOOLS.some(blocked => tool === blocked || tool.startsWith(blocked + "("))) {
-        continue;
-      }
-      // Add the tool if not already present
-      if (!tools.includes(tool)) {
-        tools.push(tool);
-      }
-    }
-  }
-  
-  return tools;
+function getSystemPromptOptions(
+  rules: string,
+  mode: RulesPromptMode = "append",
+): { appendSystemPrompt?: string; customSystemPrompt?: string } {
+  return mode === "replace"
+    ? { customSystemPrompt: rules }
+    : { appendSystemPrompt: rules };
 }
 
 /**
- * Prepends rules to the user message for context
- * Rules are only injected on new sessions (no sessionId)
- * @param message - Original user message
+ * Wraps the user message into a streaming prompt
+ * The permission callback (canUseTool) only works with streaming input, and the
+ * SDK closes its input as soon as the prompt ends, so the stream stays open
+ * until the request completes.
+ * @param message - Message to send
  * @param sessionId - Optional session ID
- * @returns Message with rules prepended (for new sessions)
+ * @param completion - Resolves when the request is finished
  */
-function prepareMessageWithRules(message: string, sessionId?: string): string {
-  // Only inject rules for new sessions
-  if (sessionId) {
-    return message;
-  }
-
-  const rules = getCachedRules();
-  return `${rules}
-
----
-User message: ${message}`;
+async function* createPromptStream(
+  message: string,
+  sessionId: string | undefined,
+  completion: Promise<void>,
+): AsyncGenerator<SDKUserMessage> {
+  yield {
+    type: "user",
+    message: { role: "user", content: message },
+    parent_tool_use_id: null,
+    session_id: sessionId ?? "",
+  };
+  await completion;
 }
 
 /**
@@ -78,9 +94,11 @@ User message: ${message}`;
  * @param allowedTools - Optional array of allowed tool names (overridden by safe mode)
  * @param workingDirectory - Optional working directory for Claude execution
  * @param permissionMode - Optional permission mode for Claude execution
+ * @param rules - Effective rules, passed as system prompt
+ * @param rulesPromptMode - How rules are combined with Claude Code's system prompt
  * @returns AsyncGenerator yielding StreamResponse objects
  */
-async function* executeClaudeCommand(
+export async function* executeClaudeCommand(
   message: string,
   requestId: string,
   requestAbortControllers: Map<string, AbortController>,
@@ -89,8 +107,22 @@ async function* executeClaudeCommand(
   allowedTools?: string[],
   workingDirectory?: string,
   permissionMode?: PermissionMode,
+  rules?: string,
+  rulesPromptMode?: RulesPromptMode,
 ): AsyncGenerator<StreamResponse> {
   let abortController: AbortController;
+  let completeRequest: () => void = () => {};
+  const completion = new Promise<void>((resolve) => {
+    completeRequest = resolve;
+  });
+
+  // Policy denials reported by the enforcer, streamed alongside SDK messages
+  const pendingDenials: PolicyDenial[] = [];
+  const flushDenials = function* (): Generator<StreamResponse> {
+    while (pendingDenials.length > 0) {
+      yield { type: "policy_denied", policyDenial: pendingDenials.shift() };
+    }
+  };
 
   try {
     // Process commands that start with '/'
@@ -104,20 +136,22 @@ async function* executeClaudeCommand(
     abortController = new AbortController();
     requestAbortControllers.set(requestId, abortController);
 
-    // In safe mode, merge read-only whitelist with user-approved tools
-    const safeAllowedTools = getAllowedTools(allowedTools);
-    
-    logger.chat.debug("Using allowed tools: {tools}", { tools: safeAllowedTools });
+    // In safe mode, merge the policy's pre-approved tools with user-approved tools
+    const safeAllowedTools = getAllowedTools(getCurrentPolicy(), allowedTools);
 
-    // Prepare message with rules for new sessions
-    const messageWithRules = prepareMessageWithRules(processedMessage, sessionId);
+    logger.chat.debug("Using allowed tools: {tools}", { tools: safeAllowedTools });
 
-    if (!sessionId) {
-      logger.chat.debug("Injecting rules into new session message");
-    }
+    // Check every tool invocation against the tool policy
+    const enforcer = createPolicyEnforcer({
+      requestId,
+      sessionId,
+      workingDirectory,
+      userAllowedTools: allowedTools,
+      onDenied: (denial) => pendingDenials.push(denial),
+    });
 
     for await (const sdkMessage of query({
-      prompt: messageWithRules,
+      prompt: createPromptStream(processedMessage, sessionId, completion),
       options: {
         abortController,
         executable: "node" as const,
@@ -125,19 +159,30 @@ async function* executeClaudeCommand(
         pathToClaudeCodeExecutable: cliPath,
         ...(sessionId ? { resume: sessionId } : {}),
         allowedTools: safeAllowedTools, // Safe merged whitelist
+        disallowedTools: getSandboxDenyRules(getCurrentPolicy().sandbox), // Keep secret files out of searches
         ...(workingDirectory ? { cwd: workingDirectory } : {}),
         ...(permissionMode ? { permissionMode } : {}),
+        ...(rules ? getSystemPromptOptions(rules, rulesPromptMode) : {}),
+        canUseTool: enforcer.canUseTool,
+        hooks: enforcer.hooks,
       },
     })) {
       // Debug logging of raw SDK messages with detailed content
       logger.chat.debug("Claude SDK Message: {sdkMessage}", { sdkMessage });
 
+      yield* flushDenials();
       yield {
         type: "claude_json",
         data: sdkMessage,
       };
+
+      // Close the prompt stream once Claude has finished
+      if (sdkMessage.type === "result") {
+        completeRequest();
+      }
     }
 
+    yield* flushDenials();
     yield { type: "done" };
   } catch (error) {
     // Check if error is due to abort
@@ -160,6 +205,8 @@ async function* executeClaudeCommand(
       };
     }
   } finally {
+    completeRequest();
+
     // Clean up AbortController from map
     if (requestAbortControllers.has(requestId)) {
       requestAbortControllers.delete(requestId);
@@ -168,58 +215,318 @@ async function* executeClaudeCommand(
 }
 
 /**
- * Handles POST /api/chat requests with streaming responses
+ * Checks whether an SDK message was sent by a sub-agent (Task tool)
+ */
+function isSubagentMessage(message: SDKMessage): boolean {
+  return (
+    (message.type === "assistant" || message.type === "user") &&
+    Boolean(message.parent_tool_use_id)
+  );
+}
+
+/**
+ * Reason a chat request was not started
+ */
+export interface ChatRequestFailure {
+  status: 400 | 403 | 409 | 429;
+  error: string;
+}
+
+/**
+ * Options for requests that are not regular chats, e.g. rules dry runs
+ */
+export interface ChatRequestOptions {
+  rules?: string; // Used instead of the effective rules, not snapshotted
+  recordSession?: boolean; // Record the session's owner, defaults to true
+  onFinished?: (sessionIds: string[]) => Promise<void>; // Before the stream ends
+}
+
+/**
+ * Starts a chat request in the background
+ * Claude keeps working when the client disconnects, so the request runs
+ * detached and its chunks are buffered in the request's live stream, which
+ * transports replay and follow.
  * @param c - Hono context object with config variables
+ * @param chatRequest - Request sent by the client
  * @param requestAbortControllers - Shared map of abort controllers
- * @returns Response with streaming NDJSON
+ * @param options - Rules and session handling of special requests
+ * @returns Why the request was refused, or null when it was started
  */
-export async function handleChatRequest(
+export async function startChatRequest(
   c: Context,
+  chatRequest: ChatRequest,
   requestAbortControllers: Map<string, AbortController>,
-) {
-  const chatRequest: ChatRequest = await c.req.json();
-  const { cliPath } = c.var.config;
+  options: ChatRequestOptions = {},
+): Promise<ChatRequestFailure | null> {
+  if (typeof chatRequest?.requestId !== "string" || !chatRequest.requestId) {
+    return { status: 400, error: "requestId is required" };
+  }
+
+  // Every record logged for the request, also by the detached part, carries
+  // its IDs, so one chat can be traced from start to finish
+  return withContext(
+    {
+      requestId: chatRequest.requestId,
+      sessionId: chatRequest.sessionId,
+      user: c.var.user.id,
+    },
+    () => runChatRequest(c, chatRequest, requestAbortControllers, options),
+  );
+}
+
+/**
+ * Checks a chat request and starts it, see startChatRequest
+ */
+async function runChatRequest(
+  c: Context,
+  chatRequest: ChatRequest,
+  requestAbortControllers: Map<string, AbortController>,
+  options: ChatRequestOptions,
+): Promise<ChatRequestFailure | null> {
+  const { cliPath, rulesPromptMode } = c.var.config;
+  const user = c.var.user;
 
   logger.chat.debug(
     "Received chat request {*}",
     chatRequest as unknown as Record<string, unknown>,
   );
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const chunk of executeClaudeCommand(
-          chatRequest.message,
-          chatRequest.requestId,
-          requestAbortControllers,
-          cliPath, // Use detected CLI path from validateClaudeCli
-          chatRequest.sessionId,
-          chatRequest.allowedTools, // Merged with safe mode whitelist
-          chatRequest.workingDirectory,
-          chatRequest.permissionMode,
-        )) {
-          const data = JSON.stringify(chunk) + "\n";
-          controller.enqueue(new TextEncoder().encode(data));
+  // Users may only resume their own sessions
+  if (
+    chatRequest.sessionId &&
+    !(await canAccessSession(user, chatRequest.sessionId))
+  ) {
+    logger.chat.warn("User {user} denied resuming session {sessionId}", {
+      user: user.id,
+      sessionId: chatRequest.sessionId,
+    });
+    chatErrorsTotal.inc({ type: "forbidden" });
+    return { status: 403, error: "You don't have access to this session" };
+  }
+
+  const budgetError = await checkDailyBudget(user.id);
+  if (budgetError) {
+    logger.chat.warn("User {user} refused a request: {reason}", {
+      user: user.id,
+      reason: budgetError,
+    });
+    chatErrorsTotal.inc({ type: "budget" });
+    return { status: 429, error: budgetError };
+  }
+
+  // Resolve the layered rules (global, project, profiles), unless the
+  // request brings its own
+  let rules: string;
+  let rulesHash: string | undefined;
+  if (options.rules !== undefined) {
+    rules = options.rules;
+  } else {
+    try {
+      const effectiveRules = await getEffectiveRules(
+        chatRequest.workingDirectory,
+        chatRequest.rulesProfiles,
+      );
+      rules = effectiveRules.content;
+      // Snapshot the exact text, so the session can be traced back to it
+      rulesHash = await saveRulesSnapshot(rules, effectiveRules.layers);
+    } catch (error) {
+      chatErrorsTotal.inc({ type: "rules" });
+      return {
+        status: 400,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Secrets are redacted from every chunk before it leaves the server
+  const redactor = createStreamRedactor(getCurrentRedactionConfig());
+
+  // Sub-agent (Task tool) messages are only sent to users allowed to see them
+  const showSubagents = await canSeeSubagentActivity(user);
+
+  // Request IDs are chosen by the client, so a second request with the same
+  // ID must not take over the stream and abort controller of the first
+  const { requestId } = chatRequest;
+  if (
+    requestAbortControllers.has(requestId) ||
+    !startLiveStream(requestId, user, {
+      message: chatRequest.message,
+      resumedSessionId: chatRequest.sessionId,
+    })
+  ) {
+    logger.chat.warn("Request ID {requestId} is already in use", {
+      requestId,
+    });
+    return { status: 409, error: "Request ID is already in use" };
+  }
+
+  // Waiting requests can be aborted before Claude starts; executeClaudeCommand
+  // registers its own controller once the request runs
+  const queueAbortController = new AbortController();
+  requestAbortControllers.set(requestId, queueAbortController);
+
+  let timedOut = false;
+  const slot = requestSlot(requestId, user.id, {
+    signal: queueAbortController.signal,
+    onQueuePosition: (queuePosition) =>
+      appendLiveStreamChunk(requestId, { type: "queued", queuePosition }),
+    onTimeout: () => {
+      timedOut = true;
+      requestAbortControllers.get(requestId)?.abort();
+    },
+  });
+
+  void (async () => {
+    if (!slot.running && !(await slot.ready)) {
+      appendLiveStreamChunk(requestId, { type: "aborted" });
+      finishLiveStream(requestId);
+      return;
+    }
+
+    const elapsed = startTimer();
+    let firstTokenSeen = false;
+    let sessionId = chatRequest.sessionId;
+    const sessionIds = new Set<string>();
+    const partialUsage = createUsageTracker();
+    let usageRecorded = false;
+    try {
+      const chunks = executeClaudeCommand(
+        chatRequest.message,
+        requestId,
+        requestAbortControllers,
+        cliPath, // Use detected CLI path from validateClaudeCli
+        chatRequest.sessionId,
+        chatRequest.allowedTools, // Merged with safe mode whitelist
+        chatRequest.workingDirectory,
+        chatRequest.permissionMode,
+        rules,
+        rulesPromptMode,
+      );
+      for (;;) {
+        // Records logged while Claude works carry the session it runs under
+        const next = await withContext({ sessionId }, () => chunks.next());
+        if (next.done) {
+          break;
+        }
+        let chunk = next.value;
+
+        if (chunk.type === "aborted" && timedOut) {
+          chatErrorsTotal.inc({ type: "timeout" });
+          chunk = {
+            type: "error",
+            error: "Request timed out and was stopped",
+          };
+        } else if (chunk.type === "error") {
+          chatErrorsTotal.inc({ type: "claude" });
+        }
+
+        // Resumed conversations continue under new session IDs
+        if (chunk.type === "claude_json") {
+          const sdkMessage = chunk.data as SDKMessage;
+          const { session_id } = sdkMessage;
+          if (!firstTokenSeen && sdkMessage.type === "assistant") {
+            firstTokenSeen = true;
+            chatTimeToFirstToken.observe(elapsed());
+          }
+          if (session_id && !sessionIds.has(session_id)) {
+            sessionId = session_id;
+            sessionIds.add(session_id);
+            setLiveStreamSession(requestId, session_id);
+          }
+          if (session_id && options.recordSession !== false) {
+            await recordSessionOwner(session_id, user, {
+              workingDirectory: chatRequest.workingDirectory,
+              rulesHash,
+            });
+            if (chatRequest.sessionId) {
+              await carryOverConversationMetadata(
+                chatRequest.sessionId,
+                session_id,
+              );
+            }
+          }
+          if (sdkMessage.type === "assistant") {
+            partialUsage.add(sdkMessage);
+          }
+          if (sdkMessage.type === "result") {
+            await recordUsage(
+              {
+                userId: user.id,
+                project: chatRequest.workingDirectory,
+                sessionId: sdkMessage.session_id,
+              },
+              getResultUsage(sdkMessage),
+            );
+            usageRecorded = true;
+          }
+          if (!showSubagents && isSubagentMessage(sdkMessage)) {
+            continue;
+          }
         }
-        controller.close();
-      } catch (error) {
-        const errorResponse: StreamResponse = {
-          type: "error",
-          error: error instanceof Error ? error.message : String(error),
-        };
-        controller.enqueue(
-          new TextEncoder().encode(JSON.stringify(errorResponse) + "\n"),
+
+        const redactedChunk = redactor.redact(chunk);
+        if (redactedChunk.type === "done") {
+          const byType = redactor.getCounts();
+          redactedChunk.redactions = {
+            total: Object.values(byType).reduce((sum, n) => sum + n, 0),
+            byType,
+          };
+        }
+        appendLiveStreamChunk(requestId, redactedChunk);
+      }
+    } catch (error) {
+      chatErrorsTotal.inc({ type: "internal" });
+      appendLiveStreamChunk(requestId, {
+        type: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      slot.release();
+      // Stopped and timed out requests end without a result message
+      if (!usageRecorded && partialUsage.hasUsage()) {
+        await recordUsage(
+          {
+            userId: user.id,
+            project: chatRequest.workingDirectory,
+            sessionId: sessionId ?? "",
+          },
+          partialUsage.getTotals(),
         );
-        controller.close();
       }
-    },
-  });
+      await options.onFinished?.([...sessionIds]);
+      finishLiveStream(requestId);
+    }
+  })();
 
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "application/x-ndjson",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
-  });
+  return null;
+}
+
+/**
+ * Handles POST /api/chat requests with streaming responses
+ * @param c - Hono context object with config variables
+ * @param requestAbortControllers - Shared map of abort controllers
+ * @returns Response streaming the request's chunks as NDJSON, or as
+ *   server-sent events when the client accepts text/event-stream
+ */
+export async function handleChatRequest(
+  c: Context,
+  requestAbortControllers: Map<string, AbortController>,
+) {
+  let chatRequest: ChatRequest;
+  try {
+    chatRequest = await c.req.json();
+  } catch {
+    return c.json({ error: "Request body must be JSON" }, 400);
+  }
+
+  const failure = await startChatRequest(
+    c,
+    chatRequest,
+    requestAbortControllers,
+  );
+  if (failure) {
+    return c.json({ error: failure.error }, failure.status);
+  }
+
+  return createLiveStreamResponse(c, chatRequest.requestId, 0);
 }
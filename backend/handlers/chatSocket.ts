@@ -0,0 +1,126 @@
+import { Context } from "hono";
+import type { WSContext, WSEvents } from "hono/ws";
+import type {
+  ChatSocketMessage,
+  ChatSocketRequest,
+} from "../../shared/types.ts";
+import { followLiveStream, getLiveStreamInfo } from "../chat/liveStreams.ts";
+import { startChatRequest } from "./chat.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Handles the chat WebSocket (GET /api/chat/ws)
+ * Clients start requests and follow running ones over one connection. Each
+ * chunk is sent with its index, so a client that lost the connection can
+ * follow the request again from where it stopped.
+ * @param c - Hono context of the upgrade request, with config variables
+ * @param requestAbortControllers - Shared map of abort controllers
+ * @returns WebSocket event handlers
+ */
+export function createChatSocketEvents(
+  c: Context,
+  requestAbortControllers: Map<string, AbortController>,
+): WSEvents {
+  // Requests followed by this connection, stopped when it closes
+  const followers = new Set<AbortController>();
+
+  const send = (ws: WSContext, message: ChatSocketMessage) => {
+    if (ws.readyState === 1) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const follow = async (ws: WSContext, requestId: string, from: number) => {
+    const abortController = new AbortController();
+    followers.add(abortController);
+    try {
+      for await (const { id, chunk } of followLiveStream(
+        requestId,
+        from,
+        abortController.signal,
+      )) {
+        send(ws, { type: "chunk", requestId, id, chunk });
+      }
+      if (!abortController.signal.aborted) {
+        send(ws, { type: "end", requestId });
+      }
+    } finally {
+      followers.delete(abortController);
+    }
+  };
+
+  const handleMessage = async (ws: WSContext, message: ChatSocketRequest) => {
+    if (message.type === "chat") {
+      const chatRequest = message.request;
+      const failure = await startChatRequest(
+        c,
+        chatRequest,
+        requestAbortControllers,
+      );
+      if (failure) {
+        send(ws, {
+          type: "error",
+          requestId: chatRequest?.requestId,
+          ...failure,
+        });
+        return;
+      }
+      await follow(ws, chatRequest.requestId, 0);
+      return;
+    }
+
+    if (message.type === "follow") {
+      const { requestId, from = 0 } = message;
+      if (!Number.isInteger(from) || from < 0) {
+        send(ws, {
+          type: "error",
+          requestId,
+          status: 400,
+          error: "from must be a non-negative integer",
+        });
+        return;
+      }
+      // Other users' requests are reported as missing
+      if (!getLiveStreamInfo(c.var.user, requestId)) {
+        send(ws, {
+          type: "error",
+          requestId,
+          status: 404,
+          error: "Stream not found",
+        });
+        return;
+      }
+      await follow(ws, requestId, from);
+      return;
+    }
+
+    send(ws, { type: "error", status: 400, error: "Unknown message type" });
+  };
+
+  return {
+    onMessage(event, ws) {
+      let message: ChatSocketRequest;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        send(ws, { type: "error", status: 400, error: "Invalid JSON message" });
+        return;
+      }
+
+      handleMessage(ws, message).catch((error) => {
+        logger.chat.error("Chat WebSocket message failed: {error}", { error });
+        send(ws, {
+          type: "error",
+          status: 500,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    },
+    onClose() {
+      for (const abortController of followers) {
+        abortController.abort();
+      }
+      followers.clear();
+    },
+  };
+}
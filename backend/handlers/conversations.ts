@@ -1,6 +1,8 @@
 import { Context } from "hono";
 import { validateEncodedProjectName } from "../history/pathUtils.ts";
 import { loadConversation } from "../history/conversationLoader.ts";
+import { canAccessSession } from "../auth/ownership.ts";
+import { canSeeSubagentActivity } from "../settings/serverSettings.ts";
 import { logger } from "../utils/logger.ts";
 
 /**
@@ -30,6 +32,21 @@ export async function handleConversationRequest(c: Context) {
       `Fetching conversation details for project: ${encodedProjectName}, session: ${sessionId}`,
     );
 
+    // Other users' sessions are reported as missing
+    if (!(await canAccessSession(c.var.user, sessionId))) {
+      logger.history.warn("User {user} denied access to session {sessionId}", {
+        user: c.var.user.id,
+        sessionId,
+      });
+      return c.json(
+        {
+          error: "Conversation not found",
+          sessionId,
+        },
+        404,
+      );
+    }
+
     // Load the specific conversation (already returns processed ConversationHistory)
     const conversationHistory = await loadConversation(
       encodedProjectName,
@@ -50,6 +67,11 @@ export async function handleConversationRequest(c: Context) {
       `Loaded conversation with ${conversationHistory.messages.length} messages`,
     );
 
+    // Sub-agent transcripts are only sent to users allowed to see them
+    if (!(await canSeeSubagentActivity(c.var.user))) {
+      return c.json({ ...conversationHistory, sidechains: [] });
+    }
+
     return c.json(conversationHistory);
   } catch (error) {
     logger.history.error("Error fetching conversation details: {error}", {
@@ -0,0 +1,88 @@
+import { Context } from "hono";
+import { validateEncodedProjectName } from "../history/pathUtils.ts";
+import { loadConversation } from "../history/conversationLoader.ts";
+import {
+  EXPORT_FORMATS,
+  exportConversation,
+  type ExportFormat,
+} from "../history/export.ts";
+import { canAccessSession, getSessionOwner } from "../auth/ownership.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Handles GET /api/projects/:encodedProjectName/histories/:sessionId/export requests
+ * Query parameters:
+ * - format: "md" (default), "html" or "json"
+ * @param c - Hono context object with config variables
+ * @returns The conversation as a file download
+ */
+export async function handleExportRequest(c: Context) {
+  const encodedProjectName = c.req.param("encodedProjectName");
+  const sessionId = c.req.param("sessionId");
+
+  if (!encodedProjectName || !validateEncodedProjectName(encodedProjectName)) {
+    return c.json({ error: "Invalid encoded project name" }, 400);
+  }
+
+  if (!sessionId) {
+    return c.json({ error: "Session ID is required" }, 400);
+  }
+
+  const format = c.req.query("format") || "md";
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return c.json(
+      { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+      400,
+    );
+  }
+
+  try {
+    // Other users' sessions are reported as missing
+    if (!(await canAccessSession(c.var.user, sessionId))) {
+      logger.history.warn("User {user} denied export of session {sessionId}", {
+        user: c.var.user.id,
+        sessionId,
+      });
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    const conversation = await loadConversation(encodedProjectName, sessionId);
+    if (!conversation) {
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    const rendered = exportConversation(conversation, format as ExportFormat, {
+      rulesHash: (await getSessionOwner(sessionId))?.rulesHash,
+    });
+
+    logger.history.debug("Exported session {sessionId} as {format}", {
+      sessionId,
+      format,
+    });
+
+    return c.body(rendered.body, 200, {
+      "Content-Type": rendered.contentType,
+      "Content-Disposition": `attachment; filename="${rendered.fileName}"`,
+    });
+  } catch (error) {
+    logger.history.error("Error exporting conversation: {error}", { error });
+
+    if (
+      error instanceof Error &&
+      error.message.includes("Invalid session ID")
+    ) {
+      return c.json(
+        { error: "Invalid session ID format", details: error.message },
+        400,
+      );
+    }
+
+    return c.json(
+      {
+        error: "Failed to export conversation",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { Context } from "hono";
+import type {
+  ConversationForkRequest,
+  ConversationForkResponse,
+} from "../../shared/types.ts";
+import { validateEncodedProjectName } from "../history/pathUtils.ts";
+import { createForkSession } from "../history/fork.ts";
+import { recordConversationFork } from "../history/metadata.ts";
+import {
+  canAccessSession,
+  getSessionOwner,
+  recordSessionOwner,
+} from "../auth/ownership.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Handles POST /api/projects/:encodedProjectName/histories/:sessionId/fork
+ * Copies the conversation up to a message into a new session, which the
+ * client continues by sending chat requests with the new session ID
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the new session ID
+ */
+export async function handleForkRequest(c: Context) {
+  const encodedProjectName = c.req.param("encodedProjectName");
+  const sessionId = c.req.param("sessionId");
+
+  if (!encodedProjectName || !validateEncodedProjectName(encodedProjectName)) {
+    return c.json({ error: "Invalid encoded project name" }, 400);
+  }
+  if (!sessionId) {
+    return c.json({ error: "Session ID is required" }, 400);
+  }
+
+  let body: ConversationForkRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  if (typeof body?.messageId !== "string" || !body.messageId) {
+    return c.json({ error: "messageId is required" }, 400);
+  }
+
+  try {
+    // Other users' sessions are reported as missing
+    if (!(await canAccessSession(c.var.user, sessionId))) {
+      logger.history.warn("User {user} denied forking session {sessionId}", {
+        user: c.var.user.id,
+        sessionId,
+      });
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    const forkSessionId = await createForkSession(
+      encodedProjectName,
+      sessionId,
+      body.messageId,
+    );
+    if (!forkSessionId) {
+      return c.json({ error: "Message not found", sessionId }, 404);
+    }
+
+    // The fork belongs to the user who created it, under the parent's rules
+    const parent = await getSessionOwner(sessionId);
+    await recordSessionOwner(forkSessionId, c.var.user, {
+      workingDirectory: parent?.workingDirectory,
+      rulesHash: parent?.rulesHash,
+    });
+
+    const forkedFrom = { sessionId, messageId: body.messageId };
+    await recordConversationFork(forkSessionId, forkedFrom);
+
+    const response: ConversationForkResponse = {
+      sessionId: forkSessionId,
+      forkedFrom,
+    };
+    return c.json(response);
+  } catch (error) {
+    logger.history.error("Error forking conversation: {error}", { error });
+
+    if (
+      error instanceof Error &&
+      error.message.includes("Invalid session ID")
+    ) {
+      return c.json(
+        { error: "Invalid session ID format", details: error.message },
+        400,
+      );
+    }
+
+    return c.json(
+      {
+        error: "Failed to fork conversation",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
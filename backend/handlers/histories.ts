@@ -1,15 +1,88 @@
 import { Context } from "hono";
-import type { HistoryListResponse } from "../../shared/types.ts";
+import type {
+  HistoryListResponse,
+  HistorySortKey,
+} from "../../shared/types.ts";
 import { validateEncodedProjectName } from "../history/pathUtils.ts";
-import { parseAllHistoryFiles } from "../history/parser.ts";
+import { getHistorySummaries } from "../history/summaryCache.ts";
 import { groupConversations } from "../history/grouping.ts";
+import {
+  HISTORY_SORT_KEYS,
+  paginateConversations,
+  type HistoryListOptions,
+} from "../history/listing.ts";
+import {
+  applyConversationMetadata,
+  getAllConversationMetadata,
+  normalizeTags,
+} from "../history/metadata.ts";
+import {
+  filterAccessibleSessions,
+  getSessionOwner,
+} from "../auth/ownership.ts";
 import { logger } from "../utils/logger.ts";
 import { stat } from "../utils/fs.ts";
 import { getHomeDir } from "../utils/os.ts";
+import { parseDateFilter } from "../utils/dateFilter.ts";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Parse the paging, sorting and filter query parameters
+ * @returns Options, or an error message for invalid parameters
+ */
+function parseListOptions(c: Context): HistoryListOptions | string {
+  const sort = c.req.query("sort") || "startTime";
+  if (!HISTORY_SORT_KEYS.includes(sort as HistorySortKey)) {
+    return `sort must be one of ${HISTORY_SORT_KEYS.join(", ")}`;
+  }
+
+  const order = c.req.query("order") || "desc";
+  if (order !== "asc" && order !== "desc") {
+    return 'order must be "asc" or "desc"';
+  }
+
+  const from = parseDateFilter(c.req.query("from"), false);
+  const to = parseDateFilter(c.req.query("to"), true);
+  if (from === null || to === null) {
+    return "Invalid date filter";
+  }
+
+  const minMessages = c.req.query("minMessages");
+  if (minMessages && !/^\d+$/.test(minMessages)) {
+    return "minMessages must be a non-negative integer";
+  }
+
+  const tags = normalizeTags(c.req.queries("tag") ?? []);
+
+  return {
+    sort: sort as HistorySortKey,
+    order,
+    limit: Math.min(
+      Math.max(parseInt(c.req.query("limit") ?? "", 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    ),
+    cursor: c.req.query("cursor") || undefined,
+    from,
+    to,
+    minMessages: minMessages ? parseInt(minMessages, 10) : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+}
 
 /**
  * Handles GET /api/projects/:encodedProjectName/histories requests
  * Fetches conversation history list for a specific project
+ * Only sessions owned by the current user are listed (all for admins)
+ * Query parameters:
+ * - sort: startTime (default), lastTime or messageCount
+ * - order: desc (default) or asc
+ * - limit: page size (default 50, at most 200)
+ * - cursor: nextCursor of the previous page
+ * - from, to: only conversations active in this period (to is inclusive for dates)
+ * - minMessages: only conversations with at least this many messages
+ * - tag: only conversations with this tag, may be repeated
  * @param c - Hono context object with config variables
  * @returns JSON response with conversation history list
  */
@@ -25,6 +98,11 @@ export async function handleHistoriesRequest(c: Context) {
       return c.json({ error: "Invalid encoded project name" }, 400);
     }
 
+    const options = parseListOptions(c);
+    if (typeof options === "string") {
+      return c.json({ error: options }, 400);
+    }
+
     logger.history.debug(
       `Fetching histories for encoded project: ${encodedProjectName}`,
     );
@@ -54,21 +132,60 @@ export async function handleHistoriesRequest(c: Context) {
       throw error;
     }
 
-    const conversationFiles = await parseAllHistoryFiles(historyDir);
+    // Summaries are cached, only changed files are parsed again
+    const conversationFiles = await getHistorySummaries(historyDir);
 
     logger.history.debug(
       `Found ${conversationFiles.length} conversation files`,
     );
 
     // Group conversations and remove duplicates
-    const conversations = groupConversations(conversationFiles);
+    const groupedConversations = groupConversations(conversationFiles);
 
     logger.history.debug(
-      `After grouping: ${conversations.length} unique conversations`,
+      `After grouping: ${groupedConversations.length} unique conversations`,
+    );
+
+    const accessibleConversations = await filterAccessibleSessions(
+      c.var.user,
+      groupedConversations,
+    );
+
+    // Titles, tags and pinning come from the metadata store
+    const metadata = await getAllConversationMetadata();
+    const describedConversations = accessibleConversations.map((conversation) =>
+      applyConversationMetadata(
+        conversation,
+        metadata.get(conversation.sessionId),
+      ),
+    );
+
+    let page;
+    try {
+      page = paginateConversations(describedConversations, options);
+    } catch (error) {
+      return c.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        400,
+      );
+    }
+
+    // Attach the rules each conversation was started with
+    const conversations = await Promise.all(
+      page.conversations.map(async (conversation) => {
+        const rulesHash = (await getSessionOwner(conversation.sessionId))
+          ?.rulesHash;
+        return rulesHash ? { ...conversation, rulesHash } : conversation;
+      }),
     );
 
     const response: HistoryListResponse = {
       conversations,
+      nextCursor: page.nextCursor,
+      total: page.total,
+      tags: [
+        ...new Set(describedConversations.flatMap(({ tags }) => tags)),
+      ].sort(),
     };
 
     return c.json(response);
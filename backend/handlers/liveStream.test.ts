@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+import type { AuthUser } from "../../shared/types.ts";
+import { handleLiveStreamRequest } from "./liveStream.ts";
+import {
+  appendLiveStreamChunk,
+  finishLiveStream,
+  startLiveStream,
+} from "../chat/liveStreams.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    chat: {
+      debug: vi.fn(),
+    },
+  },
+}));
+
+describe("GET /api/chat/:requestId/stream", () => {
+  const alice: AuthUser = { id: "alice", name: "Alice", provider: "oidc" };
+  const bob: AuthUser = { id: "bob", name: "Bob", provider: "oidc" };
+  let user = alice;
+
+  const app = new Hono();
+  app.use("*", async (c, next) => {
+    c.set("user" as never, user as never);
+    await next();
+  });
+  app.get("/api/chat/:requestId/stream", (c) => handleLiveStreamRequest(c));
+
+  startLiveStream("finished", alice, { message: "Hello" });
+  appendLiveStreamChunk("finished", { type: "claude_json", data: "a" });
+  appendLiveStreamChunk("finished", { type: "claude_json", data: "b" });
+  appendLiveStreamChunk("finished", { type: "done" });
+  finishLiveStream("finished");
+
+  it("replays NDJSON from the requested chunk", async () => {
+    const response = await app.request("/api/chat/finished/stream?from=1");
+
+    expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(await response.text()).toBe(
+      '{"type":"claude_json","data":"b"}\n{"type":"done"}\n',
+    );
+  });
+
+  it("resumes event streams after the last event ID", async () => {
+    const response = await app.request("/api/chat/finished/stream", {
+      headers: { Accept: "text/event-stream", "Last-Event-ID": "1" },
+    });
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(await response.text()).toBe(
+      'data: {"type":"done"}\nid: 2\n\nevent: end\ndata: \n\n',
+    );
+  });
+
+  it("hides other users' requests", async () => {
+    user = bob;
+    const response = await app.request("/api/chat/finished/stream");
+    user = alice;
+
+    expect(response.status).toBe(404);
+  });
+});
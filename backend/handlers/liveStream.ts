@@ -0,0 +1,136 @@
+import { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import {
+  findLiveStreamBySession,
+  followLiveStream,
+  getLiveStreamInfo,
+} from "../chat/liveStreams.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Checks whether the client asked for server-sent events
+ */
+function acceptsEventStream(c: Context): boolean {
+  return c.req.header("Accept")?.includes("text/event-stream") ?? false;
+}
+
+/**
+ * Creates a response that replays a request's stream and follows it
+ * Chunks are sent as NDJSON, or as server-sent events (with the chunk index
+ * as event ID) when the client accepts text/event-stream. Closing the
+ * response only stops following, the request keeps running.
+ * @param c - Hono context object
+ * @param requestId - Request to follow
+ * @param from - Number of chunks to skip
+ * @returns Streaming response
+ */
+export function createLiveStreamResponse(
+  c: Context,
+  requestId: string,
+  from: number,
+): Response {
+  const abortController = new AbortController();
+
+  if (acceptsEventStream(c)) {
+    // Keep reverse proxies (nginx) from buffering the events
+    c.header("X-Accel-Buffering", "no");
+    return streamSSE(c, async (stream) => {
+      stream.onAbort(() => abortController.abort());
+      for await (const { id, chunk } of followLiveStream(
+        requestId,
+        from,
+        abortController.signal,
+      )) {
+        await stream.writeSSE({ id: String(id), data: JSON.stringify(chunk) });
+      }
+      // Tells the client not to reconnect
+      if (!stream.aborted) {
+        await stream.writeSSE({ event: "end", data: "" });
+      }
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      for await (const { chunk } of followLiveStream(
+        requestId,
+        from,
+        abortController.signal,
+      )) {
+        controller.enqueue(encoder.encode(JSON.stringify(chunk) + "\n"));
+      }
+      if (!abortController.signal.aborted) {
+        controller.close();
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/**
+ * Handles GET /api/chat/:requestId/stream requests
+ * Replays the chunks of a running or recently finished request, starting at
+ * the ?from= chunk or after the Last-Event-ID of a reconnecting event
+ * stream, and follows the request until it finishes
+ * @param c - Hono context object with config variables
+ * @returns Response streaming NDJSON or server-sent events
+ */
+export function handleLiveStreamRequest(c: Context) {
+  const requestId = c.req.param("requestId");
+  const lastEventId = c.req.header("Last-Event-ID");
+  const from = lastEventId
+    ? Number(lastEventId) + 1
+    : Number(c.req.query("from") ?? "0");
+
+  if (!requestId) {
+    return c.json({ error: "Request ID is required" }, 400);
+  }
+  if (!Number.isInteger(from) || from < 0) {
+    return c.json({ error: "from must be a non-negative integer" }, 400);
+  }
+
+  // Other users' requests are reported as missing
+  if (!getLiveStreamInfo(c.var.user, requestId)) {
+    return c.json({ error: "Stream not found", requestId }, 404);
+  }
+
+  logger.chat.debug("User {user} following request {requestId} from {from}", {
+    user: c.var.user.id,
+    requestId,
+    from,
+  });
+  return createLiveStreamResponse(c, requestId, from);
+}
+
+/**
+ * Handles GET /api/chat/active requests
+ * Finds the latest request of a session, so a client opening the session can
+ * attach to a response that is still being written
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the stream's details
+ */
+export function handleActiveStreamRequest(c: Context) {
+  const sessionId = c.req.query("sessionId");
+
+  if (!sessionId) {
+    return c.json({ error: "sessionId is required" }, 400);
+  }
+
+  const info = findLiveStreamBySession(c.var.user, sessionId);
+  if (!info) {
+    return c.json({ error: "Stream not found", sessionId }, 404);
+  }
+  return c.json(info);
+}
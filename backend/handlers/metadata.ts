@@ -0,0 +1,125 @@
+import { Context } from "hono";
+import type { ConversationMetadataResponse } from "../../shared/types.ts";
+import { validateEncodedProjectName } from "../history/pathUtils.ts";
+import { conversationExists } from "../history/conversationLoader.ts";
+import {
+  deleteConversationMetadata,
+  getConversationMetadata,
+  updateConversationMetadata,
+  validateMetadataUpdate,
+} from "../history/metadata.ts";
+import { canAccessSession } from "../auth/ownership.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Check the project and session parameters and the user's access
+ * @returns The project and session, or an error response
+ */
+async function resolveSession(
+  c: Context,
+): Promise<{ encodedProjectName: string; sessionId: string } | Response> {
+  const encodedProjectName = c.req.param("encodedProjectName");
+  const sessionId = c.req.param("sessionId");
+
+  if (!encodedProjectName || !validateEncodedProjectName(encodedProjectName)) {
+    return c.json({ error: "Invalid encoded project name" }, 400);
+  }
+  if (!sessionId) {
+    return c.json({ error: "Session ID is required" }, 400);
+  }
+
+  // Other users' sessions are reported as missing
+  if (!(await canAccessSession(c.var.user, sessionId))) {
+    logger.history.warn(
+      "User {user} denied access to metadata of session {sessionId}",
+      { user: c.var.user.id, sessionId },
+    );
+    return c.json({ error: "Conversation not found", sessionId }, 404);
+  }
+  return { encodedProjectName, sessionId };
+}
+
+/**
+ * Handles GET /api/projects/:encodedProjectName/histories/:sessionId/metadata
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the title, tags, pinned state and notes
+ */
+export async function handleGetMetadataRequest(c: Context) {
+  const session = await resolveSession(c);
+  if (session instanceof Response) {
+    return session;
+  }
+  const { sessionId } = session;
+
+  const response: ConversationMetadataResponse = {
+    sessionId,
+    metadata: await getConversationMetadata(sessionId),
+  };
+  return c.json(response);
+}
+
+/**
+ * Handles PUT /api/projects/:encodedProjectName/histories/:sessionId/metadata
+ * Fields missing from the body are kept
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the updated metadata
+ */
+export async function handleUpdateMetadataRequest(c: Context) {
+  const session = await resolveSession(c);
+  if (session instanceof Response) {
+    return session;
+  }
+  const { sessionId } = session;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  const update = validateMetadataUpdate(body);
+  if (typeof update === "string") {
+    return c.json({ error: update }, 400);
+  }
+
+  try {
+    if (!(await conversationExists(session.encodedProjectName, sessionId))) {
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    const response: ConversationMetadataResponse = {
+      sessionId,
+      metadata: await updateConversationMetadata(sessionId, update),
+    };
+    return c.json(response);
+  } catch (error) {
+    logger.history.error("Error updating conversation metadata: {error}", {
+      error,
+    });
+    return c.json(
+      {
+        error: "Failed to update conversation metadata",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles DELETE /api/projects/:encodedProjectName/histories/:sessionId/metadata
+ * The conversation itself is kept, only its title, tags, pin and notes go
+ * @param c - Hono context object with config variables
+ * @returns JSON response without metadata
+ */
+export async function handleDeleteMetadataRequest(c: Context) {
+  const session = await resolveSession(c);
+  if (session instanceof Response) {
+    return session;
+  }
+  const { sessionId } = session;
+
+  await deleteConversationMetadata(sessionId);
+  const response: ConversationMetadataResponse = { sessionId, metadata: null };
+  return c.json(response);
+}
@@ -0,0 +1,23 @@
+import { Context } from "hono";
+import { renderMetrics } from "../metrics/registry.ts";
+import { activeChatRequests, queuedChatRequests } from "../metrics/metrics.ts";
+import { getSchedulerStatus } from "../chat/scheduler.ts";
+
+/**
+ * Handles GET /metrics requests
+ * Gauges of the current state are updated before the metrics are rendered
+ * @param c - Hono context object
+ * @param requestAbortControllers - Controllers of the running and waiting requests
+ * @returns Metrics in the Prometheus text exposition format
+ */
+export function handleMetricsRequest(
+  c: Context,
+  requestAbortControllers: Map<string, AbortController>,
+) {
+  activeChatRequests.set(requestAbortControllers.size);
+  queuedChatRequests.set(getSchedulerStatus().queued);
+
+  return c.text(renderMetrics(), 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Tool Policy API Handlers
+ *
+ * Provides endpoints for reading, updating and hot-reloading TOOLS_POLICY.json
+ */
+
+import type { Context } from "hono";
+import {
+  getCurrentPolicy,
+  reloadPolicy,
+  savePolicy,
+} from "../policy/loader.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Handles GET /api/policy - Return current tool policy
+ */
+export function handleGetPolicyRequest(c: Context) {
+  try {
+    const policy = getCurrentPolicy();
+    return c.json({
+      success: true,
+      policy,
+    });
+  } catch (error) {
+    logger.api.error("Failed to get tool policy: {error}", { error });
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles POST /api/policy - Validate, save and activate a new tool policy
+ */
+export async function handleUpdatePolicyRequest(c: Context) {
+  let data: unknown;
+  try {
+    data = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: "Request body must be JSON" }, 400);
+  }
+
+  try {
+    const policy = await savePolicy(data);
+    return c.json({
+      success: true,
+      message: "Tool policy updated successfully",
+      policy,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.startsWith("Invalid tool policy")) {
+      return c.json({ success: false, error: message }, 400);
+    }
+    logger.api.error("Failed to update tool policy: {error}", { error });
+    return c.json({ success: false, error: message }, 500);
+  }
+}
+
+/**
+ * Handles POST /api/policy/reload - Reload tool policy from file
+ */
+export async function handleReloadPolicyRequest(c: Context) {
+  try {
+    const policy = await reloadPolicy();
+    logger.api.info("Tool policy reloaded successfully ({count} rules)", {
+      count: policy.rules.length,
+    });
+    return c.json({
+      success: true,
+      message: "Tool policy reloaded successfully",
+      policy,
+    });
+  } catch (error) {
+    logger.api.error("Failed to reload tool policy: {error}", { error });
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
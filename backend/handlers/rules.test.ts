@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Hono } from "hono";
+import { handleUpdateRulesRequest } from "./rules.ts";
+import {
+  getRulesSource,
+  getRulesVersion,
+  initializeRulesLoader,
+  loadRules,
+} from "../rules/loader.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+describe("PUT /api/rules", () => {
+  let projectRoot: string;
+  let rulesPath: string;
+  const app = new Hono();
+  app.put("/api/rules", (c) => handleUpdateRulesRequest(c));
+
+  const put = (body: unknown) =>
+    app.request("/api/rules", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "rules-handler-test-"));
+    rulesPath = join(projectRoot, "RULES.md");
+    await writeFile(rulesPath, "---\ntitle: Original\n---\n# Rules v1\n");
+    initializeRulesLoader(projectRoot);
+    await loadRules();
+  });
+
+  afterAll(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("exposes the file source including front matter", () => {
+    expect(getRulesSource()).toBe("---\ntitle: Original\n---\n# Rules v1\n");
+  });
+
+  it("saves when the base hash matches the current version", async () => {
+    const response = await put({
+      content: "# Rules v2\n",
+      baseHash: getRulesVersion().hash,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await readFile(rulesPath, "utf8")).toBe("# Rules v2\n");
+    const body = await response.json();
+    expect(body.version.hash).toBe(getRulesVersion().hash);
+  });
+
+  it("rejects edits based on an outdated version", async () => {
+    const response = await put({
+      content: "# Stale edit\n",
+      baseHash: "000000000000",
+    });
+
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.version.hash).toBe(getRulesVersion().hash);
+    expect(await readFile(rulesPath, "utf8")).toBe("# Rules v2\n");
+  });
+
+  it("rejects invalid rules without writing them", async () => {
+    const response = await put({
+      content: "---\ncolor: red\n---\n# Rules\n",
+      baseHash: getRulesVersion().hash,
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('unknown key "color"');
+    expect(await readFile(rulesPath, "utf8")).toBe("# Rules v2\n");
+  });
+
+  it("saves only one of two concurrent edits of the same version", async () => {
+    const baseHash = getRulesVersion().hash;
+    const responses = await Promise.all([
+      put({ content: "# Edit A\n", baseHash }),
+      put({ content: "# Edit B\n", baseHash }),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 409,
+    ]);
+    const saved = (await responses[0].json()).success ? "A" : "B";
+    expect(await readFile(rulesPath, "utf8")).toBe(`# Edit ${saved}\n`);
+  });
+});
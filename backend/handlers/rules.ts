@@ -5,20 +5,76 @@
  */
 
 import type { Context } from "hono";
-import { getCurrentRules, reloadRules } from "../rules/loader.ts";
+import { streamSSE } from "hono/streaming";
+import type {
+  RulesDryRunRequest,
+  RulesResponse,
+  RulesUpdateRequest,
+  RulesVersionInfo,
+} from "../../shared/types.ts";
+import { startChatRequest } from "./chat.ts";
+import { createLiveStreamResponse } from "./liveStream.ts";
+import {
+  getEffectiveRules,
+  getRulesSource,
+  getRulesVersion,
+  listRulesProfiles,
+  onRulesChange,
+  reloadRules,
+  saveRules,
+} from "../rules/loader.ts";
+import {
+  getRulesSnapshot,
+  isRulesHash,
+  listRulesSnapshots,
+} from "../rules/versions.ts";
+import { validateRulesContent } from "../rules/validation.ts";
+import { getEncodedProjectName } from "../history/pathUtils.ts";
 import { logger } from "../utils/logger.ts";
+import { removeFile } from "../utils/fs.ts";
+import { getCwd, getHomeDir } from "../utils/os.ts";
+
+/** Interval of keep-alive comments on the events stream */
+const EVENTS_KEEPALIVE_MS = 30_000;
 
 /**
- * Handles GET /api/rules - Return current rules content
+ * Handles GET /api/rules - Return the effective rules
+ * Query parameters:
+ * - project: working directory whose .webui/RULES.md is layered on top
+ * - profile: comma separated profile names
  */
 export async function handleGetRulesRequest(c: Context) {
   try {
-    const rules = getCurrentRules();
-    return c.json({
+    const project = c.req.query("project") || undefined;
+    const profiles = (c.req.query("profile") ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+    let effective;
+    try {
+      effective = await getEffectiveRules(project, profiles);
+    } catch (error) {
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        400,
+      );
+    }
+
+    const response: RulesResponse = {
       success: true,
-      rules: rules,
-      length: rules.length,
-    });
+      rules: effective.content,
+      length: effective.content.length,
+      layers: effective.layers,
+      sections: effective.sections,
+      profiles: await listRulesProfiles(),
+      version: getRulesVersion(),
+      source: getRulesSource(),
+    };
+    return c.json(response);
   } catch (error) {
     logger.api.error("Failed to get rules: {error}", { error });
     return c.json(
@@ -37,7 +93,9 @@ export async function handleGetRulesRequest(c: Context) {
 export async function handleReloadRulesRequest(c: Context) {
   try {
     const rules = await reloadRules();
-    logger.api.info("Rules reloaded successfully ({length} chars)", { length: rules.length });
+    logger.api.info("Rules reloaded successfully ({length} chars)", {
+      length: rules.length,
+    });
     return c.json({
       success: true,
       message: "Rules reloaded successfully",
@@ -55,3 +113,331 @@ export async function handleReloadRulesRequest(c: Context) {
     );
   }
 }
+
+/**
+ * Handles GET /api/rules/events - Server-sent events for rules changes
+ * Sends the current version on connect and a "rules" event after every change
+ */
+export function handleRulesEventsRequest(c: Context) {
+  return streamSSE(c, async (stream) => {
+    const send = (version: RulesVersionInfo) =>
+      stream.writeSSE({ event: "rules", data: JSON.stringify(version) });
+
+    const pending: RulesVersionInfo[] = [];
+    let wake: (() => void) | null = null;
+    const unsubscribe = onRulesChange((version) => {
+      pending.push(version);
+      wake?.();
+    });
+    stream.onAbort(() => {
+      unsubscribe();
+      wake?.();
+    });
+
+    await send(getRulesVersion());
+
+    while (!stream.aborted) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, EVENTS_KEEPALIVE_MS);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+
+      if (stream.aborted) {
+        break;
+      }
+      if (pending.length === 0) {
+        await stream.write(": keep-alive\n\n");
+      }
+      while (pending.length > 0) {
+        await send(pending.shift()!);
+      }
+    }
+
+    unsubscribe();
+  });
+}
+
+/**
+ * Handles GET /api/rules/versions - List stored rules versions
+ */
+export async function handleListRulesVersionsRequest(c: Context) {
+  try {
+    return c.json({
+      success: true,
+      current: getRulesVersion().hash,
+      versions: await listRulesSnapshots(),
+    });
+  } catch (error) {
+    logger.api.error("Failed to list rules versions: {error}", { error });
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles GET /api/rules/versions/:hash - Return a stored rules version
+ */
+export async function handleGetRulesVersionRequest(c: Context) {
+  const hash = c.req.param("hash");
+  if (!hash || !isRulesHash(hash)) {
+    return c.json({ success: false, error: "Invalid rules hash" }, 400);
+  }
+
+  try {
+    const snapshot = await getRulesSnapshot(hash);
+    if (!snapshot) {
+      return c.json(
+        { success: false, error: "Rules version not found", hash },
+        404,
+      );
+    }
+    return c.json({ success: true, version: snapshot });
+  } catch (error) {
+    logger.api.error("Failed to load rules version {hash}: {error}", {
+      hash,
+      error,
+    });
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles POST /api/rules/rollback/:hash - Restore a previous RULES.md version
+ * Only versions of the server's own rules can be restored, not rules merged
+ * with project or profile layers
+ */
+export async function handleRollbackRulesRequest(c: Context) {
+  const hash = c.req.param("hash");
+  if (!hash || !isRulesHash(hash)) {
+    return c.json({ success: false, error: "Invalid rules hash" }, 400);
+  }
+
+  try {
+    const snapshot = await getRulesSnapshot(hash);
+    if (!snapshot) {
+      return c.json(
+        { success: false, error: "Rules version not found", hash },
+        404,
+      );
+    }
+
+    const [layer, ...otherLayers] = snapshot.layers;
+    if (
+      otherLayers.length > 0 ||
+      (layer?.kind !== "global" && layer?.kind !== "default")
+    ) {
+      return c.json(
+        {
+          success: false,
+          error:
+            "Only versions of the global RULES.md can be restored, this version includes project or profile rules",
+        },
+        400,
+      );
+    }
+
+    const version = await saveRules(snapshot.content);
+    logger.api.info("Rules rolled back to {hash} by {user}", {
+      hash,
+      user: c.var.user?.id,
+    });
+    return c.json({
+      success: true,
+      message: `Rules restored to ${hash}`,
+      version,
+    });
+  } catch (error) {
+    logger.api.error("Failed to roll back rules to {hash}: {error}", {
+      hash,
+      error,
+    });
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles PUT /api/rules - Save RULES.md from the editor
+ * The request carries the hash of the version the edit started from, and is
+ * rejected with 409 when the rules have changed since
+ */
+export async function handleUpdateRulesRequest(c: Context) {
+  let body: RulesUpdateRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+  if (typeof body.content !== "string" || typeof body.baseHash !== "string") {
+    return c.json(
+      { success: false, error: "content and baseHash are required" },
+      400,
+    );
+  }
+
+  try {
+    validateRulesContent(new TextEncoder().encode(body.content));
+  } catch (error) {
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      400,
+    );
+  }
+
+  try {
+    // Checked while no other save runs, so concurrent edits can't both pass
+    const version = await saveRules(body.content, body.baseHash);
+    if (!version) {
+      return c.json(
+        {
+          success: false,
+          error:
+            "Rules have been changed by someone else, reload and try again",
+          version: getRulesVersion(),
+        },
+        409,
+      );
+    }
+    logger.api.info("Rules updated to {hash} by {user}", {
+      hash: version.hash,
+      user: c.var.user?.id,
+    });
+    return c.json({ success: true, message: "Rules saved", version });
+  } catch (error) {
+    logger.api.error("Failed to save rules: {error}", { error });
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Delete the session file a dry run left in Claude's history
+ */
+async function removeDryRunSession(
+  sessionId: string,
+  workingDirectory: string,
+): Promise<void> {
+  const homeDir = getHomeDir();
+  const encodedName = await getEncodedProjectName(workingDirectory);
+  if (!homeDir || !encodedName) {
+    return;
+  }
+
+  try {
+    await removeFile(
+      `${homeDir}/.claude/projects/${encodedName}/${sessionId}.jsonl`,
+    );
+  } catch (error) {
+    logger.api.warn("Failed to remove dry run session {sessionId}: {error}", {
+      sessionId,
+      error,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/rules/dry-run - Answer a sample question with draft rules
+ * Runs a throwaway session in plan mode, so Claude does not change any files.
+ * The session is not recorded and its history file is removed afterwards.
+ * @param c - Hono context object with config variables
+ * @param requestAbortControllers - Shared map of abort controllers
+ * @returns Response streaming the answer, like /api/chat
+ */
+export async function handleRulesDryRunRequest(
+  c: Context,
+  requestAbortControllers: Map<string, AbortController>,
+) {
+  let body: RulesDryRunRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: "Invalid JSON body" }, 400);
+  }
+  if (
+    typeof body.content !== "string" ||
+    typeof body.question !== "string" ||
+    !body.question.trim() ||
+    typeof body.requestId !== "string"
+  ) {
+    return c.json(
+      { success: false, error: "content, question and requestId are required" },
+      400,
+    );
+  }
+
+  let rules: string;
+  try {
+    rules = validateRulesContent(
+      new TextEncoder().encode(body.content),
+    ).content;
+  } catch (error) {
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      400,
+    );
+  }
+
+  const workingDirectory = body.workingDirectory || getCwd();
+
+  logger.api.info("Rules dry run {requestId} by {user}", {
+    requestId: body.requestId,
+    user: c.var.user?.id,
+  });
+
+  // Runs like a chat, with the same limits, budget and usage records
+  const failure = await startChatRequest(
+    c,
+    {
+      message: body.question,
+      requestId: body.requestId,
+      workingDirectory,
+      permissionMode: "plan",
+    },
+    requestAbortControllers,
+    {
+      rules,
+      recordSession: false,
+      onFinished: async (sessionIds) => {
+        for (const sessionId of sessionIds) {
+          await removeDryRunSession(sessionId, workingDirectory);
+        }
+      },
+    },
+  );
+  if (failure) {
+    return c.json({ success: false, error: failure.error }, failure.status);
+  }
+
+  return createLiveStreamResponse(c, body.requestId, 0);
+}
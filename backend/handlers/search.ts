@@ -0,0 +1,97 @@
+import { Context } from "hono";
+import type { SearchResponse, SearchRole } from "../../shared/types.ts";
+import { validateEncodedProjectName } from "../history/pathUtils.ts";
+import { searchHistory } from "../history/search.ts";
+import { filterAccessibleSessions } from "../auth/ownership.ts";
+import { logger } from "../utils/logger.ts";
+import { exists } from "../utils/fs.ts";
+import { getHomeDir } from "../utils/os.ts";
+import { parseDateFilter } from "../utils/dateFilter.ts";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Handles GET /api/projects/:encodedProjectName/search requests
+ * Query parameters:
+ * - q: search words, all must appear in a message
+ * - role: "user" or "assistant"
+ * - from, to: ISO dates or timestamps (to is inclusive for dates)
+ * - limit: maximum number of results (default 50, at most 200)
+ * Only sessions owned by the current user are searched (all for admins)
+ * @param c - Hono context object with config variables
+ * @returns JSON response with matching messages
+ */
+export async function handleSearchRequest(c: Context) {
+  const encodedProjectName = c.req.param("encodedProjectName");
+  if (!encodedProjectName || !validateEncodedProjectName(encodedProjectName)) {
+    return c.json({ error: "Invalid encoded project name" }, 400);
+  }
+
+  const query = (c.req.query("q") ?? "").trim();
+  if (!query) {
+    return c.json({ error: "Search query is required" }, 400);
+  }
+
+  const role = c.req.query("role") || undefined;
+  if (role && role !== "user" && role !== "assistant") {
+    return c.json({ error: 'role must be "user" or "assistant"' }, 400);
+  }
+
+  const from = parseDateFilter(c.req.query("from"), false);
+  const to = parseDateFilter(c.req.query("to"), true);
+  if (from === null || to === null) {
+    return c.json({ error: "Invalid date filter" }, 400);
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(c.req.query("limit") ?? "", 10) || DEFAULT_LIMIT, 1),
+    MAX_LIMIT,
+  );
+
+  try {
+    const homeDir = getHomeDir();
+    if (!homeDir) {
+      return c.json({ error: "Home directory not found" }, 500);
+    }
+
+    const historyDir = `${homeDir}/.claude/projects/${encodedProjectName}`;
+    if (!(await exists(historyDir))) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    const matches = await filterAccessibleSessions(
+      c.var.user,
+      await searchHistory(historyDir, {
+        query,
+        role: role as SearchRole | undefined,
+        from,
+        to,
+      }),
+    );
+
+    logger.history.debug("Search for {query} found {count} messages", {
+      query,
+      count: matches.length,
+    });
+
+    const response: SearchResponse = {
+      query,
+      results: matches.slice(0, limit),
+      total: matches.length,
+    };
+    return c.json(response);
+  } catch (error) {
+    logger.history.error("Error searching conversation histories: {error}", {
+      error,
+    });
+
+    return c.json(
+      {
+        error: "Failed to search conversation histories",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { Context } from "hono";
+import {
+  getServerSettings,
+  updateServerSettings,
+  validateServerSettingsUpdate,
+} from "../settings/serverSettings.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Handles GET /api/settings - Return the server settings
+ * @param c - Hono context object
+ * @returns JSON response with the settings
+ */
+export async function handleGetSettingsRequest(c: Context) {
+  return c.json(await getServerSettings());
+}
+
+/**
+ * Handles PUT /api/settings - Update the server settings (admins only)
+ * @param c - Hono context object
+ * @returns JSON response with the settings after the update
+ */
+export async function handleUpdateSettingsRequest(c: Context) {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const update = validateServerSettingsUpdate(body);
+  if (typeof update === "string") {
+    return c.json({ error: update }, 400);
+  }
+
+  try {
+    return c.json(await updateServerSettings(update));
+  } catch (error) {
+    logger.api.error("Failed to update server settings: {error}", { error });
+    return c.json(
+      {
+        error: "Failed to update server settings",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { Context } from "hono";
+import type { UsageResponse } from "../../shared/types.ts";
+import { getBudgetStatus, getUsage, parseUsageQuery } from "../chat/usage.ts";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Handles GET /api/usage requests
+ * Query parameters:
+ * - from, to: first and last day (YYYY-MM-DD, default the last 30 days)
+ * - groupBy: "day" (default), "user", "project" or "session"
+ * - user: user id to limit the usage to (admins only)
+ * Users other than admins only get their own usage and spending
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the aggregated usage and today's budget status
+ */
+export async function handleUsageRequest(c: Context) {
+  const user = c.var.user;
+
+  const query = parseUsageQuery({
+    from: c.req.query("from"),
+    to: c.req.query("to"),
+    groupBy: c.req.query("groupBy"),
+    user: user.isAdmin ? c.req.query("user") : user.id,
+  });
+  if (typeof query === "string") {
+    return c.json({ error: query }, 400);
+  }
+
+  try {
+    const { total, groups } = await getUsage(query);
+    const { spentTodayUsd, ...budget } = await getBudgetStatus(user.id);
+    const response: UsageResponse = {
+      ...query,
+      total,
+      groups,
+      budget: user.isAdmin ? { ...budget, spentTodayUsd } : budget,
+    };
+    return c.json(response);
+  } catch (error) {
+    logger.api.error("Failed to get usage: {error}", { error });
+    return c.json(
+      {
+        error: "Failed to get usage",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -8,8 +8,10 @@ import type { ConversationHistory } from "../../shared/types.ts";
 import { logger } from "../utils/logger.ts";
 import { processConversationMessages } from "./timestampRestore.ts";
 import { validateEncodedProjectName } from "./pathUtils.ts";
+import { migrateLegacyRulesPrompt } from "./legacyRules.ts";
 import { readTextFile, exists } from "../utils/fs.ts";
 import { getHomeDir } from "../utils/os.ts";
+import { historyParseDuration, startTimer } from "../metrics/metrics.ts";
 
 /**
  * Load a specific conversation by session ID
@@ -61,6 +63,7 @@ async function parseConversationFile(
   filePath: string,
   sessionId: string,
 ): Promise<ConversationHistory> {
+  const elapsed = startTimer();
   const content = await readTextFile(filePath);
   const lines = content
     .trim()
@@ -85,15 +88,24 @@ async function parseConversationFile(
     }
   }
 
-  // Process messages (restore timestamps, sort, etc.)
-  const { messages: processedMessages, metadata } = processConversationMessages(
-    rawLines,
+  // Process messages (restore timestamps, rebuild the tree, etc.)
+  // Older sessions carry the rules in their first prompt, which is stripped
+  const {
+    messages: processedMessages,
+    branches,
+    sidechains,
+    metadata,
+  } = processConversationMessages(
+    migrateLegacyRulesPrompt(rawLines),
     sessionId,
   );
 
+  historyParseDuration.observe(elapsed(), { kind: "conversation" });
   return {
     sessionId,
     messages: processedMessages,
+    branches,
+    sidechains,
     metadata,
   };
 }
@@ -102,7 +114,7 @@ async function parseConversationFile(
  * Validate session ID format
  * Should be a valid filename without dangerous characters
  */
-function validateSessionId(sessionId: string): boolean {
+export function validateSessionId(sessionId: string): boolean {
   // Should not be empty
   if (!sessionId) {
     return false;
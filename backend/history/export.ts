@@ -0,0 +1,272 @@
+/**
+ * Conversation export
+ *
+ * Renders a loaded conversation as Markdown, a self-contained HTML page or a
+ * JSON bundle. Like the chat view in safe mode, only the text of questions
+ * and answers is exported; tool calls, tool results, thinking and system
+ * messages are left out. Secrets are masked as in the live chat stream.
+ */
+
+import type { ConversationHistory } from "../../shared/types.ts";
+import type { RawHistoryLine } from "./parser.ts";
+import { getCurrentRedactionConfig } from "../redaction/loader.ts";
+import {
+  createStreamRedactor,
+  type StreamRedactor,
+} from "../redaction/redactor.ts";
+
+export const EXPORT_FORMATS = ["md", "html", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Bumped when the JSON bundle changes shape */
+const BUNDLE_VERSION = 1;
+
+/** Code blocks longer than this are folded, as in CodeBlockRenderer */
+const CODE_FOLD_LINES = 10;
+
+const CODE_BLOCK_PATTERN = /```(\w*)\n([\s\S]*?)```/g;
+
+export interface ExportMessage {
+  id: string;
+  role: "user" | "assistant";
+  timestamp: string;
+  content: string;
+}
+
+export interface ExportOptions {
+  rulesHash?: string; // Rules version the session was answered under
+  exportedAt?: Date;
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * Extract the questions and answers shown in the chat view
+ * @param conversation - Conversation as returned by loadConversation
+ * @param redactor - Masks secrets, defaults to the active redaction config
+ */
+export function extractExportMessages(
+  conversation: ConversationHistory,
+  redactor: StreamRedactor = createStreamRedactor(getCurrentRedactionConfig()),
+): ExportMessage[] {
+  const messages: ExportMessage[] = [];
+  for (const line of conversation.messages as RawHistoryLine[]) {
+    // Lines the CLI adds around local commands are hidden in the chat view too
+    if (line.isMeta) {
+      continue;
+    }
+    const content = line.message?.content;
+    if (line.type === "user") {
+      const texts =
+        typeof content === "string"
+          ? [content]
+          : Array.isArray(content)
+            ? content.flatMap((block) =>
+                block.type === "text" ? [block.text] : [],
+              )
+            : [];
+      for (const text of texts) {
+        messages.push({
+          id: line.uuid,
+          role: "user",
+          timestamp: line.timestamp,
+          content: redactor.redactText(text),
+        });
+      }
+    } else if (line.type === "assistant" && Array.isArray(content)) {
+      const text = content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("")
+        .trim();
+      if (text) {
+        messages.push({
+          id: line.uuid,
+          role: "assistant",
+          timestamp: line.timestamp,
+          content: redactor.redactText(text),
+        });
+      }
+    }
+  }
+  return messages;
+}
+
+function getRoleLabel(role: ExportMessage["role"]): string {
+  return role === "user" ? "Question" : "Answer";
+}
+
+function renderMarkdown(
+  conversation: ConversationHistory,
+  messages: ExportMessage[],
+  options: ExportOptions,
+): string {
+  const lines = [
+    `# Conversation ${conversation.sessionId}`,
+    "",
+    `- Started: ${conversation.metadata.startTime}`,
+    `- Last message: ${conversation.metadata.endTime}`,
+    ...(options.rulesHash ? [`- Rules version: ${options.rulesHash}`] : []),
+  ];
+  for (const message of messages) {
+    lines.push(
+      "",
+      `## ${getRoleLabel(message.role)} (${message.timestamp})`,
+      "",
+      message.content,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderCodeBlock(language: string, code: string): string {
+  const lineCount = code.split("\n").length;
+  const label = escapeHtml(language || "code");
+  const pre = `<pre><code>${escapeHtml(code)}</code></pre>`;
+  if (lineCount > CODE_FOLD_LINES) {
+    return `<details class="code"><summary><span>▶ ${label}</span><span class="muted">${lineCount} lines</span></summary>${pre}</details>`;
+  }
+  return `<div class="code"><div class="code-header"><span>${label}</span><span class="muted">${lineCount} lines</span></div>${pre}</div>`;
+}
+
+function renderHtmlContent(content: string): string {
+  const parts: string[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(CODE_BLOCK_PATTERN)) {
+    if (match.index > lastIndex) {
+      parts.push(
+        `<div class="text">${escapeHtml(content.slice(lastIndex, match.index))}</div>`,
+      );
+    }
+    parts.push(renderCodeBlock(match[1], match[2]));
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    parts.push(
+      `<div class="text">${escapeHtml(content.slice(lastIndex))}</div>`,
+    );
+  }
+  return parts.join("");
+}
+
+const HTML_STYLES = `
+body { margin: 0; background: #f8fafc; color: #1e293b; font-family: system-ui, sans-serif; }
+main { max-width: 56rem; margin: 0 auto; padding: 2rem 1.5rem; }
+h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+.meta, .muted { color: #64748b; font-size: 0.75rem; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.75rem; border: 1px solid #e2e8f0; background: #fff; }
+.message.user { background: #eff6ff; border-color: #bfdbfe; }
+.message header { margin-bottom: 0.5rem; }
+.text { white-space: pre-wrap; font-family: ui-monospace, monospace; font-size: 0.875rem; line-height: 1.625; }
+.code { margin: 0.5rem 0; border-radius: 0.5rem; background: #1e293b; overflow: hidden; }
+.code-header, .code summary { display: flex; justify-content: space-between; padding: 0.25rem 0.75rem; background: #334155; color: #cbd5e1; font-size: 0.75rem; }
+.code summary { cursor: pointer; list-style: none; }
+.code .muted { color: #cbd5e1; opacity: 0.6; }
+.code pre { margin: 0; padding: 0.75rem; overflow-x: auto; color: #e2e8f0; font-size: 0.875rem; }
+`.trim();
+
+function renderHtml(
+  conversation: ConversationHistory,
+  messages: ExportMessage[],
+  options: ExportOptions,
+): string {
+  const title = `Conversation ${conversation.sessionId.substring(0, 8)}`;
+  const meta = [
+    `Session ${conversation.sessionId}`,
+    `${conversation.metadata.startTime} – ${conversation.metadata.endTime}`,
+    ...(options.rulesHash
+      ? [`Rules ${options.rulesHash.substring(0, 7)}`]
+      : []),
+  ];
+  const sections = messages.map(
+    (message) =>
+      `<section class="message ${message.role}"><header class="meta">${getRoleLabel(message.role)} • ${escapeHtml(message.timestamp)}</header>${renderHtmlContent(message.content)}</section>`,
+  );
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLES}\n</style>`,
+    "</head>",
+    "<body>",
+    "<main>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">${meta.map(escapeHtml).join(" • ")}</p>`,
+    ...sections,
+    "</main>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function renderJson(
+  conversation: ConversationHistory,
+  messages: ExportMessage[],
+  options: ExportOptions,
+): string {
+  return JSON.stringify(
+    {
+      version: BUNDLE_VERSION,
+      exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+      sessionId: conversation.sessionId,
+      metadata: conversation.metadata,
+      ...(options.rulesHash ? { rulesHash: options.rulesHash } : {}),
+      messages,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Render a conversation in an export format
+ * @param conversation - Conversation as returned by loadConversation
+ * @param format - Output format
+ * @param options - Extra details to include
+ * @returns Body, content type and suggested file name
+ */
+export function exportConversation(
+  conversation: ConversationHistory,
+  format: ExportFormat,
+  options: ExportOptions = {},
+): RenderedExport {
+  const messages = extractExportMessages(conversation);
+  const fileName = `conversation-${conversation.sessionId}.${format}`;
+
+  switch (format) {
+    case "md":
+      return {
+        body: renderMarkdown(conversation, messages, options),
+        contentType: "text/markdown; charset=utf-8",
+        fileName,
+      };
+    case "html":
+      return {
+        body: renderHtml(conversation, messages, options),
+        contentType: "text/html; charset=utf-8",
+        fileName,
+      };
+    case "json":
+      return {
+        body: renderJson(conversation, messages, options),
+        contentType: "application/json; charset=utf-8",
+        fileName,
+      };
+  }
+}
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { RawHistoryLine } from "./parser.ts";
+import { createForkSession, selectForkLines } from "./fork.ts";
+
+const homeDir = vi.hoisted(() => ({ path: "" }));
+
+vi.mock("../utils/os.ts", () => ({
+  getHomeDir: () => homeDir.path,
+}));
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    history: {
+      info: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const line = (uuid: string, parentUuid: string | null): RawHistoryLine => ({
+  type: uuid.startsWith("u") ? "user" : "assistant",
+  uuid,
+  parentUuid,
+  sessionId: "parent",
+  timestamp: "2025-01-01T10:00:00Z",
+});
+
+// u1 → a1 → u2 → a2, and a second branch u3 → a3 answering a1
+const transcript = [
+  line("u1", null),
+  line("a1", "u1"),
+  line("u2", "a1"),
+  line("a2", "u2"),
+  line("u3", "a1"),
+  line("a3", "u3"),
+];
+
+describe("selectForkLines", () => {
+  it("keeps the message and its ancestors in file order", () => {
+    expect(selectForkLines(transcript, "a3")?.map((item) => item.uuid)).toEqual(
+      ["u1", "a1", "u3", "a3"],
+    );
+    expect(selectForkLines(transcript, "u2")?.map((item) => item.uuid)).toEqual(
+      ["u1", "a1", "u2"],
+    );
+  });
+
+  it("returns null for unknown messages", () => {
+    expect(selectForkLines(transcript, "missing")).toBeNull();
+  });
+});
+
+describe("createForkSession", () => {
+  const project = "-work-project";
+
+  beforeAll(async () => {
+    homeDir.path = await mkdtemp(join(tmpdir(), "fork-test-"));
+    const historyDir = join(homeDir.path, ".claude", "projects", project);
+    await mkdir(historyDir, { recursive: true });
+    await writeFile(
+      join(historyDir, "parent.jsonl"),
+      transcript.map((item) => JSON.stringify(item)).join("\n"),
+    );
+  });
+
+  afterAll(async () => {
+    await rm(homeDir.path, { recursive: true, force: true });
+  });
+
+  it("writes the transcript up to the message into a new session", async () => {
+    const forkId = await createForkSession(project, "parent", "u2");
+    expect(forkId).toMatch(/^[0-9a-f-]{36}$/);
+
+    const content = await readFile(
+      join(homeDir.path, ".claude", "projects", project, `${forkId}.jsonl`),
+      "utf8",
+    );
+    const lines = content
+      .trim()
+      .split("\n")
+      .map((text) => JSON.parse(text));
+    expect(lines.map((item) => item.uuid)).toEqual(["u1", "a1", "u2"]);
+    expect(lines.every((item) => item.sessionId === forkId)).toBe(true);
+  });
+
+  it("returns null for missing sessions and messages", async () => {
+    expect(await createForkSession(project, "missing", "u1")).toBeNull();
+    expect(await createForkSession(project, "parent", "missing")).toBeNull();
+  });
+
+  it("rejects invalid session IDs", async () => {
+    await expect(createForkSession(project, "../parent", "u1")).rejects.toThrow(
+      "Invalid session ID",
+    );
+  });
+});
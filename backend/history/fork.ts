@@ -0,0 +1,112 @@
+/**
+ * Conversation forking
+ *
+ * The SDK can only resume a session at its last message. To continue a
+ * conversation from an earlier message, the transcript up to that message is
+ * copied into a new session file, which is then resumed like any other
+ * session. Only the ancestors of the chosen message (following parentUuid)
+ * are copied, so messages of other branches in the same file are left out.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { RawHistoryLine } from "./parser.ts";
+import { validateEncodedProjectName } from "./pathUtils.ts";
+import { validateSessionId } from "./conversationLoader.ts";
+import { logger } from "../utils/logger.ts";
+import { exists, readTextFile, writeTextFile } from "../utils/fs.ts";
+import { getHomeDir } from "../utils/os.ts";
+
+/**
+ * Select the lines of a transcript up to a message
+ * @param lines - Parsed lines of a session file
+ * @param messageId - uuid of the last message to keep
+ * @returns The message and its ancestors in file order, or null when the
+ *   message is not in the transcript
+ */
+export function selectForkLines(
+  lines: RawHistoryLine[],
+  messageId: string,
+): RawHistoryLine[] | null {
+  const byUuid = new Map<string, RawHistoryLine>();
+  for (const line of lines) {
+    if (line.uuid) {
+      byUuid.set(line.uuid, line);
+    }
+  }
+  if (!byUuid.has(messageId)) {
+    return null;
+  }
+
+  const ancestors = new Set<string>();
+  let current: string | null | undefined = messageId;
+  while (current && byUuid.has(current) && !ancestors.has(current)) {
+    ancestors.add(current);
+    current = byUuid.get(current)!.parentUuid;
+  }
+
+  return lines.filter((line) => line.uuid && ancestors.has(line.uuid));
+}
+
+/**
+ * Create a new session holding a conversation up to one of its messages
+ * @param encodedProjectName - Project of the session
+ * @param sessionId - Session to fork
+ * @param messageId - uuid of the last message to copy
+ * @returns ID of the new session, or null when the session or message does
+ *   not exist
+ * @throws Error for invalid project names or session IDs
+ */
+export async function createForkSession(
+  encodedProjectName: string,
+  sessionId: string,
+  messageId: string,
+): Promise<string | null> {
+  if (!validateEncodedProjectName(encodedProjectName)) {
+    throw new Error("Invalid encoded project name");
+  }
+  if (!validateSessionId(sessionId)) {
+    throw new Error("Invalid session ID format");
+  }
+
+  const homeDir = getHomeDir();
+  if (!homeDir) {
+    throw new Error("Home directory not found");
+  }
+
+  const historyDir = `${homeDir}/.claude/projects/${encodedProjectName}`;
+  const filePath = `${historyDir}/${sessionId}.jsonl`;
+  if (!(await exists(filePath))) {
+    return null;
+  }
+
+  const lines: RawHistoryLine[] = [];
+  for (const text of (await readTextFile(filePath)).split("\n")) {
+    if (!text.trim()) {
+      continue;
+    }
+    try {
+      lines.push(JSON.parse(text) as RawHistoryLine);
+    } catch {
+      // Broken lines are skipped, like when loading the conversation
+    }
+  }
+
+  const selected = selectForkLines(lines, messageId);
+  if (!selected) {
+    return null;
+  }
+
+  const forkSessionId = randomUUID();
+  await writeTextFile(
+    `${historyDir}/${forkSessionId}.jsonl`,
+    selected
+      .map((line) => JSON.stringify({ ...line, sessionId: forkSessionId }))
+      .join("\n") + "\n",
+  );
+
+  logger.history.info(
+    "Forked session {sessionId} at {messageId} into {forkSessionId} ({count} lines)",
+    { sessionId, messageId, forkSessionId, count: selected.length },
+  );
+  return forkSessionId;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { groupConversations } from "./grouping.ts";
+import {
+  digestMessageIds,
+  type HistoryFileSummary,
+  parseHistoryFile,
+} from "./parser.ts";
+
+const conversation = (
+  sessionId: string,
+  messageIds: string[],
+  startTime: string,
+  lastTime = startTime,
+): HistoryFileSummary => ({
+  sessionId,
+  filePath: `/history/${sessionId}.jsonl`,
+  messageIds: new Set(messageIds),
+  messageIdsDigest: digestMessageIds(messageIds),
+  startTime,
+  lastTime,
+  messageCount: messageIds.length,
+  lastMessagePreview: "",
+  firstUserMessage: "",
+});
+
+describe("groupConversations", () => {
+  it("hides sessions that were continued in a larger session", () => {
+    const grouped = groupConversations([
+      conversation("original", ["m1", "m2"], "2025-01-01T10:00:00Z"),
+      conversation("continued", ["m1", "m2", "m3"], "2025-01-01T10:00:00Z"),
+      conversation("other", ["x1"], "2025-01-02T10:00:00Z"),
+    ]);
+
+    expect(grouped.map((summary) => summary.sessionId)).toEqual([
+      "other",
+      "continued",
+    ]);
+  });
+
+  it("keeps the most recent of identical sessions", () => {
+    const grouped = groupConversations([
+      conversation(
+        "older",
+        ["m1"],
+        "2025-01-01T10:00:00Z",
+        "2025-01-01T10:05:00Z",
+      ),
+      conversation(
+        "newer",
+        ["m1"],
+        "2025-01-01T10:00:00Z",
+        "2025-01-01T11:00:00Z",
+      ),
+    ]);
+
+    expect(grouped.map((summary) => summary.sessionId)).toEqual(["newer"]);
+  });
+
+  it("keeps partially overlapping sessions and sessions without answers", () => {
+    const grouped = groupConversations([
+      conversation("a", ["m1", "m2"], "2025-01-01T10:00:00Z"),
+      conversation("b", ["m2", "m3"], "2025-01-02T10:00:00Z"),
+      conversation("unanswered-1", [], "2025-01-03T10:00:00Z"),
+      conversation("unanswered-2", [], "2025-01-04T10:00:00Z"),
+    ]);
+
+    expect(grouped.map((summary) => summary.sessionId)).toEqual([
+      "unanswered-2",
+      "unanswered-1",
+      "b",
+      "a",
+    ]);
+  });
+
+  it("groups files without timestamps", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "grouping-test-"));
+    try {
+      const filePath = join(dir, "summary-only.jsonl");
+      await writeFile(
+        filePath,
+        JSON.stringify({
+          type: "summary",
+          summary: "Fix the build",
+          leafUuid: "u1",
+        }) + "\n",
+      );
+      const summaryOnly = await parseHistoryFile(filePath);
+      expect(summaryOnly).not.toBeNull();
+
+      const grouped = groupConversations([
+        summaryOnly!,
+        conversation("a", [], "2025-01-01T10:00:00Z"),
+        conversation("b", [], "2025-01-02T10:00:00Z"),
+      ]);
+
+      expect(grouped.map((summary) => summary.sessionId).sort()).toEqual([
+        "a",
+        "b",
+        "summary-only",
+      ]);
+      expect(
+        grouped.find((summary) => summary.sessionId === "summary-only"),
+      ).toMatchObject({ startTime: "", lastTime: "" });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
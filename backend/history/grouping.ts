@@ -4,38 +4,65 @@
  */
 
 import type { ConversationSummary } from "../../shared/types.ts";
-import type { ConversationFile } from "./parser.ts";
+import type { HistoryFileSummary } from "./parser.ts";
 import { isSubset } from "./parser.ts";
+import { createAutoTitle } from "./metadata.ts";
 
 /**
  * Group conversations and remove duplicates from continued sessions
  * Based on the algorithm described in docs/histories.md
+ *
+ * A continued session repeats the messages of the session it continues, so a
+ * conversation whose message IDs are all contained in a larger conversation
+ * is left out. Instead of comparing every pair, larger conversations are
+ * kept first and indexed by message ID; a smaller one only needs to be
+ * checked against the kept conversations sharing one of its message IDs.
+ * Conversations without message IDs (no answer yet) are always kept.
  */
 export function groupConversations(
-  conversationFiles: ConversationFile[],
+  conversationFiles: HistoryFileSummary[],
 ): ConversationSummary[] {
   if (conversationFiles.length === 0) {
     return [];
   }
 
-  // Sort conversations by message ID set size (ascending)
-  // This ensures we process smaller conversations first
-  const sortedConversations = [...conversationFiles].sort((a, b) => {
-    return a.messageIds.size - b.messageIds.size;
-  });
+  // Largest first, the most recent of equal sets wins
+  const sortedConversations = [...conversationFiles].sort(
+    (a, b) =>
+      b.messageIds.size - a.messageIds.size ||
+      b.lastTime.localeCompare(a.lastTime),
+  );
 
-  // Remove conversations whose message ID sets are subsets of larger ones
-  const uniqueConversations: ConversationFile[] = [];
+  const uniqueConversations: HistoryFileSummary[] = [];
+  const keptDigests = new Set<string>();
+  // Message ID -> indexes into uniqueConversations
+  const conversationsByMessageId = new Map<string, number[]>();
 
-  for (const currentConv of sortedConversations) {
-    // Check if this conversation's message IDs are a subset of any existing unique conversation
-    const isSubsetOfExisting = uniqueConversations.some((existingConv) =>
-      isSubset(currentConv.messageIds, existingConv.messageIds),
+  const isContinued = (conversation: HistoryFileSummary): boolean => {
+    if (keptDigests.has(conversation.messageIdsDigest)) {
+      return true;
+    }
+    const [firstMessageId] = conversation.messageIds;
+    const candidates = conversationsByMessageId.get(firstMessageId) ?? [];
+    return candidates.some((index) =>
+      isSubset(conversation.messageIds, uniqueConversations[index].messageIds),
     );
+  };
 
-    if (!isSubsetOfExisting) {
-      // This is either a unique conversation or the "final" version of a continued conversation
-      uniqueConversations.push(currentConv);
+  for (const conversation of sortedConversations) {
+    if (conversation.messageIds.size > 0 && isContinued(conversation)) {
+      continue;
+    }
+
+    const index = uniqueConversations.push(conversation) - 1;
+    keptDigests.add(conversation.messageIdsDigest);
+    for (const messageId of conversation.messageIds) {
+      const indexes = conversationsByMessageId.get(messageId);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        conversationsByMessageId.set(messageId, [index]);
+      }
     }
   }
 
@@ -56,7 +83,7 @@ export function groupConversations(
  * Create a ConversationSummary from a ConversationFile
  */
 function createConversationSummary(
-  conversationFile: ConversationFile,
+  conversationFile: HistoryFileSummary,
 ): ConversationSummary {
   return {
     sessionId: conversationFile.sessionId,
@@ -64,6 +91,9 @@ function createConversationSummary(
     lastTime: conversationFile.lastTime,
     messageCount: conversationFile.messageCount,
     lastMessagePreview: conversationFile.lastMessagePreview,
+    title: createAutoTitle(conversationFile.firstUserMessage),
+    tags: [],
+    pinned: false,
   };
 }
 
@@ -72,7 +102,7 @@ function createConversationSummary(
  * Useful for understanding how conversations are grouped
  */
 export function analyzeConversationRelationships(
-  conversationFiles: ConversationFile[],
+  conversationFiles: HistoryFileSummary[],
 ): {
   totalFiles: number;
   uniqueConversations: number;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  migrateLegacyRulesPrompt,
+  stripLegacyRulesPrefix,
+} from "./legacyRules.ts";
+import type { RawHistoryLine } from "./parser.ts";
+
+const LEGACY_PROMPT =
+  "# Rules\n\n## Style\n- Be brief\n\n---\nUser message: Explain ----- this";
+
+function userLine(content: unknown, uuid = "u1"): RawHistoryLine {
+  return {
+    type: "user",
+    message: { role: "user", content },
+    sessionId: "session-1",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    uuid,
+  } as RawHistoryLine;
+}
+
+describe("Legacy rules migration", () => {
+  it("strips the rules prefix from prompt text", () => {
+    expect(stripLegacyRulesPrefix(LEGACY_PROMPT)).toBe("Explain ----- this");
+    expect(stripLegacyRulesPrefix("Plain ---- message")).toBe(
+      "Plain ---- message",
+    );
+  });
+
+  it("cleans up the first user message only", () => {
+    const lines = migrateLegacyRulesPrompt([
+      userLine(LEGACY_PROMPT),
+      userLine(LEGACY_PROMPT, "u2"),
+    ]);
+    expect(lines[0].message?.content).toBe("Explain ----- this");
+    expect(lines[1].message?.content).toBe(LEGACY_PROMPT);
+  });
+
+  it("handles text blocks in array content", () => {
+    const [line] = migrateLegacyRulesPrompt([
+      userLine([{ type: "text", text: LEGACY_PROMPT }]),
+    ]);
+    expect(line.message?.content).toEqual([
+      { type: "text", text: "Explain ----- this" },
+    ]);
+  });
+
+  it("leaves sessions without a prefix untouched", () => {
+    const lines = [userLine("Hello")];
+    expect(migrateLegacyRulesPrompt(lines)).toBe(lines);
+  });
+});
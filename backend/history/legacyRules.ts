@@ -0,0 +1,67 @@
+/**
+ * Migration for sessions with rules in the first user message
+ *
+ * Older versions prepended RULES.md to the first prompt of a session:
+ *   <rules>\n\n---\nUser message: <message>
+ * Rules are now passed as a system prompt, so the prefix is stripped when
+ * such sessions are loaded and only the user's own message is shown.
+ */
+
+import type { RawHistoryLine } from "./parser.ts";
+
+/** Separator between the legacy rules prefix and the user message */
+const LEGACY_RULES_MARKER = "\n\n---\nUser message: ";
+
+/**
+ * Remove the legacy rules prefix from a prompt text
+ * @returns The user message, or the text unchanged when it has no prefix
+ */
+export function stripLegacyRulesPrefix(text: string): string {
+  const index = text.indexOf(LEGACY_RULES_MARKER);
+  return index === -1
+    ? text
+    : text.substring(index + LEGACY_RULES_MARKER.length);
+}
+
+/**
+ * Strip the legacy rules prefix from the first user message of a session
+ * @param lines - Parsed JSONL lines of one session file
+ * @returns Lines with the first user prompt cleaned up
+ */
+export function migrateLegacyRulesPrompt(
+  lines: RawHistoryLine[],
+): RawHistoryLine[] {
+  const index = lines.findIndex(
+    (line) => line.type === "user" && line.message?.role === "user",
+  );
+  const message = lines[index]?.message;
+  if (!message) {
+    return lines;
+  }
+
+  let content = message.content;
+  if (typeof content === "string") {
+    content = stripLegacyRulesPrefix(content);
+  } else if (Array.isArray(content)) {
+    // Only the first text block carried the prefix
+    const textIndex = content.findIndex((block) => block.type === "text");
+    const block = content[textIndex] as { type: "text"; text: string };
+    const text = block ? stripLegacyRulesPrefix(block.text) : undefined;
+    if (text !== undefined && text !== block.text) {
+      content = content.map((item, i) =>
+        i === textIndex ? { ...block, text } : item,
+      ) as typeof content;
+    }
+  }
+
+  if (content === message.content) {
+    return lines;
+  }
+
+  const migrated = [...lines];
+  migrated[index] = {
+    ...lines[index],
+    message: { ...message, content } as RawHistoryLine["message"],
+  };
+  return migrated;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { ConversationSummary } from "../../shared/types.ts";
+import { paginateConversations } from "./listing.ts";
+
+const conversation = (
+  sessionId: string,
+  startTime: string,
+  lastTime: string,
+  messageCount: number,
+): ConversationSummary => ({
+  sessionId,
+  startTime,
+  lastTime,
+  messageCount,
+  lastMessagePreview: "",
+  title: sessionId,
+  tags: [],
+  pinned: false,
+});
+
+const conversations = [
+  conversation("a", "2025-01-01T10:00:00Z", "2025-01-05T10:00:00Z", 4),
+  conversation("b", "2025-01-02T10:00:00Z", "2025-01-02T11:00:00Z", 12),
+  conversation("c", "2025-01-03T10:00:00Z", "2025-01-03T10:30:00Z", 2),
+  conversation("d", "2025-01-04T10:00:00Z", "2025-01-04T12:00:00Z", 12),
+];
+
+const ids = (page: { conversations: ConversationSummary[] }) =>
+  page.conversations.map((item) => item.sessionId);
+
+describe("paginateConversations", () => {
+  it("walks through all pages with cursors", () => {
+    const options = { sort: "startTime", order: "desc", limit: 3 } as const;
+    const first = paginateConversations(conversations, options);
+    expect(ids(first)).toEqual(["d", "c", "b"]);
+    expect(first.total).toBe(4);
+
+    const second = paginateConversations(conversations, {
+      ...options,
+      cursor: first.nextCursor!,
+    });
+    expect(ids(second)).toEqual(["a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("sorts by other keys and breaks ties by session ID", () => {
+    expect(
+      ids(
+        paginateConversations(conversations, {
+          sort: "messageCount",
+          order: "desc",
+          limit: 10,
+        }),
+      ),
+    ).toEqual(["d", "b", "a", "c"]);
+    expect(
+      ids(
+        paginateConversations(conversations, {
+          sort: "lastTime",
+          order: "asc",
+          limit: 10,
+        }),
+      ),
+    ).toEqual(["b", "c", "d", "a"]);
+  });
+
+  it("does not repeat conversations when new ones are added", () => {
+    const options = { sort: "messageCount", order: "desc", limit: 1 } as const;
+    const first = paginateConversations(conversations, options);
+    expect(ids(first)).toEqual(["d"]);
+
+    const withNewSession = [
+      ...conversations,
+      conversation("e", "2025-01-06T10:00:00Z", "2025-01-06T10:00:00Z", 20),
+    ];
+    const second = paginateConversations(withNewSession, {
+      ...options,
+      cursor: first.nextCursor!,
+    });
+    expect(ids(second)).toEqual(["b"]);
+  });
+
+  it("filters by date range and message count", () => {
+    const page = paginateConversations(conversations, {
+      sort: "startTime",
+      order: "asc",
+      limit: 10,
+      from: new Date("2025-01-03T00:00:00Z"),
+      to: new Date("2025-01-04T00:00:00Z"),
+    });
+    // "a" started earlier but was still active on Jan 5
+    expect(ids(page)).toEqual(["a", "c"]);
+
+    expect(
+      ids(
+        paginateConversations(conversations, {
+          sort: "startTime",
+          order: "asc",
+          limit: 10,
+          minMessages: 10,
+        }),
+      ),
+    ).toEqual(["b", "d"]);
+  });
+
+  it("lists pinned conversations first and filters by tags", () => {
+    const tagged = conversations.map((item) =>
+      item.sessionId === "b"
+        ? { ...item, pinned: true, tags: ["bug", "db"] }
+        : item.sessionId === "c"
+          ? { ...item, tags: ["bug"] }
+          : item,
+    );
+    const options = { sort: "startTime", order: "desc", limit: 2 } as const;
+
+    const first = paginateConversations(tagged, options);
+    expect(ids(first)).toEqual(["b", "d"]);
+    const second = paginateConversations(tagged, {
+      ...options,
+      cursor: first.nextCursor!,
+    });
+    expect(ids(second)).toEqual(["c", "a"]);
+
+    expect(
+      ids(paginateConversations(tagged, { ...options, tags: ["bug"] })),
+    ).toEqual(["b", "c"]);
+    expect(
+      ids(paginateConversations(tagged, { ...options, tags: ["bug", "db"] })),
+    ).toEqual(["b"]);
+  });
+
+  it("sorts conversations without timestamps last", () => {
+    const withUndated = [
+      conversation("undated", "", "", 1),
+      { ...conversation("missing", "", "", 1), lastTime: undefined },
+      ...conversations,
+    ] as ConversationSummary[];
+
+    for (const order of ["asc", "desc"] as const) {
+      const first = paginateConversations(withUndated, {
+        sort: "lastTime",
+        order,
+        limit: 4,
+      });
+      expect(ids(first)).toHaveLength(4);
+      expect(ids(first)).not.toContain("undated");
+
+      const second = paginateConversations(withUndated, {
+        sort: "lastTime",
+        order,
+        limit: 4,
+        cursor: first.nextCursor!,
+      });
+      expect(ids(second)).toEqual(
+        order === "asc" ? ["missing", "undated"] : ["undated", "missing"],
+      );
+    }
+  });
+
+  it("rejects invalid cursors and cursors of another sort", () => {
+    const { nextCursor } = paginateConversations(conversations, {
+      sort: "startTime",
+      order: "desc",
+      limit: 1,
+    });
+
+    expect(() =>
+      paginateConversations(conversations, {
+        sort: "lastTime",
+        order: "desc",
+        limit: 1,
+        cursor: nextCursor!,
+      }),
+    ).toThrow("does not match");
+    expect(() =>
+      paginateConversations(conversations, {
+        sort: "startTime",
+        order: "desc",
+        limit: 1,
+        cursor: "not-a-cursor",
+      }),
+    ).toThrow("Invalid cursor");
+  });
+});
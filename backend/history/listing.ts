@@ -0,0 +1,167 @@
+/**
+ * Paging, sorting and filtering of conversation lists
+ *
+ * Pages are addressed by an opaque cursor holding the sort value and session
+ * ID of the last conversation on the previous page. Unlike offsets, cursors
+ * don't skip or repeat conversations when new sessions are added between
+ * requests. Pinned conversations come first in every sort order.
+ */
+
+import type {
+  ConversationSummary,
+  HistorySortKey,
+  HistorySortOrder,
+} from "../../shared/types.ts";
+
+export const HISTORY_SORT_KEYS: readonly HistorySortKey[] = [
+  "startTime",
+  "lastTime",
+  "messageCount",
+];
+
+export interface HistoryListOptions {
+  sort: HistorySortKey;
+  order: HistorySortOrder;
+  limit: number;
+  cursor?: string;
+  from?: Date; // Conversations active at or after this time
+  to?: Date; // Conversations started before this time
+  minMessages?: number;
+  tags?: string[]; // Conversations with all of these tags
+}
+
+export interface HistoryPage {
+  conversations: ConversationSummary[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// null for conversations without a timestamp, e.g. files with only a summary
+type SortValue = string | number | null;
+
+type CursorData = [
+  HistorySortKey,
+  HistorySortOrder,
+  boolean, // Pinned
+  SortValue,
+  string,
+];
+
+function encodeCursor(data: CursorData): string {
+  return btoa(JSON.stringify(data))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): CursorData {
+  try {
+    const data = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/")),
+    ) as CursorData;
+    if (Array.isArray(data) && data.length === 5) {
+      return data;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid cursor");
+}
+
+function getSortValue(
+  conversation: ConversationSummary,
+  sort: HistorySortKey,
+): SortValue {
+  if (sort === "messageCount") {
+    return conversation.messageCount;
+  }
+  const time = new Date(conversation[sort]);
+  return isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (a === null || b === null) {
+    return 0;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Filter, sort and cut one page out of a conversation list
+ * Ties are broken by session ID, so the order is stable across requests
+ * @param conversations - All conversations the user may see
+ * @param options - Sort, filters and position
+ * @returns The page, a cursor for the next page and the filtered total
+ * @throws Error when the cursor is invalid or was created for another sort
+ */
+export function paginateConversations(
+  conversations: ConversationSummary[],
+  options: HistoryListOptions,
+): HistoryPage {
+  const { sort, order, limit, from, to, minMessages, tags } = options;
+  const direction = order === "asc" ? 1 : -1;
+
+  const filtered = conversations.filter(
+    (conversation) =>
+      (!from || new Date(conversation.lastTime) >= from) &&
+      (!to || new Date(conversation.startTime) < to) &&
+      (!minMessages || conversation.messageCount >= minMessages) &&
+      (!tags || tags.every((tag) => conversation.tags.includes(tag))),
+  );
+
+  const compare = (
+    pinned: boolean,
+    value: SortValue,
+    sessionId: string,
+    other: ConversationSummary,
+  ) => {
+    const otherValue = getSortValue(other, sort);
+    return (
+      Number(other.pinned) - Number(pinned) ||
+      // Conversations without a timestamp come last in either order
+      Number(value === null) - Number(otherValue === null) ||
+      direction * compareValues(value, otherValue) ||
+      direction * compareValues(sessionId, other.sessionId)
+    );
+  };
+
+  const sorted = filtered.sort((a, b) =>
+    compare(a.pinned, getSortValue(a, sort), a.sessionId, b),
+  );
+
+  let start = 0;
+  if (options.cursor) {
+    const [cursorSort, cursorOrder, pinned, value, sessionId] = decodeCursor(
+      options.cursor,
+    );
+    if (cursorSort !== sort || cursorOrder !== order) {
+      throw new Error("Cursor does not match the requested sort");
+    }
+    // First conversation that sorts after the cursor
+    start = sorted.findIndex(
+      (conversation) => compare(pinned, value, sessionId, conversation) < 0,
+    );
+    if (start === -1) {
+      start = sorted.length;
+    }
+  }
+
+  const page = sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    conversations: page,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor([
+            sort,
+            order,
+            last.pinned,
+            getSortValue(last, sort),
+            last.sessionId,
+          ])
+        : null,
+    total: sorted.length,
+  };
+}
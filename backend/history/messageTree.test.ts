@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import type { RawHistoryLine } from "./parser.ts";
+import { buildMessageTree, getBranchPreview } from "./messageTree.ts";
+
+const line = (
+  uuid: string,
+  parentUuid: string | null,
+  extra: Partial<RawHistoryLine> = {},
+): RawHistoryLine => ({
+  type: uuid.startsWith("u") ? "user" : "assistant",
+  uuid,
+  parentUuid,
+  sessionId: "session",
+  timestamp: "2025-01-01T10:00:00Z",
+  ...extra,
+});
+
+const uuids = (lines: RawHistoryLine[]) => lines.map((item) => item.uuid);
+
+describe("buildMessageTree", () => {
+  it("follows the chain to the latest message", () => {
+    // u2 was edited into u3, whose answer a3 was retried as a4
+    const tree = buildMessageTree([
+      line("u1", null),
+      line("a1", "u1"),
+      line("u2", "a1"),
+      line("a2", "u2"),
+      line("u3", "a1"),
+      line("a3", "u3"),
+      line("a4", "u3"),
+    ]);
+
+    expect(uuids(tree.mainPath)).toEqual(["u1", "a1", "u3", "a4"]);
+    expect(
+      tree.branches.map((branch) => [
+        branch.id,
+        branch.parentUuid,
+        uuids(branch.messages),
+      ]),
+    ).toEqual([
+      ["u2", "a1", ["u2", "a2"]],
+      ["a3", "u3", ["a3"]],
+    ]);
+  });
+
+  it("keeps conversation order when timestamps are out of order", () => {
+    const tree = buildMessageTree([
+      line("u1", null, { timestamp: "2025-01-01T10:00:05Z" }),
+      line("a1", "u1", { timestamp: "2025-01-01T10:00:00Z" }),
+    ]);
+    expect(uuids(tree.mainPath)).toEqual(["u1", "a1"]);
+  });
+
+  it("follows compaction boundaries through logicalParentUuid", () => {
+    const tree = buildMessageTree([
+      line("u1", null),
+      line("a1", "u1"),
+      line("s1", null, { type: "system", logicalParentUuid: "a1" }),
+      line("u2", "s1"),
+    ]);
+    expect(uuids(tree.mainPath)).toEqual(["u1", "a1", "s1", "u2"]);
+    expect(tree.branches).toEqual([]);
+  });
+
+  it("separates sidechains by sub-agent run", () => {
+    const tree = buildMessageTree([
+      line("u1", null),
+      line("a1", "u1"),
+      line("us1", null, { isSidechain: true }),
+      line("as1", "us1", { isSidechain: true }),
+      line("us2", null, { isSidechain: true }),
+      line("u2", "a1"),
+      line("as2", "us2", { isSidechain: true }),
+    ]);
+
+    expect(uuids(tree.mainPath)).toEqual(["u1", "a1", "u2"]);
+    expect(
+      tree.sidechains.map((sidechain) => [
+        sidechain.id,
+        uuids(sidechain.messages),
+      ]),
+    ).toEqual([
+      ["us1", ["us1", "as1"]],
+      ["us2", ["us2", "as2"]],
+    ]);
+  });
+
+  it("links sidechains to the Task calls that started them", () => {
+    const task = (id: string, prompt: string) => ({
+      type: "tool_use" as const,
+      id,
+      name: "Task",
+      input: { description: prompt, prompt },
+    });
+    const prompt = (text: string) =>
+      ({ role: "user", content: text }) as RawHistoryLine["message"];
+
+    const tree = buildMessageTree([
+      line("u1", null),
+      line("a1", "u1", {
+        message: {
+          role: "assistant",
+          content: [
+            task("toolu_1", "Find the config"),
+            task("toolu_2", "Read"),
+          ],
+        } as RawHistoryLine["message"],
+      }),
+      line("us1", null, { isSidechain: true, message: prompt("Read") }),
+      line("us2", null, { isSidechain: true, message: prompt("Other") }),
+    ]);
+
+    expect(
+      tree.sidechains.map((sidechain) => [
+        sidechain.id,
+        sidechain.parentToolUseId,
+      ]),
+    ).toEqual([
+      ["us1", "toolu_2"],
+      ["us2", "toolu_1"],
+    ]);
+  });
+
+  it("skips lines without a uuid and repeated uuids", () => {
+    const tree = buildMessageTree([
+      { type: "summary", leafUuid: "a1" } as unknown as RawHistoryLine,
+      line("u1", null),
+      line("a1", "u1"),
+      line("a1", "u1"),
+    ]);
+    expect(uuids(tree.mainPath)).toEqual(["u1", "a1"]);
+    expect(tree.branches).toEqual([]);
+  });
+
+  it("lists detached messages as branches without a parent", () => {
+    const tree = buildMessageTree([
+      line("u1", null),
+      line("a1", "missing"),
+      line("u2", "u1"),
+    ]);
+    expect(uuids(tree.mainPath)).toEqual(["u1", "u2"]);
+    expect(tree.branches).toEqual([
+      { id: "a1", parentUuid: null, messages: [line("a1", "missing")] },
+    ]);
+  });
+});
+
+describe("getBranchPreview", () => {
+  it("uses the first text on one line", () => {
+    expect(
+      getBranchPreview([
+        line("a1", null, {
+          message: {
+            role: "assistant",
+            content: [{ type: "text", text: "Try\n  this instead" }],
+          } as RawHistoryLine["message"],
+        }),
+      ]),
+    ).toBe("Try this instead");
+    expect(getBranchPreview([line("u1", null)])).toBe("");
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Conversation tree reconstruction
+ *
+ * Every history line points to the message it follows through parentUuid.
+ * Retrying a response or editing an earlier prompt adds a second child to an
+ * existing message, so a session file holds a tree with the abandoned
+ * branches still in it. Sub-agent (Task tool) messages are marked
+ * isSidechain and form trees of their own.
+ *
+ * The main path is the chain leading to the most recently written message.
+ */
+
+import type { RawHistoryLine } from "./parser.ts";
+import { stripLegacyRulesPrefix } from "./legacyRules.ts";
+
+/** Length of branch previews */
+const PREVIEW_LENGTH = 100;
+
+export interface MessageBranch {
+  id: string; // uuid of the first message
+  parentUuid: string | null; // Message the branch follows, null for detached messages
+  messages: RawHistoryLine[];
+}
+
+export interface MessageSidechain {
+  id: string; // uuid of the first message
+  parentToolUseId: string | null; // Task tool_use that started the run
+  messages: RawHistoryLine[];
+}
+
+export interface MessageTree {
+  mainPath: RawHistoryLine[];
+  branches: MessageBranch[];
+  sidechains: MessageSidechain[];
+}
+
+interface LinkedLines {
+  roots: RawHistoryLine[];
+  children: Map<string, RawHistoryLine[]>;
+  position: Map<string, number>; // Index in file order
+}
+
+/**
+ * Link lines to their parents
+ * Compaction starts a new chain whose first line points to the last
+ * compacted message through logicalParentUuid, which is followed as well.
+ */
+function linkLines(lines: RawHistoryLine[]): LinkedLines {
+  const position = new Map<string, number>();
+  lines.forEach((line, index) => position.set(line.uuid, index));
+
+  const roots: RawHistoryLine[] = [];
+  const children = new Map<string, RawHistoryLine[]>();
+  for (const line of lines) {
+    const parentUuid = line.parentUuid ?? line.logicalParentUuid;
+    if (!parentUuid || !position.has(parentUuid)) {
+      roots.push(line);
+      continue;
+    }
+    const siblings = children.get(parentUuid);
+    if (siblings) {
+      siblings.push(line);
+    } else {
+      children.set(parentUuid, [line]);
+    }
+  }
+
+  return { roots, children, position };
+}
+
+/**
+ * Get the position of the latest line below each message
+ * Walks the trees without recursion, as transcripts are deep chains
+ */
+function getLatestPositions({
+  roots,
+  children,
+  position,
+}: LinkedLines): Map<string, number> {
+  const latest = new Map<string, number>();
+  const stack: [RawHistoryLine, boolean][] = roots.map((root) => [root, false]);
+
+  while (stack.length > 0) {
+    const [line, visited] = stack.pop()!;
+    const lineChildren = children.get(line.uuid) ?? [];
+    if (!visited) {
+      stack.push([line, true]);
+      for (const child of lineChildren) {
+        stack.push([child, false]);
+      }
+      continue;
+    }
+    let value = position.get(line.uuid)!;
+    for (const child of lineChildren) {
+      value = Math.max(value, latest.get(child.uuid)!);
+    }
+    latest.set(line.uuid, value);
+  }
+
+  return latest;
+}
+
+/**
+ * Follow a message down to its latest descendant
+ * @param onAlternative - Called with the children that were not followed
+ */
+function followLatest(
+  start: RawHistoryLine,
+  children: Map<string, RawHistoryLine[]>,
+  latest: Map<string, number>,
+  onAlternative: (child: RawHistoryLine, parentUuid: string) => void,
+): RawHistoryLine[] {
+  const path = [start];
+  let current = start;
+
+  for (;;) {
+    const lineChildren = children.get(current.uuid);
+    if (!lineChildren) {
+      return path;
+    }
+    const next = lineChildren.reduce((best, child) =>
+      latest.get(child.uuid)! > latest.get(best.uuid)! ? child : best,
+    );
+    for (const child of lineChildren) {
+      if (child !== next) {
+        onAlternative(child, current.uuid);
+      }
+    }
+    path.push(next);
+    current = next;
+  }
+}
+
+/**
+ * Rebuild the message tree of a session file
+ * Lines without a uuid (e.g. summaries) are left out, as are repeated uuids.
+ * @param lines - Lines in file order
+ * @returns The main path, the branches left from it and the sidechains, each
+ *   in conversation order
+ */
+export function buildMessageTree(lines: RawHistoryLine[]): MessageTree {
+  const mainLines: RawHistoryLine[] = [];
+  const sidechainLines: RawHistoryLine[] = [];
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!line.uuid || seen.has(line.uuid)) {
+      continue;
+    }
+    seen.add(line.uuid);
+    (line.isSidechain ? sidechainLines : mainLines).push(line);
+  }
+
+  const linked = linkLines(mainLines);
+  const latest = getLatestPositions(linked);
+
+  // Branches are followed breadth-first, so alternatives of the main path
+  // come before alternatives of other branches
+  const pending: { start: RawHistoryLine; parentUuid: string | null }[] = [];
+  const addAlternative = (start: RawHistoryLine, parentUuid: string | null) =>
+    pending.push({ start, parentUuid });
+
+  let mainPath: RawHistoryLine[] = [];
+  if (linked.roots.length > 0) {
+    const mainRoot = linked.roots.reduce((best, root) =>
+      latest.get(root.uuid)! > latest.get(best.uuid)! ? root : best,
+    );
+    mainPath = followLatest(mainRoot, linked.children, latest, addAlternative);
+    for (const root of linked.roots) {
+      if (root !== mainRoot) {
+        addAlternative(root, null);
+      }
+    }
+  }
+
+  const branches: MessageBranch[] = [];
+  for (let index = 0; index < pending.length; index++) {
+    const { start, parentUuid } = pending[index];
+    branches.push({
+      id: start.uuid,
+      parentUuid,
+      messages: followLatest(start, linked.children, latest, addAlternative),
+    });
+  }
+
+  return {
+    mainPath,
+    branches,
+    sidechains: groupSidechains(sidechainLines, mainLines),
+  };
+}
+
+/**
+ * Get the text of a line, "" when it has none
+ */
+function getLineText(line: RawHistoryLine): string {
+  const content = line.message?.content;
+  return typeof content === "string"
+    ? content
+    : Array.isArray(content)
+      ? (content.find((block) => block.type === "text")?.text ?? "")
+      : "";
+}
+
+/**
+ * Get the Task tool calls of a conversation, in file order
+ */
+function getTaskToolUses(
+  lines: RawHistoryLine[],
+): { id: string; prompt: string }[] {
+  const toolUses: { id: string; prompt: string }[] = [];
+  for (const line of lines) {
+    const content = line.message?.content;
+    if (line.type !== "assistant" || !Array.isArray(content)) {
+      continue;
+    }
+    for (const block of content) {
+      if (block.type === "tool_use" && block.name === "Task") {
+        const input = block.input as { prompt?: unknown } | undefined;
+        toolUses.push({
+          id: block.id,
+          prompt: typeof input?.prompt === "string" ? input.prompt.trim() : "",
+        });
+      }
+    }
+  }
+  return toolUses;
+}
+
+/**
+ * Group sidechain lines by the sub-agent run they belong to
+ * Sidechain lines don't name the Task call that started them. Runs start
+ * with the prompt of their call, so they are matched by prompt first and
+ * by order for the rest.
+ * @param lines - Sidechain lines in file order
+ * @param mainLines - Other lines, holding the Task calls
+ */
+function groupSidechains(
+  lines: RawHistoryLine[],
+  mainLines: RawHistoryLine[],
+): MessageSidechain[] {
+  const { roots, children } = linkLines(lines);
+
+  const sidechains = roots.map((root): MessageSidechain => {
+    const members = new Set<string>();
+    const stack = [root];
+    while (stack.length > 0) {
+      const line = stack.pop()!;
+      members.add(line.uuid);
+      stack.push(...(children.get(line.uuid) ?? []));
+    }
+    return {
+      id: root.uuid,
+      parentToolUseId: null,
+      messages: lines.filter((line) => members.has(line.uuid)),
+    };
+  });
+
+  const unmatched = getTaskToolUses(mainLines);
+  const claim = (index: number) => unmatched.splice(index, 1)[0].id;
+  for (const sidechain of sidechains) {
+    const prompt = getLineText(sidechain.messages[0]).trim();
+    const index = unmatched.findIndex((toolUse) => toolUse.prompt === prompt);
+    if (prompt && index !== -1) {
+      sidechain.parentToolUseId = claim(index);
+    }
+  }
+  for (const sidechain of sidechains) {
+    if (!sidechain.parentToolUseId && unmatched.length > 0) {
+      sidechain.parentToolUseId = claim(0);
+    }
+  }
+
+  return sidechains;
+}
+
+/**
+ * Get a short preview of the first text in a list of lines
+ * Used to tell branches apart
+ */
+export function getBranchPreview(lines: RawHistoryLine[]): string {
+  for (const line of lines) {
+    const preview = stripLegacyRulesPrefix(getLineText(line))
+      .replace(/\s+/g, " ")
+      .trim();
+    if (preview) {
+      return preview.substring(0, PREVIEW_LENGTH);
+    }
+  }
+  return "";
+}
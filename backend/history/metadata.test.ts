@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  carryOverConversationMetadata,
+  createAutoTitle,
+  deleteConversationMetadata,
+  getConversationMetadata,
+  initializeConversationMetadata,
+  recordConversationFork,
+  updateConversationMetadata,
+  validateMetadataUpdate,
+} from "./metadata.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    history: {
+      debug: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+describe("Conversation metadata store", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "metadata-test-"));
+    initializeConversationMetadata(dataDir);
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("merges updates and persists them", async () => {
+    await updateConversationMetadata("s1", {
+      title: "  Deploy failure ",
+      tags: ["Bug", "bug", " infra "],
+    });
+    const updated = await updateConversationMetadata("s1", {
+      pinned: true,
+      notes: "Reported upstream",
+    });
+
+    expect(updated).toMatchObject({
+      title: "Deploy failure",
+      tags: ["bug", "infra"],
+      pinned: true,
+      notes: "Reported upstream",
+    });
+
+    const stored = JSON.parse(
+      await readFile(join(dataDir, "conversation-metadata.json"), "utf8"),
+    );
+    expect(stored.s1.tags).toEqual(["bug", "infra"]);
+  });
+
+  it("clears the title and notes with null", async () => {
+    const updated = await updateConversationMetadata("s1", {
+      title: null,
+      notes: "",
+    });
+    expect(updated.title).toBeUndefined();
+    expect(updated.notes).toBeUndefined();
+    expect(updated.tags).toEqual(["bug", "infra"]);
+  });
+
+  it("carries metadata over to continued sessions", async () => {
+    await carryOverConversationMetadata("s1", "s2");
+    expect(await getConversationMetadata("s2")).toMatchObject({
+      tags: ["bug", "infra"],
+      pinned: true,
+    });
+
+    // Metadata set on the new session is not overwritten
+    await updateConversationMetadata("s3", { tags: ["other"] });
+    await carryOverConversationMetadata("s1", "s3");
+    expect((await getConversationMetadata("s3"))?.tags).toEqual(["other"]);
+  });
+
+  it("records forks and keeps the relation when metadata is removed", async () => {
+    const forkedFrom = { sessionId: "s1", messageId: "m1" };
+    expect(await recordConversationFork("f1", forkedFrom)).toMatchObject({
+      tags: ["bug", "infra"],
+      pinned: false,
+      forkedFrom,
+    });
+
+    await updateConversationMetadata("f1", { title: "Other approach" });
+    expect((await getConversationMetadata("f1"))?.forkedFrom).toEqual(
+      forkedFrom,
+    );
+
+    await deleteConversationMetadata("f1");
+    expect(await getConversationMetadata("f1")).toMatchObject({
+      tags: [],
+      forkedFrom,
+    });
+  });
+
+  it("deletes metadata", async () => {
+    expect(await deleteConversationMetadata("s2")).toBe(true);
+    expect(await getConversationMetadata("s2")).toBeNull();
+    expect(await deleteConversationMetadata("s2")).toBe(false);
+  });
+});
+
+describe("validateMetadataUpdate", () => {
+  it("accepts partial updates", () => {
+    expect(validateMetadataUpdate({ pinned: true })).toEqual({ pinned: true });
+    expect(validateMetadataUpdate({ title: null })).toEqual({ title: null });
+  });
+
+  it("rejects invalid fields", () => {
+    expect(validateMetadataUpdate([])).toBe("Request body must be an object");
+    expect(validateMetadataUpdate({ tags: "bug" })).toBe(
+      "tags must be an array of strings",
+    );
+    expect(validateMetadataUpdate({ pinned: "yes" })).toBe(
+      "pinned must be a boolean",
+    );
+    expect(validateMetadataUpdate({ title: "x".repeat(201) })).toContain(
+      "at most 200",
+    );
+  });
+});
+
+describe("createAutoTitle", () => {
+  it("uses the first question on one line", () => {
+    expect(createAutoTitle("How do I\nrotate keys?")).toBe(
+      "How do I rotate keys?",
+    );
+    expect(createAutoTitle("  ")).toBe("Untitled conversation");
+  });
+
+  it("shortens long questions at a word boundary", () => {
+    const title = createAutoTitle(
+      "Why does the nightly deployment of the billing service fail with a timeout after the migration step?",
+    );
+    expect(title).toBe(
+      "Why does the nightly deployment of the billing service fail…",
+    );
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Conversation metadata store
+ *
+ * Titles, tags, pinned state and notes given by users are kept apart from
+ * Claude's JSONL files, which the CLI owns and rewrites. The store maps
+ * session IDs to their metadata and is persisted as JSON in
+ * <dataDir>/conversation-metadata.json.
+ */
+
+import { dirname, join } from "node:path";
+import type {
+  ConversationForkPoint,
+  ConversationMetadata,
+  ConversationMetadataUpdate,
+  ConversationSummary,
+} from "../../shared/types.ts";
+import { logger } from "../utils/logger.ts";
+import { ensureDir, exists, readTextFile, writeTextFile } from "../utils/fs.ts";
+
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS = 20;
+export const MAX_NOTES_LENGTH = 10_000;
+
+/** Length of generated titles, without the ellipsis */
+const AUTO_TITLE_LENGTH = 60;
+
+/** Path of the store file, null keeps the store in memory only */
+let storePath: string | null = null;
+
+/** Loaded metadata by session ID */
+let entries: Map<string, ConversationMetadata> | null = null;
+
+/** Serializes writes so concurrent requests don't overwrite each other */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the metadata store with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializeConversationMetadata(dataDir: string): void {
+  storePath = join(dataDir, "conversation-metadata.json");
+  entries = null;
+}
+
+async function loadStore(): Promise<Map<string, ConversationMetadata>> {
+  if (entries) {
+    return entries;
+  }
+
+  const loaded = new Map<string, ConversationMetadata>();
+  if (storePath && (await exists(storePath))) {
+    try {
+      const data = JSON.parse(await readTextFile(storePath)) as Record<
+        string,
+        ConversationMetadata
+      >;
+      for (const [sessionId, metadata] of Object.entries(data)) {
+        loaded.set(sessionId, metadata);
+      }
+    } catch (error) {
+      logger.history.error("Failed to read conversation metadata: {error}", {
+        error,
+      });
+    }
+  }
+
+  entries = loaded;
+  return loaded;
+}
+
+function saveStore(store: Map<string, ConversationMetadata>): Promise<void> {
+  const path = storePath;
+  if (!path) {
+    return Promise.resolve();
+  }
+
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await ensureDir(dirname(path));
+      await writeTextFile(
+        path,
+        JSON.stringify(Object.fromEntries(store), null, 2) + "\n",
+      );
+    } catch (error) {
+      logger.history.error("Failed to write conversation metadata: {error}", {
+        error,
+      });
+    }
+  });
+  return pendingWrite;
+}
+
+/**
+ * Normalize a list of tags
+ * Tags are trimmed, lowercased and deduplicated, empty tags are dropped
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [
+    ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+  ];
+}
+
+/**
+ * Check a metadata update from a request body
+ * @returns The update, or an error message
+ */
+export function validateMetadataUpdate(
+  body: unknown,
+): ConversationMetadataUpdate | string {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return "Request body must be an object";
+  }
+  const { title, tags, pinned, notes } = body as Record<string, unknown>;
+
+  if (title !== undefined && title !== null) {
+    if (typeof title !== "string") return "title must be a string";
+    if (title.length > MAX_TITLE_LENGTH) {
+      return `title must be at most ${MAX_TITLE_LENGTH} characters`;
+    }
+  }
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+      return "tags must be an array of strings";
+    }
+    const normalized = normalizeTags(tags as string[]);
+    if (normalized.length > MAX_TAGS) {
+      return `At most ${MAX_TAGS} tags are allowed`;
+    }
+    if (normalized.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      return `Tags must be at most ${MAX_TAG_LENGTH} characters`;
+    }
+  }
+  if (pinned !== undefined && typeof pinned !== "boolean") {
+    return "pinned must be a boolean";
+  }
+  if (notes !== undefined && notes !== null) {
+    if (typeof notes !== "string") return "notes must be a string";
+    if (notes.length > MAX_NOTES_LENGTH) {
+      return `notes must be at most ${MAX_NOTES_LENGTH} characters`;
+    }
+  }
+
+  return {
+    ...(title !== undefined ? { title: title as string | null } : {}),
+    ...(tags !== undefined ? { tags: tags as string[] } : {}),
+    ...(pinned !== undefined ? { pinned: pinned as boolean } : {}),
+    ...(notes !== undefined ? { notes: notes as string | null } : {}),
+  };
+}
+
+/**
+ * Get the metadata of a session
+ * @returns Metadata, or null when none was set
+ */
+export async function getConversationMetadata(
+  sessionId: string,
+): Promise<ConversationMetadata | null> {
+  return (await loadStore()).get(sessionId) ?? null;
+}
+
+/**
+ * Get the metadata of all sessions
+ */
+export async function getAllConversationMetadata(): Promise<
+  ReadonlyMap<string, ConversationMetadata>
+> {
+  return await loadStore();
+}
+
+/**
+ * Update the metadata of a session
+ * Fields missing from the update are kept; null or empty strings clear the
+ * title and notes
+ * @param sessionId - Claude session ID
+ * @param update - Validated update
+ * @returns The metadata after the update
+ */
+export async function updateConversationMetadata(
+  sessionId: string,
+  update: ConversationMetadataUpdate,
+): Promise<ConversationMetadata> {
+  const store = await loadStore();
+  const current = store.get(sessionId);
+
+  const title =
+    update.title === undefined ? current?.title : update.title?.trim();
+  const notes = update.notes === undefined ? current?.notes : update.notes;
+  const metadata: ConversationMetadata = {
+    ...(title ? { title } : {}),
+    tags: update.tags ? normalizeTags(update.tags) : (current?.tags ?? []),
+    pinned: update.pinned ?? current?.pinned ?? false,
+    ...(notes ? { notes } : {}),
+    ...(current?.forkedFrom ? { forkedFrom: current.forkedFrom } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+
+  store.set(sessionId, metadata);
+  logger.history.debug("Updated metadata of session {sessionId}", {
+    sessionId,
+  });
+  await saveStore(store);
+  return metadata;
+}
+
+/**
+ * Remove the metadata of a session
+ * The fork relation is not user-given and is kept
+ * @returns Whether the session had metadata
+ */
+export async function deleteConversationMetadata(
+  sessionId: string,
+): Promise<boolean> {
+  const store = await loadStore();
+  const current = store.get(sessionId);
+  if (!current) {
+    return false;
+  }
+  if (current.forkedFrom) {
+    store.set(sessionId, {
+      tags: [],
+      pinned: false,
+      forkedFrom: current.forkedFrom,
+      updatedAt: new Date().toISOString(),
+    });
+  } else {
+    store.delete(sessionId);
+  }
+  await saveStore(store);
+  return true;
+}
+
+/**
+ * Record that a session was forked from a message of another session
+ * Tags are inherited from the parent, the title is generated again
+ * @param sessionId - New session
+ * @param forkedFrom - Parent session and message
+ */
+export async function recordConversationFork(
+  sessionId: string,
+  forkedFrom: ConversationForkPoint,
+): Promise<ConversationMetadata> {
+  const store = await loadStore();
+  const metadata: ConversationMetadata = {
+    tags: [...(store.get(forkedFrom.sessionId)?.tags ?? [])],
+    pinned: false,
+    forkedFrom,
+    updatedAt: new Date().toISOString(),
+  };
+
+  store.set(sessionId, metadata);
+  logger.history.debug("Session {sessionId} forked from {parent}", {
+    sessionId,
+    parent: forkedFrom.sessionId,
+  });
+  await saveStore(store);
+  return metadata;
+}
+
+/**
+ * Carry metadata over to the session a conversation was continued in
+ * Resumed conversations get a new session ID and are listed under it
+ * @param fromSessionId - Resumed session
+ * @param toSessionId - New session
+ */
+export async function carryOverConversationMetadata(
+  fromSessionId: string,
+  toSessionId: string,
+): Promise<void> {
+  const store = await loadStore();
+  const metadata = store.get(fromSessionId);
+  if (!metadata || fromSessionId === toSessionId || store.has(toSessionId)) {
+    return;
+  }
+
+  store.set(toSessionId, { ...metadata, tags: [...metadata.tags] });
+  logger.history.debug(
+    "Carried metadata of session {from} over to {sessionId}",
+    { from: fromSessionId, sessionId: toSessionId },
+  );
+  await saveStore(store);
+}
+
+/**
+ * Generate a title from the first question of a conversation
+ * @param firstUserMessage - First user message, with rules stripped
+ */
+export function createAutoTitle(firstUserMessage: string): string {
+  const text = firstUserMessage.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return "Untitled conversation";
+  }
+  const chars = Array.from(text);
+  if (chars.length <= AUTO_TITLE_LENGTH) {
+    return text;
+  }
+
+  // Cut at the last space when there is one near the end
+  const cut = chars.slice(0, AUTO_TITLE_LENGTH).join("");
+  const space = cut.lastIndexOf(" ");
+  return (space > AUTO_TITLE_LENGTH / 2 ? cut.substring(0, space) : cut) + "…";
+}
+
+/**
+ * Apply stored metadata to a conversation summary
+ */
+export function applyConversationMetadata(
+  summary: ConversationSummary,
+  metadata: ConversationMetadata | undefined,
+): ConversationSummary {
+  if (!metadata) {
+    return summary;
+  }
+  return {
+    ...summary,
+    title: metadata.title || summary.title,
+    tags: metadata.tags,
+    pinned: metadata.pinned,
+    ...(metadata.forkedFrom ? { forkedFrom: metadata.forkedFrom } : {}),
+  };
+}
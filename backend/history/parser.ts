@@ -7,8 +7,14 @@ import type {
   SDKAssistantMessage,
   SDKUserMessage,
 } from "@anthropic-ai/claude-code";
+import { createHash } from "node:crypto";
 import { logger } from "../utils/logger.ts";
-import { readTextFile, readDir } from "../utils/fs.ts";
+import { readLines, readDir } from "../utils/fs.ts";
+import { stripLegacyRulesPrefix } from "./legacyRules.ts";
+import { historyParseDuration, startTimer } from "../metrics/metrics.ts";
+
+/** Length of the first question kept for generated titles */
+const FIRST_MESSAGE_LENGTH = 200;
 
 // Raw JSONL line structure from Claude history files
 export interface RawHistoryLine {
@@ -18,51 +24,91 @@ export interface RawHistoryLine {
   timestamp: string; // ISO string format
   uuid: string;
   parentUuid?: string | null;
+  logicalParentUuid?: string | null; // Set on the first line after a compaction
   isSidechain?: boolean;
+  isMeta?: boolean; // Added by the CLI, e.g. around local commands
   userType?: string;
   cwd?: string;
   version?: string;
   requestId?: string;
 }
 
-// Legacy interface maintained for transition period
-// TODO: Remove once all references are updated to use ConversationHistory
-export interface ConversationFile {
+// Everything needed to list and group a conversation file, without messages
+export interface HistoryFileSummary {
   sessionId: string;
   filePath: string;
-  messages: RawHistoryLine[];
   messageIds: Set<string>;
+  messageIdsDigest: string; // Identifies the set of message IDs
   startTime: string;
   lastTime: string;
   messageCount: number;
   lastMessagePreview: string;
+  firstUserMessage: string; // With legacy rules stripped, "" when none
+}
+
+// Legacy interface maintained for transition period
+// TODO: Remove once all references are updated to use ConversationHistory
+export interface ConversationFile extends HistoryFileSummary {
+  messages: RawHistoryLine[];
+}
+
+/**
+ * Compute a digest of a set of message IDs, independent of their order
+ */
+export function digestMessageIds(messageIds: Iterable<string>): string {
+  return createHash("sha256")
+    .update([...messageIds].sort().join("\n"))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+/**
+ * Get the text a user typed in a history line
+ * @returns The text, or "" for tool results and messages added by the CLI
+ */
+function getUserText(line: RawHistoryLine): string {
+  if (
+    line.type !== "user" ||
+    line.message?.role !== "user" ||
+    line.isSidechain ||
+    line.isMeta
+  ) {
+    return "";
+  }
+  const content = line.message.content;
+  const text =
+    typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? (content.find((block) => block.type === "text")?.text ?? "")
+        : "";
+  return stripLegacyRulesPrefix(text).trim();
 }
 
 /**
  * Parse a single JSONL file and extract conversation data
- * @private - Internal function used by parseAllHistoryFiles
+ * Used by the summary cache and the search index
  */
-async function parseHistoryFile(
+export async function parseHistoryFile(
   filePath: string,
 ): Promise<ConversationFile | null> {
+  const elapsed = startTimer();
   try {
-    const content = await readTextFile(filePath);
-    const lines = content
-      .trim()
-      .split("\n")
-      .filter((line) => line.trim());
-
-    if (lines.length === 0) {
-      return null; // Empty file
-    }
-
     const messages: RawHistoryLine[] = [];
     const messageIds = new Set<string>();
     let startTime = "";
     let lastTime = "";
     let lastMessagePreview = "";
+    let firstUserMessage = "";
+    let lineCount = 0;
+
+    // Read line by line, session files can be large
+    for await (const line of readLines(filePath)) {
+      if (!line.trim()) {
+        continue;
+      }
+      lineCount++;
 
-    for (const line of lines) {
       try {
         const parsed = JSON.parse(line) as RawHistoryLine;
         messages.push(parsed);
@@ -72,12 +118,21 @@ async function parseHistoryFile(
           messageIds.add(parsed.message.id);
         }
 
-        // Track timestamps
-        if (!startTime || parsed.timestamp < startTime) {
-          startTime = parsed.timestamp;
+        // Track timestamps, summary lines have none
+        if (typeof parsed.timestamp === "string") {
+          if (!startTime || parsed.timestamp < startTime) {
+            startTime = parsed.timestamp;
+          }
+          if (!lastTime || parsed.timestamp > lastTime) {
+            lastTime = parsed.timestamp;
+          }
         }
-        if (!lastTime || parsed.timestamp > lastTime) {
-          lastTime = parsed.timestamp;
+
+        if (!firstUserMessage) {
+          firstUserMessage = getUserText(parsed).substring(
+            0,
+            FIRST_MESSAGE_LENGTH,
+          );
         }
 
         // Extract last message preview (from assistant messages)
@@ -103,6 +158,12 @@ async function parseHistoryFile(
       }
     }
 
+    historyParseDuration.observe(elapsed(), { kind: "summary" });
+
+    if (lineCount === 0) {
+      return null; // Empty file
+    }
+
     // Extract session ID from file name (remove .jsonl extension)
     const fileName = filePath.split("/").pop() || "";
     const sessionId = fileName.replace(".jsonl", "");
@@ -112,10 +173,12 @@ async function parseHistoryFile(
       filePath,
       messages,
       messageIds,
+      messageIdsDigest: digestMessageIds(messageIds),
       startTime,
       lastTime,
       messageCount: messages.length,
       lastMessagePreview: lastMessagePreview || "No preview available",
+      firstUserMessage,
     };
   } catch (error) {
     logger.history.error(`Failed to read history file ${filePath}: {error}`, {
@@ -127,9 +190,9 @@ async function parseHistoryFile(
 
 /**
  * Get all JSONL files in a history directory
- * @private - Internal function used by parseAllHistoryFiles
+ * Used by the summary cache and the search index
  */
-async function getHistoryFiles(historyDir: string): Promise<string[]> {
+export async function getHistoryFiles(historyDir: string): Promise<string[]> {
   try {
     const files: string[] = [];
 
@@ -146,26 +209,6 @@ async function getHistoryFiles(historyDir: string): Promise<string[]> {
   }
 }
 
-/**
- * Parse all conversation files in a history directory
- * Used by the histories endpoint to get conversation summaries
- */
-export async function parseAllHistoryFiles(
-  historyDir: string,
-): Promise<ConversationFile[]> {
-  const filePaths = await getHistoryFiles(historyDir);
-  const results: ConversationFile[] = [];
-
-  for (const filePath of filePaths) {
-    const parsed = await parseHistoryFile(filePath);
-    if (parsed) {
-      results.push(parsed);
-    }
-  }
-
-  return results;
-}
-
 /**
  * Check if one set of message IDs is a subset of another
  */
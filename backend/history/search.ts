@@ -0,0 +1,398 @@
+/**
+ * Full-text search across conversation histories
+ *
+ * User and assistant text is indexed per project directory in an inverted
+ * index. Words are indexed in lowercase; CJK text has no spaces between
+ * words, so it is indexed as single characters and character bigrams.
+ * Indexes stay in memory and only files whose size or modification time
+ * changed are parsed again. Secrets are masked in results, and messages only
+ * match on words outside of them.
+ */
+
+import type { SearchResult, SearchRole } from "../../shared/types.ts";
+import type {
+  ConversationFile,
+  HistoryFileSummary,
+  RawHistoryLine,
+} from "./parser.ts";
+import { getHistoryFiles, parseHistoryFile } from "./parser.ts";
+import { groupConversations } from "./grouping.ts";
+import { stripLegacyRulesPrefix } from "./legacyRules.ts";
+import { getCurrentRedactionConfig } from "../redaction/loader.ts";
+import {
+  createStreamRedactor,
+  type StreamRedactor,
+} from "../redaction/redactor.ts";
+import { logger } from "../utils/logger.ts";
+import { stat } from "../utils/fs.ts";
+
+/** Length of result snippets, without ellipses */
+const SNIPPET_LENGTH = 160;
+
+/** Characters shown before the first match in a snippet */
+const SNIPPET_CONTEXT = 60;
+
+const TOKEN_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}_]+/gu;
+
+const CJK_PATTERN =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+interface MessageDocument {
+  sessionId: string;
+  messageId: string;
+  role: SearchRole;
+  timestamp: string;
+  text: string;
+  lowerText: string;
+}
+
+interface IndexedFile {
+  mtime: number;
+  size: number;
+  file: HistoryFileSummary; // Used for grouping
+  documents: MessageDocument[];
+}
+
+interface ProjectIndex {
+  files: Map<string, IndexedFile>;
+  documents: MessageDocument[];
+  postings: Map<string, number[]>; // Token -> indexes into documents
+}
+
+export interface SearchOptions {
+  query: string;
+  role?: SearchRole;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+}
+
+/** Indexes by history directory */
+const indexes = new Map<string, ProjectIndex>();
+
+/**
+ * Split text into runs of word characters and runs of CJK characters
+ */
+function getRuns(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Get the tokens a text is indexed under
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+  for (const run of getRuns(text)) {
+    if (!CJK_PATTERN.test(run)) {
+      tokens.add(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    chars.forEach((char, i) => {
+      tokens.add(char);
+      if (i + 1 < chars.length) {
+        tokens.add(char + chars[i + 1]);
+      }
+    });
+  }
+  return [...tokens];
+}
+
+/**
+ * Get the tokens to look up for a query
+ * CJK runs are looked up by their bigrams, and matches are verified against
+ * the full run afterwards
+ */
+function getQueryTokens(runs: string[]): string[] {
+  const tokens = new Set<string>();
+  for (const run of runs) {
+    const chars = Array.from(run);
+    if (!CJK_PATTERN.test(run) || chars.length === 1) {
+      tokens.add(run);
+      continue;
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      tokens.add(chars[i] + chars[i + 1]);
+    }
+  }
+  return [...tokens];
+}
+
+/**
+ * Extract the searchable text of a history line
+ * Tool calls, tool results and sub-agent messages are not searchable
+ */
+function getMessageText(
+  line: RawHistoryLine,
+): { role: SearchRole; text: string } | null {
+  const message = line.message;
+  if (
+    (line.type !== "user" && line.type !== "assistant") ||
+    message?.role !== line.type ||
+    line.isSidechain
+  ) {
+    return null;
+  }
+
+  const content = message.content;
+  const text =
+    typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content
+            .map((block) => (block.type === "text" ? block.text : ""))
+            .filter(Boolean)
+            .join("\n")
+        : "";
+  const cleaned = line.type === "user" ? stripLegacyRulesPrefix(text) : text;
+
+  return cleaned.trim() ? { role: line.type, text: cleaned } : null;
+}
+
+function createDocuments(file: ConversationFile): MessageDocument[] {
+  const documents: MessageDocument[] = [];
+  for (const line of file.messages) {
+    const extracted = getMessageText(line);
+    if (extracted && line.uuid) {
+      documents.push({
+        sessionId: file.sessionId,
+        messageId: line.uuid,
+        role: extracted.role,
+        timestamp: line.timestamp,
+        text: extracted.text,
+        lowerText: extracted.text.toLowerCase(),
+      });
+    }
+  }
+  return documents;
+}
+
+/**
+ * Rebuild the document list and postings from the indexed files
+ * Continued sessions repeat earlier messages, so only the files kept by
+ * conversation grouping are searched
+ */
+function rebuildPostings(index: ProjectIndex): void {
+  const indexedFiles = [...index.files.values()];
+  const sessionIds = new Set(
+    groupConversations(indexedFiles.map(({ file }) => file)).map(
+      (summary) => summary.sessionId,
+    ),
+  );
+
+  index.documents = indexedFiles
+    .filter(({ file }) => sessionIds.has(file.sessionId))
+    .flatMap(({ documents }) => documents);
+  index.postings = new Map();
+  index.documents.forEach((document, i) => {
+    for (const token of tokenize(document.text)) {
+      const posting = index.postings.get(token);
+      if (posting) {
+        posting.push(i);
+      } else {
+        index.postings.set(token, [i]);
+      }
+    }
+  });
+}
+
+/**
+ * Bring the index of a history directory up to date
+ */
+async function updateIndex(historyDir: string): Promise<ProjectIndex> {
+  let index = indexes.get(historyDir);
+  let changed = !index;
+  if (!index) {
+    index = { files: new Map(), documents: [], postings: new Map() };
+    indexes.set(historyDir, index);
+  }
+
+  const filePaths = await getHistoryFiles(historyDir);
+  for (const filePath of filePaths) {
+    let fileStats;
+    try {
+      fileStats = await stat(filePath);
+    } catch {
+      continue; // Removed while listing
+    }
+    const mtime = fileStats.mtime?.getTime() ?? 0;
+    const cached = index.files.get(filePath);
+    if (cached && cached.mtime === mtime && cached.size === fileStats.size) {
+      continue;
+    }
+
+    changed = true;
+    const parsed = await parseHistoryFile(filePath);
+    if (!parsed) {
+      index.files.delete(filePath);
+      continue;
+    }
+    const { messages: _messages, ...file } = parsed;
+    index.files.set(filePath, {
+      mtime,
+      size: fileStats.size,
+      file,
+      documents: createDocuments(parsed),
+    });
+  }
+
+  const existing = new Set(filePaths);
+  for (const filePath of index.files.keys()) {
+    if (!existing.has(filePath)) {
+      index.files.delete(filePath);
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    rebuildPostings(index);
+    logger.history.debug(
+      "Search index for {historyDir}: {documents} messages in {files} files",
+      {
+        historyDir,
+        documents: index.documents.length,
+        files: index.files.size,
+      },
+    );
+  }
+  return index;
+}
+
+/**
+ * Cut a snippet around the first match and locate all matches in it
+ */
+export function createSnippet(
+  text: string,
+  terms: string[],
+): Pick<SearchResult, "snippet" | "highlights"> {
+  const lowerText = text.toLowerCase();
+  const positions = terms
+    .map((term) => lowerText.indexOf(term))
+    .filter((position) => position !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  let start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+
+  // Line breaks are flattened one for one, so offsets stay valid
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const snippet = prefix + text.slice(start, end).replace(/\s/g, " ") + suffix;
+
+  const ranges: [number, number][] = [];
+  const lowerSlice = lowerText.slice(start, end);
+  for (const term of terms) {
+    let position = lowerSlice.indexOf(term);
+    while (position !== -1) {
+      ranges.push([
+        prefix.length + position,
+        prefix.length + position + term.length,
+      ]);
+      position = lowerSlice.indexOf(term, position + term.length);
+    }
+  }
+
+  // Merge overlapping ranges, e.g. for overlapping query terms
+  ranges.sort((a, b) => a[0] - b[0]);
+  const highlights: [number, number][] = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      highlights.push([...range]);
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let position = text.indexOf(term);
+  while (position !== -1) {
+    count++;
+    position = text.indexOf(term, position + term.length);
+  }
+  return count;
+}
+
+/**
+ * Search the messages of a history directory
+ * Every word of the query must appear in a message for it to match
+ * @param historyDir - Claude history directory of a project
+ * @param options - Query and filters
+ * @param redactor - Masks secrets, defaults to the active redaction config
+ * @returns All matches, best first (more occurrences, then newer)
+ */
+export async function searchHistory(
+  historyDir: string,
+  options: SearchOptions,
+  redactor: StreamRedactor = createStreamRedactor(getCurrentRedactionConfig()),
+): Promise<SearchResult[]> {
+  const terms = [...new Set(getRuns(options.query))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const index = await updateIndex(historyDir);
+
+  // Intersect postings, starting with the rarest token
+  const postings = getQueryTokens(terms)
+    .map((token) => index.postings.get(token) ?? [])
+    .sort((a, b) => a.length - b.length);
+  let candidates = new Set(postings[0]);
+  for (const posting of postings.slice(1)) {
+    const next = new Set(posting);
+    candidates = new Set([...candidates].filter((i) => next.has(i)));
+  }
+
+  const results: SearchResult[] = [];
+  for (const i of candidates) {
+    const document = index.documents[i];
+    if (options.role && document.role !== options.role) {
+      continue;
+    }
+    const time = new Date(document.timestamp).getTime();
+    if (
+      (options.from && time < options.from.getTime()) ||
+      (options.to && time >= options.to.getTime())
+    ) {
+      continue;
+    }
+    // Bigram matches do not guarantee the full CJK run is present
+    if (!terms.every((term) => document.lowerText.includes(term))) {
+      continue;
+    }
+    // Searching for a secret must not reveal which messages contain it
+    const text = redactor.redactText(document.text);
+    const lowerText = text.toLowerCase();
+    if (!terms.every((term) => lowerText.includes(term))) {
+      continue;
+    }
+
+    results.push({
+      sessionId: document.sessionId,
+      messageId: document.messageId,
+      role: document.role,
+      timestamp: document.timestamp,
+      ...createSnippet(text, terms),
+      score: terms.reduce(
+        (sum, term) => sum + countOccurrences(lowerText, term),
+        0,
+      ),
+    });
+  }
+
+  return results.sort(
+    (a, b) => b.score - a.score || b.timestamp.localeCompare(a.timestamp),
+  );
+}
+
+/**
+ * Drop all cached indexes
+ */
+export function clearSearchIndexes(): void {
+  indexes.clear();
+}
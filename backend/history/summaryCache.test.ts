@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  appendFile,
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { logger } from "../utils/logger.ts";
+import { getHistorySummaries, initializeHistoryCache } from "./summaryCache.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    history: {
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const assistantLine = (id: string, text: string, timestamp: string) =>
+  JSON.stringify({
+    type: "assistant",
+    uuid: `uuid-${id}`,
+    sessionId: "s",
+    timestamp,
+    message: { id, role: "assistant", content: [{ type: "text", text }] },
+  }) + "\n";
+
+/** Counts reported by the last cache update */
+const lastUpdate = () =>
+  (vi.mocked(logger.history.debug).mock.lastCall as unknown[])[1];
+
+describe("History summary cache", () => {
+  let root: string;
+  let historyDir: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "history-cache-test-"));
+    historyDir = join(root, "-work-project");
+    await mkdir(historyDir);
+    await writeFile(
+      join(historyDir, "session-a.jsonl"),
+      assistantLine("m1", "First answer", "2025-01-01T10:00:00Z"),
+    );
+    await writeFile(
+      join(historyDir, "session-b.jsonl"),
+      assistantLine("m2", "Other answer", "2025-01-02T10:00:00Z"),
+    );
+    initializeHistoryCache(join(root, "data"));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("summarizes all files and persists the cache", async () => {
+    const summaries = await getHistorySummaries(historyDir);
+
+    expect(summaries.map((summary) => summary.sessionId).sort()).toEqual([
+      "session-a",
+      "session-b",
+    ]);
+    expect(lastUpdate()).toMatchObject({ parsed: 2, cached: 2 });
+
+    const cache = JSON.parse(
+      await readFile(
+        join(root, "data", "history-cache", "-work-project.json"),
+        "utf8",
+      ),
+    );
+    expect(cache.files["session-a.jsonl"]).toMatchObject({
+      sessionId: "session-a",
+      messageIds: ["m1"],
+      lastMessagePreview: "First answer",
+    });
+  });
+
+  it("only parses changed files", async () => {
+    vi.mocked(logger.history.debug).mockClear();
+    await appendFile(
+      join(historyDir, "session-a.jsonl"),
+      assistantLine("m3", "Follow-up", "2025-01-01T10:05:00Z"),
+    );
+
+    // Reload from disk, as after a restart
+    initializeHistoryCache(join(root, "data"));
+    const summaries = await getHistorySummaries(historyDir);
+
+    expect(lastUpdate()).toMatchObject({ parsed: 1, cached: 2 });
+    const sessionA = summaries.find(
+      (summary) => summary.sessionId === "session-a",
+    );
+    expect(sessionA?.messageIds).toEqual(new Set(["m1", "m3"]));
+    expect(sessionA?.lastMessagePreview).toBe("Follow-up");
+  });
+
+  it("drops removed files", async () => {
+    await rm(join(historyDir, "session-b.jsonl"));
+    const summaries = await getHistorySummaries(historyDir);
+
+    expect(summaries.map((summary) => summary.sessionId)).toEqual([
+      "session-a",
+    ]);
+    expect(lastUpdate()).toMatchObject({ removed: 1, cached: 1 });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * History summary cache
+ *
+ * Listing conversations only needs a summary of each session file, but
+ * computing it means reading and parsing the whole file. Summaries are
+ * cached with the size and modification time of their file, so only new
+ * and changed files are parsed again. The cache of each project is persisted
+ * as JSON in <dataDir>/history-cache/<encodedProjectName>.json.
+ */
+
+import { basename, join } from "node:path";
+import type { HistoryFileSummary } from "./parser.ts";
+import { getHistoryFiles, parseHistoryFile } from "./parser.ts";
+import { logger } from "../utils/logger.ts";
+import {
+  ensureDir,
+  exists,
+  readTextFile,
+  stat,
+  writeTextFile,
+} from "../utils/fs.ts";
+
+/** Bumped when the cached data changes shape, discards older caches */
+const CACHE_VERSION = 3;
+
+interface CachedSummary {
+  size: number;
+  mtime: number;
+  sessionId: string;
+  messageIds: string[];
+  messageIdsDigest: string;
+  startTime: string;
+  lastTime: string;
+  messageCount: number;
+  lastMessagePreview: string;
+  firstUserMessage: string;
+}
+
+interface CacheFile {
+  version: number;
+  files: Record<string, CachedSummary>; // By file name
+}
+
+/** Directory for cache files, null keeps the cache in memory only */
+let cacheDir: string | null = null;
+
+/** Loaded caches by history directory */
+const caches = new Map<string, Map<string, CachedSummary>>();
+
+/** Serializes writes so concurrent requests don't overwrite each other */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the summary cache with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializeHistoryCache(dataDir: string): void {
+  cacheDir = join(dataDir, "history-cache");
+  caches.clear();
+}
+
+function getCachePath(historyDir: string): string | null {
+  return cacheDir ? join(cacheDir, `${basename(historyDir)}.json`) : null;
+}
+
+async function loadCache(
+  historyDir: string,
+): Promise<Map<string, CachedSummary>> {
+  const cached = caches.get(historyDir);
+  if (cached) {
+    return cached;
+  }
+
+  const loaded = new Map<string, CachedSummary>();
+  const cachePath = getCachePath(historyDir);
+  if (cachePath && (await exists(cachePath))) {
+    try {
+      const data = JSON.parse(await readTextFile(cachePath)) as CacheFile;
+      if (data.version === CACHE_VERSION) {
+        for (const [fileName, summary] of Object.entries(data.files)) {
+          loaded.set(fileName, summary);
+        }
+      }
+    } catch (error) {
+      // A broken cache only costs a full re-parse
+      logger.history.warn("Ignoring unreadable history cache {path}: {error}", {
+        path: cachePath,
+        error,
+      });
+    }
+  }
+
+  caches.set(historyDir, loaded);
+  return loaded;
+}
+
+function saveCache(
+  historyDir: string,
+  cache: Map<string, CachedSummary>,
+): Promise<void> {
+  const cachePath = getCachePath(historyDir);
+  if (!cachePath || !cacheDir) {
+    return Promise.resolve();
+  }
+
+  const data: CacheFile = {
+    version: CACHE_VERSION,
+    files: Object.fromEntries(cache),
+  };
+  const directory = cacheDir;
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await ensureDir(directory);
+      await writeTextFile(cachePath, JSON.stringify(data));
+    } catch (error) {
+      logger.history.error("Failed to write history cache {path}: {error}", {
+        path: cachePath,
+        error,
+      });
+    }
+  });
+  return pendingWrite;
+}
+
+function toSummary(
+  filePath: string,
+  cached: CachedSummary,
+): HistoryFileSummary {
+  return {
+    sessionId: cached.sessionId,
+    filePath,
+    messageIds: new Set(cached.messageIds),
+    messageIdsDigest: cached.messageIdsDigest,
+    startTime: cached.startTime,
+    lastTime: cached.lastTime,
+    messageCount: cached.messageCount,
+    lastMessagePreview: cached.lastMessagePreview,
+    firstUserMessage: cached.firstUserMessage,
+  };
+}
+
+/**
+ * Get the summaries of all conversation files in a history directory
+ * Only files whose size or modification time changed are parsed
+ * @param historyDir - Claude history directory of a project
+ * @returns Summaries of all readable, non-empty files
+ */
+export async function getHistorySummaries(
+  historyDir: string,
+): Promise<HistoryFileSummary[]> {
+  const cache = await loadCache(historyDir);
+  const filePaths = await getHistoryFiles(historyDir);
+  const summaries: HistoryFileSummary[] = [];
+  const fileNames = new Set<string>();
+  let parsedCount = 0;
+
+  for (const filePath of filePaths) {
+    const fileName = basename(filePath);
+    fileNames.add(fileName);
+
+    let fileStats;
+    try {
+      fileStats = await stat(filePath);
+    } catch {
+      continue; // Removed while listing
+    }
+    const mtime = fileStats.mtime?.getTime() ?? 0;
+
+    const cached = cache.get(fileName);
+    if (cached && cached.size === fileStats.size && cached.mtime === mtime) {
+      summaries.push(toSummary(filePath, cached));
+      continue;
+    }
+
+    parsedCount++;
+    const parsed = await parseHistoryFile(filePath);
+    if (!parsed) {
+      cache.delete(fileName);
+      continue;
+    }
+    const entry: CachedSummary = {
+      size: fileStats.size,
+      mtime,
+      sessionId: parsed.sessionId,
+      messageIds: [...parsed.messageIds],
+      messageIdsDigest: parsed.messageIdsDigest,
+      startTime: parsed.startTime,
+      lastTime: parsed.lastTime,
+      messageCount: parsed.messageCount,
+      lastMessagePreview: parsed.lastMessagePreview,
+      firstUserMessage: parsed.firstUserMessage,
+    };
+    cache.set(fileName, entry);
+    summaries.push(toSummary(filePath, entry));
+  }
+
+  let removedCount = 0;
+  for (const fileName of cache.keys()) {
+    if (!fileNames.has(fileName)) {
+      cache.delete(fileName);
+      removedCount++;
+    }
+  }
+
+  if (parsedCount > 0 || removedCount > 0) {
+    logger.history.debug(
+      "History cache for {historyDir}: parsed {parsed}, removed {removed}, cached {cached}",
+      {
+        historyDir,
+        parsed: parsedCount,
+        removed: removedCount,
+        cached: cache.size,
+      },
+    );
+    await saveCache(historyDir, cache);
+  }
+
+  return summaries;
+}
@@ -4,6 +4,11 @@
  */
 
 import type { RawHistoryLine } from "./parser.ts";
+import type {
+  ConversationBranch,
+  ConversationSidechain,
+} from "../../shared/types.ts";
+import { buildMessageTree, getBranchPreview } from "./messageTree.ts";
 
 /**
  * Restore accurate timestamps for messages in a conversation
@@ -89,14 +94,18 @@ export function calculateConversationMetadata(messages: RawHistoryLine[]): {
 }
 
 /**
- * Process messages with timestamp restoration and sorting
+ * Process messages with timestamp restoration and tree reconstruction
  * This is the main function to call for preparing messages for API response
+ * Messages hold the main path; other branches and sidechains are returned
+ * apart so they don't interleave with it.
  */
 export function processConversationMessages(
   messages: RawHistoryLine[],
   _sessionId: string,
 ): {
   messages: unknown[];
+  branches: ConversationBranch[];
+  sidechains: ConversationSidechain[];
   metadata: {
     startTime: string;
     endTime: string;
@@ -106,15 +115,27 @@ export function processConversationMessages(
   // Restore timestamps
   const restoredMessages = restoreTimestamps(messages);
 
-  // Sort by timestamp
-  const sortedMessages = sortMessagesByTimestamp(restoredMessages);
+  // Follow parentUuid chains instead of sorting, which would mix branches
+  const tree = buildMessageTree(restoredMessages);
 
   // Calculate metadata
-  const metadata = calculateConversationMetadata(sortedMessages);
+  const metadata = calculateConversationMetadata(tree.mainPath);
 
   // Return as unknown[] for frontend compatibility
   return {
-    messages: sortedMessages as unknown[],
+    messages: tree.mainPath as unknown[],
+    branches: tree.branches.map((branch) => ({
+      id: branch.id,
+      parentUuid: branch.parentUuid,
+      messages: branch.messages as unknown[],
+      preview: getBranchPreview(branch.messages),
+      lastTime: calculateConversationMetadata(branch.messages).endTime,
+    })),
+    sidechains: tree.sidechains.map((sidechain) => ({
+      id: sidechain.id,
+      parentToolUseId: sidechain.parentToolUseId,
+      messages: sidechain.messages as unknown[],
+    })),
     metadata,
   };
 }
@@ -0,0 +1,68 @@
+/**
+ * Backend metrics
+ *
+ * The metrics exposed on /metrics. Handlers and modules import the metric
+ * they update from here, so all names are defined in one place.
+ */
+
+import { createCounter, createGauge, createHistogram } from "./registry.ts";
+
+export const httpRequestsTotal = createCounter(
+  "http_requests_total",
+  "HTTP requests by method, route and status",
+);
+
+export const httpRequestDuration = createHistogram(
+  "http_request_duration_seconds",
+  "Time until the response started, by method and route",
+);
+
+export const activeChatRequests = createGauge(
+  "chat_active_requests",
+  "Chat requests running or waiting for a slot",
+);
+
+export const queuedChatRequests = createGauge(
+  "chat_queued_requests",
+  "Chat requests waiting for a slot",
+);
+
+export const chatAbortsTotal = createCounter(
+  "chat_aborts_total",
+  "Chat requests stopped by users",
+);
+
+export const chatErrorsTotal = createCounter(
+  "chat_errors_total",
+  "Chat requests that were refused or failed, by type",
+);
+
+export const chatTimeToFirstToken = createHistogram(
+  "chat_time_to_first_token_seconds",
+  "Time from starting Claude to its first assistant message",
+  [0.5, 1, 2, 3, 5, 10, 20, 30, 60, 120],
+);
+
+export const toolInvocationsTotal = createCounter(
+  "claude_tool_invocations_total",
+  "Tool calls Claude made, by tool",
+);
+
+export const policyDenialsTotal = createCounter(
+  "claude_policy_denials_total",
+  "Tool calls the tool policy denied, by tool",
+);
+
+export const historyParseDuration = createHistogram(
+  "history_parse_duration_seconds",
+  "Time to parse a history file, by kind (summary or conversation)",
+);
+
+/**
+ * Start measuring a duration
+ * @returns Function returning the seconds passed since the call
+ */
+export function startTimer(): () => number {
+  const start = performance.now();
+  return () => (performance.now() - start) / 1000;
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createCounter,
+  createGauge,
+  createHistogram,
+  renderMetrics,
+  resetMetrics,
+} from "./registry.ts";
+
+const requests = createCounter("test_requests_total", "Test requests");
+const active = createGauge("test_active", "Active tests");
+const latency = createHistogram(
+  "test_latency_seconds",
+  "Test latency",
+  [0.1, 1],
+);
+
+describe("Metrics registry", () => {
+  afterEach(() => {
+    resetMetrics();
+  });
+
+  it("renders counters and gauges with labels", () => {
+    requests.inc({ route: "/api/x", method: "GET" });
+    requests.inc({ method: "GET", route: "/api/x" }, 2);
+    requests.inc({ route: 'say "hi"\n' });
+    active.set(3);
+
+    const output = renderMetrics();
+    expect(output).toContain(
+      "# HELP test_requests_total Test requests\n# TYPE test_requests_total counter\n",
+    );
+    expect(output).toContain(
+      'test_requests_total{route="/api/x",method="GET"} 3\n',
+    );
+    expect(output).toContain(
+      'test_requests_total{route="say \\"hi\\"\\n"} 1\n',
+    );
+    expect(output).toContain("# TYPE test_active gauge\ntest_active 3\n");
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    latency.observe(0.05);
+    latency.observe(0.5);
+    latency.observe(5);
+
+    expect(renderMetrics()).toContain(
+      [
+        "# TYPE test_latency_seconds histogram",
+        'test_latency_seconds_bucket{le="0.1"} 1',
+        'test_latency_seconds_bucket{le="1"} 2',
+        'test_latency_seconds_bucket{le="+Inf"} 3',
+        "test_latency_seconds_sum 5.55",
+        "test_latency_seconds_count 3",
+      ].join("\n"),
+    );
+  });
+
+  it("refuses to register a name twice", () => {
+    expect(() => createCounter("test_active", "Again")).toThrow(
+      "Metric test_active is already registered",
+    );
+  });
+});
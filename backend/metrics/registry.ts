@@ -0,0 +1,216 @@
+/**
+ * Metrics registry
+ *
+ * A small set of counters, gauges and histograms rendered in the Prometheus
+ * text exposition format. Values live in memory and start from zero with
+ * every server start, as Prometheus expects.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc: (labels?: MetricLabels, value?: number) => void;
+}
+
+export interface Gauge {
+  set: (value: number, labels?: MetricLabels) => void;
+}
+
+export interface Histogram {
+  observe: (value: number, labels?: MetricLabels) => void;
+}
+
+interface Sample {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface HistogramSample {
+  labels: MetricLabels;
+  bucketCounts: number[]; // Observations up to each bucket, not cumulated
+  count: number;
+  sum: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render: () => string[];
+  reset: () => void;
+}
+
+/** Upper bounds in seconds used for latencies unless a metric sets its own */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const metrics: Metric[] = [];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+/**
+ * Key of a label set, independent of the order labels were given in
+ */
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)),
+  );
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function register(metric: Metric): void {
+  if (metrics.some((existing) => existing.name === metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  metrics.push(metric);
+}
+
+function createSampleMetric(
+  name: string,
+  help: string,
+  type: "counter" | "gauge",
+): { samples: Map<string, Sample> } {
+  const samples = new Map<string, Sample>();
+  register({
+    name,
+    help,
+    type,
+    render: () =>
+      [...samples.values()].map(
+        (sample) =>
+          `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+      ),
+    reset: () => samples.clear(),
+  });
+  return { samples };
+}
+
+/**
+ * Create a counter, a value that only goes up
+ * @param name - Metric name, e.g. "http_requests_total"
+ * @param help - Description shown by Prometheus
+ */
+export function createCounter(name: string, help: string): Counter {
+  const { samples } = createSampleMetric(name, help, "counter");
+  return {
+    inc: (labels = {}, value = 1) => {
+      const key = labelKey(labels);
+      const sample = samples.get(key);
+      if (sample) {
+        sample.value += value;
+      } else {
+        samples.set(key, { labels, value });
+      }
+    },
+  };
+}
+
+/**
+ * Create a gauge, a value that goes up and down
+ * @param name - Metric name
+ * @param help - Description shown by Prometheus
+ */
+export function createGauge(name: string, help: string): Gauge {
+  const { samples } = createSampleMetric(name, help, "gauge");
+  return {
+    set: (value, labels = {}) => {
+      samples.set(labelKey(labels), { labels, value });
+    },
+  };
+}
+
+/**
+ * Create a histogram, counting observations by bucket
+ * @param name - Metric name, e.g. "http_request_duration_seconds"
+ * @param help - Description shown by Prometheus
+ * @param buckets - Upper bounds of the buckets, in ascending order
+ */
+export function createHistogram(
+  name: string,
+  help: string,
+  buckets: number[] = DEFAULT_BUCKETS,
+): Histogram {
+  const samples = new Map<string, HistogramSample>();
+
+  register({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...samples.values()].flatMap((sample) => {
+        let cumulative = 0;
+        const lines = buckets.map((bound, index) => {
+          cumulative += sample.bucketCounts[index];
+          return `${name}_bucket${formatLabels({ ...sample.labels, le: formatValue(bound) })} ${cumulative}`;
+        });
+        return [
+          ...lines,
+          `${name}_bucket${formatLabels({ ...sample.labels, le: "+Inf" })} ${sample.count}`,
+          `${name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`,
+          `${name}_count${formatLabels(sample.labels)} ${sample.count}`,
+        ];
+      }),
+    reset: () => samples.clear(),
+  });
+
+  return {
+    observe: (value, labels = {}) => {
+      const key = labelKey(labels);
+      let sample = samples.get(key);
+      if (!sample) {
+        sample = {
+          labels,
+          bucketCounts: buckets.map(() => 0),
+          count: 0,
+          sum: 0,
+        };
+        samples.set(key, sample);
+      }
+      const index = buckets.findIndex((bound) => value <= bound);
+      if (index !== -1) {
+        sample.bucketCounts[index]++;
+      }
+      sample.count++;
+      sample.sum += value;
+    },
+  };
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines = metrics.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.render(),
+  ]);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Clear the values of all metrics
+ * Only used by tests
+ */
+export function resetMetrics(): void {
+  for (const metric of metrics) {
+    metric.reset();
+  }
+}
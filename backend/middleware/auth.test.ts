@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type AuthContext, createAuthMiddleware } from "./auth.ts";
+import { createAuthService } from "../auth/service.ts";
+import type { AuthConfig } from "../auth/types.ts";
+import {
+  handleAuthStatusRequest,
+  handleLoginRequest,
+} from "../handlers/auth.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+function createTestApp(config: Partial<AuthConfig>) {
+  const auth = createAuthService({
+    mode: "none",
+    sessionSecret: "test-secret",
+    sessionTtlHours: 1,
+    adminUsers: [],
+    ...config,
+  });
+  const app = new Hono<AuthContext>();
+  app.use("/api/*", createAuthMiddleware(auth));
+  app.get("/api/auth/me", (c) => handleAuthStatusRequest(c, auth));
+  app.post("/api/auth/login", (c) => handleLoginRequest(c, auth));
+  app.get("/api/config", (c) => c.json({ defaultProjectPath: null }));
+  app.get("/api/projects", (c) => c.json({ user: c.var.user.id }));
+  return app;
+}
+
+function login(app: Hono<AuthContext>, body: Record<string, string>) {
+  return app.request("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Auth middleware", () => {
+  let tempDir: string;
+  let htpasswdPath: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "auth-test-"));
+    htpasswdPath = join(tempDir, ".htpasswd");
+    // alice:secret (htpasswd -m), bob:secret (htpasswd -s)
+    await writeFile(
+      htpasswdPath,
+      "alice:$apr1$r31....$gnsoqlxyxQQ0Ot5JCwiei.\nbob:{SHA}5en6G6MezRroT3XKqkdPOmY/BfQ=\n",
+    );
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("allows everything as the local user when disabled", async () => {
+    const app = createTestApp({ mode: "none" });
+    const response = await app.request("/api/projects");
+    expect(await response.json()).toEqual({ user: "local" });
+  });
+
+  it("requires a valid bearer token in token mode", async () => {
+    const app = createTestApp({ mode: "token", token: "s3cret" });
+
+    expect((await app.request("/api/projects")).status).toBe(401);
+    expect(
+      (
+        await app.request("/api/projects", {
+          headers: { Authorization: "Bearer wrong" },
+        })
+      ).status,
+    ).toBe(401);
+
+    const response = await app.request("/api/projects", {
+      headers: { Authorization: "Bearer s3cret" },
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ user: "token" });
+  });
+
+  it("keeps auth and config endpoints public", async () => {
+    const app = createTestApp({ mode: "token", token: "s3cret" });
+
+    expect((await app.request("/api/config")).status).toBe(200);
+    const status = await app.request("/api/auth/me");
+    expect(await status.json()).toEqual({
+      mode: "token",
+      authenticated: false,
+      user: null,
+    });
+  });
+
+  it("accepts htpasswd users with basic auth", async () => {
+    const app = createTestApp({ mode: "basic", htpasswdPath });
+    const basic = (credentials: string) => ({
+      headers: {
+        Authorization: `Basic ${Buffer.from(credentials).toString("base64")}`,
+      },
+    });
+
+    expect(
+      (await app.request("/api/projects", basic("alice:secret"))).status,
+    ).toBe(200);
+    expect(
+      (await app.request("/api/projects", basic("bob:secret"))).status,
+    ).toBe(200);
+    expect(
+      (await app.request("/api/projects", basic("alice:wrong"))).status,
+    ).toBe(401);
+  });
+
+  it("starts a cookie session on login", async () => {
+    const app = createTestApp({ mode: "basic", htpasswdPath });
+
+    expect(
+      (await login(app, { username: "alice", password: "wrong" })).status,
+    ).toBe(401);
+
+    const response = await login(app, {
+      username: "alice",
+      password: "secret",
+    });
+    expect(response.status).toBe(200);
+
+    const cookie = response.headers.get("Set-Cookie")?.split(";")[0];
+    expect(cookie).toMatch(/^fs_helper_session=/);
+
+    const projects = await app.request("/api/projects", {
+      headers: { Cookie: cookie! },
+    });
+    expect(await projects.json()).toEqual({ user: "alice" });
+  });
+});
@@ -0,0 +1,68 @@
+import { createMiddleware } from "hono/factory";
+import type { AuthService } from "../auth/service.ts";
+import type { AuthUser } from "../auth/types.ts";
+import { logger } from "../utils/logger.ts";
+
+/** API paths reachable without logging in */
+const PUBLIC_API_PATHS = ["/api/config"];
+const PUBLIC_API_PREFIXES = ["/api/auth/"];
+
+function isPublicPath(path: string): boolean {
+  return (
+    PUBLIC_API_PATHS.includes(path) ||
+    PUBLIC_API_PREFIXES.some((prefix) => path.startsWith(prefix))
+  );
+}
+
+/**
+ * Creates authentication middleware for the API routes
+ * Sets the authenticated user in the context, or responds with 401
+ *
+ * @param auth Authentication service
+ * @returns Hono middleware function
+ */
+export function createAuthMiddleware(auth: AuthService) {
+  return createMiddleware<AuthContext>(async (c, next) => {
+    if (isPublicPath(c.req.path)) {
+      await next();
+      return;
+    }
+
+    const user = await auth.getUser(c);
+    if (!user) {
+      logger.api.debug("Unauthorized request to {path}", { path: c.req.path });
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    c.set("user", user);
+    await next();
+  });
+}
+
+/**
+ * Creates middleware restricting a route to admins (see --admin-users)
+ * Must run after the authentication middleware
+ *
+ * @returns Hono middleware function
+ */
+export function createAdminMiddleware() {
+  return createMiddleware<AuthContext>(async (c, next) => {
+    if (!c.var.user?.isAdmin) {
+      logger.api.warn("Non-admin request to {path} rejected", {
+        path: c.req.path,
+        user: c.var.user?.id,
+      });
+      return c.json({ error: "Admin access required" }, 403);
+    }
+    await next();
+  });
+}
+
+/**
+ * Type helper for handlers that access the authenticated user
+ */
+export type AuthContext = {
+  Variables: {
+    user: AuthUser;
+  };
+};
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { Hono } from "hono";
+import { createMetricsMiddleware } from "./metrics.ts";
+import { renderMetrics, resetMetrics } from "../metrics/registry.ts";
+
+function createTestApp() {
+  const app = new Hono();
+  app.use("*", createMetricsMiddleware());
+  app.get("/api/items/:id", (c) => c.json({ id: c.req.param("id") }));
+  app.post("/api/items", (c) => c.json({ error: "Invalid" }, 400));
+  return app;
+}
+
+describe("Metrics middleware", () => {
+  afterEach(() => {
+    resetMetrics();
+  });
+
+  it("counts requests by route pattern and status", async () => {
+    const app = createTestApp();
+    await app.request("/api/items/1");
+    await app.request("/api/items/2");
+    await app.request("/api/items", { method: "POST" });
+
+    const output = renderMetrics();
+    expect(output).toContain(
+      'http_requests_total{method="GET",route="/api/items/:id",status="200"} 2\n',
+    );
+    expect(output).toContain(
+      'http_requests_total{method="POST",route="/api/items",status="400"} 1\n',
+    );
+    expect(output).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/api/items/:id"} 2\n',
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import { createMiddleware } from "hono/factory";
+import {
+  httpRequestDuration,
+  httpRequestsTotal,
+  startTimer,
+} from "../metrics/metrics.ts";
+
+/**
+ * Creates middleware counting requests and measuring their latency
+ * Requests are labeled with the route pattern they matched, not the path,
+ * so IDs in paths don't create a time series per request. Streaming
+ * responses are measured until their headers are sent.
+ *
+ * @returns Hono middleware function
+ */
+export function createMetricsMiddleware() {
+  return createMiddleware(async (c, next) => {
+    const elapsed = startTimer();
+
+    await next();
+
+    // Set to the route of the handler that answered once next() returns
+    const route = c.req.routePath;
+    const { method } = c.req;
+    httpRequestsTotal.inc({ method, route, status: String(c.res.status) });
+    httpRequestDuration.observe(elapsed(), { method, route });
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+import { createSameOriginMiddleware } from "./origin.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      warn: vi.fn(),
+    },
+  },
+}));
+
+describe("Same origin middleware", () => {
+  const app = new Hono();
+  app.get("/api/chat/ws", createSameOriginMiddleware(), (c) => c.text("ok"));
+
+  const request = (headers: Record<string, string>) =>
+    app.request("http://localhost:8080/api/chat/ws", { headers });
+
+  it("accepts pages of the same host and clients without an origin", async () => {
+    expect(
+      (
+        await request({
+          Host: "localhost:8080",
+          Origin: "http://localhost:8080",
+        })
+      ).status,
+    ).toBe(200);
+    expect((await request({ Host: "localhost:8080" })).status).toBe(200);
+  });
+
+  it("rejects pages of other origins, including other ports", async () => {
+    for (const origin of [
+      "http://localhost:3001",
+      "https://evil.example",
+      "null",
+    ]) {
+      expect(
+        (await request({ Host: "localhost:8080", Origin: origin })).status,
+      ).toBe(403);
+    }
+  });
+
+  it("compares with the host forwarded by a reverse proxy", async () => {
+    expect(
+      (
+        await request({
+          Host: "127.0.0.1:8080",
+          "X-Forwarded-Host": "webui.example",
+          Origin: "https://webui.example",
+        })
+      ).status,
+    ).toBe(200);
+  });
+});
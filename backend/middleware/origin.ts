@@ -0,0 +1,54 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { logger } from "../utils/logger.ts";
+
+/**
+ * Get the host a request was sent to, as the browser saw it
+ * Reverse proxies pass it as X-Forwarded-Host; browsers can't set that
+ * header themselves, so a page can't use it to pass the check below.
+ */
+function getRequestHost(
+  header: (name: string) => string | undefined,
+  url: string,
+): string {
+  const forwardedHost = header("X-Forwarded-Host")?.split(",")[0].trim();
+  return forwardedHost || header("Host") || new URL(url).host;
+}
+
+/**
+ * Check whether an Origin header names the host a request was sent to
+ * @param origin - Origin header of the request
+ * @param c - Hono context of the request
+ */
+export function isSameOrigin(origin: string, c: Context): boolean {
+  const host = getRequestHost((name) => c.req.header(name), c.req.url);
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates middleware rejecting requests sent by pages of another origin
+ * The session cookie is sent along from any page of the same site (e.g.
+ * another port on the same host), and CORS neither stops simple POST
+ * requests nor applies to WebSocket handshakes, so the Origin header has to
+ * match the host the request was sent to. Requests without an Origin header
+ * don't come from a browser page and are let through.
+ *
+ * @returns Hono middleware function
+ */
+export function createSameOriginMiddleware() {
+  return createMiddleware(async (c, next) => {
+    const origin = c.req.header("Origin");
+    if (origin && !isSameOrigin(origin, c)) {
+      logger.api.warn("Request to {path} from origin {origin} rejected", {
+        path: c.req.path,
+        origin,
+      });
+      return c.json({ error: "Cross-origin request rejected" }, 403);
+    }
+    await next();
+  });
+}
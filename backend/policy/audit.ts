@@ -0,0 +1,92 @@
+/**
+ * Tool policy audit log
+ *
+ * Records every policy decision made while Claude is running.
+ * Records are written as JSON lines to one file per day under <dataDir>/audit.
+ */
+
+import { join } from "node:path";
+import { logger } from "../utils/logger.ts";
+import { appendTextFile, ensureDir } from "../utils/fs.ts";
+
+/** Maximum length of the serialized tool input kept in a record */
+const MAX_INPUT_LENGTH = 2000;
+
+/**
+ * Where in the SDK the decision was made
+ * - pre_tool_use: PreToolUse hook, runs for every tool invocation
+ * - permission: canUseTool callback, runs when the CLI asks for permission
+ */
+export type PolicyDecisionStage = "pre_tool_use" | "permission";
+
+export interface PolicyAuditRecord {
+  timestamp: string;
+  requestId: string;
+  sessionId?: string;
+  toolName: string;
+  toolUseId?: string;
+  stage: PolicyDecisionStage;
+  decision: "allow" | "deny";
+  reason?: string;
+  rule?: string; // Tool pattern of the matching rule
+  input: string; // Serialized (and truncated) tool input
+}
+
+/** Directory for audit files */
+let auditDir: string | null = null;
+
+/**
+ * Initialize the audit log with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializePolicyAudit(dataDir: string): void {
+  auditDir = join(dataDir, "audit");
+}
+
+/**
+ * Serialize tool input for the audit record
+ */
+export function serializeToolInput(input: Record<string, unknown>): string {
+  const serialized = JSON.stringify(input) ?? "";
+  return serialized.length > MAX_INPUT_LENGTH
+    ? `${serialized.substring(0, MAX_INPUT_LENGTH)}…`
+    : serialized;
+}
+
+/**
+ * Record a policy decision
+ * Writing failures are logged but never interrupt the chat request
+ */
+export async function recordPolicyDecision(
+  record: PolicyAuditRecord,
+): Promise<void> {
+  if (record.decision === "deny") {
+    logger.chat.warn("Policy denied {toolName}: {reason}", {
+      toolName: record.toolName,
+      reason: record.reason,
+      requestId: record.requestId,
+    });
+  } else {
+    logger.chat.debug("Policy allowed {toolName}", {
+      toolName: record.toolName,
+      requestId: record.requestId,
+    });
+  }
+
+  if (!auditDir) {
+    return;
+  }
+
+  try {
+    await ensureDir(auditDir);
+    const day = record.timestamp.substring(0, 10);
+    await appendTextFile(
+      join(auditDir, `policy-${day}.jsonl`),
+      JSON.stringify(record) + "\n",
+    );
+  } catch (error) {
+    logger.chat.error("Failed to write policy audit record: {error}", {
+      error,
+    });
+  }
+}
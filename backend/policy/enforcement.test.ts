@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import { createPolicyEnforcer } from "./enforcement.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    chat: {
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const signal = new AbortController().signal;
+
+describe("Tool policy enforcement", () => {
+  it("denies tools blocked by the policy", async () => {
+    const onDenied = vi.fn();
+    const { canUseTool } = createPolicyEnforcer({
+      requestId: "req-1",
+      userAllowedTools: ["Bash"],
+      onDenied,
+    });
+
+    const result = await canUseTool("Bash", { command: "ls" }, { signal });
+
+    expect(result.behavior).toBe("deny");
+    expect(onDenied).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: "Bash" }),
+    );
+  });
+
+  it("allows pre-approved tools", async () => {
+    const { canUseTool } = createPolicyEnforcer({
+      requestId: "req-2",
+      onDenied: vi.fn(),
+    });
+
+    const input = { file_path: "package.json" };
+    expect(await canUseTool("Read", input, { signal })).toEqual({
+      behavior: "allow",
+      updatedInput: input,
+    });
+  });
+
+  it("requires user approval for tools the policy asks about", async () => {
+    const onDenied = vi.fn();
+    const { canUseTool } = createPolicyEnforcer({
+      requestId: "req-3",
+      userAllowedTools: ["WebFetch"],
+      onDenied,
+    });
+
+    expect((await canUseTool("WebFetch", {}, { signal })).behavior).toBe(
+      "allow",
+    );
+    const result = await canUseTool("WebSearch", {}, { signal });
+    expect(result).toEqual({
+      behavior: "deny",
+      message:
+        "Claude requested permissions to use WebSearch, but you haven't granted it yet.",
+    });
+    // Missing user approval is not a policy denial
+    expect(onDenied).not.toHaveBeenCalled();
+  });
+
+  it("only approves calls matching a scoped user approval", async () => {
+    const { canUseTool } = createPolicyEnforcer({
+      requestId: "req-4",
+      userAllowedTools: ["WebFetch(domain:example.com)"],
+      onDenied: vi.fn(),
+    });
+
+    const allowed = { url: "https://example.com/docs" };
+    expect(await canUseTool("WebFetch", allowed, { signal })).toEqual({
+      behavior: "allow",
+      updatedInput: allowed,
+    });
+    const other = { url: "https://evil.com/" };
+    expect((await canUseTool("WebFetch", other, { signal })).behavior).toBe(
+      "deny",
+    );
+  });
+});
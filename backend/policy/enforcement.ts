@@ -0,0 +1,184 @@
+/**
+ * Server-side tool policy enforcement
+ *
+ * Creates the SDK callbacks that check every tool invocation against the
+ * active tool policy. The PreToolUse hook runs for every tool call (including
+ * pre-approved ones), while canUseTool runs when the CLI would otherwise ask
+ * the user for permission.
+ */
+
+import { cwd } from "node:process";
+import type {
+  CanUseTool,
+  HookCallback,
+  HookEvent,
+  HookCallbackMatcher,
+  PermissionResult,
+} from "@anthropic-ai/claude-code";
+import type { PolicyDenial } from "../../shared/types.ts";
+import { getCurrentPolicy } from "./loader.ts";
+import { evaluateToolCall, matchesToolPattern } from "./evaluator.ts";
+import { checkSandbox } from "./sandbox.ts";
+import {
+  type PolicyDecisionStage,
+  recordPolicyDecision,
+  serializeToolInput,
+} from "./audit.ts";
+import type { PolicyDecision } from "./types.ts";
+import {
+  policyDenialsTotal,
+  toolInvocationsTotal,
+} from "../metrics/metrics.ts";
+
+export interface PolicyEnforcerOptions {
+  requestId: string;
+  sessionId?: string;
+  workingDirectory?: string; // Sandbox root, defaults to the server's working directory
+  userAllowedTools?: string[]; // Tools explicitly approved by user in frontend
+  onDenied: (denial: PolicyDenial) => void;
+}
+
+export interface PolicyEnforcer {
+  canUseTool: CanUseTool;
+  hooks: Partial<Record<HookEvent, HookCallbackMatcher[]>>;
+}
+
+/**
+ * Format the message returned to Claude when the policy blocks a tool
+ */
+function formatDenialMessage(toolName: string, reason?: string): string {
+  return `Blocked by policy: ${toolName} is not allowed${reason ? ` (${reason})` : ""}`;
+}
+
+/**
+ * Create the canUseTool callback and hooks for a single chat request
+ * @param options - Request information and denial notification callback
+ * @returns SDK options enforcing the tool policy
+ */
+export function createPolicyEnforcer(
+  options: PolicyEnforcerOptions,
+): PolicyEnforcer {
+  const {
+    requestId,
+    workingDirectory = cwd(),
+    userAllowedTools = [],
+    onDenied,
+  } = options;
+  let sessionId = options.sessionId;
+
+  const decide = async (
+    toolName: string,
+    input: Record<string, unknown>,
+    stage: PolicyDecisionStage,
+    toolUseId?: string,
+  ): Promise<PolicyDecision> => {
+    const policy = getCurrentPolicy();
+    let decision = evaluateToolCall(policy, toolName, input);
+
+    // Tools the policy lets through must still stay inside the sandbox
+    if (decision.action !== "deny") {
+      const violation = await checkSandbox(toolName, input, {
+        workingDirectory,
+        config: policy.sandbox,
+      });
+      if (violation) {
+        decision = { action: "deny", reason: violation };
+      }
+    }
+
+    const denied = decision.action === "deny";
+
+    await recordPolicyDecision({
+      timestamp: new Date().toISOString(),
+      requestId,
+      sessionId,
+      toolName,
+      toolUseId,
+      stage,
+      decision: denied ? "deny" : "allow",
+      reason: decision.reason,
+      rule: decision.rule?.tool,
+      input: serializeToolInput(input),
+    });
+
+    if (denied) {
+      policyDenialsTotal.inc({ tool: toolName });
+      onDenied({
+        toolName,
+        toolUseId,
+        reason: formatDenialMessage(toolName, decision.reason),
+      });
+    }
+
+    return decision;
+  };
+
+  const preToolUse: HookCallback = async (input, toolUseId) => {
+    if (input.hook_event_name !== "PreToolUse") {
+      return {};
+    }
+    sessionId = input.session_id || sessionId;
+    toolInvocationsTotal.inc({ tool: input.tool_name });
+
+    const toolInput =
+      typeof input.tool_input === "object" && input.tool_input !== null
+        ? (input.tool_input as Record<string, unknown>)
+        : {};
+    const decision = await decide(
+      input.tool_name,
+      toolInput,
+      "pre_tool_use",
+      toolUseId,
+    );
+
+    if (decision.action === "deny") {
+      return {
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: "deny",
+          permissionDecisionReason: formatDenialMessage(
+            input.tool_name,
+            decision.reason,
+          ),
+        },
+      };
+    }
+
+    // Not denied - let the CLI's regular permission handling continue
+    return {};
+  };
+
+  const canUseTool: CanUseTool = async (
+    toolName,
+    input,
+  ): Promise<PermissionResult> => {
+    const decision = await decide(toolName, input, "permission");
+
+    if (decision.action === "deny") {
+      return {
+        behavior: "deny",
+        message: formatDenialMessage(toolName, decision.reason),
+      };
+    }
+
+    // "ask" tools still need the user's approval from the frontend
+    const approvedByUser = userAllowedTools.some((tool) =>
+      matchesToolPattern(tool, toolName, input),
+    );
+    if (decision.action === "ask" && !approvedByUser) {
+      return {
+        behavior: "deny",
+        message: `Claude requested permissions to use ${toolName}, but you haven't granted it yet.`,
+      };
+    }
+
+    return { behavior: "allow", updatedInput: input };
+  };
+
+  return {
+    canUseTool,
+    hooks: {
+      PreToolUse: [{ hooks: [preToolUse] }],
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateToolCall,
+  evaluateToolName,
+  getAllowedTools,
+  matchesToolPattern,
+} from "./evaluator.ts";
+import { DEFAULT_POLICY, DEFAULT_SANDBOX, parsePolicy } from "./loader.ts";
+import type { ToolPolicy } from "./types.ts";
+
+const policy: ToolPolicy = {
+  version: 1,
+  defaultAction: "ask",
+  rules: [
+    { tool: "Bash", action: "deny", reason: "Shell commands are disabled" },
+    { tool: "Read", action: "allow" },
+    {
+      tool: "Grep",
+      action: "allow",
+      args: { path: { deny: ["**/secrets/**"] } },
+    },
+    { tool: "mcp__github__*", action: "allow" },
+    { tool: "mcp__*", action: "deny" },
+  ],
+  sandbox: DEFAULT_SANDBOX,
+};
+
+describe("Tool policy evaluator", () => {
+  it("uses the first matching rule", () => {
+    expect(evaluateToolName(policy, "Read").action).toBe("allow");
+    expect(evaluateToolName(policy, "Bash").action).toBe("deny");
+    expect(evaluateToolName(policy, "mcp__github__get_issue").action).toBe(
+      "allow",
+    );
+    expect(evaluateToolName(policy, "mcp__slack__post").action).toBe("deny");
+  });
+
+  it("falls back to the default action", () => {
+    expect(evaluateToolName(policy, "WebFetch")).toEqual({ action: "ask" });
+  });
+
+  it("matches permission patterns by tool name", () => {
+    expect(evaluateToolName(policy, "Bash(ls:*)").action).toBe("deny");
+  });
+
+  it("matches tool calls against scoped permission patterns", () => {
+    const bash = (command: string) =>
+      matchesToolPattern("Bash(git status:*)", "Bash", { command });
+    expect(bash("git status")).toBe(true);
+    expect(bash("git status --short")).toBe(true);
+    expect(bash("git statusx")).toBe(false);
+    expect(bash("git push")).toBe(false);
+    expect(bash("git status; rm -rf .")).toBe(false);
+    expect(bash("git status $(rm -rf .)")).toBe(false);
+    expect(matchesToolPattern("Bash(ls)", "Bash", { command: "ls -a" })).toBe(
+      false,
+    );
+
+    const fetch = (url: string) =>
+      matchesToolPattern("WebFetch(domain:example.com)", "WebFetch", { url });
+    expect(fetch("https://example.com/docs")).toBe(true);
+    expect(fetch("https://evil.com/?example.com")).toBe(false);
+    expect(fetch("not a url")).toBe(false);
+
+    expect(
+      matchesToolPattern("Read(src/**)", "Read", { file_path: "src/a/b.ts" }),
+    ).toBe(true);
+    expect(
+      matchesToolPattern("Read(src/**)", "Read", { file_path: ".env" }),
+    ).toBe(false);
+    expect(matchesToolPattern("WebFetch", "WebFetch", {})).toBe(true);
+    expect(matchesToolPattern("WebFetch", "WebSearch", {})).toBe(false);
+  });
+
+  it("enforces argument constraints", () => {
+    expect(
+      evaluateToolCall(policy, "Grep", { pattern: "x", path: "src/app" })
+        .action,
+    ).toBe("allow");
+
+    const decision = evaluateToolCall(policy, "Grep", {
+      pattern: "x",
+      path: "config/secrets/prod",
+    });
+    expect(decision.action).toBe("deny");
+    expect(decision.reason).toContain('"path"');
+  });
+
+  it("builds the SDK allowed tools list", () => {
+    expect(getAllowedTools(policy, ["Bash(ls:*)", "WebFetch", "Read"])).toEqual(
+      ["Read", "Grep", "WebFetch"],
+    );
+  });
+
+  it("keeps the read-only defaults", () => {
+    expect(getAllowedTools(DEFAULT_POLICY, ["Write", "Edit"])).toEqual([
+      "Read",
+      "Grep",
+      "Glob",
+      "LSP",
+      "Task",
+    ]);
+  });
+
+  it("rejects invalid policy files", () => {
+    expect(() => parsePolicy({ rules: [{ tool: "Read" }] })).toThrow(
+      "Invalid tool policy",
+    );
+    expect(parsePolicy({ rules: [] }).defaultAction).toBe("ask");
+  });
+});
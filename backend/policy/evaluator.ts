@@ -0,0 +1,218 @@
+/**
+ * Tool policy evaluation
+ *
+ * Pure functions that decide whether a tool may be used according to a
+ * ToolPolicy. Rules are evaluated in order and the first matching rule wins.
+ */
+
+import { isGlobPattern, matchesGlob } from "../utils/glob.ts";
+import type {
+  ArgumentConstraint,
+  PolicyDecision,
+  PolicyRule,
+  ToolPolicy,
+} from "./types.ts";
+
+/**
+ * Extract the bare tool name from a permission pattern
+ * Example: "Bash(ls:*)" → "Bash"
+ */
+export function getToolName(toolPattern: string): string {
+  const parenIndex = toolPattern.indexOf("(");
+  return parenIndex === -1 ? toolPattern : toolPattern.substring(0, parenIndex);
+}
+
+/** Characters that chain commands or substitute their output in a shell */
+const SHELL_CHAINING = /[;&|`\n]|\$\(/;
+
+/**
+ * Check whether a tool call is covered by a permission pattern
+ * A bare tool name covers every call of the tool. A scoped pattern only
+ * covers calls with matching arguments: "Bash(git status:*)" commands
+ * starting with "git status", "Bash(ls)" exactly that command,
+ * "WebFetch(domain:example.com)" URLs on that host and "Read(src/**)" file
+ * paths matching the glob. Scopes that fit none of these cover nothing.
+ * @param toolPattern - Permission pattern, e.g. one approved by the user
+ * @param toolName - Name of the tool being invoked
+ * @param input - Tool input arguments
+ */
+export function matchesToolPattern(
+  toolPattern: string,
+  toolName: string,
+  input: Record<string, unknown>,
+): boolean {
+  if (!matchesGlob(toolName, getToolName(toolPattern))) {
+    return false;
+  }
+  const parenIndex = toolPattern.indexOf("(");
+  if (parenIndex === -1) {
+    return true;
+  }
+  if (!toolPattern.endsWith(")")) {
+    return false;
+  }
+  const scope = toolPattern.substring(parenIndex + 1, toolPattern.length - 1);
+
+  if (scope.startsWith("domain:")) {
+    if (typeof input.url !== "string") {
+      return false;
+    }
+    try {
+      return new URL(input.url).hostname === scope.substring("domain:".length);
+    } catch {
+      return false;
+    }
+  }
+
+  if (typeof input.command === "string") {
+    const command = input.command.trim();
+    // "git status:*" must not cover "git status; rm -rf ."
+    if (SHELL_CHAINING.test(command)) {
+      return false;
+    }
+    if (scope.endsWith(":*")) {
+      const prefix = scope.substring(0, scope.length - 2);
+      return command === prefix || command.startsWith(`${prefix} `);
+    }
+    return command === scope;
+  }
+
+  const path = input.file_path ?? input.notebook_path ?? input.path;
+  return typeof path === "string" && matchesGlob(path, scope);
+}
+
+/**
+ * Find the first rule whose tool pattern matches the given tool name
+ */
+function findMatchingRule(
+  policy: ToolPolicy,
+  toolName: string,
+): PolicyRule | undefined {
+  return policy.rules.find((rule) => matchesGlob(toolName, rule.tool));
+}
+
+/**
+ * Check a single argument value against its constraint
+ * @returns Violation description, or null when the value is acceptable
+ */
+function checkArgument(
+  argName: string,
+  value: unknown,
+  constraint: ArgumentConstraint,
+): string | null {
+  // Constraints only apply to arguments that are actually present
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  const stringValue = typeof value === "string" ? value : JSON.stringify(value);
+
+  if (
+    constraint.maxLength !== undefined &&
+    stringValue.length > constraint.maxLength
+  ) {
+    return `Argument "${argName}" exceeds ${constraint.maxLength} characters`;
+  }
+
+  if (constraint.deny?.some((pattern) => matchesGlob(stringValue, pattern))) {
+    return `Argument "${argName}" matches a denied pattern`;
+  }
+
+  if (
+    constraint.allow &&
+    !constraint.allow.some((pattern) => matchesGlob(stringValue, pattern))
+  ) {
+    return `Argument "${argName}" does not match any allowed pattern`;
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate a tool by name only, without looking at its arguments
+ * Used to decide which tools are passed to the SDK as pre-approved
+ */
+export function evaluateToolName(
+  policy: ToolPolicy,
+  toolName: string,
+): PolicyDecision {
+  const rule = findMatchingRule(policy, getToolName(toolName));
+  if (!rule) {
+    return { action: policy.defaultAction };
+  }
+  return { action: rule.action, reason: rule.reason, rule };
+}
+
+/**
+ * Evaluate a concrete tool invocation including its arguments
+ * @param policy - Active tool policy
+ * @param toolName - Name of the tool being invoked
+ * @param input - Tool input arguments
+ * @returns Decision for this invocation
+ */
+export function evaluateToolCall(
+  policy: ToolPolicy,
+  toolName: string,
+  input: Record<string, unknown>,
+): PolicyDecision {
+  const decision = evaluateToolName(policy, toolName);
+  const { rule } = decision;
+
+  if (decision.action === "deny" || !rule?.args) {
+    return decision;
+  }
+
+  for (const [argName, constraint] of Object.entries(rule.args)) {
+    const violation = checkArgument(argName, input[argName], constraint);
+    if (violation) {
+      return {
+        action: "deny",
+        reason: rule.reason ? `${rule.reason}: ${violation}` : violation,
+        rule,
+      };
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * Get allowed tools for the SDK according to the policy
+ * Merges the policy's pre-approved tools with user-approved tools from frontend
+ * @param policy - Active tool policy
+ * @param frontendAllowedTools - Tools explicitly approved by user in frontend
+ * @returns Merged list of allowed tools
+ */
+export function getAllowedTools(
+  policy: ToolPolicy,
+  frontendAllowedTools?: string[],
+): string[] {
+  const tools: string[] = [];
+
+  // Pre-approve every concrete tool the policy allows
+  for (const rule of policy.rules) {
+    if (
+      rule.action === "allow" &&
+      !isGlobPattern(rule.tool) &&
+      !tools.includes(rule.tool) &&
+      evaluateToolName(policy, rule.tool).action === "allow"
+    ) {
+      tools.push(rule.tool);
+    }
+  }
+
+  // Add user-approved tools from frontend (MCP tools, etc.)
+  // unless the policy denies them
+  if (frontendAllowedTools) {
+    for (const tool of frontendAllowedTools) {
+      if (evaluateToolName(policy, tool).action === "deny") {
+        continue;
+      }
+      if (!tools.includes(tool)) {
+        tools.push(tool);
+      }
+    }
+  }
+
+  return tools;
+}
@@ -0,0 +1,310 @@
+/**
+ * TOOLS_POLICY.json Hot Reload Module
+ *
+ * This module handles loading, validating and caching of the tool policy
+ * that decides which tools Claude may use in safe mode.
+ */
+
+import { join } from "node:path";
+import { logger } from "../utils/logger.ts";
+import { exists, readTextFile, writeTextFile } from "../utils/fs.ts";
+import type {
+  ArgumentConstraint,
+  PolicyAction,
+  PolicyRule,
+  SandboxConfig,
+  ToolPolicy,
+} from "./types.ts";
+
+/** Policy file name, expected next to RULES.md */
+export const POLICY_FILE_NAME = "TOOLS_POLICY.json";
+
+/** Default path sandbox: working directory only, secret files denied */
+export const DEFAULT_SANDBOX: SandboxConfig = {
+  enabled: true,
+  allowedRoots: [],
+  denyPatterns: [
+    ".env",
+    ".env.*",
+    "*.pem",
+    "*.key",
+    "id_rsa*",
+    "id_ecdsa*",
+    "id_ed25519*",
+    "**/.ssh/**",
+    "**/.claude.json",
+  ],
+};
+
+/** Default policy when TOOLS_POLICY.json is not found (read-only safe mode) */
+export const DEFAULT_POLICY: ToolPolicy = {
+  version: 1,
+  defaultAction: "ask",
+  rules: [
+    { tool: "Write", action: "deny", reason: "Write operations are disabled" },
+    { tool: "Edit", action: "deny", reason: "Write operations are disabled" },
+    {
+      tool: "MultiEdit",
+      action: "deny",
+      reason: "Write operations are disabled",
+    },
+    {
+      tool: "NotebookEdit",
+      action: "deny",
+      reason: "Write operations are disabled",
+    },
+    { tool: "Delete", action: "deny", reason: "Write operations are disabled" },
+    { tool: "Move", action: "deny", reason: "Write operations are disabled" },
+    { tool: "Bash", action: "deny", reason: "Shell commands are disabled" },
+    { tool: "Read", action: "allow" },
+    { tool: "Grep", action: "allow" },
+    { tool: "Glob", action: "allow" },
+    { tool: "LSP", action: "allow" },
+    { tool: "Task", action: "allow" },
+  ],
+  sandbox: DEFAULT_SANDBOX,
+};
+
+const POLICY_ACTIONS: PolicyAction[] = ["allow", "ask", "deny"];
+
+/** Cached policy */
+let cachedPolicy: ToolPolicy | null = null;
+/** Path to TOOLS_POLICY.json file */
+let policyPath: string | null = null;
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function parseConstraint(value: unknown, location: string): ArgumentConstraint {
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Invalid tool policy: ${location} must be an object`);
+  }
+  const { allow, deny, maxLength } = value as Record<string, unknown>;
+
+  if (allow !== undefined && !isStringArray(allow)) {
+    throw new Error(
+      `Invalid tool policy: ${location}.allow must be a string array`,
+    );
+  }
+  if (deny !== undefined && !isStringArray(deny)) {
+    throw new Error(
+      `Invalid tool policy: ${location}.deny must be a string array`,
+    );
+  }
+  if (
+    maxLength !== undefined &&
+    (typeof maxLength !== "number" || maxLength < 0)
+  ) {
+    throw new Error(
+      `Invalid tool policy: ${location}.maxLength must be a non-negative number`,
+    );
+  }
+
+  return { allow, deny, maxLength };
+}
+
+function parseRule(value: unknown, index: number): PolicyRule {
+  const location = `rules[${index}]`;
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Invalid tool policy: ${location} must be an object`);
+  }
+  const { tool, action, reason, args } = value as Record<string, unknown>;
+
+  if (typeof tool !== "string" || !tool) {
+    throw new Error(
+      `Invalid tool policy: ${location}.tool must be a non-empty string`,
+    );
+  }
+  if (!POLICY_ACTIONS.includes(action as PolicyAction)) {
+    throw new Error(
+      `Invalid tool policy: ${location}.action must be one of ${POLICY_ACTIONS.join(", ")}`,
+    );
+  }
+  if (reason !== undefined && typeof reason !== "string") {
+    throw new Error(`Invalid tool policy: ${location}.reason must be a string`);
+  }
+
+  const rule: PolicyRule = { tool, action: action as PolicyAction };
+  if (reason !== undefined) {
+    rule.reason = reason;
+  }
+
+  if (args !== undefined) {
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+      throw new Error(
+        `Invalid tool policy: ${location}.args must be an object`,
+      );
+    }
+    rule.args = {};
+    for (const [argName, constraint] of Object.entries(args)) {
+      rule.args[argName] = parseConstraint(
+        constraint,
+        `${location}.args.${argName}`,
+      );
+    }
+  }
+
+  return rule;
+}
+
+function parseSandbox(value: unknown): SandboxConfig {
+  if (value === undefined) {
+    return DEFAULT_SANDBOX;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Invalid tool policy: sandbox must be an object");
+  }
+  const { enabled, allowedRoots, denyPatterns } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    throw new Error("Invalid tool policy: sandbox.enabled must be a boolean");
+  }
+  if (allowedRoots !== undefined && !isStringArray(allowedRoots)) {
+    throw new Error(
+      "Invalid tool policy: sandbox.allowedRoots must be a string array",
+    );
+  }
+  if (denyPatterns !== undefined && !isStringArray(denyPatterns)) {
+    throw new Error(
+      "Invalid tool policy: sandbox.denyPatterns must be a string array",
+    );
+  }
+
+  return {
+    enabled: enabled ?? DEFAULT_SANDBOX.enabled,
+    allowedRoots: allowedRoots ?? DEFAULT_SANDBOX.allowedRoots,
+    denyPatterns: denyPatterns ?? DEFAULT_SANDBOX.denyPatterns,
+  };
+}
+
+/**
+ * Validate raw JSON data and convert it into a ToolPolicy
+ * @throws Error with an "Invalid tool policy" message when validation fails
+ */
+export function parsePolicy(data: unknown): ToolPolicy {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Invalid tool policy: root must be an object");
+  }
+  const { version, defaultAction, rules, sandbox } = data as Record<
+    string,
+    unknown
+  >;
+
+  if (version !== undefined && typeof version !== "number") {
+    throw new Error("Invalid tool policy: version must be a number");
+  }
+  if (
+    defaultAction !== undefined &&
+    !POLICY_ACTIONS.includes(defaultAction as PolicyAction)
+  ) {
+    throw new Error(
+      `Invalid tool policy: defaultAction must be one of ${POLICY_ACTIONS.join(", ")}`,
+    );
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error("Invalid tool policy: rules must be an array");
+  }
+
+  return {
+    version: version ?? 1,
+    defaultAction: (defaultAction as PolicyAction | undefined) ?? "ask",
+    rules: rules.map(parseRule),
+    sandbox: parseSandbox(sandbox),
+  };
+}
+
+/**
+ * Initialize the policy loader with the project root path
+ * @param projectRoot - Path to project root directory
+ */
+export function initializePolicyLoader(projectRoot: string): void {
+  policyPath = join(projectRoot, POLICY_FILE_NAME);
+  logger.api.info("Policy loader initialized with path: {path}", {
+    path: policyPath,
+  });
+  // Pre-load policy
+  loadPolicy();
+}
+
+/**
+ * Load policy from TOOLS_POLICY.json file
+ * Keeps the previously cached policy when the file is invalid
+ * @returns Policy (freshly loaded, previous or default)
+ */
+export async function loadPolicy(): Promise<ToolPolicy> {
+  if (!policyPath) {
+    logger.api.warn("Policy path not initialized, using default policy");
+    return DEFAULT_POLICY;
+  }
+
+  if (!(await exists(policyPath))) {
+    logger.api.warn("{file} not found at {path}, using default policy", {
+      file: POLICY_FILE_NAME,
+      path: policyPath,
+    });
+    cachedPolicy = DEFAULT_POLICY;
+    return DEFAULT_POLICY;
+  }
+
+  try {
+    const content = await readTextFile(policyPath);
+    const policy = parsePolicy(JSON.parse(content));
+    cachedPolicy = policy;
+    logger.api.info("Tool policy loaded from {file} ({count} rules)", {
+      file: POLICY_FILE_NAME,
+      count: policy.rules.length,
+    });
+    return policy;
+  } catch (error) {
+    logger.api.error("Failed to load {file}: {error}", {
+      file: POLICY_FILE_NAME,
+      error,
+    });
+    cachedPolicy = cachedPolicy ?? DEFAULT_POLICY;
+    return cachedPolicy;
+  }
+}
+
+/**
+ * Reload policy from file (for hot-reload API endpoint)
+ * @returns Freshly loaded policy
+ */
+export async function reloadPolicy(): Promise<ToolPolicy> {
+  logger.api.info("Reloading tool policy from {file}", {
+    file: POLICY_FILE_NAME,
+  });
+  return await loadPolicy();
+}
+
+/**
+ * Validate and persist a new policy, then make it the active one
+ * @param data - Raw policy data (validated before writing)
+ * @returns The saved policy
+ */
+export async function savePolicy(data: unknown): Promise<ToolPolicy> {
+  const policy = parsePolicy(data);
+  if (!policyPath) {
+    throw new Error("Policy path not initialized");
+  }
+  await writeTextFile(policyPath, JSON.stringify(policy, null, 2) + "\n");
+  cachedPolicy = policy;
+  logger.api.info("Tool policy saved to {file} ({count} rules)", {
+    file: POLICY_FILE_NAME,
+    count: policy.rules.length,
+  });
+  return policy;
+}
+
+/**
+ * Get current policy (cached)
+ * @returns Current policy or default policy
+ */
+export function getCurrentPolicy(): ToolPolicy {
+  return cachedPolicy ?? DEFAULT_POLICY;
+}
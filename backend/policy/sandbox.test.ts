@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  checkSandbox,
+  getSandboxDenyRules,
+  type SandboxContext,
+} from "./sandbox.ts";
+import { DEFAULT_SANDBOX } from "./loader.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    chat: {
+      warn: vi.fn(),
+    },
+  },
+}));
+
+describe("Path sandbox", () => {
+  let baseDir: string;
+  let context: SandboxContext;
+
+  beforeAll(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), "sandbox-test-"));
+    const projectDir = join(baseDir, "project");
+    const outsideDir = join(baseDir, "outside");
+
+    await mkdir(join(projectDir, "src"), { recursive: true });
+    await mkdir(outsideDir);
+    await writeFile(join(projectDir, "src", "index.ts"), "");
+    await writeFile(join(projectDir, ".env"), "SECRET=1");
+    await writeFile(join(outsideDir, "notes.txt"), "");
+    await symlink(outsideDir, join(projectDir, "linked"));
+
+    context = { workingDirectory: projectDir, config: DEFAULT_SANDBOX };
+  });
+
+  afterAll(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("allows paths inside the working directory", async () => {
+    expect(
+      await checkSandbox("Read", { file_path: "src/index.ts" }, context),
+    ).toBeNull();
+    expect(
+      await checkSandbox("Grep", { pattern: "/api/", path: "src" }, context),
+    ).toBeNull();
+    expect(
+      await checkSandbox("Glob", { pattern: "src/**/*.ts" }, context),
+    ).toBeNull();
+  });
+
+  it("rejects paths outside the working directory", async () => {
+    expect(
+      await checkSandbox("Read", { file_path: "/etc/passwd" }, context),
+    ).toContain("outside the project directory");
+    expect(
+      await checkSandbox("Glob", { pattern: "../outside/**" }, context),
+    ).toContain("outside the project directory");
+  });
+
+  it("resolves symlinks before checking", async () => {
+    expect(
+      await checkSandbox("Read", { file_path: "linked/notes.txt" }, context),
+    ).toContain("outside the project directory");
+  });
+
+  it("allows configured roots", async () => {
+    const withRoots: SandboxContext = {
+      ...context,
+      config: { ...DEFAULT_SANDBOX, allowedRoots: [join(baseDir, "outside")] },
+    };
+    expect(
+      await checkSandbox("Read", { file_path: "linked/notes.txt" }, withRoots),
+    ).toBeNull();
+  });
+
+  it("rejects secret files", async () => {
+    expect(
+      await checkSandbox("Read", { file_path: ".env" }, context),
+    ).toContain('".env"');
+    expect(
+      await checkSandbox("Read", { file_path: "certs/server.pem" }, context),
+    ).toContain('"*.pem"');
+  });
+
+  it("rejects search globs naming secret files", async () => {
+    expect(
+      await checkSandbox("Grep", { pattern: "KEY", glob: ".env" }, context),
+    ).toContain('".env"');
+    expect(
+      await checkSandbox(
+        "Grep",
+        { pattern: "KEY", glob: "*.{ts,pem}" },
+        context,
+      ),
+    ).toContain('"*.pem"');
+    expect(
+      await checkSandbox("Glob", { pattern: "**/*.pem" }, context),
+    ).toContain('"*.pem"');
+    expect(
+      await checkSandbox("Grep", { pattern: "KEY", glob: "!.env" }, context),
+    ).toBeNull();
+  });
+
+  it("keeps secret files out of directory-wide searches", async () => {
+    // The search itself is allowed, the CLI excludes files matching the
+    // Read deny rules from its results
+    expect(
+      await checkSandbox("Grep", { pattern: "API_KEY", path: "." }, context),
+    ).toBeNull();
+    expect(getSandboxDenyRules(context.config)).toEqual(
+      expect.arrayContaining(["Read(.env)", "Read(*.pem)"]),
+    );
+    expect(getSandboxDenyRules({ ...DEFAULT_SANDBOX, enabled: false })).toEqual(
+      [],
+    );
+  });
+
+  it("can be disabled", async () => {
+    const disabled: SandboxContext = {
+      ...context,
+      config: { ...DEFAULT_SANDBOX, enabled: false },
+    };
+    expect(
+      await checkSandbox("Read", { file_path: "/etc/passwd" }, disabled),
+    ).toBeNull();
+  });
+});
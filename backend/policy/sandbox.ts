@@ -0,0 +1,268 @@
+/**
+ * Path sandbox for file system tools
+ *
+ * Keeps tool inputs such as Read's file_path or Grep's path inside the
+ * request's working directory (or a configured allowed root) and away from
+ * secret files. Symlinks are resolved before checking, so a link inside the
+ * project cannot be used to reach files outside of it.
+ */
+
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+import { logger } from "../utils/logger.ts";
+import { realPath } from "../utils/fs.ts";
+import { getHomeDir } from "../utils/os.ts";
+import { isGlobPattern, matchesGlob } from "../utils/glob.ts";
+import type { SandboxConfig } from "./types.ts";
+
+/** Tool input arguments that hold file system paths */
+const PATH_ARGUMENTS = ["file_path", "path", "notebook_path"];
+
+/** Tool input arguments that hold glob patterns selecting files to search */
+const SEARCH_PATTERN_ARGUMENTS: Record<string, string> = {
+  Glob: "pattern",
+  Grep: "glob",
+};
+
+export interface SandboxContext {
+  workingDirectory: string; // Request working directory (always allowed)
+  config: SandboxConfig;
+}
+
+/**
+ * Expand a leading "~" to the user's home directory
+ */
+function expandHome(path: string): string {
+  const homeDir = getHomeDir();
+  if (!homeDir || (path !== "~" && !path.startsWith("~/"))) {
+    return path;
+  }
+  return join(homeDir, path.substring(1));
+}
+
+/**
+ * Resolve a path to its canonical form, following symlinks
+ * Paths that do not exist yet are resolved through their closest existing parent
+ */
+async function resolveRealPath(path: string): Promise<string> {
+  const missing: string[] = [];
+  let current = path;
+
+  while (true) {
+    try {
+      return join(await realPath(current), ...missing.reverse());
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) {
+        return path;
+      }
+      missing.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Get the directory a Glob pattern starts from (the part before the first wildcard)
+ */
+function getGlobRoot(pattern: string): string {
+  const segments = pattern.split("/");
+  const wildcardIndex = segments.findIndex((segment) => isGlobPattern(segment));
+  const staticSegments =
+    wildcardIndex === -1
+      ? segments.slice(0, -1)
+      : segments.slice(0, wildcardIndex);
+  return staticSegments.join("/") || (pattern.startsWith("/") ? "/" : ".");
+}
+
+/**
+ * Collect all paths a tool invocation would access
+ */
+function collectToolPaths(
+  toolName: string,
+  input: Record<string, unknown>,
+  workingDirectory: string,
+): string[] {
+  const paths: string[] = [];
+
+  for (const argName of PATH_ARGUMENTS) {
+    const value = input[argName];
+    if (typeof value === "string" && value) {
+      paths.push(resolve(workingDirectory, expandHome(value)));
+    }
+  }
+
+  // Glob patterns may point outside the search path ("/etc/*", "../../**")
+  if (toolName === "Glob" && typeof input.pattern === "string") {
+    const base =
+      typeof input.path === "string" && input.path
+        ? resolve(workingDirectory, expandHome(input.path))
+        : workingDirectory;
+    paths.push(resolve(base, expandHome(getGlobRoot(input.pattern))));
+  }
+
+  return paths;
+}
+
+/**
+ * Expand "{a,b}" alternatives, e.g. "*.{pem,key}" to "*.pem" and "*.key"
+ */
+function expandBraces(pattern: string): string[] {
+  const match = /\{([^{}]*)\}/.exec(pattern);
+  if (!match) {
+    return [pattern];
+  }
+  const prefix = pattern.substring(0, match.index);
+  const suffix = pattern.substring(match.index + match[0].length);
+  return match[1]
+    .split(",")
+    .flatMap((option) => expandBraces(`${prefix}${option}${suffix}`));
+}
+
+/**
+ * Collect the file globs a search tool was given
+ * Grep accepts several globs separated by spaces or commas, like the CLI
+ * passes them to ripgrep. Negated globs only exclude files and are skipped.
+ */
+function collectSearchPatterns(
+  toolName: string,
+  input: Record<string, unknown>,
+): string[] {
+  const argName = SEARCH_PATTERN_ARGUMENTS[toolName];
+  const value = argName ? input[argName] : undefined;
+  if (typeof value !== "string" || !value) {
+    return [];
+  }
+  const globs =
+    toolName === "Grep"
+      ? value
+          .split(/\s+/)
+          .flatMap((glob) =>
+            glob.includes("{") && glob.includes("}") ? [glob] : glob.split(","),
+          )
+      : [value];
+  return globs
+    .filter((glob) => glob && !glob.startsWith("!"))
+    .flatMap(expandBraces);
+}
+
+function isInside(root: string, path: string): boolean {
+  const relativePath = relative(root, path);
+  return (
+    relativePath === "" ||
+    (relativePath !== ".." &&
+      !relativePath.startsWith(`..${sep}`) &&
+      !isAbsolute(relativePath))
+  );
+}
+
+/**
+ * Check whether a path matches one of the deny patterns
+ * Patterns without "/" are matched against the file name only
+ */
+function findDeniedPattern(
+  path: string,
+  denyPatterns: string[],
+): string | undefined {
+  const name = basename(path);
+  return denyPatterns.find((pattern) =>
+    pattern.includes("/")
+      ? matchesGlob(path, pattern)
+      : matchesGlob(name, pattern),
+  );
+}
+
+/**
+ * Check the paths of a tool invocation against the sandbox
+ * @param toolName - Name of the tool being invoked
+ * @param input - Tool input arguments
+ * @param context - Working directory and sandbox configuration
+ * @returns Violation description, or null when all paths are allowed
+ */
+export async function checkSandbox(
+  toolName: string,
+  input: Record<string, unknown>,
+  context: SandboxContext,
+): Promise<string | null> {
+  const { workingDirectory, config } = context;
+  if (!config.enabled) {
+    return null;
+  }
+
+  // A glob naming a secret file ("**/.env", "*.pem") is rejected outright
+  for (const glob of collectSearchPatterns(toolName, input)) {
+    const pattern = findDeniedPattern(glob, config.denyPatterns);
+    if (pattern) {
+      const violation = `Pattern "${glob}" matches protected pattern "${pattern}"`;
+      logger.chat.warn("Sandbox rejected {toolName} pattern {glob}", {
+        toolName,
+        glob,
+        violation,
+      });
+      return violation;
+    }
+  }
+
+  const paths = collectToolPaths(toolName, input, workingDirectory);
+  if (paths.length === 0) {
+    return null;
+  }
+
+  const roots = await Promise.all(
+    [workingDirectory, ...config.allowedRoots].map((root) =>
+      resolveRealPath(resolve(expandHome(root))),
+    ),
+  );
+
+  for (const path of paths) {
+    const resolvedPath = await resolveRealPath(path);
+    let violation: string | null = null;
+
+    if (!roots.some((root) => isInside(root, resolvedPath))) {
+      violation = `Path "${path}" is outside the project directory`;
+    } else {
+      // Check both the requested and the resolved path, so that neither a
+      // secret file nor a link pointing at one can be read
+      const pattern =
+        findDeniedPattern(path, config.denyPatterns) ??
+        findDeniedPattern(resolvedPath, config.denyPatterns);
+      if (pattern) {
+        violation = `Path "${path}" matches protected pattern "${pattern}"`;
+      }
+    }
+
+    if (violation) {
+      logger.chat.warn("Sandbox rejected {toolName} path {path}: {violation}", {
+        toolName,
+        path,
+        resolvedPath,
+        violation,
+      });
+      return violation;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get permission rules keeping secret files out of directory-wide searches
+ * Claude Code leaves files matching Read deny rules out of Grep and Glob
+ * results, which covers searches that don't name a secret file, such as a
+ * Grep for "API_KEY" in the whole project.
+ * @param config - Sandbox configuration
+ * @returns Rules for the SDK's disallowedTools option
+ */
+export function getSandboxDenyRules(config: SandboxConfig): string[] {
+  if (!config.enabled) {
+    return [];
+  }
+  return config.denyPatterns.map((pattern) => `Read(${pattern})`);
+}
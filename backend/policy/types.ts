@@ -0,0 +1,55 @@
+/**
+ * Tool policy type definitions
+ *
+ * Describes the structure of TOOLS_POLICY.json and the decisions
+ * produced when a tool invocation is evaluated against it.
+ */
+
+/**
+ * What happens to a tool that matches a rule
+ * - allow: pre-approved, Claude may use it without asking
+ * - ask: not pre-approved, but the user may approve it in the frontend
+ * - deny: never allowed, even if the user approves it
+ */
+export type PolicyAction = "allow" | "ask" | "deny";
+
+/**
+ * Constraint on a single tool argument
+ * Patterns are globs matched against the argument's string value
+ */
+export interface ArgumentConstraint {
+  allow?: string[]; // Value must match at least one of these patterns
+  deny?: string[]; // Value must not match any of these patterns
+  maxLength?: number; // Maximum length of the string value
+}
+
+export interface PolicyRule {
+  tool: string; // Tool name or glob pattern (e.g. "mcp__github__*")
+  action: PolicyAction;
+  reason?: string; // Shown when the rule denies a tool call
+  args?: Record<string, ArgumentConstraint>;
+}
+
+/**
+ * Path sandbox for file system tools
+ * Paths passed to tools must stay inside the request's working directory
+ * or one of the allowed roots, and must not match a deny pattern
+ */
+export interface SandboxConfig {
+  enabled: boolean;
+  allowedRoots: string[]; // Additional directories tools may access
+  denyPatterns: string[]; // Globs for secret files (matched against file name or full path)
+}
+
+export interface ToolPolicy {
+  version: number;
+  defaultAction: PolicyAction; // Applied when no rule matches
+  rules: PolicyRule[];
+  sandbox: SandboxConfig;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  reason?: string;
+  rule?: PolicyRule; // Matching rule, undefined when defaultAction applied
+}
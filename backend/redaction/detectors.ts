@@ -0,0 +1,70 @@
+/**
+ * Built-in secret detectors
+ */
+
+import type { SecretDetector } from "./types.ts";
+
+/** Minimum length of a token checked by the high-entropy detector */
+const MIN_ENTROPY_TOKEN_LENGTH = 32;
+
+/**
+ * Calculate the Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Create the built-in detectors
+ * Order matters: more specific detectors run first, so their matches are
+ * already replaced when the generic high-entropy detector runs
+ * @param entropyThreshold - Minimum entropy for the high_entropy detector
+ */
+export function createBuiltinDetectors(
+  entropyThreshold: number,
+): SecretDetector[] {
+  return [
+    {
+      type: "private_key",
+      pattern:
+        /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+    },
+    {
+      type: "aws_access_key",
+      pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16}\b/g,
+    },
+    {
+      type: "aws_secret_key",
+      pattern:
+        /(?<=aws_secret_access_key\s*[=:]\s*["']?)[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi,
+    },
+    {
+      type: "jwt",
+      pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+    },
+    {
+      type: "high_entropy",
+      pattern: new RegExp(
+        `(?<![A-Za-z0-9+_-])[A-Za-z0-9+_-]{${MIN_ENTROPY_TOKEN_LENGTH},}={0,2}(?![A-Za-z0-9+_=-])`,
+        "g",
+      ),
+      // Random tokens mix lower case, upper case and digits;
+      // hex hashes and UUIDs stay below the threshold
+      isSecret: (match) =>
+        /[a-z]/.test(match) &&
+        /[A-Z]/.test(match) &&
+        /[0-9]/.test(match) &&
+        shannonEntropy(match) >= entropyThreshold,
+    },
+  ];
+}
@@ -0,0 +1,170 @@
+/**
+ * REDACTION.json Loader
+ *
+ * This module handles loading, validating and caching of the secret
+ * redaction configuration applied to the outgoing chat stream.
+ */
+
+import { join } from "node:path";
+import { logger } from "../utils/logger.ts";
+import { exists, readTextFile } from "../utils/fs.ts";
+import type { CustomPattern, RedactionConfig } from "./types.ts";
+
+/** Redaction config file name, expected next to RULES.md */
+export const REDACTION_FILE_NAME = "REDACTION.json";
+
+/** Default configuration when REDACTION.json is not found */
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  enabled: true,
+  disabledDetectors: [],
+  entropyThreshold: 4.3,
+  customPatterns: [],
+};
+
+/** Cached configuration */
+let cachedConfig: RedactionConfig | null = null;
+/** Path to REDACTION.json file */
+let configPath: string | null = null;
+
+function parseCustomPattern(value: unknown, index: number): CustomPattern {
+  const location = `customPatterns[${index}]`;
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Invalid redaction config: ${location} must be an object`);
+  }
+  const { type, pattern, flags } = value as Record<string, unknown>;
+
+  if (typeof type !== "string" || !/^[a-z0-9_]+$/i.test(type)) {
+    throw new Error(
+      `Invalid redaction config: ${location}.type must be a word (letters, digits, _)`,
+    );
+  }
+  if (typeof pattern !== "string" || !pattern) {
+    throw new Error(
+      `Invalid redaction config: ${location}.pattern must be a non-empty string`,
+    );
+  }
+  if (flags !== undefined && typeof flags !== "string") {
+    throw new Error(
+      `Invalid redaction config: ${location}.flags must be a string`,
+    );
+  }
+
+  try {
+    new RegExp(pattern, flags);
+  } catch (error) {
+    throw new Error(
+      `Invalid redaction config: ${location}.pattern is not a valid regular expression (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+
+  return { type, pattern, flags };
+}
+
+/**
+ * Validate raw JSON data and convert it into a RedactionConfig
+ * @throws Error with an "Invalid redaction config" message when validation fails
+ */
+export function parseRedactionConfig(data: unknown): RedactionConfig {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Invalid redaction config: root must be an object");
+  }
+  const { enabled, disabledDetectors, entropyThreshold, customPatterns } =
+    data as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    throw new Error("Invalid redaction config: enabled must be a boolean");
+  }
+  if (
+    disabledDetectors !== undefined &&
+    !(
+      Array.isArray(disabledDetectors) &&
+      disabledDetectors.every((item) => typeof item === "string")
+    )
+  ) {
+    throw new Error(
+      "Invalid redaction config: disabledDetectors must be a string array",
+    );
+  }
+  if (
+    entropyThreshold !== undefined &&
+    (typeof entropyThreshold !== "number" || entropyThreshold <= 0)
+  ) {
+    throw new Error(
+      "Invalid redaction config: entropyThreshold must be a positive number",
+    );
+  }
+  if (customPatterns !== undefined && !Array.isArray(customPatterns)) {
+    throw new Error(
+      "Invalid redaction config: customPatterns must be an array",
+    );
+  }
+
+  return {
+    enabled: enabled ?? DEFAULT_REDACTION_CONFIG.enabled,
+    disabledDetectors:
+      (disabledDetectors as string[] | undefined) ??
+      DEFAULT_REDACTION_CONFIG.disabledDetectors,
+    entropyThreshold:
+      entropyThreshold ?? DEFAULT_REDACTION_CONFIG.entropyThreshold,
+    customPatterns: (customPatterns ?? []).map(parseCustomPattern),
+  };
+}
+
+/**
+ * Initialize the redaction loader with the project root path
+ * @param projectRoot - Path to project root directory
+ */
+export function initializeRedactionLoader(projectRoot: string): void {
+  configPath = join(projectRoot, REDACTION_FILE_NAME);
+  logger.api.info("Redaction loader initialized with path: {path}", {
+    path: configPath,
+  });
+  // Pre-load configuration
+  loadRedactionConfig();
+}
+
+/**
+ * Load redaction configuration from REDACTION.json file
+ * Keeps the previously cached configuration when the file is invalid
+ * @returns Configuration (freshly loaded, previous or default)
+ */
+export async function loadRedactionConfig(): Promise<RedactionConfig> {
+  if (!configPath) {
+    logger.api.warn("Redaction config path not initialized, using defaults");
+    return DEFAULT_REDACTION_CONFIG;
+  }
+
+  if (!(await exists(configPath))) {
+    logger.api.info("{file} not found, using built-in detectors only", {
+      file: REDACTION_FILE_NAME,
+    });
+    cachedConfig = DEFAULT_REDACTION_CONFIG;
+    return DEFAULT_REDACTION_CONFIG;
+  }
+
+  try {
+    const content = await readTextFile(configPath);
+    const config = parseRedactionConfig(JSON.parse(content));
+    cachedConfig = config;
+    logger.api.info(
+      "Redaction config loaded from {file} ({count} custom patterns)",
+      { file: REDACTION_FILE_NAME, count: config.customPatterns.length },
+    );
+    return config;
+  } catch (error) {
+    logger.api.error("Failed to load {file}: {error}", {
+      file: REDACTION_FILE_NAME,
+      error,
+    });
+    cachedConfig = cachedConfig ?? DEFAULT_REDACTION_CONFIG;
+    return cachedConfig;
+  }
+}
+
+/**
+ * Get current redaction configuration (cached)
+ * @returns Current configuration or default configuration
+ */
+export function getCurrentRedactionConfig(): RedactionConfig {
+  return cachedConfig ?? DEFAULT_REDACTION_CONFIG;
+}
@@ -0,0 +1,114 @@
+/**
+ * Stream redactor
+ *
+ * Replaces secrets in the chunks of the outgoing chat stream. A redactor is
+ * created per request and counts its redactions, so the totals can be
+ * reported in the final "done" event.
+ */
+
+import type { StreamResponse } from "../../shared/types.ts";
+import { logger } from "../utils/logger.ts";
+import { createBuiltinDetectors } from "./detectors.ts";
+import type {
+  RedactionConfig,
+  RedactionCounts,
+  SecretDetector,
+} from "./types.ts";
+
+/** Fields holding identifiers, which are never redacted */
+const IDENTIFIER_FIELDS = new Set([
+  "id",
+  "uuid",
+  "parentUuid",
+  "session_id",
+  "sessionId",
+  "tool_use_id",
+  "parent_tool_use_id",
+  "requestId",
+]);
+
+export interface StreamRedactor {
+  redact: (chunk: StreamResponse) => StreamResponse;
+  redactText: (text: string) => string; // For text outside the stream, e.g. search results
+  getCounts: () => RedactionCounts;
+}
+
+/**
+ * Build the detector list for a configuration
+ * Invalid custom patterns are skipped and logged
+ */
+export function createDetectors(config: RedactionConfig): SecretDetector[] {
+  const detectors = createBuiltinDetectors(config.entropyThreshold).filter(
+    (detector) => !config.disabledDetectors.includes(detector.type),
+  );
+
+  const customDetectors: SecretDetector[] = [];
+  for (const custom of config.customPatterns) {
+    try {
+      const flags = new Set(`${custom.flags ?? ""}g`);
+      customDetectors.push({
+        type: custom.type,
+        pattern: new RegExp(custom.pattern, [...flags].join("")),
+      });
+    } catch (error) {
+      logger.chat.error("Invalid redaction pattern {type}: {error}", {
+        type: custom.type,
+        error,
+      });
+    }
+  }
+
+  // Custom patterns are more specific than the built-in high-entropy check
+  return [...customDetectors, ...detectors];
+}
+
+/**
+ * Create a redactor for a single chat request
+ * @param config - Active redaction configuration
+ */
+export function createStreamRedactor(config: RedactionConfig): StreamRedactor {
+  const detectors = config.enabled ? createDetectors(config) : [];
+  const counts: RedactionCounts = {};
+
+  const redactString = (value: string): string => {
+    let result = value;
+    for (const detector of detectors) {
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.isSecret && !detector.isSecret(match)) {
+          return match;
+        }
+        counts[detector.type] = (counts[detector.type] ?? 0) + 1;
+        return `[REDACTED:${detector.type}]`;
+      });
+    }
+    return result;
+  };
+
+  const redactValue = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return redactString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(redactValue);
+    }
+    if (typeof value === "object" && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = IDENTIFIER_FIELDS.has(key) ? item : redactValue(item);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return {
+    redact: (chunk) => {
+      if (detectors.length === 0) {
+        return chunk;
+      }
+      return redactValue(chunk) as StreamResponse;
+    },
+    redactText: redactString,
+    getCounts: () => ({ ...counts }),
+  };
+}
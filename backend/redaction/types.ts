@@ -0,0 +1,33 @@
+/**
+ * Secret redaction type definitions
+ *
+ * Describes the REDACTION.json configuration and the detectors used to find
+ * secrets in the outgoing chat stream.
+ */
+
+/**
+ * A detector finds one kind of secret in a string
+ * Every match of the pattern is replaced with `[REDACTED:<type>]`
+ */
+export interface SecretDetector {
+  type: string; // Shown in the replacement, e.g. "aws_access_key"
+  pattern: RegExp; // Must use the global flag
+  isSecret?: (match: string) => boolean; // Optional extra check for a match
+}
+
+/** Custom pattern as written in REDACTION.json */
+export interface CustomPattern {
+  type: string;
+  pattern: string; // Regular expression source
+  flags?: string; // Additional flags, "g" is always added
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  disabledDetectors: string[]; // Types of built-in detectors to skip
+  entropyThreshold: number; // Minimum Shannon entropy (bits per char) for high_entropy
+  customPatterns: CustomPattern[];
+}
+
+/** Number of redactions per detector type */
+export type RedactionCounts = Record<string, number>;
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getCurrentRules,
+  getRulesVersion,
+  initializeRulesLoader,
+  loadRules,
+  onRulesChange,
+  saveRules,
+} from "./loader.ts";
+import { validateRulesContent } from "./validation.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("Rules validation", () => {
+  it("strips valid front matter", () => {
+    const result = validateRulesContent(
+      encode("---\ntitle: Payments\nowner: qa\n---\n# Rules\n"),
+    );
+    expect(result.frontMatter).toEqual({ title: "Payments", owner: "qa" });
+    expect(result.content).toBe("# Rules\n");
+  });
+
+  it("rejects unknown front matter keys", () => {
+    expect(() =>
+      validateRulesContent(encode("---\ncolor: red\n---\n# Rules\n")),
+    ).toThrow('unknown key "color"');
+  });
+
+  it("rejects invalid UTF-8 and oversized files", () => {
+    expect(() => validateRulesContent(new Uint8Array([0xff, 0xfe]))).toThrow(
+      "not valid UTF-8",
+    );
+    expect(() =>
+      validateRulesContent(encode("#".repeat(256 * 1024 + 1))),
+    ).toThrow("too large");
+  });
+});
+
+describe("Rules loader versions", () => {
+  let projectRoot: string;
+  let rulesPath: string;
+
+  beforeAll(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), "rules-test-"));
+    rulesPath = join(projectRoot, "RULES.md");
+    await writeFile(rulesPath, "# Rules v1\n");
+    initializeRulesLoader(projectRoot);
+    await loadRules();
+  });
+
+  afterAll(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it("bumps the version when the content changes", async () => {
+    const before = getRulesVersion();
+    const listener = vi.fn();
+    const unsubscribe = onRulesChange(listener);
+
+    await writeFile(rulesPath, "# Rules v2\n");
+    await loadRules();
+    unsubscribe();
+
+    expect(getCurrentRules()).toBe("# Rules v2\n");
+    expect(getRulesVersion().version).toBe(before.version + 1);
+    expect(getRulesVersion().hash).not.toBe(before.hash);
+    expect(listener).toHaveBeenCalledWith(getRulesVersion());
+  });
+
+  it("keeps the same version when the content is unchanged", async () => {
+    const before = getRulesVersion();
+    await loadRules();
+    expect(getRulesVersion()).toEqual(before);
+  });
+
+  it("keeps the last good rules when validation fails", async () => {
+    const before = getRulesVersion();
+    await writeFile(rulesPath, "---\ncolor: red\n---\n# Broken\n");
+    await loadRules();
+
+    expect(getCurrentRules()).toBe("# Rules v2\n");
+    expect(getRulesVersion().version).toBe(before.version);
+    expect(getRulesVersion().error).toContain('unknown key "color"');
+  });
+
+  it("writes and activates saved rules", async () => {
+    const before = getRulesVersion();
+    const version = await saveRules("# Restored\n");
+
+    expect(await readFile(rulesPath, "utf8")).toBe("# Restored\n");
+    expect(getCurrentRules()).toBe("# Restored\n");
+    expect(version?.version).toBe(before.version + 1);
+    expect(version?.error).toBeNull();
+  });
+
+  it("refuses to save invalid rules", async () => {
+    await expect(saveRules("   ")).rejects.toThrow("empty");
+    expect(await readFile(rulesPath, "utf8")).toBe("# Restored\n");
+  });
+});
@@ -3,12 +3,33 @@
  *
  * This module handles loading and caching of rules from RULES.md file
  * Rules are injected into Claude's system prompt to guide behavior
+ *
+ * The effective rules of a request are layered: the server's RULES.md, then
+ * <workingDirectory>/.webui/RULES.md, then any named profiles from rules.d/.
+ * Each layer is cached separately and merged by section (see merge.ts).
+ *
+ * RULES.md is watched for changes. New content is validated first, and the
+ * last good version stays active when validation fails.
  */
 
 import { readFile } from "node:fs/promises";
-import { existsSync } from "node:fs";
-import { join } from "node:path";
+import { existsSync, watch } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import type { RulesLayerInfo, RulesVersionInfo } from "../../shared/types.ts";
 import { logger } from "../utils/logger.ts";
+import { readDir, stat, writeTextFile } from "../utils/fs.ts";
+import { type MergedRules, mergeRulesLayers, type RulesLayer } from "./merge.ts";
+import { validateRulesContent } from "./validation.ts";
+import { hashRules, saveRulesSnapshot } from "./versions.ts";
+
+/** Project rules file, relative to the working directory */
+const PROJECT_RULES_PATH = join(".webui", "RULES.md");
+/** Directory with named rule profiles (<name>.md), next to RULES.md */
+const PROFILES_DIR_NAME = "rules.d";
+/** Allowed profile names */
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+/** Delay before reloading after a change, editors often write files in several steps */
+const RELOAD_DEBOUNCE_MS = 300;
 
 /** Default rules when RULES.md is not found */
 const DEFAULT_RULES = `# Claude 代码分析助手规则
@@ -37,6 +58,23 @@ const DEFAULT_RULES = `# Claude 代码分析助手规则
 let cachedRules: string | null = null;
 /** Path to RULES.md file */
 let rulesPath: string | null = null;
+/** Whether the cached rules come from RULES.md (not the defaults) */
+let rulesFromFile = false;
+/** Complete text of the active RULES.md, including front matter */
+let rulesSource: string | null = null;
+/** Path to the profiles directory */
+let profilesDir: string | null = null;
+
+/** Version of the global rules */
+let rulesVersion: RulesVersionInfo = { version: 0, hash: "", updatedAt: "", error: null };
+/** Listeners notified when the global rules change */
+const changeListeners = new Set<(version: RulesVersionInfo) => void>();
+
+/** Serializes saves, so each one checks the rules the previous one wrote */
+let pendingSave: Promise<unknown> = Promise.resolve();
+
+/** Cached project and profile layers by file path */
+const layerCache = new Map<string, { content: string; mtimeMs: number }>();
 
 /**
  * Initialize the rules loader with the project root path
@@ -44,13 +82,56 @@ let rulesPath: string | null = null;
  */
 export function initializeRulesLoader(projectRoot: string): void {
   rulesPath = join(projectRoot, "RULES.md");
+  profilesDir = join(projectRoot, PROFILES_DIR_NAME);
   logger.api.info("Rules loader initialized with path: {path}", { path: rulesPath });
   // Pre-load rules
   loadRules();
 }
 
+/**
+ * Describe the layer of the server's own rules
+ */
+function getGlobalLayerInfo(): RulesLayerInfo {
+  return rulesFromFile
+    ? { kind: "global", name: "global", path: rulesPath }
+    : { kind: "default", name: "default", path: null };
+}
+
+/**
+ * Activate new global rules, bumping the version when the content changed
+ */
+function setRules(content: string, fromFile: boolean, error: string | null = null): void {
+  const hash = hashRules(content);
+  const changed = hash !== rulesVersion.hash;
+  cachedRules = content;
+  rulesFromFile = fromFile;
+
+  if (changed) {
+    // Keep every version for the history and rollback API
+    void saveRulesSnapshot(content, [getGlobalLayerInfo()]);
+  }
+
+  if (!changed && error === rulesVersion.error) {
+    return;
+  }
+
+  rulesVersion = {
+    version: changed ? rulesVersion.version + 1 : rulesVersion.version,
+    hash,
+    updatedAt: changed ? new Date().toISOString() : rulesVersion.updatedAt,
+    error,
+  };
+  if (changed) {
+    logger.api.info("Rules updated to v{version} ({hash})", { version: rulesVersion.version, hash });
+  }
+  for (const listener of changeListeners) {
+    listener(rulesVersion);
+  }
+}
+
 /**
  * Load rules from RULES.md file
+ * Invalid content is rejected and the last good rules stay active
  * @returns Rules content (cached or freshly loaded)
  */
 export async function loadRules(): Promise<string> {
@@ -62,19 +143,23 @@ export async function loadRules(): Promise<string> {
   // Check if file exists
   if (!existsSync(rulesPath)) {
     logger.api.warn("RULES.md not found at {path}, using default rules", { path: rulesPath });
-    cachedRules = DEFAULT_RULES;
+    rulesSource = null;
+    setRules(DEFAULT_RULES, false);
     return DEFAULT_RULES;
   }
 
   try {
-    const content = await readFile(rulesPath, "utf-8");
-    cachedRules = content;
+    const { content, source } = validateRulesContent(await readFile(rulesPath));
+    rulesSource = source;
+    setRules(content, true);
     logger.api.info("Rules loaded from RULES.md ({length} chars)", { length: content.length });
     return content;
   } catch (error) {
-    logger.api.error("Failed to load RULES.md: {error}", { error });
-    cachedRules = DEFAULT_RULES;
-    return DEFAULT_RULES;
+    const message = error instanceof Error ? error.message : String(error);
+    logger.api.error("Failed to load RULES.md, keeping previous rules: {error}", { error: message });
+    // Keep the last good rules, or fall back to the defaults on first load
+    setRules(cachedRules ?? DEFAULT_RULES, cachedRules !== null && rulesFromFile, message);
+    return getCachedRules();
   }
 }
 
@@ -92,9 +177,41 @@ export function getCachedRules(): string {
  */
 export async function reloadRules(): Promise<string> {
   logger.api.info("Reloading rules from RULES.md");
+  layerCache.clear();
   return await loadRules();
 }
 
+/**
+ * Write new content to RULES.md and activate it
+ * @param content - New rules text, optionally with front matter
+ * @param baseHash - Hash of the version the edit started from, if any
+ * @returns Version of the activated rules, or null when the rules are no
+ *   longer at baseHash
+ * @throws Error when the loader is not initialized or the content is invalid
+ */
+export async function saveRules(content: string, baseHash?: string): Promise<RulesVersionInfo | null> {
+  const path = rulesPath;
+  if (!path) {
+    throw new Error("Rules path not initialized");
+  }
+
+  const save = pendingSave.then(async () => {
+    if (baseHash !== undefined && rulesVersion.hash !== baseHash) {
+      return null;
+    }
+
+    // Validate before writing, so RULES.md never holds rejected content
+    validateRulesContent(new TextEncoder().encode(content));
+    await writeTextFile(path, content);
+    logger.api.info("RULES.md updated ({length} chars)", { length: content.length });
+
+    await loadRules();
+    return rulesVersion;
+  });
+  pendingSave = save.catch(() => {});
+  return await save;
+}
+
 /**
  * Get current rules content (cached)
  * @returns Current rules content
@@ -102,3 +219,173 @@ export async function reloadRules(): Promise<string> {
 export function getCurrentRules(): string {
   return getCachedRules();
 }
+
+/**
+ * Get the text of the active RULES.md for editing
+ * @returns File text including front matter, or the default rules when there is no file
+ */
+export function getRulesSource(): string {
+  return rulesFromFile && rulesSource !== null ? rulesSource : getCachedRules();
+}
+
+/**
+ * Get the version of the active global rules
+ */
+export function getRulesVersion(): RulesVersionInfo {
+  return rulesVersion;
+}
+
+/**
+ * Subscribe to rules changes
+ * @param listener - Called with the new version after every change or rejected reload
+ * @returns Function removing the listener
+ */
+export function onRulesChange(listener: (version: RulesVersionInfo) => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Watch RULES.md and reload it automatically after changes
+ * The directory is watched, as editors often replace the file on save
+ * @returns Function stopping the watcher
+ */
+export function watchRules(): () => void {
+  if (!rulesPath) {
+    return () => {};
+  }
+
+  const fileName = basename(rulesPath);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const watcher = watch(dirname(rulesPath), (_event, changedFile) => {
+      if (changedFile && changedFile.toString() !== fileName) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        reloadRules().catch((error) => {
+          logger.api.error("Failed to reload rules after change: {error}", { error });
+        });
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    watcher.on("error", (error) => {
+      logger.api.error("Rules watcher failed: {error}", { error });
+    });
+    logger.api.info("Watching {path} for changes", { path: rulesPath });
+
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  } catch (error) {
+    logger.api.warn("Cannot watch rules, automatic reload disabled: {error}", { error });
+    return () => {};
+  }
+}
+
+/**
+ * Read a project or profile layer, reusing the cached content while the file is unchanged
+ * @param path - Path to the rules file
+ * @returns File content, or null when the file does not exist
+ */
+async function readLayer(path: string): Promise<string | null> {
+  let mtimeMs: number;
+  try {
+    const info = await stat(path);
+    if (!info.isFile) {
+      return null;
+    }
+    mtimeMs = info.mtime?.getTime() ?? 0;
+  } catch {
+    layerCache.delete(path);
+    return null;
+  }
+
+  const cached = layerCache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.content;
+  }
+
+  try {
+    const content = await readFile(path, "utf-8");
+    layerCache.set(path, { content, mtimeMs });
+    logger.api.debug("Rules layer loaded from {path} ({length} chars)", { path, length: content.length });
+    return content;
+  } catch (error) {
+    logger.api.error("Failed to load rules layer {path}: {error}", { path, error });
+    return null;
+  }
+}
+
+/**
+ * List the available rule profiles
+ * @returns Profile names (file names in rules.d without .md)
+ */
+export async function listRulesProfiles(): Promise<string[]> {
+  if (!profilesDir || !existsSync(profilesDir)) {
+    return [];
+  }
+
+  const profiles: string[] = [];
+  for await (const entry of readDir(profilesDir)) {
+    const name = entry.name.replace(/\.md$/, "");
+    if (entry.isFile && name !== entry.name && PROFILE_NAME_PATTERN.test(name)) {
+      profiles.push(name);
+    }
+  }
+  return profiles.sort();
+}
+
+/**
+ * Resolve the rule layers that apply to a request
+ * @param workingDirectory - Working directory of the request (project layer)
+ * @param profiles - Named profiles, applied in order
+ * @returns Existing layers from lowest to highest precedence
+ * @throws Error when a profile name is invalid or the profile does not exist
+ */
+export async function resolveRulesLayers(workingDirectory?: string, profiles: string[] = []): Promise<RulesLayer[]> {
+  const layers: RulesLayer[] = [{ info: getGlobalLayerInfo(), content: getCachedRules() }];
+
+  if (workingDirectory) {
+    const path = resolve(workingDirectory, PROJECT_RULES_PATH);
+    const content = await readLayer(path);
+    if (content !== null) {
+      layers.push({ info: { kind: "project", name: "project", path }, content });
+    }
+  }
+
+  for (const name of profiles) {
+    if (!PROFILE_NAME_PATTERN.test(name) || !profilesDir) {
+      throw new Error(`Invalid rules profile: ${name}`);
+    }
+    const path = join(profilesDir, `${name}.md`);
+    const content = await readLayer(path);
+    if (content === null) {
+      throw new Error(`Rules profile not found: ${name}`);
+    }
+    layers.push({ info: { kind: "profile", name, path }, content });
+  }
+
+  return layers;
+}
+
+/**
+ * Get the effective rules for a request
+ * @param workingDirectory - Working directory of the request
+ * @param profiles - Named profiles to apply
+ * @returns Merged rules, the layers used and the layer of every section
+ */
+export async function getEffectiveRules(
+  workingDirectory?: string,
+  profiles: string[] = [],
+): Promise<MergedRules & { layers: RulesLayerInfo[] }> {
+  const layers = await resolveRulesLayers(workingDirectory, profiles);
+  return {
+    ...mergeRulesLayers(layers),
+    layers: layers.map((layer) => layer.info),
+  };
+}
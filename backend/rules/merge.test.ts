@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { mergeRulesLayers, parseRulesSections } from "./merge.ts";
+import type { RulesLayerInfo } from "../../shared/types.ts";
+
+const GLOBAL: RulesLayerInfo = {
+  kind: "global",
+  name: "global",
+  path: "/srv/RULES.md",
+};
+const PROJECT: RulesLayerInfo = {
+  kind: "project",
+  name: "project",
+  path: "/work/app/.webui/RULES.md",
+};
+
+const globalRules = `# Rules
+
+Global intro.
+
+## Style
+- Be brief
+
+## Capabilities
+- Read files
+`;
+
+describe("Rules merging", () => {
+  it("splits content at second level headings", () => {
+    const sections = parseRulesSections(globalRules);
+    expect(sections.map((section) => section.heading)).toEqual([
+      null,
+      "Style",
+      "Capabilities",
+    ]);
+    expect(sections[1].text).toContain("- Be brief");
+  });
+
+  it("ignores headings inside code blocks", () => {
+    const sections = parseRulesSections(
+      "## Example\n```md\n## Not a section\n```\n",
+    );
+    expect(sections).toHaveLength(1);
+    expect(sections[0].heading).toBe("Example");
+  });
+
+  it("overrides sections in place and appends new ones", () => {
+    const merged = mergeRulesLayers([
+      { info: GLOBAL, content: globalRules },
+      {
+        info: PROJECT,
+        content: "## style\n- Answer in English\n\n## Domain\n- Payments\n",
+      },
+    ]);
+
+    expect(merged.content).toBe(
+      "# Rules\n\nGlobal intro.\n\n## style\n- Answer in English\n\n## Capabilities\n- Read files\n\n## Domain\n- Payments\n",
+    );
+    expect(
+      merged.sections.map((section) => [section.heading, section.layer.kind]),
+    ).toEqual([
+      [null, "global"],
+      ["style", "project"],
+      ["Capabilities", "global"],
+      ["Domain", "project"],
+    ]);
+  });
+
+  it("keeps the global preamble when a layer has none", () => {
+    const merged = mergeRulesLayers([
+      { info: GLOBAL, content: globalRules },
+      { info: PROJECT, content: "\n## Domain\n- Payments\n" },
+    ]);
+    expect(merged.sections[0]).toEqual({ heading: null, layer: GLOBAL });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Layered rules merging
+ *
+ * Rule files are split into sections at their "## " headings. Later layers
+ * replace sections with the same heading and append new ones, so a project
+ * can override e.g. "## 回答风格" without repeating the global rules.
+ */
+
+import type { RulesLayerInfo, RulesSectionSource } from "../../shared/types.ts";
+
+export interface RulesLayer {
+  info: RulesLayerInfo;
+  content: string;
+}
+
+export interface RulesSection {
+  heading: string | null; // null for the text before the first heading
+  text: string; // Section text including its heading line
+}
+
+export interface MergedRules {
+  content: string;
+  sections: RulesSectionSource[];
+}
+
+const SECTION_HEADING = /^##\s+(.+?)\s*#*\s*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Split rules content into sections at "## " headings
+ * Headings inside fenced code blocks are ignored
+ */
+export function parseRulesSections(content: string): RulesSection[] {
+  const sections: RulesSection[] = [];
+  let current: { heading: string | null; lines: string[] } = {
+    heading: null,
+    lines: [],
+  };
+  let inCodeBlock = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (CODE_FENCE.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const match = inCodeBlock ? null : line.match(SECTION_HEADING);
+    if (match) {
+      sections.push({
+        heading: current.heading,
+        text: current.lines.join("\n"),
+      });
+      current = { heading: match[1], lines: [line] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push({ heading: current.heading, text: current.lines.join("\n") });
+
+  // Drop an empty preamble (file starting with a heading)
+  return sections.filter(
+    (section) => section.heading !== null || section.text.trim() !== "",
+  );
+}
+
+function getSectionKey(heading: string | null): string {
+  return heading === null ? "" : heading.trim().toLowerCase();
+}
+
+/**
+ * Merge rule layers in order, later layers override earlier ones
+ * @param layers - Layers from lowest to highest precedence
+ * @returns Merged content and the layer each section came from
+ */
+export function mergeRulesLayers(layers: RulesLayer[]): MergedRules {
+  const merged = new Map<
+    string,
+    { section: RulesSection; layer: RulesLayerInfo }
+  >();
+
+  for (const layer of layers) {
+    for (const section of parseRulesSections(layer.content)) {
+      // Map keeps the position of the first occurrence when overriding
+      merged.set(getSectionKey(section.heading), {
+        section,
+        layer: layer.info,
+      });
+    }
+  }
+
+  // The preamble (title) always comes first
+  const entries = [...merged.values()].sort(
+    (a, b) =>
+      Number(a.section.heading !== null) - Number(b.section.heading !== null),
+  );
+
+  return {
+    content:
+      entries.map(({ section }) => section.text.trim()).join("\n\n") + "\n",
+    sections: entries.map(({ section, layer }) => ({
+      heading: section.heading,
+      layer,
+    })),
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * RULES.md validation
+ *
+ * Rules files are edited by hand and picked up automatically, so a broken
+ * save must not replace the rules Claude is running with. Content is checked
+ * for size, UTF-8 encoding and an optional front matter block:
+ *
+ *   ---
+ *   title: Payment service rules
+ *   owner: qa-team
+ *   ---
+ */
+
+/** Maximum size of a rules file */
+export const MAX_RULES_SIZE = 256 * 1024;
+
+/** Front matter keys and whether they are required */
+const FRONT_MATTER_KEYS: Record<string, { required: boolean }> = {
+  title: { required: false },
+  description: { required: false },
+  owner: { required: false },
+};
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export interface ValidatedRules {
+  content: string; // Rules text without front matter
+  source: string; // Complete file text, including front matter
+  frontMatter: Record<string, string>;
+}
+
+function parseFrontMatter(block: string): Record<string, string> {
+  const frontMatter: Record<string, string> = {};
+
+  block.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith("#")) {
+      return;
+    }
+    const match = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!match) {
+      throw new Error(
+        `Invalid rules front matter: line ${index + 1} must be "key: value"`,
+      );
+    }
+    const [, key, value] = match;
+    if (!(key in FRONT_MATTER_KEYS)) {
+      throw new Error(
+        `Invalid rules front matter: unknown key "${key}" (allowed: ${Object.keys(FRONT_MATTER_KEYS).join(", ")})`,
+      );
+    }
+    frontMatter[key] = value.trim().replace(/^(["'])(.*)\1$/, "$2");
+  });
+
+  for (const [key, { required }] of Object.entries(FRONT_MATTER_KEYS)) {
+    if (required && !frontMatter[key]) {
+      throw new Error(`Invalid rules front matter: "${key}" is required`);
+    }
+  }
+
+  return frontMatter;
+}
+
+/**
+ * Validate the raw bytes of a rules file
+ * @param data - File content
+ * @returns Rules text and parsed front matter
+ * @throws Error describing why the content was rejected
+ */
+export function validateRulesContent(data: Uint8Array): ValidatedRules {
+  if (data.byteLength > MAX_RULES_SIZE) {
+    throw new Error(
+      `Rules file is too large (${data.byteLength} bytes, limit ${MAX_RULES_SIZE})`,
+    );
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    throw new Error("Rules file is not valid UTF-8");
+  }
+
+  const match = text.match(FRONT_MATTER_PATTERN);
+  const frontMatter = match ? parseFrontMatter(match[1]) : {};
+  const content = match ? text.substring(match[0].length) : text;
+
+  if (!content.trim()) {
+    throw new Error("Rules file is empty");
+  }
+
+  return { content, frontMatter, source: text };
+}
@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getRulesSnapshot,
+  hashRules,
+  initializeRulesVersionStore,
+  listRulesSnapshots,
+  saveRulesSnapshot,
+} from "./versions.ts";
+import type { RulesLayerInfo } from "../../shared/types.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+const GLOBAL: RulesLayerInfo = {
+  kind: "global",
+  name: "global",
+  path: "/srv/RULES.md",
+};
+
+describe("Rules version store", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "rules-versions-test-"));
+    initializeRulesVersionStore(dataDir);
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("stores snapshots by content hash", async () => {
+    const hash = await saveRulesSnapshot("# Rules v1\n", [GLOBAL]);
+    expect(hash).toBe(hashRules("# Rules v1\n"));
+    expect(hash).toMatch(/^[0-9a-f]{12}$/);
+
+    const snapshot = await getRulesSnapshot(hash);
+    expect(snapshot).toMatchObject({
+      hash,
+      content: "# Rules v1\n",
+      length: 11,
+      layers: [GLOBAL],
+    });
+  });
+
+  it("stores identical content only once", async () => {
+    await saveRulesSnapshot("# Rules v2\n", [GLOBAL]);
+    await saveRulesSnapshot("# Rules v2\n", [GLOBAL]);
+
+    const files = await readdir(join(dataDir, "rules-versions"));
+    expect(files).toHaveLength(2);
+  });
+
+  it("lists summaries without content", async () => {
+    const versions = await listRulesSnapshots();
+    expect(versions).toHaveLength(2);
+    expect(versions[0]).not.toHaveProperty("content");
+    expect(versions.map((version) => version.hash).sort()).toEqual(
+      [hashRules("# Rules v1\n"), hashRules("# Rules v2\n")].sort(),
+    );
+  });
+
+  it("returns null for unknown or malformed hashes", async () => {
+    expect(await getRulesSnapshot("000000000000")).toBeNull();
+    expect(await getRulesSnapshot("../../etc")).toBeNull();
+  });
+});
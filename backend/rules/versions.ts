@@ -0,0 +1,145 @@
+/**
+ * Rules version store
+ *
+ * Keeps a snapshot of every rules text Claude has been given, so that the
+ * wording behind an answer can be looked up later and old versions can be
+ * restored. Snapshots are content-addressed by hash and stored as JSON files
+ * in <dataDir>/rules-versions.
+ */
+
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import type {
+  RulesLayerInfo,
+  RulesVersionSnapshot,
+  RulesVersionSummary,
+} from "../../shared/types.ts";
+import { logger } from "../utils/logger.ts";
+import {
+  ensureDir,
+  exists,
+  readDir,
+  readTextFile,
+  writeTextFile,
+} from "../utils/fs.ts";
+
+/** Rules hashes are the first 12 hex characters of the SHA-256 digest */
+const HASH_PATTERN = /^[0-9a-f]{12}$/;
+
+/** Directory for snapshots, null when the store is not initialized */
+let versionsDir: string | null = null;
+
+/** Hashes known to be stored, avoids rewriting existing snapshots */
+const storedHashes = new Set<string>();
+
+/**
+ * Initialize the version store with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializeRulesVersionStore(dataDir: string): void {
+  versionsDir = join(dataDir, "rules-versions");
+  storedHashes.clear();
+}
+
+/**
+ * Compute the hash identifying a rules text
+ */
+export function hashRules(content: string): string {
+  return createHash("sha256").update(content).digest("hex").substring(0, 12);
+}
+
+/**
+ * Check whether a string is a valid rules hash
+ */
+export function isRulesHash(value: string): boolean {
+  return HASH_PATTERN.test(value);
+}
+
+/**
+ * Store a snapshot of a rules text, unless it is already stored
+ * Writing failures are logged but never interrupt loading or chatting
+ * @param content - Rules text as given to Claude
+ * @param layers - Layers the text was merged from
+ * @returns Hash of the content
+ */
+export async function saveRulesSnapshot(
+  content: string,
+  layers: RulesLayerInfo[],
+): Promise<string> {
+  const hash = hashRules(content);
+  if (!versionsDir || storedHashes.has(hash)) {
+    return hash;
+  }
+
+  const path = join(versionsDir, `${hash}.json`);
+  try {
+    if (!(await exists(path))) {
+      const snapshot: RulesVersionSnapshot = {
+        hash,
+        createdAt: new Date().toISOString(),
+        length: content.length,
+        layers,
+        content,
+      };
+      await ensureDir(versionsDir);
+      await writeTextFile(path, JSON.stringify(snapshot, null, 2) + "\n");
+      logger.api.debug("Stored rules version {hash}", { hash });
+    }
+    storedHashes.add(hash);
+  } catch (error) {
+    logger.api.error("Failed to store rules version {hash}: {error}", {
+      hash,
+      error,
+    });
+  }
+  return hash;
+}
+
+/**
+ * Get a stored snapshot
+ * @returns Snapshot, or null when the hash is unknown
+ */
+export async function getRulesSnapshot(
+  hash: string,
+): Promise<RulesVersionSnapshot | null> {
+  if (!versionsDir || !isRulesHash(hash)) {
+    return null;
+  }
+
+  const path = join(versionsDir, `${hash}.json`);
+  if (!(await exists(path))) {
+    return null;
+  }
+  return JSON.parse(await readTextFile(path)) as RulesVersionSnapshot;
+}
+
+/**
+ * List all stored snapshots without their content
+ * @returns Summaries, newest first
+ */
+export async function listRulesSnapshots(): Promise<RulesVersionSummary[]> {
+  if (!versionsDir || !(await exists(versionsDir))) {
+    return [];
+  }
+
+  const summaries: RulesVersionSummary[] = [];
+  for await (const entry of readDir(versionsDir)) {
+    const hash = entry.name.replace(/\.json$/, "");
+    if (!entry.isFile || !isRulesHash(hash)) {
+      continue;
+    }
+    try {
+      const { content: _content, ...summary } = JSON.parse(
+        await readTextFile(join(versionsDir, entry.name)),
+      ) as RulesVersionSnapshot;
+      summaries.push(summary);
+    } catch (error) {
+      logger.api.warn("Skipping unreadable rules version {file}: {error}", {
+        file: entry.name,
+        error,
+      });
+    }
+  }
+
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -6,10 +6,12 @@
 
 import type { CommandResult, Runtime } from "./types.ts";
 import type { MiddlewareHandler } from "hono";
-import { serveStatic } from "hono/deno";
+import { serveStatic, upgradeWebSocket } from "hono/deno";
 import { getPlatform } from "../utils/os.ts";
 
 export class DenoRuntime implements Runtime {
+  upgradeWebSocket = upgradeWebSocket;
+
   async findExecutable(name: string): Promise<string[]> {
     const platform = getPlatform();
     const candidates: string[] = [];
@@ -82,7 +84,7 @@ export class DenoRuntime implements Runtime {
   serve(
     port: number,
     hostname: string,
-    handler: (req: Request) => Response | Promise<Response>,
+    handler: (req: Request, env?: unknown) => Response | Promise<Response>,
   ): void {
     Deno.serve({ port, hostname }, handler);
   }
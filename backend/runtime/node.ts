@@ -7,6 +7,7 @@
 import { spawn, type SpawnOptions } from "node:child_process";
 import process from "node:process";
 import { serve } from "@hono/node-server";
+import { createNodeWebSocket } from "@hono/node-ws";
 import { Hono } from "hono";
 import type { CommandResult, Runtime } from "./types.ts";
 import type { MiddlewareHandler } from "hono";
@@ -14,6 +15,12 @@ import { serveStatic } from "@hono/node-server/serve-static";
 import { getPlatform } from "../utils/os.ts";
 
 export class NodeRuntime implements Runtime {
+  // Requests are routed through this app, WebSocket upgrades included
+  private readonly app = new Hono();
+  private readonly nodeWebSocket = createNodeWebSocket({ app: this.app });
+
+  upgradeWebSocket = this.nodeWebSocket.upgradeWebSocket;
+
   async findExecutable(name: string): Promise<string[]> {
     const platform = getPlatform();
     const candidates: string[] = [];
@@ -108,23 +115,22 @@ export class NodeRuntime implements Runtime {
   serve(
     port: number,
     hostname: string,
-    handler: (req: Request) => Response | Promise<Response>,
+    handler: (req: Request, env?: unknown) => Response | Promise<Response>,
   ): void {
-    // Use Hono with Node.js server to handle Web API Request/Response
-    const app = new Hono();
-
-    // Route all requests to the provided handler
-    app.all("*", async (c) => {
-      const response = await handler(c.req.raw);
+    // Route all requests to the provided handler, passing the Node.js
+    // bindings the WebSocket adapter needs
+    this.app.all("*", async (c) => {
+      const response = await handler(c.req.raw, c.env);
       return response;
     });
 
     // Start the server using @hono/node-server
-    serve({
-      fetch: app.fetch,
+    const server = serve({
+      fetch: this.app.fetch,
       port,
       hostname,
     });
+    this.nodeWebSocket.injectWebSocket(server);
 
     console.log(`Listening on http://${hostname}:${port}/`);
   }
@@ -6,6 +6,7 @@
  */
 
 import type { MiddlewareHandler } from "hono";
+import type { UpgradeWebSocket } from "hono/ws";
 
 // Command execution result
 export interface CommandResult {
@@ -26,12 +27,16 @@ export interface Runtime {
   findExecutable(name: string): Promise<string[]>;
 
   // HTTP server (different implementations)
+  // The handler gets the runtime's bindings, which WebSocket upgrades rely on
   serve(
     port: number,
     hostname: string,
-    handler: (req: Request) => Response | Promise<Response>,
+    handler: (req: Request, env?: unknown) => Response | Promise<Response>,
   ): void;
 
+  // WebSocket upgrade middleware (different adapters)
+  upgradeWebSocket: UpgradeWebSocket;
+
   // Static file serving (different middleware)
   createStaticFileMiddleware(options: { root: string }): MiddlewareHandler;
 }
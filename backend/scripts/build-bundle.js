@@ -20,6 +20,7 @@ await build({
   external: [
     "@anthropic-ai/claude-code",
     "@hono/node-server",
+    "@hono/node-ws",
     "hono",
     "commander",
   ],
@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  canSeeSubagentActivity,
+  getServerSettings,
+  initializeServerSettings,
+  updateServerSettings,
+  validateServerSettingsUpdate,
+} from "./serverSettings.ts";
+
+vi.mock("../utils/logger.ts", () => ({
+  logger: {
+    api: {
+      info: vi.fn(),
+      error: vi.fn(),
+    },
+  },
+}));
+
+describe("Server settings store", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "settings-test-"));
+    initializeServerSettings(dataDir);
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("hides sub-agent activity from users by default", async () => {
+    expect(await getServerSettings()).toEqual({
+      showSubagentActivity: false,
+      dailyBudgetUsd: null,
+      dailyUserBudgetUsd: null,
+    });
+    expect(await canSeeSubagentActivity({ isAdmin: false })).toBe(false);
+    expect(await canSeeSubagentActivity({ isAdmin: true })).toBe(true);
+  });
+
+  it("persists updates", async () => {
+    await updateServerSettings({ showSubagentActivity: true });
+    expect(await canSeeSubagentActivity({})).toBe(true);
+
+    const stored = JSON.parse(
+      await readFile(join(dataDir, "server-settings.json"), "utf8"),
+    );
+    expect(stored).toEqual({
+      showSubagentActivity: true,
+      dailyBudgetUsd: null,
+      dailyUserBudgetUsd: null,
+    });
+
+    // Loaded again from the file
+    initializeServerSettings(dataDir);
+    expect((await getServerSettings()).showSubagentActivity).toBe(true);
+  });
+});
+
+describe("validateServerSettingsUpdate", () => {
+  it("accepts known fields and rejects invalid values", () => {
+    expect(
+      validateServerSettingsUpdate({ showSubagentActivity: true }),
+    ).toEqual({ showSubagentActivity: true });
+    expect(validateServerSettingsUpdate({})).toEqual({});
+    expect(validateServerSettingsUpdate(null)).toBe(
+      "Request body must be an object",
+    );
+    expect(validateServerSettingsUpdate({ showSubagentActivity: "yes" })).toBe(
+      "showSubagentActivity must be a boolean",
+    );
+  });
+
+  it("accepts budgets in dollars, or null for no limit", () => {
+    expect(
+      validateServerSettingsUpdate({
+        dailyBudgetUsd: 25,
+        dailyUserBudgetUsd: null,
+      }),
+    ).toEqual({ dailyBudgetUsd: 25, dailyUserBudgetUsd: null });
+    expect(validateServerSettingsUpdate({ dailyUserBudgetUsd: -1 })).toBe(
+      "dailyUserBudgetUsd must be a positive number or null",
+    );
+    expect(validateServerSettingsUpdate({ dailyBudgetUsd: "10" })).toBe(
+      "dailyBudgetUsd must be a positive number or null",
+    );
+  });
+});
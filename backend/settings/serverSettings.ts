@@ -0,0 +1,147 @@
+/**
+ * Server settings store
+ *
+ * Settings admins change at runtime from the web UI, as opposed to CLI
+ * options that need a restart. Persisted as JSON in
+ * <dataDir>/server-settings.json; missing fields take their defaults.
+ */
+
+import { dirname, join } from "node:path";
+import type {
+  ServerSettings,
+  ServerSettingsUpdate,
+} from "../../shared/types.ts";
+import { logger } from "../utils/logger.ts";
+import { ensureDir, exists, readTextFile, writeTextFile } from "../utils/fs.ts";
+
+export const DEFAULT_SERVER_SETTINGS: ServerSettings = {
+  showSubagentActivity: false,
+  dailyBudgetUsd: null,
+  dailyUserBudgetUsd: null,
+};
+
+/** Path of the settings file, null keeps the settings in memory only */
+let settingsPath: string | null = null;
+
+/** Loaded settings */
+let settings: ServerSettings | null = null;
+
+/** Serializes writes so concurrent requests don't overwrite each other */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the settings store with the application data directory
+ * @param dataDir - Application data directory
+ */
+export function initializeServerSettings(dataDir: string): void {
+  settingsPath = join(dataDir, "server-settings.json");
+  settings = null;
+}
+
+/**
+ * Get the current server settings
+ */
+export async function getServerSettings(): Promise<ServerSettings> {
+  if (settings) {
+    return settings;
+  }
+
+  let loaded: Partial<ServerSettings> = {};
+  if (settingsPath && (await exists(settingsPath))) {
+    try {
+      loaded = JSON.parse(await readTextFile(settingsPath));
+    } catch (error) {
+      logger.api.error("Failed to read server settings: {error}", { error });
+    }
+  }
+
+  settings = { ...DEFAULT_SERVER_SETTINGS, ...loaded };
+  return settings;
+}
+
+/**
+ * Check a settings update from a request body
+ * @returns The update, or an error message
+ */
+export function validateServerSettingsUpdate(
+  body: unknown,
+): ServerSettingsUpdate | string {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return "Request body must be an object";
+  }
+  const { showSubagentActivity, dailyBudgetUsd, dailyUserBudgetUsd } =
+    body as Record<string, unknown>;
+
+  if (
+    showSubagentActivity !== undefined &&
+    typeof showSubagentActivity !== "boolean"
+  ) {
+    return "showSubagentActivity must be a boolean";
+  }
+
+  const budgets = { dailyBudgetUsd, dailyUserBudgetUsd };
+  for (const [name, budget] of Object.entries(budgets)) {
+    if (
+      budget !== undefined &&
+      budget !== null &&
+      (typeof budget !== "number" || !Number.isFinite(budget) || budget < 0)
+    ) {
+      return `${name} must be a positive number or null`;
+    }
+  }
+
+  return {
+    ...(showSubagentActivity !== undefined
+      ? { showSubagentActivity: showSubagentActivity as boolean }
+      : {}),
+    ...(dailyBudgetUsd !== undefined
+      ? { dailyBudgetUsd: dailyBudgetUsd as number | null }
+      : {}),
+    ...(dailyUserBudgetUsd !== undefined
+      ? { dailyUserBudgetUsd: dailyUserBudgetUsd as number | null }
+      : {}),
+  };
+}
+
+/**
+ * Update the server settings
+ * Fields missing from the update are kept
+ * @param update - Validated update
+ * @returns The settings after the update
+ */
+export async function updateServerSettings(
+  update: ServerSettingsUpdate,
+): Promise<ServerSettings> {
+  const next = { ...(await getServerSettings()), ...update };
+  settings = next;
+
+  const path = settingsPath;
+  if (path) {
+    pendingWrite = pendingWrite.then(async () => {
+      try {
+        await ensureDir(dirname(path));
+        await writeTextFile(path, JSON.stringify(next, null, 2) + "\n");
+      } catch (error) {
+        logger.api.error("Failed to write server settings: {error}", {
+          error,
+        });
+      }
+    });
+    await pendingWrite;
+  }
+
+  logger.api.info("Server settings updated {*}", update);
+  return next;
+}
+
+/**
+ * Check whether a user may see what sub-agents (Task tool) do
+ * Admins always can, other users when the setting allows it
+ */
+export async function canSeeSubagentActivity(user: {
+  isAdmin?: boolean;
+}): Promise<boolean> {
+  return (
+    Boolean(user.isAdmin) || (await getServerSettings()).showSubagentActivity
+  );
+}
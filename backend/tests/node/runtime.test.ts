@@ -17,6 +17,7 @@ describe("Node.js Runtime", () => {
       "runCommand",
       "serve",
       "createStaticFileMiddleware",
+      "upgradeWebSocket",
     ];
 
     for (const method of requiredMethods) {
@@ -4,10 +4,20 @@
 
 import type { Runtime } from "./runtime/types.ts";
 
+/**
+ * How rules are passed to Claude
+ * - append: appended to Claude Code's own system prompt
+ * - replace: used as the complete system prompt
+ */
+export type RulesPromptMode = "append" | "replace";
+
+export const RULES_PROMPT_MODES: RulesPromptMode[] = ["append", "replace"];
+
 // Application configuration shared across backend handlers
 export interface AppConfig {
   debugMode: boolean;
   runtime: Runtime;
   cliPath: string; // Path to actual CLI script detected by validateClaudeCli
+  rulesPromptMode?: RulesPromptMode; // Defaults to append
   // Future configuration options can be added here
 }
@@ -0,0 +1,28 @@
+/**
+ * Date filters for list and search query parameters
+ */
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a date filter, date-only values cover the whole day
+ * @param value - ISO date or timestamp from the query string
+ * @param endOfDay - Move date-only values to the start of the next day
+ * @returns Date, undefined when empty, or null when invalid
+ */
+export function parseDateFilter(
+  value: string | undefined,
+  endOfDay: boolean,
+): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  if (endOfDay && DATE_ONLY_PATTERN.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
@@ -6,7 +6,8 @@
  */
 
 import { promises as fs } from "node:fs";
-import { constants as fsConstants } from "node:fs";
+import { constants as fsConstants, createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -46,6 +47,22 @@ export async function readBinaryFile(path: string): Promise<Uint8Array> {
   return new Uint8Array(buffer);
 }
 
+/**
+ * Read a text file line by line without loading it into memory at once
+ */
+export async function* readLines(path: string): AsyncIterable<string> {
+  const stream = createReadStream(path, { encoding: "utf8" });
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      yield line;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
 /**
  * Write text content to file
  */
@@ -60,6 +77,30 @@ export async function writeTextFile(
   }
 }
 
+/**
+ * Append text content to file, creating it if needed
+ */
+export async function appendTextFile(
+  path: string,
+  content: string,
+): Promise<void> {
+  await fs.appendFile(path, content, "utf8");
+}
+
+/**
+ * Create directory (and parents) if it does not exist
+ */
+export async function ensureDir(path: string): Promise<void> {
+  await fs.mkdir(path, { recursive: true });
+}
+
+/**
+ * Remove a file, ignoring files that do not exist
+ */
+export async function removeFile(path: string): Promise<void> {
+  await fs.rm(path, { force: true });
+}
+
 /**
  * Check if file or directory exists
  */
@@ -72,6 +113,13 @@ export async function exists(path: string): Promise<boolean> {
   }
 }
 
+/**
+ * Resolve a path to its canonical absolute form, following symlinks
+ */
+export async function realPath(path: string): Promise<string> {
+  return await fs.realpath(path);
+}
+
 /**
  * Get file/directory statistics
  */
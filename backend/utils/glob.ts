@@ -0,0 +1,56 @@
+/**
+ * Minimal glob matching utilities
+ *
+ * Supports the `*`, `**` and `?` wildcards used by the policy files.
+ * `*` and `?` never cross a `/`, while `**` matches across path segments.
+ */
+
+const REGEXP_SPECIAL_CHARS = /[.+^${}()|[\]\\]/g;
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ * @param pattern - Glob pattern such as `mcp__github__*` or `**\/*.pem`
+ * @returns Regular expression matching the whole input
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" also matches zero directories
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(REGEXP_SPECIAL_CHARS, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+/**
+ * Check whether a pattern contains any wildcard characters
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return pattern.includes("*") || pattern.includes("?");
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { LogRecord } from "@logtape/logtape";
+import { getRotatingFileSink } from "./logFile.ts";
+
+const record = (message: string) =>
+  ({ message: [message] }) as unknown as LogRecord;
+const formatter = (logRecord: LogRecord) => `${logRecord.message[0]}\n`;
+
+describe("getRotatingFileSink", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "log-file-test-"));
+    path = join(dir, "server.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("rotates the file once it would grow past the size limit", async () => {
+    const sink = getRotatingFileSink(
+      {
+        path,
+        maxSizeMb: 10 / (1024 * 1024),
+        rotation: "never",
+        retentionDays: 0,
+      },
+      formatter,
+      () => new Date("2025-03-01T12:00:00Z"),
+    );
+    sink(record("first"));
+    sink(record("second"));
+
+    expect(await readFile(path, "utf8")).toBe("second\n");
+    expect((await readdir(dir)).sort()).toEqual([
+      "server-2025-03-01T12-00-00.jsonl",
+      "server.jsonl",
+    ]);
+  });
+
+  it("rotates the file when a new day starts", async () => {
+    let now = new Date("2025-03-01T23:59:00Z");
+    const sink = getRotatingFileSink(
+      { path, maxSizeMb: 0, rotation: "daily", retentionDays: 0 },
+      formatter,
+      () => now,
+    );
+    sink(record("monday"));
+    sink(record("still monday"));
+    now = new Date("2025-03-02T00:01:00Z");
+    sink(record("tuesday"));
+
+    expect(await readFile(path, "utf8")).toBe("tuesday\n");
+    expect(
+      await readFile(join(dir, "server-2025-03-02T00-01-00.jsonl"), "utf8"),
+    ).toBe("monday\nstill monday\n");
+  });
+
+  it("deletes rotated files older than the retention period", async () => {
+    const old = join(dir, "server-2025-01-01T00-00-00.jsonl");
+    const recent = join(dir, "server-2025-02-28T00-00-00.jsonl");
+    const other = join(dir, "other.jsonl");
+    for (const file of [old, recent, other]) {
+      await writeFile(file, "line\n");
+    }
+    await utimes(old, new Date("2025-01-01"), new Date("2025-01-01"));
+    await utimes(other, new Date("2025-01-01"), new Date("2025-01-01"));
+
+    getRotatingFileSink(
+      { path, maxSizeMb: 0, rotation: "daily", retentionDays: 7 },
+      formatter,
+      () => new Date("2025-03-01T12:00:00Z"),
+    );
+
+    expect((await readdir(dir)).sort()).toEqual([
+      "other.jsonl",
+      "server-2025-02-28T00-00-00.jsonl",
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Rotating log file sink
+ *
+ * Writes formatted log records to a file that is rotated when it grows past
+ * a size or when a new day (or hour) starts, whichever comes first. Rotated
+ * files are renamed with the time of the rotation and deleted once they are
+ * older than the retention period.
+ *
+ * Sinks are called synchronously for every record, so the file is written
+ * with the synchronous fs API, which works in both Deno and Node.js.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import type { LogRecord, Sink, TextFormatter } from "@logtape/logtape";
+
+export const LOG_ROTATIONS = ["daily", "hourly", "never"] as const;
+export type LogRotation = (typeof LOG_ROTATIONS)[number];
+
+export interface LogFileOptions {
+  path: string;
+  maxSizeMb: number; // Rotate once the file would grow past this, 0 for no size limit
+  rotation: LogRotation; // Rotate when a new day or hour starts (UTC)
+  retentionDays: number; // Delete rotated files older than this, 0 to keep them
+}
+
+/**
+ * Get the period a time falls into, files are rotated when it changes
+ */
+function getPeriod(rotation: LogRotation, date: Date): string {
+  switch (rotation) {
+    case "daily":
+      return date.toISOString().substring(0, 10);
+    case "hourly":
+      return date.toISOString().substring(0, 13);
+    case "never":
+      return "";
+  }
+}
+
+/**
+ * Create a sink writing to a rotating log file
+ * @param options - File path, rotation and retention
+ * @param formatter - Formats each record as one line
+ * @param now - Current time, replaced by tests
+ * @returns The sink, the file stays open until the process exits
+ */
+export function getRotatingFileSink(
+  options: LogFileOptions,
+  formatter: TextFormatter,
+  now: () => Date = () => new Date(),
+): Sink {
+  const { path, rotation, retentionDays } = options;
+  const maxBytes = options.maxSizeMb * 1024 * 1024;
+  const directory = dirname(path);
+  const extension = extname(path);
+  const stem = basename(path, extension);
+
+  let fd: number | null = null;
+  let size = 0;
+  let period = "";
+  let failed = false;
+
+  const rotatedName = (date: Date): string => {
+    const stamp = date.toISOString().substring(0, 19).replace(/:/g, "-");
+    let name = `${stem}-${stamp}${extension}`;
+    for (let suffix = 1; existsSync(join(directory, name)); suffix++) {
+      name = `${stem}-${stamp}-${suffix}${extension}`;
+    }
+    return name;
+  };
+
+  const deleteExpired = () => {
+    if (retentionDays <= 0) {
+      return;
+    }
+    const cutoff = now().getTime() - retentionDays * 24 * 60 * 60 * 1000;
+    for (const name of readdirSync(directory)) {
+      if (
+        !name.startsWith(`${stem}-`) ||
+        !name.endsWith(extension) ||
+        !/^\d/.test(name.substring(stem.length + 1))
+      ) {
+        continue;
+      }
+      const file = join(directory, name);
+      if (statSync(file).mtime.getTime() < cutoff) {
+        unlinkSync(file);
+      }
+    }
+  };
+
+  const open = () => {
+    fd = openSync(path, "a");
+    const stats = statSync(path);
+    size = stats.size;
+    // A file left from an earlier period is rotated before it is written to
+    period = getPeriod(rotation, size > 0 ? stats.mtime : now());
+  };
+
+  const rotate = () => {
+    if (fd !== null) {
+      closeSync(fd);
+      fd = null;
+    }
+    renameSync(path, join(directory, rotatedName(now())));
+    deleteExpired();
+    open();
+  };
+
+  mkdirSync(directory, { recursive: true });
+  deleteExpired();
+
+  const sink = (record: LogRecord) => {
+    if (failed) {
+      return;
+    }
+    try {
+      if (fd === null) {
+        open();
+      }
+      const line = formatter(record);
+      const bytes = new TextEncoder().encode(line);
+      const currentPeriod = getPeriod(rotation, now());
+      if (
+        size > 0 &&
+        (currentPeriod !== period ||
+          (maxBytes > 0 && size + bytes.length > maxBytes))
+      ) {
+        rotate();
+      }
+      period = currentPeriod;
+      writeSync(fd!, bytes);
+      size += bytes.length;
+    } catch (error) {
+      // Logging must not break requests, so the file sink gives up instead
+      failed = true;
+      console.error(`Failed to write log file ${path}:`, error);
+    }
+  };
+
+  return sink;
+}
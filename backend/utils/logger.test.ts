@@ -0,0 +1,77 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { reset, withContext } from "@logtape/logtape";
+import { logger, parseLogLevelConfig, setupLogger } from "./logger.ts";
+
+describe("parseLogLevelConfig", () => {
+  it("accepts a default level and levels per category", () => {
+    expect(
+      parseLogLevelConfig({
+        level: "warning",
+        categories: { chat: "debug", history: "error" },
+      }),
+    ).toEqual({
+      level: "warning",
+      categories: { chat: "debug", history: "error" },
+    });
+    expect(parseLogLevelConfig({})).toEqual({ categories: {} });
+  });
+
+  it("rejects unknown levels and categories", () => {
+    expect(parseLogLevelConfig([])).toBe("Log config must be an object");
+    expect(parseLogLevelConfig({ level: "verbose" })).toBe(
+      "Invalid log level: verbose",
+    );
+    expect(parseLogLevelConfig({ categories: { chat: 1 } })).toBe(
+      "Invalid log level for chat: 1",
+    );
+    expect(parseLogLevelConfig({ categories: { sdk: "debug" } })).toMatch(
+      /^Unknown log category "sdk"/,
+    );
+  });
+});
+
+describe("setupLogger", () => {
+  let dir: string;
+
+  afterAll(async () => {
+    await reset();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes records with their context to the log file", async () => {
+    dir = await mkdtemp(join(tmpdir(), "logger-test-"));
+    const path = join(dir, "server.jsonl");
+    const configPath = join(dir, "log-config.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({ level: "error", categories: { chat: "info" } }),
+    );
+
+    await setupLogger({
+      debug: false,
+      configPath,
+      file: { path, maxSizeMb: 0, rotation: "never", retentionDays: 0 },
+    });
+
+    await withContext({ requestId: "req-1" }, async () => {
+      await Promise.resolve();
+      logger.chat.info("Chat started");
+      logger.history.info("Not logged below error");
+    });
+
+    const records = (await readFile(path, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      level: "INFO",
+      logger: "chat",
+      message: "Chat started",
+      properties: { requestId: "req-1" },
+    });
+  });
+});
@@ -3,54 +3,157 @@
  *
  * Provides centralized logging configuration with debugMode support.
  * Works across both Deno and Node.js environments with unified import syntax.
+ *
+ * Records go to the console and, optionally, to a rotating JSON-lines file.
+ * Levels can be set per category in a JSON config file. Properties set with
+ * LogTape's withContext() (e.g. the requestId of a chat) are added to every
+ * record logged within the callback, including from awaited code.
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import {
   configure,
   getConsoleSink,
   getLogger,
+  isLogLevel,
+  jsonLinesFormatter,
   LogLevel,
+  type Sink,
 } from "@logtape/logtape";
 import { getPrettyFormatter } from "@logtape/pretty";
+import { getRotatingFileSink, type LogFileOptions } from "./logFile.ts";
+import { readTextFile } from "./fs.ts";
+
+/** Categories of the loggers below, the keys of a level config */
+export const LOG_CATEGORIES = ["cli", "chat", "history", "api", "app"] as const;
+export type LogCategory = (typeof LOG_CATEGORIES)[number];
+
+/**
+ * Levels read from the log config file, e.g.
+ * {"level": "info", "categories": {"chat": "debug", "history": "warning"}}
+ */
+export interface LogLevelConfig {
+  level?: LogLevel; // Level of categories not listed, --debug lowers it to debug
+  categories: Partial<Record<LogCategory, LogLevel>>;
+}
+
+export interface LoggerOptions {
+  debug: boolean;
+  file?: LogFileOptions; // JSON-lines file, in addition to the console
+  configPath?: string; // JSON file with a LogLevelConfig
+}
 
 let isConfigured = false;
 
+/**
+ * Check a log level config
+ * @returns The config, or an error message
+ */
+export function parseLogLevelConfig(data: unknown): LogLevelConfig | string {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return "Log config must be an object";
+  }
+  const { level, categories = {} } = data as Record<string, unknown>;
+
+  if (
+    level !== undefined &&
+    (typeof level !== "string" || !isLogLevel(level))
+  ) {
+    return `Invalid log level: ${String(level)}`;
+  }
+  if (
+    typeof categories !== "object" ||
+    categories === null ||
+    Array.isArray(categories)
+  ) {
+    return "categories must be an object";
+  }
+  for (const [category, categoryLevel] of Object.entries(categories)) {
+    if (!(LOG_CATEGORIES as readonly string[]).includes(category)) {
+      return `Unknown log category "${category}", use one of ${LOG_CATEGORIES.join(", ")}`;
+    }
+    if (typeof categoryLevel !== "string" || !isLogLevel(categoryLevel)) {
+      return `Invalid log level for ${category}: ${String(categoryLevel)}`;
+    }
+  }
+
+  return {
+    ...(level !== undefined ? { level: level as LogLevel } : {}),
+    categories: categories as LogLevelConfig["categories"],
+  };
+}
+
+/**
+ * Read the log level config file
+ * @throws Error when the file can't be read or is invalid
+ */
+async function loadLogLevelConfig(path: string): Promise<LogLevelConfig> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read log config ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const config = parseLogLevelConfig(data);
+  if (typeof config === "string") {
+    throw new Error(`Invalid log config ${path}: ${config}`);
+  }
+  return config;
+}
+
 /**
  * Initialize the logging system
- * @param debugMode - Whether to enable debug level logging
+ * @param options - Debug mode, log file and level config
+ * @throws Error when the log config file is invalid
  */
-export async function setupLogger(debugMode: boolean): Promise<void> {
+export async function setupLogger(options: LoggerOptions): Promise<void> {
   if (isConfigured) {
     return; // Avoid double configuration
   }
 
-  const lowestLevel: LogLevel = debugMode ? "debug" : "info";
+  const levels: LogLevelConfig = options.configPath
+    ? await loadLogLevelConfig(options.configPath)
+    : { categories: {} };
+  const defaultLevel: LogLevel = options.debug
+    ? "debug"
+    : (levels.level ?? "info");
 
-  await configure({
-    sinks: {
-      console: getConsoleSink({
-        formatter: getPrettyFormatter({
-          icons: false, // Remove emoji icons
-          align: false, // Disable column alignment for cleaner output
-          inspectOptions: {
-            depth: Infinity, // Unlimited depth for complex objects
-            colors: true, // Keep syntax highlighting
-            compact: false, // Use readable formatting
-          },
-        }),
+  const sinks: Record<string, Sink> = {
+    console: getConsoleSink({
+      formatter: getPrettyFormatter({
+        icons: false, // Remove emoji icons
+        align: false, // Disable column alignment for cleaner output
+        inspectOptions: {
+          depth: Infinity, // Unlimited depth for complex objects
+          colors: true, // Keep syntax highlighting
+          compact: false, // Use readable formatting
+        },
       }),
-    },
+    }),
+  };
+  if (options.file) {
+    sinks.file = getRotatingFileSink(options.file, jsonLinesFormatter);
+  }
+  const sinkNames = Object.keys(sinks);
+
+  await configure({
+    sinks,
+    contextLocalStorage: new AsyncLocalStorage(),
     loggers: [
-      {
-        category: [],
-        lowestLevel,
-        sinks: ["console"],
-      },
+      // A child logger only passes on records its parent's level lets
+      // through, so levels are set per category rather than on the root
+      ...LOG_CATEGORIES.map((category) => ({
+        category: [category],
+        lowestLevel: levels.categories[category] ?? defaultLevel,
+        sinks: sinkNames,
+      })),
       // Suppress LogTape meta logger info messages
       {
         category: ["logtape", "meta"],
         lowestLevel: "warning",
-        sinks: ["console"],
+        sinks: sinkNames,
       },
     ],
   });
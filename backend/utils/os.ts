@@ -54,6 +54,13 @@ export function getHomeDir(): string | undefined {
   }
 }
 
+/**
+ * Get the current working directory of the process
+ */
+export function getCwd(): string {
+  return process.cwd();
+}
+
 /**
  * Exit the process with given code
  */
@@ -1,8 +1,13 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
-import { Suspense, lazy, createContext, useContext, useEffect, useState } from "react";
+import { Suspense, lazy, createContext, useContext, useEffect, useState, type ReactNode } from "react";
 import { ProjectSelector } from "./components/ProjectSelector";
 import { ChatPage } from "./components/ChatPage";
 import { SettingsProvider } from "./contexts/SettingsContext";
+import { AuthProvider } from "./contexts/AuthContext";
+import { LoginPage } from "./components/LoginPage";
+import { RulesEditorPage } from "./components/rules/RulesEditorPage";
+import { UsagePage } from "./components/usage/UsagePage";
+import { useAuth } from "./hooks/useAuth";
 import { isDevelopment } from "./utils/environment";
 
 // Lazy load DemoPage only in development
@@ -27,6 +32,22 @@ const ProjectContext = createContext<ProjectContextValue>({
 
 export const useProject = () => useContext(ProjectContext);
 
+/**
+ * Shows the login page until the user is authenticated
+ */
+function AuthGate({ children }: { children?: ReactNode }) {
+  const { status } = useAuth();
+
+  if (status === "loading") {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  if (status !== "authenticated") {
+    return <LoginPage />;
+  }
+  return children ?? <AppRoot />;
+}
+
 /**
  * Root component that fetches config and manages project state
  */
@@ -64,21 +85,39 @@ function AppRoot() {
 function App() {
   return (
     <SettingsProvider>
-      <Router>
-        <Routes>
-          <Route path="*" element={<AppRoot />} />
-          {DemoPage && (
+      <AuthProvider>
+        <Router>
+          <Routes>
+            <Route path="*" element={<AuthGate />} />
+            <Route
+              path="/admin/rules"
+              element={
+                <AuthGate>
+                  <RulesEditorPage />
+                </AuthGate>
+              }
+            />
             <Route
-              path="/demo"
+              path="/usage"
               element={
-                <Suspense fallback={<div>Loading demo...</div>}>
-                  <DemoPage />
-                </Suspense>
+                <AuthGate>
+                  <UsagePage />
+                </AuthGate>
               }
             />
-          )}
-        </Routes>
-      </Router>
+            {DemoPage && (
+              <Route
+                path="/demo"
+                element={
+                  <Suspense fallback={<div>Loading demo...</div>}>
+                    <DemoPage />
+                  </Suspense>
+                }
+              />
+            )}
+          </Routes>
+        </Router>
+      </AuthProvider>
     </SettingsProvider>
   );
 }
@@ -1,9 +1,11 @@
-import { useEffect, useCallback, useState } from "react";
+import { useEffect, useCallback, useRef, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { ChevronLeftIcon } from "@heroicons/react/24/outline";
 import type {
   ChatRequest,
   ChatMessage,
+  ConversationForkRequest,
+  ConversationForkResponse,
   ProjectInfo,
   PermissionMode,
 } from "../types";
@@ -13,14 +15,29 @@ import { useChatState } from "../hooks/chat/useChatState";
 import { usePermissions } from "../hooks/chat/usePermissions";
 import { usePermissionMode } from "../hooks/chat/usePermissionMode";
 import { useAbortController } from "../hooks/chat/useAbortController";
+import { useActiveStream } from "../hooks/chat/useActiveStream";
 import { useAutoHistoryLoader } from "../hooks/useHistoryLoader";
+import { useAuth } from "../hooks/useAuth";
+import { useSettings } from "../hooks/useSettings";
+import { useServerSettings } from "../hooks/useServerSettings";
 import { SettingsButton } from "./SettingsButton";
 import { SettingsModal } from "./SettingsModal";
 import { HistoryButton } from "./chat/HistoryButton";
+import { RulesEditorButton } from "./chat/RulesEditorButton";
+import { UsageButton } from "./chat/UsageButton";
+import { ExportMenu } from "./chat/ExportMenu";
+import { BranchSwitcher } from "./chat/BranchSwitcher";
 import { ChatInput } from "./chat/ChatInput";
 import { ChatMessages } from "./chat/ChatMessages";
 import { HistoryView } from "./HistoryView";
-import { getChatUrl, getProjectsUrl } from "../config/api";
+import { RulesUpdateBanner } from "./RulesUpdateBanner";
+import { getConversationForkUrl, getProjectsUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+import {
+  ChatStreamError,
+  followChatRequest,
+  sendChatRequest,
+} from "../utils/chatStream";
 import { KEYBOARD_SHORTCUTS } from "../utils/constants";
 import { normalizeWindowsPath } from "../utils/pathUtils";
 import type { StreamingContext } from "../hooks/streaming/useMessageProcessor";
@@ -29,12 +46,16 @@ export function ChatPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { projectPath: workingDirectory } = useProject();
+  const { user } = useAuth();
+  const { streamTransport } = useSettings();
+  const { settings: serverSettings } = useServerSettings();
   const [projects, setProjects] = useState<ProjectInfo[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   // Get current view and sessionId from query parameters
   const currentView = searchParams.get("view");
   const sessionId = searchParams.get("sessionId");
+  const highlightMessageId = searchParams.get("message");
   const isHistoryView = currentView === "history";
   const isLoadedConversation = !!sessionId && !isHistoryView;
 
@@ -84,6 +105,10 @@ export function ChatPage() {
     loading: historyLoading,
     error: historyError,
     sessionId: loadedSessionId,
+    branches,
+    selectedBranchId,
+    selectBranch,
+    getMessageUuids,
   } = useAutoHistoryLoader(
     getEncodedName() || undefined,
     sessionId || undefined,
@@ -96,6 +121,7 @@ export function ChatPage() {
     isLoading,
     currentSessionId,
     currentRequestId,
+    queuePosition,
     hasShownInitMessage,
     currentAssistantMessage,
     setInput,
@@ -105,8 +131,11 @@ export function ChatPage() {
     setCurrentAssistantMessage,
     addMessage,
     updateLastMessage,
+    updateSubagentMessage,
     clearInput,
     generateRequestId,
+    setCurrentRequestId,
+    setQueuePosition,
     resetRequestState,
     startRequest,
   } = useChatState({
@@ -145,6 +174,74 @@ export function ChatPage() {
     [showPermissionRequest, showPlanModeRequest],
   );
 
+  const processStream = useCallback(
+    async (
+      lines: AsyncGenerator<string>,
+      requestId: string,
+      skipUuids?: Set<string>,
+    ) => {
+      // Local state for this streaming session
+      let localHasReceivedInit = false;
+      let shouldAbort = false;
+
+      const streamingContext: StreamingContext = {
+        currentAssistantMessage,
+        setCurrentAssistantMessage,
+        addMessage,
+        updateLastMessage,
+        updateSubagentMessage,
+        onSessionId: setCurrentSessionId,
+        shouldShowInitMessage: () => !hasShownInitMessage,
+        onInitMessageShown: () => setHasShownInitMessage(true),
+        get hasReceivedInit() {
+          return localHasReceivedInit;
+        },
+        setHasReceivedInit: (received: boolean) => {
+          localHasReceivedInit = received;
+          setHasReceivedInit(received);
+        },
+        onPermissionError: handlePermissionError,
+        onAbortRequest: async () => {
+          shouldAbort = true;
+          await createAbortHandler(requestId)();
+        },
+        onQueuePosition: setQueuePosition,
+      };
+
+      // Replayed messages that are already part of the loaded history
+      const isKnownMessage = (line: string) => {
+        if (!skipUuids?.size) return false;
+        try {
+          const { type, data } = JSON.parse(line);
+          return type === "claude_json" && skipUuids.has(data?.uuid);
+        } catch {
+          return false;
+        }
+      };
+
+      for await (const line of lines) {
+        if (shouldAbort) break;
+        if (isKnownMessage(line)) continue;
+        processStreamLine(line, streamingContext);
+      }
+    },
+    [
+      hasShownInitMessage,
+      currentAssistantMessage,
+      addMessage,
+      updateLastMessage,
+      updateSubagentMessage,
+      setCurrentSessionId,
+      setHasShownInitMessage,
+      setHasReceivedInit,
+      setCurrentAssistantMessage,
+      setQueuePosition,
+      processStreamLine,
+      handlePermissionError,
+      createAbortHandler,
+    ],
+  );
+
   const sendMessage = useCallback(
     async (
       messageContent?: string,
@@ -178,70 +275,35 @@ export function ChatPage() {
       startRequest();
 
       try {
-        const response = await fetch(getChatUrl(), {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            message: content,
-            requestId,
-            ...(currentSessionId ? { sessionId: currentSessionId } : {}),
-            allowedTools: tools || allowedTools,
-            ...(workingDirectory ? { workingDirectory } : {}),
-            permissionMode: overridePermissionMode || permissionMode,
-          } as ChatRequest),
-        });
-
-        if (!response.body) throw new Error("No response body");
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-
-        // Local state for this streaming session
-        let localHasReceivedInit = false;
-        let shouldAbort = false;
-
-        const streamingContext: StreamingContext = {
-          currentAssistantMessage,
-          setCurrentAssistantMessage,
-          addMessage,
-          updateLastMessage,
-          onSessionId: setCurrentSessionId,
-          shouldShowInitMessage: () => !hasShownInitMessage,
-          onInitMessageShown: () => setHasShownInitMessage(true),
-          get hasReceivedInit() {
-            return localHasReceivedInit;
-          },
-          setHasReceivedInit: (received: boolean) => {
-            localHasReceivedInit = received;
-            setHasReceivedInit(received);
-          },
-          onPermissionError: handlePermissionError,
-          onAbortRequest: async () => {
-            shouldAbort = true;
-            await createAbortHandler(requestId)();
-          },
+        const chatRequest: ChatRequest = {
+          message: content,
+          requestId,
+          ...(currentSessionId ? { sessionId: currentSessionId } : {}),
+          allowedTools: tools || allowedTools,
+          ...(workingDirectory ? { workingDirectory } : {}),
+          permissionMode: overridePermissionMode || permissionMode,
         };
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done || shouldAbort) break;
-
-          const chunk = decoder.decode(value);
-          const lines = chunk.split("\n").filter((line) => line.trim());
-
-          for (const line of lines) {
-            if (shouldAbort) break;
-            processStreamLine(line, streamingContext);
-          }
-
-          if (shouldAbort) break;
-        }
+        await processStream(
+          sendChatRequest(chatRequest, streamTransport),
+          requestId,
+        );
       } catch (error) {
         console.error("Failed to send message:", error);
+        const status = error instanceof ChatStreamError ? error.status : 0;
         addMessage({
           type: "chat",
           role: "assistant",
-          content: "Error: Failed to get response",
+          content:
+            status === 401
+              ? // Session expired - the login page is shown by AuthProvider
+                "Error: Your session has expired. Please sign in again."
+              : status === 403
+                ? // Sessions of other users cannot be resumed
+                  "Error: You don't have access to this conversation."
+                : status === 429
+                  ? // Daily usage budget used up
+                    `Error: ${(error as ChatStreamError).message}`
+                  : "Error: Failed to get response",
           timestamp: Date.now(),
         });
       } finally {
@@ -253,26 +315,69 @@ export function ChatPage() {
       isLoading,
       currentSessionId,
       allowedTools,
-      hasShownInitMessage,
-      currentAssistantMessage,
       workingDirectory,
       permissionMode,
+      streamTransport,
       generateRequestId,
       clearInput,
       startRequest,
       addMessage,
-      updateLastMessage,
-      setCurrentSessionId,
-      setHasShownInitMessage,
-      setHasReceivedInit,
-      setCurrentAssistantMessage,
       resetRequestState,
-      processStreamLine,
-      handlePermissionError,
-      createAbortHandler,
+      processStream,
     ],
   );
 
+  // Follow a response that is still being written for the loaded session,
+  // e.g. after a refresh or when the session is opened on another device
+  const activeStream = useActiveStream(
+    isLoadedConversation && !historyLoading ? loadedSessionId : null,
+  );
+  const attachedRequestIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!activeStream || isLoading) return;
+    if (attachedRequestIdRef.current === activeStream.requestId) return;
+    attachedRequestIdRef.current = activeStream.requestId;
+
+    const { requestId } = activeStream;
+    const skipUuids = getMessageUuids();
+
+    // Sessions continued by the request don't contain its prompt yet
+    if (activeStream.sessionId !== loadedSessionId) {
+      addMessage({
+        type: "chat",
+        role: "user",
+        content: activeStream.message,
+        timestamp: Date.parse(activeStream.startedAt),
+      });
+    }
+
+    setCurrentRequestId(requestId);
+    startRequest();
+
+    (async () => {
+      try {
+        await processStream(
+          followChatRequest(requestId, streamTransport),
+          requestId,
+          skipUuids,
+        );
+      } catch (error) {
+        console.error("Failed to follow running request:", error);
+        addMessage({
+          type: "chat",
+          role: "assistant",
+          content: "Error: Failed to follow the running response",
+          timestamp: Date.now(),
+        });
+      } finally {
+        resetRequestState();
+      }
+    })();
+    // Attach once per request, later renders must not restart the stream
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeStream]);
+
   const handleAbort = useCallback(() => {
     abortRequest(currentRequestId, isLoading, resetRequestState);
   }, [abortRequest, currentRequestId, isLoading, resetRequestState]);
@@ -389,6 +494,16 @@ export function ChatPage() {
     navigate({ search: searchParams.toString() });
   }, [navigate]);
 
+  const handleRulesEditorClick = useCallback(() => {
+    const searchParams = new URLSearchParams();
+    if (workingDirectory) searchParams.set("project", workingDirectory);
+    navigate({ pathname: "/admin/rules", search: searchParams.toString() });
+  }, [navigate, workingDirectory]);
+
+  const handleUsageClick = useCallback(() => {
+    navigate("/usage");
+  }, [navigate]);
+
   const handleSettingsClick = useCallback(() => {
     setIsSettingsOpen(true);
   }, []);
@@ -401,7 +516,7 @@ export function ChatPage() {
   useEffect(() => {
     const loadProjects = async () => {
       try {
-        const response = await fetch(getProjectsUrl());
+        const response = await apiFetch(getProjectsUrl());
         if (response.ok) {
           const data = await response.json();
           setProjects(data.projects || []);
@@ -417,6 +532,46 @@ export function ChatPage() {
     navigate({ search: "" });
   }, [navigate]);
 
+  // Forks continue in a new session, which is loaded like any conversation
+  const handleForkMessage = useCallback(
+    async (messageId: string) => {
+      const encodedName = getEncodedName();
+      if (!encodedName || !sessionId) return;
+
+      try {
+        const request: ConversationForkRequest = { messageId };
+        const response = await apiFetch(
+          getConversationForkUrl(encodedName, sessionId),
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(request),
+          },
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || response.statusText);
+        }
+
+        const searchParams = new URLSearchParams();
+        searchParams.set(
+          "sessionId",
+          (data as ConversationForkResponse).sessionId,
+        );
+        navigate({ search: searchParams.toString() });
+      } catch (error) {
+        console.error("Failed to fork conversation:", error);
+        addMessage({
+          type: "chat",
+          role: "assistant",
+          content: "Error: Failed to fork conversation",
+          timestamp: Date.now(),
+        });
+      }
+    },
+    [getEncodedName, sessionId, navigate, addMessage],
+  );
+
   const handleBackToHistory = useCallback(() => {
     const searchParams = new URLSearchParams();
     searchParams.set("view", "history");
@@ -508,7 +663,17 @@ export function ChatPage() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            {isLoadedConversation && sessionId && getEncodedName() && (
+              <ExportMenu
+                encodedName={getEncodedName()!}
+                sessionId={sessionId}
+              />
+            )}
+            {user?.isAdmin && (
+              <RulesEditorButton onClick={handleRulesEditorClick} />
+            )}
             {!isHistoryView && <HistoryButton onClick={handleHistoryClick} />}
+            <UsageButton onClick={handleUsageClick} />
             <SettingsButton onClick={handleSettingsClick} />
           </div>
         </div>
@@ -565,8 +730,34 @@ export function ChatPage() {
           </div>
         ) : (
           <>
+            {/* Rules changed on the server while the page was open */}
+            <RulesUpdateBanner />
+
+            {/* Earlier branches of the loaded conversation */}
+            {isLoadedConversation && branches.length > 0 && (
+              <BranchSwitcher
+                branches={branches}
+                selectedBranchId={selectedBranchId}
+                onSelect={selectBranch}
+                onContinue={!isLoading ? handleForkMessage : undefined}
+              />
+            )}
+
             {/* Chat Messages */}
-            <ChatMessages messages={messages} isLoading={isLoading} />
+            <ChatMessages
+              messages={messages}
+              isLoading={isLoading}
+              queuePosition={queuePosition}
+              highlightMessageId={highlightMessageId}
+              onForkMessage={
+                isLoadedConversation && !isLoading
+                  ? handleForkMessage
+                  : undefined
+              }
+              showSubagentActivity={
+                !!user?.isAdmin || !!serverSettings?.showSubagentActivity
+              }
+            />
 
             {/* Input */}
             <ChatInput
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import type {
+  ConversationMetadataResponse,
+  ConversationMetadataUpdate,
+} from "../types";
+import type { ConversationSummary } from "../../../shared/types";
+import { getConversationMetadataUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+
+interface ConversationMetadataModalProps {
+  encodedName: string;
+  conversation: ConversationSummary;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * Edit the title, tags and notes of a conversation
+ */
+export function ConversationMetadataModal({
+  encodedName,
+  conversation,
+  onClose,
+  onSaved,
+}: ConversationMetadataModalProps) {
+  const [title, setTitle] = useState("");
+  const [tags, setTags] = useState(conversation.tags.join(", "));
+  const [notes, setNotes] = useState("");
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const metadataUrl = getConversationMetadataUrl(
+    encodedName,
+    conversation.sessionId,
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadMetadata = async () => {
+      try {
+        const response = await apiFetch(metadataUrl);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || response.statusText);
+        }
+        const { metadata } = data as ConversationMetadataResponse;
+        if (!cancelled) {
+          setTitle(metadata?.title ?? "");
+          setTags((metadata?.tags ?? []).join(", "));
+          setNotes(metadata?.notes ?? "");
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load details",
+          );
+        }
+      } finally {
+        if (!cancelled) setLoaded(true);
+      }
+    };
+
+    loadMetadata();
+    return () => {
+      cancelled = true;
+    };
+  }, [metadataUrl]);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscKey);
+    return () => document.removeEventListener("keydown", handleEscKey);
+  }, [onClose]);
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const update: ConversationMetadataUpdate = {
+      title: title.trim() || null,
+      tags: tags.split(",").filter((tag) => tag.trim()),
+      notes: notes.trim() ? notes : null,
+    };
+
+    setSaving(true);
+    try {
+      const response = await apiFetch(metadataUrl, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || response.statusText);
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save details");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+      onClick={handleBackdropClick}
+    >
+      <form
+        onSubmit={handleSave}
+        className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-xl max-w-lg w-full"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">
+              Conversation Details
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              Session {conversation.sessionId.substring(0, 8)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Close details"
+          >
+            <XMarkIcon className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Title
+            </span>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={conversation.title}
+              maxLength={200}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Tags
+            </span>
+            <input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="bug, billing"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Notes
+            </span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              className={`${inputClassName} mt-1 resize-y`}
+            />
+          </label>
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 px-6 pb-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!loaded || saving}
+            className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import type { SearchResponse, SearchResult, SearchRole } from "../types";
+import { getSearchUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+
+/** Delay between typing and searching */
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface HistorySearchProps {
+  encodedName: string;
+  /** Called with true while a query is entered, so the list can be hidden */
+  onActiveChange: (active: boolean) => void;
+}
+
+/**
+ * Render a snippet with the matched words highlighted
+ */
+function Snippet({ result }: { result: SearchResult }) {
+  const parts = [];
+  let position = 0;
+  result.highlights.forEach(([start, end], index) => {
+    parts.push(result.snippet.slice(position, start));
+    parts.push(
+      <mark
+        key={index}
+        className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded-sm"
+      >
+        {result.snippet.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+  parts.push(result.snippet.slice(position));
+
+  return <>{parts}</>;
+}
+
+/**
+ * Full-text search across the conversations of a project
+ * Results link to the matching message inside the conversation
+ */
+export function HistorySearch({
+  encodedName,
+  onActiveChange,
+}: HistorySearchProps) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [role, setRole] = useState<SearchRole | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    onActiveChange(!!trimmedQuery);
+  }, [trimmedQuery, onActiveChange]);
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResponse(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: trimmedQuery });
+      if (role) params.set("role", role);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+
+      setSearching(true);
+      try {
+        const res = await apiFetch(getSearchUrl(encodedName, params));
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || res.statusText);
+        }
+        if (!cancelled) {
+          setResponse(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Search failed");
+        }
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [encodedName, trimmedQuery, role, from, to]);
+
+  const handleResultSelect = (result: SearchResult) => {
+    const searchParams = new URLSearchParams();
+    searchParams.set("sessionId", result.sessionId);
+    searchParams.set("message", result.messageId);
+    navigate({ search: searchParams.toString() });
+  };
+
+  const inputClassName =
+    "px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <MagnifyingGlassIcon className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            aria-label="Search conversations"
+            className={`${inputClassName} w-full pl-9`}
+          />
+        </div>
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as SearchRole | "")}
+          aria-label="Message author"
+          className={inputClassName}
+        >
+          <option value="">All messages</option>
+          <option value="user">Questions</option>
+          <option value="assistant">Answers</option>
+        </select>
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          aria-label="From date"
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          aria-label="To date"
+          className={inputClassName}
+        />
+        {(query || role || from || to) && (
+          <button
+            onClick={() => {
+              setQuery("");
+              setRole("");
+              setFrom("");
+              setTo("");
+            }}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Clear search"
+          >
+            <XMarkIcon className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+          </button>
+        )}
+      </div>
+
+      {trimmedQuery && (
+        <div className="mt-4 grid gap-3">
+          {error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : !response ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Searching...
+            </p>
+          ) : response.results.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              No messages match “{response.query}”.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {response.total} matching messages
+                {response.total > response.results.length &&
+                  `, showing the best ${response.results.length}`}
+                {searching && " • updating..."}
+              </p>
+              {response.results.map((result) => (
+                <button
+                  key={`${result.sessionId}-${result.messageId}`}
+                  onClick={() => handleResultSelect(result)}
+                  className="text-left p-4 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-colors shadow-sm hover:shadow-md"
+                >
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {result.role === "user" ? "Question" : "Answer"} •{" "}
+                    {new Date(result.timestamp).toLocaleString()} • Session{" "}
+                    {result.sessionId.substring(0, 8)}
+                  </p>
+                  <p className="text-sm text-slate-700 dark:text-slate-300 mt-2">
+                    <Snippet result={result} />
+                  </p>
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
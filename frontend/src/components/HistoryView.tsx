@@ -1,7 +1,27 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import type { ConversationSummary } from "../../../shared/types";
-import { getHistoriesUrl } from "../config/api";
+import { BookmarkIcon, PencilSquareIcon } from "@heroicons/react/24/outline";
+import { BookmarkIcon as BookmarkSolidIcon } from "@heroicons/react/24/solid";
+import type {
+  ConversationForkPoint,
+  ConversationSummary,
+  HistoryListResponse,
+  HistorySortKey,
+} from "../../../shared/types";
+import { getConversationMetadataUrl, getHistoriesUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+import { RulesVersionModal } from "./RulesVersionModal";
+import { ConversationMetadataModal } from "./ConversationMetadataModal";
+import { HistorySearch } from "./HistorySearch";
+
+/** Conversations loaded per page */
+const PAGE_SIZE = 30;
+
+const SORT_OPTIONS: { value: HistorySortKey; label: string }[] = [
+  { value: "startTime", label: "Newest first" },
+  { value: "lastTime", label: "Recently active" },
+  { value: "messageCount", label: "Most messages" },
+];
 
 interface HistoryViewProps {
   workingDirectory: string;
@@ -14,6 +34,38 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
   const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [rulesHash, setRulesHash] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [sort, setSort] = useState<HistorySortKey>("startTime");
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [tag, setTag] = useState("");
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [editing, setEditing] = useState<ConversationSummary | null>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Incremented when the list is reloaded, so late pages of an old sort are dropped
+  const listVersionRef = useRef(0);
+
+  const fetchPage = useCallback(
+    async (cursor?: string): Promise<HistoryListResponse> => {
+      const params = new URLSearchParams({
+        sort,
+        limit: String(PAGE_SIZE),
+      });
+      if (tag) params.set("tag", tag);
+      if (cursor) params.set("cursor", cursor);
+
+      const response = await apiFetch(getHistoriesUrl(encodedName!, params));
+      if (!response.ok) {
+        throw new Error(`Failed to load conversations: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    [encodedName, sort, tag],
+  );
 
   useEffect(() => {
     const loadConversations = async () => {
@@ -22,28 +74,87 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
         return;
       }
 
+      const version = ++listVersionRef.current;
       try {
         setLoading(true);
-        const response = await fetch(getHistoriesUrl(encodedName));
-
-        if (!response.ok) {
-          throw new Error(
-            `Failed to load conversations: ${response.statusText}`,
-          );
-        }
-        const data = await response.json();
+        const data = await fetchPage();
+        if (version !== listVersionRef.current) return;
         setConversations(data.conversations || []);
+        setNextCursor(data.nextCursor ?? null);
+        setTotal(data.total ?? data.conversations?.length ?? 0);
+        setAllTags(data.tags ?? []);
       } catch (err) {
         setError(
           err instanceof Error ? err.message : "Failed to load conversations",
         );
       } finally {
-        setLoading(false);
+        if (version === listVersionRef.current) setLoading(false);
       }
     };
 
     loadConversations();
-  }, [encodedName]);
+  }, [encodedName, fetchPage, reloadKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const version = listVersionRef.current;
+    setLoadingMore(true);
+    try {
+      const data = await fetchPage(nextCursor);
+      if (version !== listVersionRef.current) return;
+      setConversations((prev) => [...prev, ...data.conversations]);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+    } catch (err) {
+      console.error("Failed to load more conversations:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, fetchPage]);
+
+  // Infinite scroll: load the next page when the end of the list is visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || typeof IntersectionObserver === "undefined")
+      return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { root: scrollContainerRef.current, rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, isSearching]);
+
+  // Pinning moves the conversation, so the list is loaded again
+  const handleTogglePin = async (conversation: ConversationSummary) => {
+    try {
+      const response = await apiFetch(
+        getConversationMetadataUrl(encodedName!, conversation.sessionId),
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ pinned: !conversation.pinned }),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error("Failed to pin conversation:", err);
+    }
+  };
+
+  const handleForkPointSelect = (forkedFrom: ConversationForkPoint) => {
+    const searchParams = new URLSearchParams();
+    searchParams.set("sessionId", forkedFrom.sessionId);
+    searchParams.set("message", forkedFrom.messageId);
+    navigate({ search: searchParams.toString() });
+  };
 
   const handleConversationSelect = (sessionId: string) => {
     const searchParams = new URLSearchParams();
@@ -51,6 +162,147 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
     navigate({ search: searchParams.toString() });
   };
 
+  // Forks are shown below the conversation they were forked from, when it is
+  // on a loaded page
+  const loadedIds = new Set(conversations.map(({ sessionId }) => sessionId));
+  const forkRoots = conversations.filter(
+    ({ forkedFrom }) => !forkedFrom || !loadedIds.has(forkedFrom.sessionId),
+  );
+  const forksByParent = new Map<string, ConversationSummary[]>();
+  for (const conversation of conversations) {
+    const parentId = conversation.forkedFrom?.sessionId;
+    if (parentId && loadedIds.has(parentId)) {
+      forksByParent.set(parentId, [
+        ...(forksByParent.get(parentId) ?? []),
+        conversation,
+      ]);
+    }
+  }
+
+  const renderConversation = (conversation: ConversationSummary) => {
+    const forks = forksByParent.get(conversation.sessionId) ?? [];
+    return (
+      <div key={conversation.sessionId} className="grid gap-4">
+        <div
+          onClick={() => handleConversationSelect(conversation.sessionId)}
+          className="p-4 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-colors cursor-pointer shadow-sm hover:shadow-md"
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <h3 className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                {conversation.title}
+              </h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Session {conversation.sessionId.substring(0, 8)} •{" "}
+                {conversation.forkedFrom && (
+                  <>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleForkPointSelect(conversation.forkedFrom!);
+                      }}
+                      className="hover:text-blue-600 dark:hover:text-blue-400 underline decoration-dotted"
+                      title="Open the message this conversation was forked from"
+                    >
+                      forked from{" "}
+                      {conversation.forkedFrom.sessionId.substring(0, 8)}
+                    </button>{" "}
+                    •{" "}
+                  </>
+                )}
+                {new Date(conversation.startTime).toLocaleString()} •{" "}
+                {conversation.messageCount} messages
+                {conversation.rulesHash && (
+                  <>
+                    {" "}
+                    •{" "}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setRulesHash(conversation.rulesHash!);
+                      }}
+                      className="font-mono hover:text-blue-600 dark:hover:text-blue-400 underline decoration-dotted"
+                      title="Show the rules this conversation was answered under"
+                    >
+                      rules {conversation.rulesHash.substring(0, 7)}
+                    </button>
+                  </>
+                )}
+              </p>
+              {conversation.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {conversation.tags.map((name) => (
+                    <button
+                      key={name}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setTag(name);
+                      }}
+                      className="px-2 py-0.5 text-xs rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"
+                    >
+                      #{name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-sm text-slate-600 dark:text-slate-300 mt-2 line-clamp-2">
+                {conversation.lastMessagePreview}
+              </p>
+            </div>
+            <div className="ml-4 flex-shrink-0 flex items-center gap-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleTogglePin(conversation);
+                }}
+                className="p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+                aria-label={
+                  conversation.pinned
+                    ? "Unpin conversation"
+                    : "Pin conversation"
+                }
+              >
+                {conversation.pinned ? (
+                  <BookmarkSolidIcon className="w-4 h-4 text-amber-500" />
+                ) : (
+                  <BookmarkIcon className="w-4 h-4 text-slate-400" />
+                )}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditing(conversation);
+                }}
+                className="p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+                aria-label="Edit title, tags and notes"
+              >
+                <PencilSquareIcon className="w-4 h-4 text-slate-400" />
+              </button>
+              <svg
+                className="w-5 h-5 text-slate-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5l7 7-7 7"
+                />
+              </svg>
+            </div>
+          </div>
+        </div>
+        {forks.length > 0 && (
+          <div className="ml-6 pl-4 border-l-2 border-slate-200 dark:border-slate-700 grid gap-4">
+            {forks.map(renderConversation)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (loading || !encodedName) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -94,7 +346,7 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
     );
   }
 
-  if (conversations.length === 0) {
+  if (conversations.length === 0 && !tag) {
     return (
       <div className="flex-1 flex items-center justify-center">
         <div className="text-center">
@@ -126,47 +378,84 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
 
   return (
     <div className="flex-1 overflow-hidden">
-      <div className="p-6 h-full flex flex-col">
-        <div className="grid gap-4 flex-1 overflow-y-auto">
-          {conversations.map((conversation) => (
-            <div
-              key={conversation.sessionId}
-              onClick={() => handleConversationSelect(conversation.sessionId)}
-              className="p-4 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-colors cursor-pointer shadow-sm hover:shadow-md"
+      <div
+        ref={scrollContainerRef}
+        className="p-6 h-full flex flex-col overflow-y-auto"
+      >
+        <HistorySearch
+          encodedName={encodedName}
+          onActiveChange={setIsSearching}
+        />
+        <div
+          className={`flex items-center justify-between mb-3 ${isSearching ? "hidden" : ""}`}
+        >
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {total} conversations
+          </p>
+          <div className="flex items-center gap-2">
+            {allTags.length > 0 && (
+              <select
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                aria-label="Filter by tag"
+                className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All tags</option>
+                {allTags.map((name) => (
+                  <option key={name} value={name}>
+                    #{name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as HistorySortKey)}
+              aria-label="Sort conversations"
+              className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <div className="flex items-start justify-between">
-                <div className="flex-1 min-w-0">
-                  <h3 className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
-                    Session: {conversation.sessionId.substring(0, 8)}...
-                  </h3>
-                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                    {new Date(conversation.startTime).toLocaleString()} •{" "}
-                    {conversation.messageCount} messages
-                  </p>
-                  <p className="text-sm text-slate-600 dark:text-slate-300 mt-2 line-clamp-2">
-                    {conversation.lastMessagePreview}
-                  </p>
-                </div>
-                <div className="ml-4 flex-shrink-0">
-                  <svg
-                    className="w-5 h-5 text-slate-400"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 5l7 7-7 7"
-                    />
-                  </svg>
-                </div>
-              </div>
-            </div>
-          ))}
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
+        <div className={`grid gap-4 flex-1 ${isSearching ? "hidden" : ""}`}>
+          {forkRoots.map(renderConversation)}
+        </div>
+        {nextCursor && !isSearching && (
+          <div ref={sentinelRef} className="flex justify-center pt-4">
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="px-4 py-2 text-sm rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        )}
       </div>
+
+      {editing && (
+        <ConversationMetadataModal
+          encodedName={encodedName}
+          conversation={editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            setReloadKey((key) => key + 1);
+          }}
+        />
+      )}
+
+      {rulesHash && (
+        <RulesVersionModal
+          hash={rulesHash}
+          onClose={() => setRulesHash(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { LockClosedIcon } from "@heroicons/react/24/outline";
+import { useAuth } from "../hooks/useAuth";
+import { getOidcLoginUrl } from "../config/api";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function LoginPage() {
+  const { mode, login } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [token, setToken] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(
+    searchParams.get("authError") ? "Login failed. Please try again." : null,
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await login(mode === "token" ? { token } : { username, password });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Login failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOidcLogin = () => {
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    window.location.href = getOidcLoginUrl(returnTo);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 transition-colors duration-300 p-6">
+      <div className="w-full max-w-sm bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-sm p-8">
+        <div className="flex items-center gap-3 mb-6">
+          <LockClosedIcon className="w-6 h-6 text-slate-500 dark:text-slate-400" />
+          <h1 className="text-slate-800 dark:text-slate-100 text-2xl font-bold tracking-tight">
+            Sign in
+          </h1>
+        </div>
+
+        {error && (
+          <div
+            role="alert"
+            className="mb-4 text-sm text-red-600 dark:text-red-400"
+          >
+            {error}
+          </div>
+        )}
+
+        {mode === null && !error && (
+          <div className="text-sm text-red-600 dark:text-red-400">
+            Unable to reach the server.
+          </div>
+        )}
+
+        {mode === "oidc" && (
+          <button
+            onClick={handleOidcLogin}
+            className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Sign in with SSO
+          </button>
+        )}
+
+        {(mode === "token" || mode === "basic") && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === "token" ? (
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="Access token"
+                aria-label="Access token"
+                autoComplete="current-password"
+                className={INPUT_CLASS}
+              />
+            ) : (
+              <>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Username"
+                  aria-label="Username"
+                  autoComplete="username"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  aria-label="Password"
+                  autoComplete="current-password"
+                  className={INPUT_CLASS}
+                />
+              </>
+            )}
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+            >
+              {submitting ? "Signing in..." : "Sign in"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import type {
   TodoMessage,
   TodoItem,
   HooksMessage,
+  PolicyDeniedMessage,
+  SubagentMessage,
 } from "../types";
 import { TimestampComponent } from "./TimestampComponent";
 import { MessageContainer } from "./messages/MessageContainer";
@@ -39,9 +41,13 @@ function isHooksMessage(
 
 interface ChatMessageComponentProps {
   message: ChatMessage;
+  onFork?: () => void; // Shown as "Fork" for messages of saved conversations
 }
 
-export function ChatMessageComponent({ message }: ChatMessageComponentProps) {
+export function ChatMessageComponent({
+  message,
+  onFork,
+}: ChatMessageComponentProps) {
   const isUser = message.role === "user";
   const colorScheme = isUser
     ? "bg-blue-600 text-white"
@@ -60,12 +66,25 @@ export function ChatMessageComponent({ message }: ChatMessageComponentProps) {
         >
           {isUser ? "User" : "小助手"}
         </div>
-        <TimestampComponent
-          timestamp={message.timestamp}
-          className={`text-xs opacity-70 ${
-            isUser ? "text-blue-200" : "text-slate-500 dark:text-slate-500"
-          }`}
-        />
+        <div className="flex items-center gap-3">
+          {onFork && (
+            <button
+              onClick={onFork}
+              className={`text-xs opacity-70 hover:opacity-100 hover:underline ${
+                isUser ? "text-blue-100" : "text-slate-600 dark:text-slate-400"
+              }`}
+              title="Continue the conversation from this message in a new session"
+            >
+              Fork
+            </button>
+          )}
+          <TimestampComponent
+            timestamp={message.timestamp}
+            className={`text-xs opacity-70 ${
+              isUser ? "text-blue-200" : "text-slate-500 dark:text-slate-500"
+            }`}
+          />
+        </div>
       </div>
       <CodeBlockRenderer content={message.content} />
     </MessageContainer>
@@ -137,6 +156,35 @@ export function SystemMessageComponent({
   );
 }
 
+interface PolicyDeniedMessageComponentProps {
+  message: PolicyDeniedMessage;
+}
+
+export function PolicyDeniedMessageComponent({
+  message,
+}: PolicyDeniedMessageComponentProps) {
+  return (
+    <MessageContainer
+      alignment="left"
+      colorScheme="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800"
+    >
+      <div className="mb-1 flex items-center justify-between gap-4">
+        <div className="text-xs font-semibold opacity-90 text-red-700 dark:text-red-300 flex items-center gap-2">
+          <span role="img" aria-label="blocked">
+            🚫
+          </span>
+          已被策略阻止 · {message.toolName}
+        </div>
+        <TimestampComponent
+          timestamp={message.timestamp}
+          className="text-xs opacity-70 text-red-500 dark:text-red-400"
+        />
+      </div>
+      <div className="text-sm">{message.reason}</div>
+    </MessageContainer>
+  );
+}
+
 interface ToolMessageComponentProps {
   message: ToolMessage;
 }
@@ -236,6 +284,54 @@ export function ToolResultMessageComponent({
   );
 }
 
+interface SubagentMessageComponentProps {
+  message: SubagentMessage;
+}
+
+/**
+ * Collapsible panel of a sub-agent (Task tool) run
+ * The header tells which files it read; the details list every tool call
+ * and the report it returned
+ */
+export function SubagentMessageComponent({
+  message,
+}: SubagentMessageComponentProps) {
+  const sections = [
+    message.filesRead.length > 0 &&
+      `Files read:\n${message.filesRead.map((file) => `  ${file}`).join("\n")}`,
+    message.steps.length > 0 &&
+      `Steps:\n${message.steps
+        .map(
+          (step) => `  ${step.toolName}${step.detail ? ` ${step.detail}` : ""}`,
+        )
+        .join("\n")}`,
+    message.result && `Report:\n${message.result}`,
+  ].filter(Boolean);
+
+  const badge =
+    message.status === "running"
+      ? "exploring…"
+      : message.status === "failed"
+        ? "failed"
+        : `${message.filesRead.length} ${message.filesRead.length === 1 ? "file" : "files"} read`;
+
+  return (
+    <CollapsibleDetails
+      label={`Exploration · ${message.description}`}
+      details={sections.join("\n\n")}
+      badge={badge}
+      icon={<span className="bg-sky-400 dark:bg-sky-500">🔍</span>}
+      colorScheme={{
+        header: "text-sky-800 dark:text-sky-300",
+        content: "text-sky-700 dark:text-sky-300",
+        border: "border-sky-200 dark:border-sky-700",
+        bg: "bg-sky-50/80 dark:bg-sky-900/20 border border-sky-200 dark:border-sky-800",
+      }}
+      showPreview={false}
+    />
+  );
+}
+
 interface PlanMessageComponentProps {
   message: PlanMessage;
 }
@@ -381,7 +477,11 @@ export function TodoMessageComponent({ message }: TodoMessageComponentProps) {
   );
 }
 
-export function LoadingComponent() {
+interface LoadingComponentProps {
+  queuePosition?: number | null; // Set while the request waits for a free slot
+}
+
+export function LoadingComponent({ queuePosition }: LoadingComponentProps) {
   return (
     <MessageContainer
       alignment="left"
@@ -392,7 +492,11 @@ export function LoadingComponent() {
       </div>
       <div className="flex items-center gap-2 text-sm">
         <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
-        <span className="animate-pulse">Thinking...</span>
+        <span className="animate-pulse">
+          {queuePosition
+            ? `Waiting for a free slot, you are #${queuePosition} in line...`
+            : "Thinking..."}
+        </span>
       </div>
     </MessageContainer>
   );
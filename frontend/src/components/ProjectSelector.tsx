@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { FolderIcon } from "@heroicons/react/24/outline";
 import type { ProjectsResponse, ProjectInfo } from "../types";
 import { getProjectsUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
 import { SettingsButton } from "./SettingsButton";
 import { SettingsModal } from "./SettingsModal";
 
@@ -22,7 +23,7 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
   const loadProjects = async () => {
     try {
       setLoading(true);
-      const response = await fetch(getProjectsUrl());
+      const response = await apiFetch(getProjectsUrl());
       if (!response.ok) {
         throw new Error(`Failed to load projects: ${response.statusText}`);
       }
@@ -0,0 +1,28 @@
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useRulesUpdates } from "../hooks/useRulesUpdates";
+
+export function RulesUpdateBanner() {
+  const { updatedVersion, dismiss } = useRulesUpdates();
+
+  if (updatedVersion === null) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-between gap-3 mb-3 px-4 py-2 text-sm text-blue-800 dark:text-blue-200 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg flex-shrink-0"
+    >
+      <span>
+        Rules updated to v{updatedVersion}. New messages use the updated rules.
+      </span>
+      <button
+        onClick={dismiss}
+        className="p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-800/40 transition-colors"
+        aria-label="Dismiss"
+      >
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
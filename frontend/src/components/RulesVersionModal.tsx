@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import type { RulesVersionSnapshot } from "../types";
+import { getRulesVersionUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+
+interface RulesVersionModalProps {
+  hash: string;
+  onClose: () => void;
+}
+
+/**
+ * Shows the exact rules a conversation was answered under
+ */
+export function RulesVersionModal({ hash, onClose }: RulesVersionModalProps) {
+  const [snapshot, setSnapshot] = useState<RulesVersionSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSnapshot = async () => {
+      try {
+        const response = await apiFetch(getRulesVersionUrl(hash));
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || response.statusText);
+        }
+        if (!cancelled) setSnapshot(data.version);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load rules version",
+          );
+        }
+      }
+    };
+
+    loadSnapshot();
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscKey);
+    return () => document.removeEventListener("keydown", handleEscKey);
+  }, [onClose]);
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">
+              Rules {hash}
+            </h2>
+            {snapshot && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                First used {new Date(snapshot.createdAt).toLocaleString()} •{" "}
+                {snapshot.layers.map((layer) => layer.name).join(" + ")}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Close rules"
+          >
+            <XMarkIcon className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto max-h-[calc(90vh-120px)] p-6">
+          {error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : snapshot ? (
+            <pre className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap font-mono">
+              {snapshot.content}
+            </pre>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Loading rules...
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useEffect } from "react";
 import { XMarkIcon } from "@heroicons/react/24/outline";
 import { GeneralSettings } from "./settings/GeneralSettings";
+import { AccountSettings } from "./settings/AccountSettings";
+import { AdminSettings } from "./settings/AdminSettings";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -58,8 +60,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
         {/* Content */}
         <div className="overflow-y-auto max-h-[calc(90vh-120px)]">
-          <div className="p-6">
+          <div className="p-6 space-y-6">
             <GeneralSettings />
+            <AdminSettings />
+            <AccountSettings />
           </div>
         </div>
       </div>
@@ -0,0 +1,65 @@
+import type { ChangeEvent } from "react";
+import type { ConversationBranch } from "../../types";
+import { getLastMessageUuid } from "../../utils/conversationBranches";
+
+interface BranchSwitcherProps {
+  branches: ConversationBranch[];
+  selectedBranchId: string | null;
+  onSelect: (branchId: string | null) => void;
+  onContinue?: (messageId: string) => void;
+}
+
+/**
+ * Switch between the branches of a loaded conversation
+ * Sent messages always continue the latest branch, so other branches are
+ * continued by forking their last message
+ */
+export function BranchSwitcher({
+  branches,
+  selectedBranchId,
+  onSelect,
+  onContinue,
+}: BranchSwitcherProps) {
+  const selected = branches.find((branch) => branch.id === selectedBranchId);
+  const lastMessageUuid = selected && getLastMessageUuid(selected.messages);
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    onSelect(event.target.value || null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-3 px-4 py-2 text-sm text-slate-700 dark:text-slate-300 bg-white/80 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 rounded-lg flex-shrink-0">
+      <label className="flex items-center gap-2 min-w-0">
+        <span className="whitespace-nowrap">Branch</span>
+        <select
+          value={selectedBranchId ?? ""}
+          onChange={handleChange}
+          className="min-w-0 max-w-md truncate px-2 py-1 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900"
+        >
+          <option value="">Latest</option>
+          {branches.map((branch, index) => (
+            <option key={branch.id} value={branch.id}>
+              {`#${index + 1} · ${new Date(branch.lastTime).toLocaleString()}`}
+              {branch.preview ? ` · ${branch.preview}` : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+      {selected && (
+        <>
+          <span className="text-slate-500 dark:text-slate-400">
+            New messages continue the latest branch.
+          </span>
+          {onContinue && lastMessageUuid && (
+            <button
+              onClick={() => onContinue(lastMessageUuid)}
+              className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              Continue this branch
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,44 +1,39 @@
 import { useRef, useEffect } from "react";
 import type { AllMessage } from "../../types";
-import { isChatMessage } from "../../types";
-import { ChatMessageComponent, LoadingComponent } from "../MessageComponents";
+import {
+  isChatMessage,
+  isPolicyDeniedMessage,
+  isSubagentMessage,
+} from "../../types";
+import {
+  ChatMessageComponent,
+  LoadingComponent,
+  PolicyDeniedMessageComponent,
+  SubagentMessageComponent,
+} from "../MessageComponents";
 // import { UI_CONSTANTS } from "../../utils/constants"; // Unused for now
 
-/**
- * Check if message contains RULES.md injected content
- * Rules are injected with a separator "----" pattern
- */
-function isRulesMessage(message: AllMessage): boolean {
-  if (!isChatMessage(message)) return false;
-  if (message.role !== "user") return false;
-
-  const content = message.content.trim();
-
-  // Rules messages have these characteristics:
-  // 1. Start with markdown heading (#) or contain common rule keywords
-  // 2. Contain the separator "----"
-  // 3. Contain "User message:" or similar at the end
-  const hasSeparator = content.includes("----");
-  const hasUserMessageMarker = content.includes("User message:") ||
-                                content.includes("用户消息:");
-  const startsWithHeading = content.startsWith("#") ||
-                            content.includes("安全规则") ||
-                            content.includes("安全原则");
-
-  // Also check for very long user messages with separator (likely rules)
-  const isLongWithSeparator = content.length > 500 && hasSeparator && hasUserMessageMarker;
-
-  return hasSeparator && hasUserMessageMarker && (startsWithHeading || isLongWithSeparator);
-}
-
 interface ChatMessagesProps {
   messages: AllMessage[];
   isLoading: boolean;
+  queuePosition?: number | null; // Place in the server's request queue while waiting
+  highlightMessageId?: string | null; // uuid of a message to scroll to (search results)
+  onForkMessage?: (messageId: string) => void; // Enables forking at saved messages
+  showSubagentActivity?: boolean; // Admin setting, always on for admins
 }
 
-export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
+export function ChatMessages({
+  messages,
+  isLoading,
+  queuePosition,
+  highlightMessageId,
+  onForkMessage,
+  showSubagentActivity = false,
+}: ChatMessagesProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const highlightedRef = useRef<HTMLDivElement>(null);
+  const scrolledToHighlightRef = useRef<string | null>(null);
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -59,10 +54,19 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
   //   );
   // };
 
-  // Auto-scroll when messages change
+  // Auto-scroll when messages change, once to the linked message first
   useEffect(() => {
+    if (
+      highlightMessageId &&
+      scrolledToHighlightRef.current !== highlightMessageId &&
+      highlightedRef.current?.scrollIntoView
+    ) {
+      highlightedRef.current.scrollIntoView({ block: "center" });
+      scrolledToHighlightRef.current = highlightMessageId;
+      return;
+    }
     scrollToBottom();
-  }, [messages]);
+  }, [messages, highlightMessageId]);
 
   const renderMessage = (message: AllMessage, index: number) => {
     // Use timestamp as key for stable rendering, fallback to index if needed
@@ -70,11 +74,34 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
 
     // Safe mode: Only show chat messages (user + assistant)
     // Hide all other message types per requirements
-    // Also hide RULES.md injected messages
-    if (isChatMessage(message) && !isRulesMessage(message)) {
-      return <ChatMessageComponent key={key} message={message} />;
+    if (isChatMessage(message)) {
+      const messageId = message.uuid;
+      const onFork =
+        onForkMessage && messageId ? () => onForkMessage(messageId) : undefined;
+      if (highlightMessageId && messageId === highlightMessageId) {
+        return (
+          <div
+            key={key}
+            ref={highlightedRef}
+            className="rounded-xl ring-2 ring-amber-400/70 ring-offset-2 ring-offset-white dark:ring-offset-slate-800"
+          >
+            <ChatMessageComponent message={message} onFork={onFork} />
+          </div>
+        );
+      }
+      return (
+        <ChatMessageComponent key={key} message={message} onFork={onFork} />
+      );
+    }
+    // Show tool calls blocked by the server tool policy
+    if (isPolicyDeniedMessage(message)) {
+      return <PolicyDeniedMessageComponent key={key} message={message} />;
+    }
+    // Show sub-agent runs when the server allows it
+    if (showSubagentActivity && isSubagentMessage(message)) {
+      return <SubagentMessageComponent key={key} message={message} />;
     }
-    // Hide: system, tool, tool_result, plan, thinking, todo, and rules messages
+    // Hide: system, tool, tool_result, plan, thinking, and todo messages
     return null;
   };
 
@@ -90,7 +117,7 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
           {/* Spacer div to push messages to the bottom */}
           <div className="flex-1" aria-hidden="true"></div>
           {messages.map(renderMessage)}
-          {isLoading && <LoadingComponent />}
+          {isLoading && <LoadingComponent queuePosition={queuePosition} />}
           <div ref={messagesEndRef} />
         </>
       )}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { getConversationExportUrl } from "../../config/api";
+
+const EXPORT_FORMATS = [
+  { format: "md", label: "Markdown" },
+  { format: "html", label: "HTML page" },
+  { format: "json", label: "JSON bundle" },
+] as const;
+
+interface ExportMenuProps {
+  encodedName: string;
+  sessionId: string;
+}
+
+/**
+ * Download the loaded conversation as Markdown, HTML or JSON
+ * The server sends the file as an attachment, so plain links are enough
+ */
+export function ExportMenu({ encodedName, sessionId }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-3 rounded-xl bg-white/80 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 backdrop-blur-sm shadow-sm hover:shadow-md"
+        aria-label="Export conversation"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <ArrowDownTrayIcon className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-40 py-1 z-10 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-lg"
+        >
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={getConversationExportUrl(encodedName, sessionId, format)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { DocumentTextIcon } from "@heroicons/react/24/outline";
+
+interface RulesEditorButtonProps {
+  onClick: () => void;
+}
+
+export function RulesEditorButton({ onClick }: RulesEditorButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="p-3 rounded-xl bg-white/80 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 backdrop-blur-sm shadow-sm hover:shadow-md"
+      aria-label="Edit rules"
+    >
+      <DocumentTextIcon className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+    </button>
+  );
+}
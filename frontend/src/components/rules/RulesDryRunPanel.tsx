@@ -0,0 +1,178 @@
+import { useCallback, useRef, useState } from "react";
+import { PlayIcon, StopIcon } from "@heroicons/react/24/outline";
+import type {
+  RulesDryRunRequest,
+  SDKMessage,
+  StreamResponse,
+} from "../../types";
+import { getAbortUrl, getRulesDryRunUrl } from "../../config/api";
+import { apiFetch } from "../../utils/apiFetch";
+import { generateId } from "../../utils/id";
+import { CodeBlockRenderer } from "../CodeBlockRenderer";
+
+interface RulesDryRunPanelProps {
+  draft: string;
+  workingDirectory?: string;
+}
+
+/**
+ * Extract the text Claude wrote from a streamed SDK message
+ */
+function getAssistantText(message: SDKMessage): string {
+  if (message.type !== "assistant") return "";
+  const content = message.message.content as Array<{
+    type: string;
+    text?: string;
+  }>;
+  return content
+    .map((block) => (block.type === "text" ? (block.text ?? "") : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Asks a sample question with the draft rules before they are published
+ * The answer comes from a throwaway session that is not kept in history
+ */
+export function RulesDryRunPanel({
+  draft,
+  workingDirectory,
+}: RulesDryRunPanelProps) {
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState<string[]>([]);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const requestIdRef = useRef<string | null>(null);
+
+  const handleLine = useCallback((line: string) => {
+    const response = JSON.parse(line) as StreamResponse;
+    if (response.type === "claude_json" && response.data) {
+      const text = getAssistantText(response.data as SDKMessage);
+      if (text) setAnswer((prev) => [...prev, text]);
+    } else if (response.type === "policy_denied" && response.policyDenial) {
+      const denial = response.policyDenial;
+      setNotes((prev) => [
+        ...prev,
+        `${denial.toolName} was blocked: ${denial.reason}`,
+      ]);
+    } else if (response.type === "error") {
+      setError(response.error || "Dry run failed");
+    } else if (response.type === "aborted") {
+      setNotes((prev) => [...prev, "Dry run stopped"]);
+    }
+  }, []);
+
+  const runDryRun = useCallback(async () => {
+    const requestId = generateId();
+    requestIdRef.current = requestId;
+    setAnswer([]);
+    setNotes([]);
+    setError(null);
+    setRunning(true);
+
+    try {
+      const response = await apiFetch(getRulesDryRunUrl(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: draft,
+          question,
+          requestId,
+          ...(workingDirectory ? { workingDirectory } : {}),
+        } as RulesDryRunRequest),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || response.statusText);
+      }
+      if (!response.body) throw new Error("No response body");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.filter((line) => line.trim()).forEach(handleLine);
+      }
+      if (buffer.trim()) handleLine(buffer);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Dry run failed");
+    } finally {
+      requestIdRef.current = null;
+      setRunning(false);
+    }
+  }, [draft, question, workingDirectory, handleLine]);
+
+  const stopDryRun = useCallback(async () => {
+    if (!requestIdRef.current) return;
+    try {
+      await apiFetch(getAbortUrl(requestIdRef.current), { method: "POST" });
+    } catch (err) {
+      console.error("Failed to stop dry run:", err);
+    }
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100">
+        Dry run
+      </h3>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Ask a sample question with the draft rules. Claude runs in plan mode and
+        the conversation is not saved.
+      </p>
+      <textarea
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        placeholder="Sample question"
+        rows={3}
+        className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div>
+        {running ? (
+          <button
+            onClick={stopDryRun}
+            className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
+          >
+            <StopIcon className="w-4 h-4" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={runDryRun}
+            disabled={!question.trim() || !draft.trim()}
+            className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-slate-700 text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <PlayIcon className="w-4 h-4" />
+            Run with draft
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {notes.map((note, index) => (
+        <p key={index} className="text-xs text-amber-700 dark:text-amber-400">
+          {note}
+        </p>
+      ))}
+      {(answer.length > 0 || running) && (
+        <div className="p-4 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-100">
+          {answer.length > 0 ? (
+            <CodeBlockRenderer content={answer.join("\n\n")} />
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Waiting for Claude...
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  ArrowPathIcon,
+  ChevronLeftIcon,
+  CloudArrowUpIcon,
+} from "@heroicons/react/24/outline";
+import type {
+  RulesResponse,
+  RulesUpdateRequest,
+  RulesVersionInfo,
+} from "../../types";
+import { getRulesUrl } from "../../config/api";
+import { apiFetch } from "../../utils/apiFetch";
+import { useAuth } from "../../hooks/useAuth";
+import { RulesPreview } from "./RulesPreview";
+import { RulesDryRunPanel } from "./RulesDryRunPanel";
+
+type Status =
+  | { type: "idle" }
+  | { type: "saved"; version: RulesVersionInfo }
+  | { type: "conflict"; version: RulesVersionInfo }
+  | { type: "error"; message: string };
+
+/**
+ * Admin page for editing the server's RULES.md
+ * Saves are rejected when someone else changed the rules since they were
+ * loaded, so edits are never silently overwritten.
+ */
+export function RulesEditorPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const workingDirectory = searchParams.get("project") || undefined;
+
+  const [draft, setDraft] = useState("");
+  const [baseSource, setBaseSource] = useState("");
+  const [baseHash, setBaseHash] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<Status>({ type: "idle" });
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiFetch(getRulesUrl());
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || response.statusText);
+      }
+      const rules = data as RulesResponse;
+      setDraft(rules.source);
+      setBaseSource(rules.source);
+      setBaseHash(rules.version.hash);
+      setStatus({ type: "idle" });
+    } catch (err) {
+      setStatus({
+        type: "error",
+        message: err instanceof Error ? err.message : "Failed to load rules",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRules = useCallback(async () => {
+    if (!baseHash) return;
+    setSaving(true);
+    try {
+      const response = await apiFetch(getRulesUrl(), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: draft,
+          baseHash,
+        } as RulesUpdateRequest),
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        // Keep the draft, so the changes can be merged after reloading
+        setStatus({ type: "conflict", version: data.version });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || response.statusText);
+      }
+
+      setBaseSource(draft);
+      setBaseHash(data.version.hash);
+      setStatus({ type: "saved", version: data.version });
+    } catch (err) {
+      setStatus({
+        type: "error",
+        message: err instanceof Error ? err.message : "Failed to save rules",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, baseHash]);
+
+  const isDirty = draft !== baseSource;
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-screen text-slate-600 dark:text-slate-400">
+        Admin access required
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto p-3 sm:p-6 flex flex-col gap-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate("/")}
+              className="p-2 rounded-lg bg-white/80 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 backdrop-blur-sm shadow-sm hover:shadow-md"
+              aria-label="Back to chat"
+            >
+              <ChevronLeftIcon className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+            </button>
+            <div>
+              <h1 className="text-slate-800 dark:text-slate-100 text-lg sm:text-3xl font-bold tracking-tight">
+                Edit Rules
+              </h1>
+              {baseHash && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 font-mono mt-1">
+                  Editing version {baseHash.substring(0, 7)}
+                  {isDirty && " • unsaved changes"}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={loadRules}
+              disabled={loading || saving}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Reload
+            </button>
+            <button
+              onClick={saveRules}
+              disabled={loading || saving || !isDirty}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <CloudArrowUpIcon className="w-4 h-4" />
+              {saving ? "Publishing..." : "Publish"}
+            </button>
+          </div>
+        </div>
+
+        {/* Save result */}
+        {status.type === "saved" && (
+          <div className="px-4 py-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-300">
+            Published version {status.version.hash.substring(0, 7)}. New
+            conversations use the updated rules.
+          </div>
+        )}
+        {status.type === "conflict" && (
+          <div className="px-4 py-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+            The rules were changed by someone else (now version{" "}
+            {status.version.hash.substring(0, 7)}). Copy your changes, reload
+            and apply them again.
+          </div>
+        )}
+        {status.type === "error" && (
+          <div className="px-4 py-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-300">
+            {status.message}
+          </div>
+        )}
+
+        {/* Editor and preview */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={loading}
+            spellCheck={false}
+            aria-label="Rules source"
+            className="w-full h-[60vh] p-4 text-sm font-mono rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+          />
+          <div className="h-[60vh] overflow-y-auto p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+            <RulesPreview content={draft} />
+          </div>
+        </div>
+
+        <RulesDryRunPanel draft={draft} workingDirectory={workingDirectory} />
+      </div>
+    </div>
+  );
+}
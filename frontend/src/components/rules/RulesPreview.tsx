@@ -0,0 +1,181 @@
+import { Fragment, type ReactNode } from "react";
+
+interface RulesPreviewProps {
+  content: string;
+}
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; language: string; code: string }
+  | { type: "paragraph"; text: string }
+  | { type: "frontMatter"; text: string };
+
+const HEADING_CLASSES = [
+  "text-2xl font-bold mt-6 mb-3",
+  "text-xl font-semibold mt-5 mb-2",
+  "text-lg font-semibold mt-4 mb-2",
+];
+
+/**
+ * Split markdown into the block types used in rules files
+ */
+function parseBlocks(content: string): Block[] {
+  const lines = content.split(/\r?\n/);
+  const blocks: Block[] = [];
+  let index = 0;
+
+  // Front matter is shown as-is, like the server strips it before use
+  if (lines[0] === "---") {
+    const end = lines.indexOf("---", 1);
+    if (end !== -1) {
+      blocks.push({
+        type: "frontMatter",
+        text: lines.slice(1, end).join("\n"),
+      });
+      index = end + 1;
+    }
+  }
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(/^```(\w*)/);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].startsWith("```")) {
+        code.push(lines[index++]);
+      }
+      index++;
+      blocks.push({ type: "code", language: fence[1], code: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2],
+      });
+      index++;
+      continue;
+    }
+
+    const listItem = /^\s*([-*+]|\d+\.)\s+/;
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (index < lines.length && listItem.test(lines[index])) {
+        items.push(lines[index++].replace(listItem, ""));
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^(#{1,6}\s|```)/.test(lines[index]) &&
+      !listItem.test(lines[index])
+    ) {
+      paragraph.push(lines[index++]);
+    }
+    blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+  }
+
+  return blocks;
+}
+
+/**
+ * Render inline code and bold text
+ */
+function renderInline(text: string): ReactNode {
+  return text.split(/(`[^`]+`|\*\*[^*]+\*\*)/).map((part, index) => {
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 1) {
+      return (
+        <code
+          key={index}
+          className="px-1 rounded bg-slate-100 dark:bg-slate-700 font-mono text-sm"
+        >
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 3) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    return <Fragment key={index}>{part}</Fragment>;
+  });
+}
+
+/**
+ * Markdown preview for the rules editor
+ * Covers the markdown rules files use: headings, lists, code blocks,
+ * paragraphs, inline code and bold text
+ */
+export function RulesPreview({ content }: RulesPreviewProps) {
+  return (
+    <div className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">
+      {parseBlocks(content).map((block, index) => {
+        switch (block.type) {
+          case "frontMatter":
+            return (
+              <pre
+                key={index}
+                className="mb-4 p-3 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 text-xs text-slate-500 dark:text-slate-400 font-mono whitespace-pre-wrap"
+              >
+                {block.text}
+              </pre>
+            );
+          case "heading":
+            return (
+              <div
+                key={index}
+                role="heading"
+                aria-level={block.level}
+                className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} text-slate-800 dark:text-slate-100`}
+              >
+                {renderInline(block.text)}
+              </div>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List
+                key={index}
+                className={`mb-3 pl-6 ${block.ordered ? "list-decimal" : "list-disc"}`}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case "code":
+            return (
+              <pre
+                key={index}
+                className="mb-3 p-3 rounded-lg bg-slate-800 dark:bg-slate-900 text-slate-200 overflow-x-auto font-mono"
+              >
+                <code>{block.code}</code>
+              </pre>
+            );
+          default:
+            return (
+              <p key={index} className="mb-3">
+                {renderInline(block.text)}
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
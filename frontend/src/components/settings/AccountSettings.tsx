@@ -0,0 +1,31 @@
+import { ArrowRightOnRectangleIcon } from "@heroicons/react/24/outline";
+import { useAuth } from "../../hooks/useAuth";
+
+export function AccountSettings() {
+  const { mode, user, logout } = useAuth();
+
+  // Nothing to show when authentication is disabled
+  if (mode === "none" || !user) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-4">
+        Account
+      </h3>
+      <div className="flex items-center justify-between gap-3 px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg">
+        <div className="text-sm font-medium text-slate-800 dark:text-slate-100">
+          {user.name}
+        </div>
+        <button
+          onClick={logout}
+          className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white transition-colors"
+        >
+          <ArrowRightOnRectangleIcon className="w-4 h-4" />
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import {
+  CurrencyDollarIcon,
+  MagnifyingGlassIcon,
+} from "@heroicons/react/24/outline";
+import { useAuth } from "../../hooks/useAuth";
+import { useServerSettings } from "../../hooks/useServerSettings";
+
+interface BudgetInputProps {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+/**
+ * Dollar amount saved when the field loses focus, empty for no limit
+ */
+function BudgetInput({ label, value, onChange }: BudgetInputProps) {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+
+  const save = () => {
+    const trimmed = draft.trim();
+    const next = trimmed === "" ? null : Number(trimmed);
+    if (next !== null && (!Number.isFinite(next) || next < 0)) {
+      setDraft(value === null ? "" : String(value));
+      return;
+    }
+    if (next !== value) onChange(next);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm text-slate-700 dark:text-slate-200">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={draft}
+        placeholder="No limit"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        className="w-28 px-2 py-1 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 text-right"
+      />
+    </label>
+  );
+}
+
+export function AdminSettings() {
+  const { user } = useAuth();
+  const { settings, error, updateSettings } = useServerSettings();
+
+  // Server settings can only be changed by admins
+  if (!user?.isAdmin || !settings) {
+    return null;
+  }
+
+  const showSubagentActivity = settings.showSubagentActivity;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-4">
+        Server Settings
+      </h3>
+      <button
+        onClick={() =>
+          updateSettings({ showSubagentActivity: !showSubagentActivity })
+        }
+        className="flex items-center gap-3 w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-all duration-200 text-left"
+        role="switch"
+        aria-checked={showSubagentActivity}
+      >
+        <MagnifyingGlassIcon className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+        <div>
+          <div className="text-sm font-medium text-slate-800 dark:text-slate-100">
+            {showSubagentActivity
+              ? "Sub-agent activity shown to users"
+              : "Sub-agent activity hidden from users"}
+          </div>
+          <div className="text-xs text-slate-500 dark:text-slate-400">
+            Exploration panels list the files sub-agents read. Admins always see
+            them.
+          </div>
+        </div>
+      </button>
+      <div className="mt-3 px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg">
+        <div className="flex items-center gap-3 mb-3">
+          <CurrencyDollarIcon className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <div>
+            <div className="text-sm font-medium text-slate-800 dark:text-slate-100">
+              Daily budgets (USD)
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              New chats are refused once the day's cost (UTC) reaches a budget.
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          <BudgetInput
+            label="All users"
+            value={settings.dailyBudgetUsd}
+            onChange={(dailyBudgetUsd) => updateSettings({ dailyBudgetUsd })}
+          />
+          <BudgetInput
+            label="Each user"
+            value={settings.dailyUserBudgetUsd}
+            onChange={(dailyUserBudgetUsd) =>
+              updateSettings({ dailyUserBudgetUsd })
+            }
+          />
+        </div>
+      </div>
+      {error && (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,23 @@ import {
   CommandLineIcon,
 } from "@heroicons/react/24/outline";
 import { useSettings } from "../../hooks/useSettings";
+import type { StreamTransport } from "../../types/settings";
+
+const STREAM_TRANSPORTS: { value: StreamTransport; label: string }[] = [
+  { value: "ndjson", label: "Streaming fetch (NDJSON)" },
+  { value: "sse", label: "Server-sent events" },
+  { value: "websocket", label: "WebSocket" },
+];
 
 export function GeneralSettings() {
-  const { theme, enterBehavior, toggleTheme, toggleEnterBehavior } =
-    useSettings();
+  const {
+    theme,
+    enterBehavior,
+    streamTransport,
+    toggleTheme,
+    toggleEnterBehavior,
+    updateSettings,
+  } = useSettings();
 
   return (
     <div className="space-y-6">
@@ -90,6 +103,37 @@ export function GeneralSettings() {
               chat input.
             </div>
           </div>
+
+          {/* Stream Transport Setting */}
+          <div>
+            <label
+              htmlFor="stream-transport"
+              className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block"
+            >
+              Response Streaming
+            </label>
+            <select
+              id="stream-transport"
+              value={streamTransport}
+              onChange={(event) =>
+                updateSettings({
+                  streamTransport: event.target.value as StreamTransport,
+                })
+              }
+              className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-800 dark:text-slate-100"
+            >
+              {STREAM_TRANSPORTS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              How responses are sent to the browser. Server-sent events and
+              WebSocket reconnect when the connection drops; try them when a
+              proxy holds back streamed responses.
+            </div>
+          </div>
         </div>
       </div>
     </div>
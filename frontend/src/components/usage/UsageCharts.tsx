@@ -0,0 +1,153 @@
+import type { UsageBudgetStatus, UsageGroup } from "../../types";
+import { formatCost, formatTokens } from "../../utils/usage";
+
+/**
+ * Daily cost as vertical bars, one per day
+ */
+export function DailyCostChart({ days }: { days: UsageGroup[] }) {
+  const maxCost = Math.max(...days.map((day) => day.costUsd), 0);
+
+  return (
+    <div>
+      <div
+        className="flex items-end gap-px h-40"
+        role="img"
+        aria-label="Cost per day"
+      >
+        {days.map((day) => (
+          <div
+            key={day.key}
+            className="flex-1 h-full flex items-end group"
+            title={`${day.key}: ${formatCost(day.costUsd)}, ${day.requests} requests`}
+          >
+            <div
+              className="w-full rounded-t bg-blue-500 group-hover:bg-blue-600 dark:bg-blue-400 dark:group-hover:bg-blue-300 transition-colors"
+              style={{
+                height: maxCost > 0 ? `${(day.costUsd / maxCost) * 100}%` : 0,
+                minHeight: day.costUsd > 0 ? 2 : 0,
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div className="flex justify-between mt-2 text-xs text-slate-500 dark:text-slate-400">
+          <span>{days[0].key}</span>
+          <span>Highest: {formatCost(maxCost)}</span>
+          <span>{days[days.length - 1].key}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface UsageBreakdownProps {
+  groups: UsageGroup[];
+  getLabel: (key: string) => string;
+}
+
+/**
+ * Cost and tokens per user, project or session as horizontal bars
+ */
+export function UsageBreakdown({ groups, getLabel }: UsageBreakdownProps) {
+  const maxCost = Math.max(...groups.map((group) => group.costUsd), 0);
+
+  if (groups.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        No usage in this period.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="flex flex-col gap-3">
+      {groups.map((group) => (
+        <li key={group.key} className="text-sm">
+          <div className="flex items-baseline justify-between gap-4 mb-1">
+            <span
+              className="truncate text-slate-700 dark:text-slate-200"
+              title={group.key}
+            >
+              {getLabel(group.key)}
+            </span>
+            <span className="whitespace-nowrap text-xs text-slate-500 dark:text-slate-400">
+              {group.requests} requests • {formatTokens(group.inputTokens)} in •{" "}
+              {formatTokens(group.outputTokens)} out •{" "}
+              <span className="font-medium text-slate-700 dark:text-slate-200">
+                {formatCost(group.costUsd)}
+              </span>
+            </span>
+          </div>
+          <div className="h-2 rounded bg-slate-100 dark:bg-slate-700">
+            <div
+              className="h-2 rounded bg-blue-500 dark:bg-blue-400"
+              style={{
+                width: maxCost > 0 ? `${(group.costUsd / maxCost) * 100}%` : 0,
+              }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface BudgetMeterProps {
+  label: string;
+  spentUsd: number;
+  budgetUsd: number | null;
+}
+
+function BudgetMeter({ label, spentUsd, budgetUsd }: BudgetMeterProps) {
+  const share = budgetUsd ? Math.min(spentUsd / budgetUsd, 1) : 0;
+  const exceeded = budgetUsd !== null && spentUsd >= budgetUsd;
+
+  return (
+    <div className="text-sm">
+      <div className="flex justify-between mb-1 text-slate-700 dark:text-slate-200">
+        <span>{label}</span>
+        <span className={exceeded ? "text-red-600 dark:text-red-400" : ""}>
+          {formatCost(spentUsd)}
+          {budgetUsd !== null ? ` of ${formatCost(budgetUsd)}` : " (no limit)"}
+        </span>
+      </div>
+      {budgetUsd !== null && (
+        <div className="h-2 rounded bg-slate-100 dark:bg-slate-700">
+          <div
+            className={`h-2 rounded ${
+              exceeded
+                ? "bg-red-500"
+                : share > 0.8
+                  ? "bg-amber-500"
+                  : "bg-green-500"
+            }`}
+            style={{ width: `${share * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Today's spending against the daily budgets
+ */
+export function BudgetStatus({ budget }: { budget: UsageBudgetStatus }) {
+  return (
+    <div className="flex flex-col gap-4">
+      <BudgetMeter
+        label="You today"
+        spentUsd={budget.userSpentTodayUsd}
+        budgetUsd={budget.dailyUserBudgetUsd}
+      />
+      {budget.spentTodayUsd !== undefined && (
+        <BudgetMeter
+          label="All users today"
+          spentUsd={budget.spentTodayUsd}
+          budgetUsd={budget.dailyBudgetUsd}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowPathIcon, ChevronLeftIcon } from "@heroicons/react/24/outline";
+import type { UsageGroupBy, UsageResponse } from "../../types";
+import { getUsageUrl } from "../../config/api";
+import { apiFetch } from "../../utils/apiFetch";
+import { useAuth } from "../../hooks/useAuth";
+import {
+  fillUsageDays,
+  formatCost,
+  formatTokens,
+  getUsageRangeStart,
+} from "../../utils/usage";
+import { BudgetStatus, DailyCostChart, UsageBreakdown } from "./UsageCharts";
+
+const RANGES = [7, 30, 90];
+
+type BreakdownGroupBy = Exclude<UsageGroupBy, "day">;
+
+const BREAKDOWN_LABELS: Record<BreakdownGroupBy, string> = {
+  project: "Projects",
+  session: "Sessions",
+  user: "Users",
+};
+
+/**
+ * Label of a usage group, projects are shown by their directory name
+ */
+function getGroupLabel(groupBy: BreakdownGroupBy, key: string): string {
+  if (groupBy === "project") {
+    return key
+      ? (key.split(/[/\\]/).filter(Boolean).pop() ?? key)
+      : "No project";
+  }
+  if (groupBy === "session") {
+    return key.substring(0, 8);
+  }
+  return key;
+}
+
+async function fetchUsage(
+  from: string,
+  groupBy: UsageGroupBy,
+): Promise<UsageResponse> {
+  const response = await apiFetch(
+    getUsageUrl(new URLSearchParams({ from, groupBy })),
+  );
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || response.statusText);
+  }
+  return data as UsageResponse;
+}
+
+/**
+ * Token usage and cost dashboard
+ * Users see their own usage, admins the usage of all users.
+ */
+export function UsagePage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const [rangeDays, setRangeDays] = useState(30);
+  const [groupBy, setGroupBy] = useState<BreakdownGroupBy>("project");
+  const [daily, setDaily] = useState<UsageResponse | null>(null);
+  const [breakdown, setBreakdown] = useState<UsageResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = getUsageRangeStart(rangeDays);
+      const [dailyUsage, groupedUsage] = await Promise.all([
+        fetchUsage(from, "day"),
+        fetchUsage(from, groupBy),
+      ]);
+      setDaily(dailyUsage);
+      setBreakdown(groupedUsage);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load usage");
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeDays, groupBy]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const groupByOptions = (
+    Object.keys(BREAKDOWN_LABELS) as BreakdownGroupBy[]
+  ).filter((option) => option !== "user" || user?.isAdmin);
+
+  const total = daily?.total;
+  const stats = total
+    ? [
+        { label: "Cost", value: formatCost(total.costUsd) },
+        { label: "Requests", value: String(total.requests) },
+        { label: "Input tokens", value: formatTokens(total.inputTokens) },
+        { label: "Output tokens", value: formatTokens(total.outputTokens) },
+        {
+          label: "Cache reads",
+          value: formatTokens(total.cacheReadTokens),
+        },
+        {
+          label: "Cache writes",
+          value: formatTokens(total.cacheCreationTokens),
+        },
+      ]
+    : [];
+
+  const panelClassName =
+    "p-4 sm:p-6 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800";
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto p-3 sm:p-6 flex flex-col gap-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate("/")}
+              className="p-2 rounded-lg bg-white/80 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 backdrop-blur-sm shadow-sm hover:shadow-md"
+              aria-label="Back to chat"
+            >
+              <ChevronLeftIcon className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+            </button>
+            <div>
+              <h1 className="text-slate-800 dark:text-slate-100 text-lg sm:text-3xl font-bold tracking-tight">
+                Usage
+              </h1>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                {user?.isAdmin ? "All users" : "Your requests"}
+                {daily && ` • ${daily.from} to ${daily.to} (UTC)`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={rangeDays}
+              onChange={(e) => setRangeDays(Number(e.target.value))}
+              aria-label="Period"
+              className="px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+            >
+              {RANGES.map((days) => (
+                <option key={days} value={days}>
+                  Last {days} days
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={loadUsage}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-4 py-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className={panelClassName}>
+              <div className="text-xs text-slate-500 dark:text-slate-400">
+                {stat.label}
+              </div>
+              <div className="text-xl font-semibold text-slate-800 dark:text-slate-100">
+                {stat.value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className={`${panelClassName} lg:col-span-2`}>
+            <h2 className="text-sm font-medium text-slate-800 dark:text-slate-100 mb-4">
+              Cost per day
+            </h2>
+            {daily && (
+              <DailyCostChart
+                days={fillUsageDays(daily.groups, daily.from, daily.to)}
+              />
+            )}
+          </div>
+          <div className={panelClassName}>
+            <h2 className="text-sm font-medium text-slate-800 dark:text-slate-100 mb-4">
+              Daily budget
+            </h2>
+            {daily && <BudgetStatus budget={daily.budget} />}
+          </div>
+        </div>
+
+        {/* Breakdown */}
+        <div className={panelClassName}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-sm font-medium text-slate-800 dark:text-slate-100">
+              Cost by {BREAKDOWN_LABELS[groupBy].toLowerCase()}
+            </h2>
+            <div className="flex gap-1" role="tablist">
+              {groupByOptions.map((option) => (
+                <button
+                  key={option}
+                  role="tab"
+                  aria-selected={groupBy === option}
+                  onClick={() => setGroupBy(option)}
+                  className={`px-3 py-1 text-xs rounded-lg transition-colors ${
+                    groupBy === option
+                      ? "bg-blue-600 text-white"
+                      : "text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                  }`}
+                >
+                  {BREAKDOWN_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {breakdown && breakdown.groupBy === groupBy && (
+            <UsageBreakdown
+              groups={breakdown.groups}
+              getLabel={(key) => getGroupLabel(groupBy, key)}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
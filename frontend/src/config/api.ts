@@ -6,6 +6,10 @@ export const API_CONFIG = {
     PROJECTS: "/api/projects",
     HISTORIES: "/api/projects",
     CONVERSATIONS: "/api/projects",
+    AUTH: "/api/auth",
+    RULES: "/api/rules",
+    SETTINGS: "/api/settings",
+    USAGE: "/api/usage",
   },
 } as const;
 
@@ -24,15 +28,36 @@ export const getChatUrl = () => {
   return API_CONFIG.ENDPOINTS.CHAT;
 };
 
+// Helper function to get the URL that replays and follows a chat request's response
+export const getLiveStreamUrl = (requestId: string, from = 0) => {
+  return `${API_CONFIG.ENDPOINTS.CHAT}/${requestId}/stream?from=${from}`;
+};
+
+// Helper function to get the chat WebSocket URL (absolute, as WebSocket needs one)
+export const getChatSocketUrl = () => {
+  const url = new URL(`${API_CONFIG.ENDPOINTS.CHAT}/ws`, window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+};
+
+// Helper function to get the URL of a session's latest chat request
+export const getActiveStreamUrl = (sessionId: string) => {
+  return `${API_CONFIG.ENDPOINTS.CHAT}/active?sessionId=${encodeURIComponent(sessionId)}`;
+};
+
 // Helper function to get projects URL
 export const getProjectsUrl = () => {
   return API_CONFIG.ENDPOINTS.PROJECTS;
 };
 
-// Helper function to get histories URL
-export const getHistoriesUrl = (projectPath: string) => {
+// Helper function to get histories URL (with optional paging and sort parameters)
+export const getHistoriesUrl = (
+  projectPath: string,
+  params?: URLSearchParams,
+) => {
   const encodedPath = encodeURIComponent(projectPath);
-  return `${API_CONFIG.ENDPOINTS.HISTORIES}/${encodedPath}/histories`;
+  const query = params?.toString();
+  return `${API_CONFIG.ENDPOINTS.HISTORIES}/${encodedPath}/histories${query ? `?${query}` : ""}`;
 };
 
 // Helper function to get conversation URL
@@ -42,3 +67,86 @@ export const getConversationUrl = (
 ) => {
   return `${API_CONFIG.ENDPOINTS.CONVERSATIONS}/${encodedProjectName}/histories/${sessionId}`;
 };
+
+// Helper function to get the URL that forks a conversation at a message
+export const getConversationForkUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}/fork`;
+};
+
+// Helper function to get conversation metadata URL (GET, PUT and DELETE)
+export const getConversationMetadataUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}/metadata`;
+};
+
+// Helper function to get conversation export URL (file download)
+export const getConversationExportUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+  format: "md" | "html" | "json",
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}/export?format=${format}`;
+};
+
+// Helper function to get history search URL
+export const getSearchUrl = (
+  encodedProjectName: string,
+  params: URLSearchParams,
+) => {
+  return `${API_CONFIG.ENDPOINTS.HISTORIES}/${encodedProjectName}/search?${params.toString()}`;
+};
+
+// Helper function to get auth status URL
+export const getAuthStatusUrl = () => {
+  return `${API_CONFIG.ENDPOINTS.AUTH}/me`;
+};
+
+// Helper function to get login URL
+export const getLoginUrl = () => {
+  return `${API_CONFIG.ENDPOINTS.AUTH}/login`;
+};
+
+// Helper function to get logout URL
+export const getLogoutUrl = () => {
+  return `${API_CONFIG.ENDPOINTS.AUTH}/logout`;
+};
+
+// Helper function to get OIDC login URL (browser redirect)
+export const getOidcLoginUrl = (returnTo: string) => {
+  return `${API_CONFIG.ENDPOINTS.AUTH}/oidc/login?returnTo=${encodeURIComponent(returnTo)}`;
+};
+
+// Helper function to get rules change events URL (server-sent events)
+export const getRulesEventsUrl = () => {
+  return `${API_CONFIG.ENDPOINTS.RULES}/events`;
+};
+
+// Helper function to get rules URL (GET to load, PUT to save)
+export const getRulesUrl = () => {
+  return API_CONFIG.ENDPOINTS.RULES;
+};
+
+// Helper function to get rules dry run URL
+export const getRulesDryRunUrl = () => {
+  return `${API_CONFIG.ENDPOINTS.RULES}/dry-run`;
+};
+
+// Helper function to get a stored rules version URL
+export const getRulesVersionUrl = (hash: string) => {
+  return `${API_CONFIG.ENDPOINTS.RULES}/versions/${hash}`;
+};
+
+// Helper function to get server settings URL (GET to load, PUT to save as admin)
+export const getServerSettingsUrl = () => {
+  return API_CONFIG.ENDPOINTS.SETTINGS;
+};
+
+// Helper function to get aggregated usage URL
+export const getUsageUrl = (params: URLSearchParams) => {
+  return `${API_CONFIG.ENDPOINTS.USAGE}?${params.toString()}`;
+};
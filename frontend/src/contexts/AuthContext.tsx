@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import type { AuthMode, AuthStatusResponse, AuthUser } from "../types";
+import type {
+  AuthContextType,
+  AuthStatus,
+  LoginCredentials,
+} from "../types/auth";
+import { getAuthStatusUrl, getLoginUrl, getLogoutUrl } from "../config/api";
+import { UNAUTHORIZED_EVENT } from "../utils/apiFetch";
+import { AuthContext } from "./AuthContextTypes";
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const [mode, setMode] = useState<AuthMode | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+
+  const applyStatus = useCallback((data: AuthStatusResponse) => {
+    setMode(data.mode);
+    setUser(data.user);
+    setStatus(data.authenticated ? "authenticated" : "unauthenticated");
+  }, []);
+
+  // Check the current session on startup
+  useEffect(() => {
+    fetch(getAuthStatusUrl(), { credentials: "same-origin" })
+      .then((res) => res.json())
+      .then(applyStatus)
+      .catch((err) => {
+        console.error("Failed to fetch auth status:", err);
+        setStatus("unauthenticated");
+      });
+  }, [applyStatus]);
+
+  // Show the login page when any API call reports an expired session
+  useEffect(() => {
+    const handleUnauthorized = () => {
+      setUser(null);
+      setStatus("unauthenticated");
+    };
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () =>
+      window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const login = useCallback(
+    async (credentials: LoginCredentials) => {
+      const response = await fetch(getLoginUrl(), {
+        method: "POST",
+        credentials: "same-origin",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Login failed");
+      }
+      applyStatus(data);
+    },
+    [applyStatus],
+  );
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch(getLogoutUrl(), {
+        method: "POST",
+        credentials: "same-origin",
+      });
+    } finally {
+      setUser(null);
+      setStatus("unauthenticated");
+    }
+  }, []);
+
+  const value = useMemo(
+    (): AuthContextType => ({ status, mode, user, login, logout }),
+    [status, mode, user, login, logout],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
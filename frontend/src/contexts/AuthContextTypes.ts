@@ -0,0 +1,4 @@
+import { createContext } from "react";
+import type { AuthContextType } from "../types/auth";
+
+export const AuthContext = createContext<AuthContextType | null>(null);
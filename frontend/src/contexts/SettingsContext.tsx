@@ -53,6 +53,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
       settings,
       theme: settings.theme,
       enterBehavior: settings.enterBehavior,
+      streamTransport: settings.streamTransport,
       toggleTheme,
       toggleEnterBehavior,
       updateSettings,
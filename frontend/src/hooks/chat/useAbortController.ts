@@ -1,10 +1,11 @@
 import { useCallback } from "react";
 import { getAbortUrl } from "../../config/api";
+import { apiFetch } from "../../utils/apiFetch";
 
 export function useAbortController() {
   // Helper function to perform abort request
   const performAbortRequest = useCallback(async (requestId: string) => {
-    await fetch(getAbortUrl(requestId), {
+    await apiFetch(getAbortUrl(requestId), {
       method: "POST",
       headers: { "Content-Type": "application/json" },
     });
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import type { LiveStreamInfo } from "../../types";
+import { getActiveStreamUrl } from "../../config/api";
+import { apiFetch } from "../../utils/apiFetch";
+
+/**
+ * Look up the response still being written for a loaded session
+ * A request keeps running when the tab that sent it is closed, so another
+ * tab or device opening the session can follow it
+ * @param sessionId - Loaded session, null while none is loaded
+ * @returns The session's running request, null when there is none
+ */
+export function useActiveStream(sessionId: string | null) {
+  const [activeStream, setActiveStream] = useState<LiveStreamInfo | null>(null);
+
+  useEffect(() => {
+    setActiveStream(null);
+    if (!sessionId) return;
+
+    let cancelled = false;
+
+    apiFetch(getActiveStreamUrl(sessionId))
+      .then(async (response) => {
+        // 404 means nothing is running for the session
+        if (!response.ok) return;
+        const data: LiveStreamInfo = await response.json();
+        if (!cancelled && !data.done) setActiveStream(data);
+      })
+      .catch((err) => {
+        console.error("Failed to look up running request:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  return activeStream;
+}
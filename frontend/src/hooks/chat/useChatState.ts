@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect, useMemo } from "react";
-import type { AllMessage, ChatMessage } from "../../types";
+import type { AllMessage, ChatMessage, SubagentMessage } from "../../types";
 import { generateId } from "../../utils/id";
 
 interface ChatStateOptions {
@@ -28,6 +28,7 @@ export function useChatState(options: ChatStateOptions = {}) {
     initialSessionId,
   );
   const [currentRequestId, setCurrentRequestId] = useState<string | null>(null);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [hasShownInitMessage, setHasShownInitMessage] = useState(false);
   const [hasReceivedInit, setHasReceivedInit] = useState(false);
   const [currentAssistantMessage, setCurrentAssistantMessage] =
@@ -56,6 +57,16 @@ export function useChatState(options: ChatStateOptions = {}) {
     );
   }, []);
 
+  const updateSubagentMessage = useCallback((msg: SubagentMessage) => {
+    setMessages((prev) =>
+      prev.map((item) =>
+        item.type === "subagent" && item.toolUseId === msg.toolUseId
+          ? msg
+          : item,
+      ),
+    );
+  }, []);
+
   const clearInput = useCallback(() => {
     setInput("");
   }, []);
@@ -69,6 +80,7 @@ export function useChatState(options: ChatStateOptions = {}) {
   const resetRequestState = useCallback(() => {
     setIsLoading(false);
     setCurrentRequestId(null);
+    setQueuePosition(null);
     setCurrentAssistantMessage(null);
   }, []);
 
@@ -85,6 +97,7 @@ export function useChatState(options: ChatStateOptions = {}) {
     isLoading,
     currentSessionId,
     currentRequestId,
+    queuePosition,
     hasShownInitMessage,
     hasReceivedInit,
     currentAssistantMessage,
@@ -95,6 +108,7 @@ export function useChatState(options: ChatStateOptions = {}) {
     setIsLoading,
     setCurrentSessionId,
     setCurrentRequestId,
+    setQueuePosition,
     setHasShownInitMessage,
     setHasReceivedInit,
     setCurrentAssistantMessage,
@@ -102,6 +116,7 @@ export function useChatState(options: ChatStateOptions = {}) {
     // Helper functions
     addMessage,
     updateLastMessage,
+    updateSubagentMessage,
     clearInput,
     generateRequestId,
     resetRequestState,
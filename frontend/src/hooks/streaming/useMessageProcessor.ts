@@ -1,4 +1,4 @@
-import type { AllMessage, ChatMessage } from "../../types";
+import type { AllMessage, ChatMessage, SubagentMessage } from "../../types";
 import { useMessageConverter } from "../useMessageConverter";
 
 export interface StreamingContext {
@@ -17,6 +17,8 @@ export interface StreamingContext {
     toolUseId: string,
   ) => void;
   onAbortRequest?: () => void;
+  updateSubagentMessage?: (msg: SubagentMessage) => void;
+  onQueuePosition?: (position: number | null) => void; // null once the request runs
 }
 
 /**
@@ -356,6 +356,29 @@ describe("useStreamParser", () => {
       });
       expect(mockContext.setCurrentAssistantMessage).toHaveBeenCalledWith(null);
     });
+
+    it("should handle policy_denied stream responses", () => {
+      const { result } = renderHook(() => useStreamParser());
+
+      result.current.processStreamLine(
+        JSON.stringify({
+          type: "policy_denied",
+          policyDenial: {
+            toolName: "Bash",
+            toolUseId: "tool-1",
+            reason: "Blocked by policy: Bash is not allowed",
+          },
+        }),
+        mockContext,
+      );
+
+      expect(mockContext.addMessage).toHaveBeenCalledWith({
+        type: "policy_denied",
+        toolName: "Bash",
+        reason: "Blocked by policy: Bash is not allowed",
+        timestamp: expect.any(Number),
+      });
+    });
   });
 
   describe("Mixed Content Handling", () => {
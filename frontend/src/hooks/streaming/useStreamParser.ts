@@ -4,6 +4,7 @@ import type {
   SDKMessage,
   SystemMessage,
   AbortMessage,
+  PolicyDeniedMessage,
 } from "../../types";
 import {
   isSystemMessage,
@@ -45,6 +46,9 @@ export function useStreamParser() {
         // Permission/Error handling
         onPermissionError: context.onPermissionError,
         onAbortRequest: context.onAbortRequest,
+
+        // Sub-agent runs
+        updateSubagentMessage: context.updateSubagentMessage,
       };
     },
     [],
@@ -98,6 +102,11 @@ export function useStreamParser() {
       try {
         const data: StreamResponse = JSON.parse(line);
 
+        // Any other chunk means the request left the queue
+        context.onQueuePosition?.(
+          data.type === "queued" ? (data.queuePosition ?? null) : null,
+        );
+
         if (data.type === "claude_json" && data.data) {
           // data.data is already an SDKMessage object, no need to parse
           const claudeData = data.data as SDKMessage;
@@ -119,6 +128,14 @@ export function useStreamParser() {
           };
           context.addMessage(abortedMessage);
           context.setCurrentAssistantMessage(null);
+        } else if (data.type === "policy_denied" && data.policyDenial) {
+          const policyDeniedMessage: PolicyDeniedMessage = {
+            type: "policy_denied",
+            toolName: data.policyDenial.toolName,
+            reason: data.policyDenial.reason,
+            timestamp: Date.now(),
+          };
+          context.addMessage(policyDeniedMessage);
         }
       } catch (parseError) {
         console.error("Failed to parse stream line:", parseError);
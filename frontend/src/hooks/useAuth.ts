@@ -0,0 +1,14 @@
+import { useContext } from "react";
+import { AuthContext } from "../contexts/AuthContextTypes";
+import type { AuthContextType } from "../types/auth";
+
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+// Re-export types for convenience
+export type { AuthStatus, LoginCredentials } from "../types/auth";
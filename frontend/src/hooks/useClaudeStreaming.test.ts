@@ -358,4 +358,29 @@ describe("useClaudeStreaming", () => {
       }),
     );
   });
+
+  it("reports the queue position until the request runs", () => {
+    const { result } = renderHook(() => useClaudeStreaming());
+    const onQueuePosition = vi.fn();
+
+    const mockContext = {
+      currentAssistantMessage: null,
+      setCurrentAssistantMessage: vi.fn(),
+      addMessage: vi.fn(),
+      updateLastMessage: vi.fn(),
+      onQueuePosition,
+    };
+
+    result.current.processStreamLine(
+      JSON.stringify({ type: "queued", queuePosition: 2 }),
+      mockContext,
+    );
+    result.current.processStreamLine(
+      JSON.stringify({ type: "done" }),
+      mockContext,
+    );
+
+    expect(onQueuePosition.mock.calls).toEqual([[2], [null]]);
+    expect(mockContext.addMessage).not.toHaveBeenCalled();
+  });
 });
@@ -1,7 +1,14 @@
-import { useState, useEffect, useCallback } from "react";
-import type { AllMessage, TimestampedSDKMessage } from "../types";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type {
+  AllMessage,
+  ConversationBranch,
+  TimestampedSDKMessage,
+} from "../types";
 import type { ConversationHistory } from "../../../shared/types";
 import { getConversationUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+import { getBranchTranscript } from "../utils/conversationBranches";
+import { interleaveSidechains } from "../utils/sidechains";
 import { useMessageConverter } from "./useMessageConverter";
 
 interface HistoryLoaderState {
@@ -9,11 +16,15 @@ interface HistoryLoaderState {
   loading: boolean;
   error: string | null;
   sessionId: string | null;
+  branches: ConversationBranch[];
+  selectedBranchId: string | null; // null while showing the main path
 }
 
 interface HistoryLoaderResult extends HistoryLoaderState {
   loadHistory: (projectPath: string, sessionId: string) => Promise<void>;
   clearHistory: () => void;
+  selectBranch: (branchId: string | null) => void;
+  getMessageUuids: () => Set<string>;
 }
 
 // Type guard to check if a message is a TimestampedSDKMessage
@@ -38,10 +49,33 @@ export function useHistoryLoader(): HistoryLoaderResult {
     loading: false,
     error: null,
     sessionId: null,
+    branches: [],
+    selectedBranchId: null,
   });
 
+  // Kept to rebuild the transcript when another branch is selected
+  const historyRef = useRef<ConversationHistory | null>(null);
+
   const { convertConversationHistory } = useMessageConverter();
 
+  const convertMessages = useCallback(
+    (messages: unknown[]): AllMessage[] => {
+      // Convert unknown[] to TimestampedSDKMessage[] with type checking
+      const timestampedMessages: TimestampedSDKMessage[] = [];
+      for (const msg of messages) {
+        if (isTimestampedSDKMessage(msg)) {
+          timestampedMessages.push(msg);
+        } else {
+          console.warn("Skipping invalid message in history:", msg);
+        }
+      }
+
+      // Convert to frontend message format
+      return convertConversationHistory(timestampedMessages);
+    },
+    [convertConversationHistory],
+  );
+
   const loadHistory = useCallback(
     async (encodedProjectName: string, sessionId: string) => {
       if (!encodedProjectName || !sessionId) {
@@ -59,7 +93,7 @@ export function useHistoryLoader(): HistoryLoaderResult {
           error: null,
         }));
 
-        const response = await fetch(
+        const response = await apiFetch(
           getConversationUrl(encodedProjectName, sessionId),
         );
 
@@ -79,25 +113,23 @@ export function useHistoryLoader(): HistoryLoaderResult {
           throw new Error("Invalid conversation history format");
         }
 
-        // Convert unknown[] to TimestampedSDKMessage[] with type checking
-        const timestampedMessages: TimestampedSDKMessage[] = [];
-        for (const msg of conversationHistory.messages) {
-          if (isTimestampedSDKMessage(msg)) {
-            timestampedMessages.push(msg);
-          } else {
-            console.warn("Skipping invalid message in history:", msg);
-          }
-        }
-
-        // Convert to frontend message format
-        const convertedMessages =
-          convertConversationHistory(timestampedMessages);
+        // Servers before branch support don't send branches
+        conversationHistory.branches ??= [];
+        conversationHistory.sidechains ??= [];
+        historyRef.current = conversationHistory;
 
         setState((prev) => ({
           ...prev,
-          messages: convertedMessages,
+          messages: convertMessages(
+            interleaveSidechains(
+              conversationHistory.messages,
+              conversationHistory.sidechains,
+            ),
+          ),
           loading: false,
           sessionId: conversationHistory.sessionId,
+          branches: conversationHistory.branches,
+          selectedBranchId: null,
         }));
       } catch (error) {
         console.error("Error loading conversation history:", error);
@@ -112,22 +144,63 @@ export function useHistoryLoader(): HistoryLoaderResult {
         }));
       }
     },
-    [convertConversationHistory],
+    [convertMessages],
   );
 
   const clearHistory = useCallback(() => {
+    historyRef.current = null;
     setState({
       messages: [],
       loading: false,
       error: null,
       sessionId: null,
+      branches: [],
+      selectedBranchId: null,
     });
   }, []);
 
+  const selectBranch = useCallback(
+    (branchId: string | null) => {
+      const history = historyRef.current;
+      if (!history) return;
+
+      setState((prev) => ({
+        ...prev,
+        messages: convertMessages(
+          interleaveSidechains(
+            getBranchTranscript(history, branchId),
+            history.sidechains,
+          ),
+        ),
+        selectedBranchId: branchId,
+      }));
+    },
+    [convertMessages],
+  );
+
+  // Used to skip messages already shown when replaying a running request
+  const getMessageUuids = useCallback(() => {
+    const history = historyRef.current;
+    const uuids = new Set<string>();
+    if (!history) return uuids;
+
+    const messages = [
+      ...history.messages,
+      ...history.sidechains.flatMap((sidechain) => sidechain.messages),
+    ];
+    for (const message of messages) {
+      const { uuid } = message as { uuid?: unknown };
+      if (typeof uuid === "string") uuids.add(uuid);
+    }
+    return uuids;
+  }, []);
+
   return {
     ...state,
     loadHistory,
     clearHistory,
+    selectBranch,
+    getMessageUuids,
   };
 }
 
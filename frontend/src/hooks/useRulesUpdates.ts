@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RulesVersionInfo } from "../types";
+import { getRulesEventsUrl } from "../config/api";
+
+/**
+ * Listen for server-side rules changes
+ * The first event reports the version the page started with, later events
+ * with a higher version are reported as an update until dismissed.
+ */
+export function useRulesUpdates() {
+  const [updatedVersion, setUpdatedVersion] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    let initialVersion: number | null = null;
+    const source = new EventSource(getRulesEventsUrl());
+
+    source.addEventListener("rules", (event) => {
+      try {
+        const info = JSON.parse(
+          (event as MessageEvent).data,
+        ) as RulesVersionInfo;
+        if (initialVersion === null) {
+          initialVersion = info.version;
+        } else if (info.version > initialVersion) {
+          setUpdatedVersion(info.version);
+        }
+      } catch (error) {
+        console.error("Invalid rules event:", error);
+      }
+    });
+
+    return () => source.close();
+  }, []);
+
+  const dismiss = useCallback(() => setUpdatedVersion(null), []);
+
+  return { updatedVersion, dismiss };
+}
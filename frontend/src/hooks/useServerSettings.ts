@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ServerSettings, ServerSettingsUpdate } from "../types";
+import { getServerSettingsUrl } from "../config/api";
+import { apiFetch } from "../utils/apiFetch";
+
+/**
+ * Load the server settings admins change at runtime
+ * Settings stay null until loaded; updates are only accepted from admins
+ */
+export function useServerSettings() {
+  const [settings, setSettings] = useState<ServerSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiFetch(getServerSettingsUrl())
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load settings: ${response.status}`);
+        }
+        const data: ServerSettings = await response.json();
+        if (!cancelled) setSettings(data);
+      })
+      .catch((err) => {
+        console.error("Failed to load server settings:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback(async (update: ServerSettingsUpdate) => {
+    try {
+      const response = await apiFetch(getServerSettingsUrl(), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || response.statusText);
+      }
+      setSettings(data as ServerSettings);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to update server settings:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  return { settings, error, updateSettings };
+}
@@ -12,6 +12,7 @@ export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   timestamp: number;
+  uuid?: string; // History line the message was loaded from (search deep links)
 }
 
 // Error message for streaming errors
@@ -81,6 +82,14 @@ export interface PlanMessage {
   timestamp: number;
 }
 
+// Policy denied message for tool calls blocked by the server tool policy
+export interface PolicyDeniedMessage {
+  type: "policy_denied";
+  toolName: string;
+  reason: string;
+  timestamp: number;
+}
+
 // Thinking message for Claude's reasoning process
 export interface ThinkingMessage {
   type: "thinking";
@@ -102,6 +111,24 @@ export interface TodoMessage {
   timestamp: number;
 }
 
+// Tool call made by a sub-agent
+export interface SubagentStep {
+  toolName: string;
+  detail: string; // Main argument, e.g. the file read or the pattern searched
+}
+
+// Sub-agent (Task tool) run, grouped by the tool_use that started it
+export interface SubagentMessage {
+  type: "subagent";
+  toolUseId: string;
+  description: string;
+  steps: SubagentStep[];
+  filesRead: string[]; // Files read by Read calls, without duplicates
+  status: "running" | "completed" | "failed";
+  result?: string; // Report the sub-agent returned
+  timestamp: number;
+}
+
 // Thinking content item from Claude SDK
 export interface ThinkingContentItem {
   type: "thinking";
@@ -130,7 +157,9 @@ export type AllMessage =
   | ToolResultMessage
   | PlanMessage
   | ThinkingMessage
-  | TodoMessage;
+  | TodoMessage
+  | PolicyDeniedMessage
+  | SubagentMessage;
 
 // Type guard functions
 export function isChatMessage(message: AllMessage): message is ChatMessage {
@@ -169,6 +198,18 @@ export function isTodoMessage(message: AllMessage): message is TodoMessage {
   return message.type === "todo";
 }
 
+export function isPolicyDeniedMessage(
+  message: AllMessage,
+): message is PolicyDeniedMessage {
+  return message.type === "policy_denied";
+}
+
+export function isSubagentMessage(
+  message: AllMessage,
+): message is SubagentMessage {
+  return message.type === "subagent";
+}
+
 // Permission mode types (UI-focused subset of SDK PermissionMode)
 export type PermissionMode = "default" | "plan" | "acceptEdits";
 
@@ -215,7 +256,41 @@ export type PlanApprovalResult =
 // Re-export shared types
 export type {
   StreamResponse,
+  PolicyDenial,
   ChatRequest,
+  ChatSocketRequest,
+  ChatSocketMessage,
+  LiveStreamInfo,
+  AuthMode,
+  AuthUser,
+  AuthStatusResponse,
+  SearchRole,
+  SearchResult,
+  SearchResponse,
+  HistorySortKey,
+  HistorySortOrder,
+  HistoryListResponse,
+  ConversationMetadata,
+  ConversationMetadataUpdate,
+  ConversationMetadataResponse,
+  ConversationForkPoint,
+  ConversationForkRequest,
+  ConversationForkResponse,
+  ConversationHistory,
+  ConversationBranch,
+  ConversationSidechain,
+  ServerSettings,
+  ServerSettingsUpdate,
+  UsageTotals,
+  UsageGroupBy,
+  UsageGroup,
+  UsageBudgetStatus,
+  UsageResponse,
+  RulesResponse,
+  RulesUpdateRequest,
+  RulesDryRunRequest,
+  RulesVersionInfo,
+  RulesVersionSnapshot,
   ProjectsResponse,
   ProjectInfo,
 } from "../../shared/types";
@@ -0,0 +1,17 @@
+import type { AuthMode, AuthUser } from "../types";
+
+export type AuthStatus = "loading" | "authenticated" | "unauthenticated";
+
+export interface LoginCredentials {
+  token?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface AuthContextType {
+  status: AuthStatus;
+  mode: AuthMode | null;
+  user: AuthUser | null;
+  login: (credentials: LoginCredentials) => Promise<void>;
+  logout: () => Promise<void>;
+}
@@ -1,9 +1,11 @@
 export type Theme = "light" | "dark";
 export type EnterBehavior = "send" | "newline";
+export type StreamTransport = "ndjson" | "sse" | "websocket";
 
 export interface AppSettings {
   theme: Theme;
   enterBehavior: EnterBehavior;
+  streamTransport: StreamTransport; // How chat responses are streamed
   version: number;
 }
 
@@ -16,6 +18,7 @@ export interface SettingsContextType {
   settings: AppSettings;
   theme: Theme;
   enterBehavior: EnterBehavior;
+  streamTransport: StreamTransport;
   toggleTheme: () => void;
   toggleEnterBehavior: () => void;
   updateSettings: (updates: Partial<AppSettings>) => void;
@@ -25,6 +28,7 @@ export interface SettingsContextType {
 export const DEFAULT_SETTINGS: AppSettings = {
   theme: "light",
   enterBehavior: "send",
+  streamTransport: "ndjson",
   version: 1,
 };
 
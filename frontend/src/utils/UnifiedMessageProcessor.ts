@@ -2,9 +2,11 @@ import type {
   AllMessage,
   ChatMessage,
   ThinkingMessage,
+  SubagentMessage,
   SDKMessage,
   TimestampedSDKMessage,
 } from "../types";
+import { isSubagentMessage } from "../types";
 import {
   convertSystemMessage,
   convertResultMessage,
@@ -12,6 +14,8 @@ import {
   createToolResultMessage,
   createThinkingMessage,
   createTodoMessageFromInput,
+  createSubagentMessage,
+  createSubagentStep,
 } from "./messageConversion";
 import { isThinkingContentItem } from "./messageTypes";
 import { extractToolInfo, generateToolPatterns } from "./toolUtils";
@@ -52,6 +56,9 @@ export interface ProcessingContext {
     toolUseId: string,
   ) => void;
   onAbortRequest?: () => void;
+
+  // Sub-agent (Task tool) runs, replaced as their messages arrive
+  updateSubagentMessage?: (message: SubagentMessage) => void;
 }
 
 /**
@@ -71,6 +78,43 @@ function isToolUseError(content: string): boolean {
   return content.includes("tool_use_error");
 }
 
+/**
+ * Check if a tool result was rejected by the server tool policy
+ * These are reported through policy_denied events and must not open the permission dialog
+ */
+function isPolicyDenial(content: string): boolean {
+  return content.includes("Blocked by policy:");
+}
+
+/**
+ * Get the Task tool_use a message was sent under, null for the main agent
+ * Streamed messages carry it; history loading sets it on sidechain lines
+ */
+function getParentToolUseId(
+  message: SDKMessage | TimestampedSDKMessage,
+): string | null {
+  return (message.type === "assistant" || message.type === "user") &&
+    message.parent_tool_use_id
+    ? message.parent_tool_use_id
+    : null;
+}
+
+/**
+ * Get the text of a tool_result content, which is a string or text blocks
+ */
+function getToolResultText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .filter((block) => block?.type === "text")
+      .map((block) => String(block.text))
+      .join("\n");
+  }
+  return JSON.stringify(content);
+}
+
 /**
  * Unified Message Processor
  *
@@ -80,12 +124,14 @@ function isToolUseError(content: string): boolean {
  */
 export class UnifiedMessageProcessor {
   private toolUseCache = new Map<string, ToolCache>();
+  private subagentRuns = new Map<string, SubagentMessage>();
 
   /**
    * Clear the tool use cache
    */
   public clearCache(): void {
     this.toolUseCache.clear();
+    this.subagentRuns.clear();
   }
 
   /**
@@ -159,7 +205,8 @@ export class UnifiedMessageProcessor {
     if (
       options.isStreaming &&
       contentItem.is_error &&
-      !isToolUseError(content)
+      !isToolUseError(content) &&
+      !isPolicyDenial(content)
     ) {
       this.handlePermissionError(contentItem, context);
       return;
@@ -175,6 +222,16 @@ export class UnifiedMessageProcessor {
       return;
     }
 
+    // The report of a sub-agent completes its run
+    if (toolName === "Task") {
+      this.updateSubagentRun(toolUseId, context, (run) => ({
+        ...run,
+        status: contentItem.is_error ? "failed" : "completed",
+        result: getToolResultText(contentItem.content),
+      }));
+      return;
+    }
+
     // This is a regular tool result - create a ToolResultMessage
     const toolResultMessage = createToolResultMessage(
       toolName,
@@ -244,8 +301,16 @@ export class UnifiedMessageProcessor {
       );
     }
 
-    // Special handling for ExitPlanMode - create plan message instead of tool message
-    if (contentItem.name === "ExitPlanMode") {
+    // Sub-agent runs are shown as one message, filled in as the sub-agent works
+    if (contentItem.name === "Task" && contentItem.id) {
+      const subagentMessage = createSubagentMessage(
+        contentItem,
+        options.timestamp,
+      );
+      this.subagentRuns.set(contentItem.id, subagentMessage);
+      context.addMessage(subagentMessage);
+    } else if (contentItem.name === "ExitPlanMode") {
+      // Special handling for ExitPlanMode - create plan message instead of tool message
       const planContent = (contentItem.input?.plan as string) || "";
       const planMessage = {
         type: "plan" as const,
@@ -273,6 +338,93 @@ export class UnifiedMessageProcessor {
     }
   }
 
+  /**
+   * Replace a sub-agent run with an updated copy
+   * Messages of runs that are not known (e.g. hidden by the server) are dropped
+   */
+  private updateSubagentRun(
+    toolUseId: string,
+    context: ProcessingContext,
+    update: (run: SubagentMessage) => SubagentMessage,
+  ): void {
+    const run = this.subagentRuns.get(toolUseId);
+    if (!run) return;
+
+    const updatedRun = update(run);
+    this.subagentRuns.set(toolUseId, updatedRun);
+    context.updateSubagentMessage?.(updatedRun);
+  }
+
+  /**
+   * Process a message sent by a sub-agent
+   * Its tool calls are added to the run; its text stays out of the chat
+   */
+  private processSubagentMessage(
+    parentToolUseId: string,
+    message: Extract<
+      SDKMessage | TimestampedSDKMessage,
+      { type: "assistant" | "user" }
+    >,
+    context: ProcessingContext,
+    options: ProcessingOptions,
+  ): void {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) return;
+
+    if (message.type === "user") {
+      // Permission errors of sub-agent tools are handled like the main agent's
+      for (const item of content) {
+        if (
+          options.isStreaming &&
+          item.type === "tool_result" &&
+          item.is_error
+        ) {
+          const text = getToolResultText(item.content);
+          if (!isToolUseError(text) && !isPolicyDenial(text)) {
+            this.handlePermissionError(
+              { tool_use_id: item.tool_use_id, content: text },
+              context,
+            );
+          }
+        }
+      }
+      return;
+    }
+
+    const toolUses = content.filter((item) => item.type === "tool_use");
+    if (toolUses.length === 0) return;
+
+    for (const item of toolUses) {
+      this.cacheToolUse(
+        item.id,
+        item.name,
+        item.input as Record<string, unknown>,
+      );
+    }
+    this.updateSubagentRun(parentToolUseId, context, (run) => {
+      const filesRead = new Set(run.filesRead);
+      for (const item of toolUses) {
+        const input = item.input as Record<string, unknown> | undefined;
+        if (item.name === "Read" && typeof input?.file_path === "string") {
+          filesRead.add(input.file_path);
+        }
+      }
+      return {
+        ...run,
+        steps: [
+          ...run.steps,
+          ...toolUses.map((item) =>
+            createSubagentStep({
+              name: item.name,
+              input: item.input as Record<string, unknown>,
+            }),
+          ),
+        ],
+        filesRead: [...filesRead],
+      };
+    });
+  }
+
   /**
    * Process a system message
    */
@@ -376,6 +528,7 @@ export class UnifiedMessageProcessor {
           role: "assistant",
           content: assistantContent.trim(),
           timestamp,
+          ...(message.uuid ? { uuid: message.uuid } : {}),
         };
         orderedMessages.push(assistantMessage);
       }
@@ -445,6 +598,7 @@ export class UnifiedMessageProcessor {
             role: "user",
             content: (contentItem as { text: string }).text,
             timestamp,
+            ...(message.uuid ? { uuid: message.uuid } : {}),
           };
           localContext.addMessage(userMessage);
         }
@@ -456,6 +610,7 @@ export class UnifiedMessageProcessor {
         role: "user",
         content: messageContent,
         timestamp,
+        ...(message.uuid ? { uuid: message.uuid } : {}),
       };
       localContext.addMessage(userMessage);
     }
@@ -484,6 +639,21 @@ export class UnifiedMessageProcessor {
 
     const finalOptions = { ...options, timestamp };
 
+    // Messages of sub-agents are grouped into the run that started them
+    const parentToolUseId = getParentToolUseId(message);
+    if (
+      parentToolUseId &&
+      (message.type === "assistant" || message.type === "user")
+    ) {
+      this.processSubagentMessage(
+        parentToolUseId,
+        message,
+        context,
+        finalOptions,
+      );
+      return [];
+    }
+
     switch (message.type) {
       case "system":
         this.processSystemMessage(message, context, finalOptions);
@@ -524,6 +694,14 @@ export class UnifiedMessageProcessor {
     // Create a batch context that collects messages
     const batchContext: ProcessingContext = {
       addMessage: (msg: AllMessage) => allMessages.push(msg),
+      updateSubagentMessage: (msg: SubagentMessage) => {
+        const index = allMessages.findIndex(
+          (item) => isSubagentMessage(item) && item.toolUseId === msg.toolUseId,
+        );
+        if (index !== -1) {
+          allMessages[index] = msg;
+        }
+      },
       ...context,
     };
 
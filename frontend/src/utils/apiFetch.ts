@@ -0,0 +1,20 @@
+/**
+ * Event dispatched on window when an API request is rejected with 401
+ * The AuthProvider listens for it and shows the login page
+ */
+export const UNAUTHORIZED_EVENT = "auth:unauthorized";
+
+/**
+ * fetch wrapper for backend API calls
+ * Sends the session cookie and reports expired sessions
+ */
+export async function apiFetch(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+): Promise<Response> {
+  const response = await fetch(input, { credentials: "same-origin", ...init });
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  }
+  return response;
+}
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ChatSocketMessage, ChatSocketRequest } from "../types";
+import { readLines, readServerSentEvents, sendChatRequest } from "./chatStream";
+
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+};
+
+async function collect<T>(items: AsyncGenerator<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe("readLines", () => {
+  it("joins lines split across chunks", async () => {
+    const lines = await collect(
+      readLines(streamOf('{"type":"cla', 'ude_json"}\n{"type"', ':"done"}\n')),
+    );
+    expect(lines).toEqual(['{"type":"claude_json"}', '{"type":"done"}']);
+  });
+
+  it("keeps a last line without newline", async () => {
+    expect(await collect(readLines(streamOf("a\nb")))).toEqual(["a", "b"]);
+  });
+});
+
+describe("readServerSentEvents", () => {
+  it("parses ids, event names and multi-line data", async () => {
+    const events = await collect(
+      readServerSentEvents(
+        streamOf(
+          ': keep-alive\r\n\r\ndata: {"a":1}\r\nid: 0\r\n\r\n',
+          "data: line 1\ndata: line 2\nid: 1\n",
+          "\nevent: end\ndata: \n\n",
+        ),
+      ),
+    );
+    expect(events).toEqual([
+      { event: "message", data: '{"a":1}', id: "0" },
+      { event: "message", data: "line 1\nline 2", id: "1" },
+      { event: "end", data: "" },
+    ]);
+  });
+});
+
+/**
+ * WebSocket whose connections play the scripted server side in turn
+ */
+class FakeWebSocket {
+  static scripts: Array<(socket: FakeWebSocket) => void> = [];
+  static sent: ChatSocketRequest[] = [];
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor() {
+    const script = FakeWebSocket.scripts.shift()!;
+    setTimeout(() => script(this));
+  }
+
+  send(data: string) {
+    FakeWebSocket.sent.push(JSON.parse(data));
+  }
+
+  close() {}
+
+  reply(...messages: ChatSocketMessage[]) {
+    this.onopen?.();
+    for (const message of messages) {
+      this.onmessage?.({ data: JSON.stringify(message) });
+    }
+    this.onclose?.();
+  }
+}
+
+describe("sendChatRequest over WebSocket", () => {
+  const request = { message: "Hello", requestId: "req-1" };
+  const chunk: ChatSocketMessage = {
+    type: "chunk",
+    requestId: "req-1",
+    id: 0,
+    chunk: { type: "done" },
+  };
+  const end: ChatSocketMessage = { type: "end", requestId: "req-1" };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWebSocket.sent = [];
+  });
+
+  it("sends the request again when the connection failed before it", async () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    FakeWebSocket.scripts = [
+      (socket) => socket.onclose?.(),
+      (socket) => socket.reply(chunk, end),
+    ];
+
+    expect(await collect(sendChatRequest(request, "websocket"))).toEqual([
+      '{"type":"done"}',
+    ]);
+    expect(FakeWebSocket.sent).toEqual([{ type: "chat", request }]);
+  });
+
+  it("follows a request the server received before the connection dropped", async () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    FakeWebSocket.scripts = [
+      (socket) => socket.reply(),
+      (socket) =>
+        socket.reply({
+          type: "error",
+          requestId: "req-1",
+          status: 409,
+          error: "Request ID is already in use",
+        }),
+      (socket) => socket.reply(chunk, end),
+    ];
+
+    expect(await collect(sendChatRequest(request, "websocket"))).toEqual([
+      '{"type":"done"}',
+    ]);
+    expect(FakeWebSocket.sent).toEqual([
+      { type: "chat", request },
+      { type: "chat", request },
+      { type: "follow", requestId: "req-1", from: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,302 @@
+import type {
+  ChatRequest,
+  ChatSocketMessage,
+  ChatSocketRequest,
+} from "../types";
+import type { StreamTransport } from "../types/settings";
+import { getChatSocketUrl, getChatUrl, getLiveStreamUrl } from "../config/api";
+import { apiFetch } from "./apiFetch";
+
+/** Reconnection attempts after an event stream or WebSocket drops */
+const MAX_RECONNECTS = 5;
+
+/** Delay before the first reconnection, doubled for every further attempt */
+const RECONNECT_DELAY_MS = 500;
+
+/**
+ * Error for a stream the server refused, with the HTTP status it sent
+ */
+export class ChatStreamError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ChatStreamError";
+    this.status = status;
+  }
+}
+
+export interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Read a response body line by line
+ * Lines split across chunks are joined before they are passed on.
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      yield* lines;
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    // Stops the download when the caller stops reading early
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Read server-sent events from a response body
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  let event: ServerSentEvent = { event: "message", data: "" };
+  let data: string[] = [];
+
+  for await (const rawLine of readLines(body)) {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+
+    // A blank line ends the event
+    if (!line) {
+      if (data.length > 0 || event.id !== undefined) {
+        yield { ...event, data: data.join("\n") };
+      }
+      event = { event: "message", data: "" };
+      data = [];
+      continue;
+    }
+    if (line.startsWith(":")) continue; // Comment, e.g. keep-alive
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "data") data.push(value);
+    else if (field === "event") event.event = value;
+    else if (field === "id") event.id = value;
+  }
+}
+
+/**
+ * Throw a ChatStreamError for responses the server refused
+ */
+async function checkResponse(response: Response): Promise<void> {
+  if (response.ok) return;
+
+  let message = response.statusText;
+  try {
+    const body = await response.json();
+    if (typeof body?.error === "string") message = body.error;
+  } catch {
+    // Keep the status text
+  }
+  throw new ChatStreamError(message, response.status);
+}
+
+/**
+ * Stream NDJSON lines of a fetch response
+ */
+async function* streamNdjson(
+  request: () => Promise<Response>,
+): AsyncGenerator<string> {
+  const response = await request();
+  await checkResponse(response);
+  if (!response.body) throw new Error("No response body");
+
+  for await (const line of readLines(response.body)) {
+    if (line.trim()) yield line;
+  }
+}
+
+/**
+ * Stream server-sent events, reconnecting with Last-Event-ID when the
+ * connection drops before the server ended the stream
+ */
+async function* streamEvents(
+  requestId: string,
+  request: () => Promise<Response>,
+): AsyncGenerator<string> {
+  let lastEventId: string | undefined;
+  let attempt = 0;
+  let response = await request();
+
+  while (true) {
+    await checkResponse(response);
+    if (!response.body) throw new Error("No response body");
+
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.event === "end") return;
+        if (event.id !== undefined) lastEventId = event.id;
+        attempt = 0;
+        yield event.data;
+      }
+    } catch (error) {
+      // Network errors are retried like a closed connection
+      console.warn("Response stream interrupted:", error);
+    }
+
+    if (++attempt > MAX_RECONNECTS) {
+      throw new Error("Lost connection to the response stream");
+    }
+    await wait(RECONNECT_DELAY_MS * 2 ** (attempt - 1));
+    response = await apiFetch(getLiveStreamUrl(requestId), {
+      headers: {
+        Accept: "text/event-stream",
+        ...(lastEventId !== undefined ? { "Last-Event-ID": lastEventId } : {}),
+      },
+    });
+  }
+}
+
+/**
+ * Open the chat WebSocket, send one request and pass on what the server
+ * sends until the connection closes
+ */
+async function* readSocketMessages(
+  request: ChatSocketRequest,
+): AsyncGenerator<ChatSocketMessage> {
+  const socket = new WebSocket(getChatSocketUrl());
+  const pending: ChatSocketMessage[] = [];
+  let closed = false;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  socket.onopen = () => socket.send(JSON.stringify(request));
+  socket.onmessage = (event) => {
+    pending.push(JSON.parse(event.data));
+    notify();
+  };
+  socket.onclose = () => {
+    closed = true;
+    notify();
+  };
+
+  try {
+    while (true) {
+      while (pending.length > 0) yield pending.shift()!;
+      if (closed) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    socket.close();
+  }
+}
+
+/**
+ * Stream chunks over the chat WebSocket, following the request again from
+ * the next chunk when the connection drops before the request finished
+ * A chat request is sent again until the server confirmed it with a chunk,
+ * as the connection may have dropped before the server received it.
+ */
+async function* streamSocket(
+  requestId: string,
+  request: ChatSocketRequest,
+): AsyncGenerator<string> {
+  let next = request.type === "follow" ? (request.from ?? 0) : 0;
+  let confirmed = request.type === "follow";
+  let attempt = 0;
+
+  while (true) {
+    let alreadyStarted = false;
+    for await (const message of readSocketMessages(request)) {
+      if (message.type === "error") {
+        // The server did receive the request before the connection dropped
+        if (request.type === "chat" && attempt > 0 && message.status === 409) {
+          alreadyStarted = true;
+          break;
+        }
+        throw new ChatStreamError(message.error, message.status);
+      }
+      if (message.type === "end") return;
+      next = message.id + 1;
+      confirmed = true;
+      attempt = 0;
+      yield JSON.stringify(message.chunk);
+    }
+
+    if (alreadyStarted) {
+      confirmed = true;
+    } else {
+      if (++attempt > MAX_RECONNECTS) {
+        throw new Error("Lost connection to the response stream");
+      }
+      await wait(RECONNECT_DELAY_MS * 2 ** (attempt - 1));
+    }
+    if (confirmed) {
+      request = { type: "follow", requestId, from: next };
+    }
+  }
+}
+
+/**
+ * Send a chat request and stream its response
+ * @param request - Chat request to send
+ * @param transport - How the response is streamed
+ * @returns Lines of JSON encoded StreamResponse objects
+ * @throws ChatStreamError when the server refuses the request
+ */
+export function sendChatRequest(
+  request: ChatRequest,
+  transport: StreamTransport,
+): AsyncGenerator<string> {
+  if (transport === "websocket") {
+    return streamSocket(request.requestId, { type: "chat", request });
+  }
+
+  const send = (accept: string) => () =>
+    apiFetch(getChatUrl(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: accept },
+      body: JSON.stringify(request),
+    });
+  return transport === "sse"
+    ? streamEvents(request.requestId, send("text/event-stream"))
+    : streamNdjson(send("application/x-ndjson"));
+}
+
+/**
+ * Replay the response of a running or recently finished request and follow
+ * it until the request finishes
+ * @param requestId - Request to follow
+ * @param transport - How the response is streamed
+ * @returns Lines of JSON encoded StreamResponse objects
+ * @throws ChatStreamError when the request is unknown
+ */
+export function followChatRequest(
+  requestId: string,
+  transport: StreamTransport,
+): AsyncGenerator<string> {
+  if (transport === "websocket") {
+    return streamSocket(requestId, { type: "follow", requestId, from: 0 });
+  }
+
+  const follow = (accept: string) => () =>
+    apiFetch(getLiveStreamUrl(requestId), { headers: { Accept: accept } });
+  return transport === "sse"
+    ? streamEvents(requestId, follow("text/event-stream"))
+    : streamNdjson(follow("application/x-ndjson"));
+}
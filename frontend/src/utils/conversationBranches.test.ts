@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { ConversationHistory } from "../types";
+import {
+  getBranchTranscript,
+  getLastMessageUuid,
+} from "./conversationBranches";
+
+const message = (uuid: string) => ({ type: "user", uuid, timestamp: "" });
+
+// Main path u1 → a1 → u3, u2 branches off a1 and a2b branches off u2
+const history: ConversationHistory = {
+  sessionId: "session",
+  messages: [message("u1"), message("a1"), message("u3")],
+  branches: [
+    {
+      id: "u2",
+      parentUuid: "a1",
+      messages: [message("u2"), message("a2")],
+      preview: "",
+      lastTime: "",
+    },
+    {
+      id: "a2b",
+      parentUuid: "u2",
+      messages: [message("a2b")],
+      preview: "",
+      lastTime: "",
+    },
+  ],
+  sidechains: [],
+  metadata: { startTime: "", endTime: "", messageCount: 3 },
+};
+
+const uuids = (messages: unknown[]) =>
+  messages.map((item) => (item as { uuid: string }).uuid);
+
+describe("conversationBranches", () => {
+  describe("getBranchTranscript", () => {
+    it("should return the main path without a branch", () => {
+      expect(uuids(getBranchTranscript(history, null))).toEqual([
+        "u1",
+        "a1",
+        "u3",
+      ]);
+    });
+
+    it("should prepend the messages leading to a branch", () => {
+      expect(uuids(getBranchTranscript(history, "u2"))).toEqual([
+        "u1",
+        "a1",
+        "u2",
+        "a2",
+      ]);
+      expect(uuids(getBranchTranscript(history, "a2b"))).toEqual([
+        "u1",
+        "a1",
+        "u2",
+        "a2b",
+      ]);
+    });
+
+    it("should fall back to the main path for unknown branches", () => {
+      expect(getBranchTranscript(history, "missing")).toBe(history.messages);
+    });
+  });
+
+  describe("getLastMessageUuid", () => {
+    it("should return the uuid of the last message", () => {
+      expect(getLastMessageUuid(history.branches[0].messages)).toBe("a2");
+      expect(getLastMessageUuid([])).toBeUndefined();
+    });
+  });
+});
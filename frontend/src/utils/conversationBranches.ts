@@ -0,0 +1,59 @@
+import type { ConversationHistory } from "../types";
+
+function getUuid(message: unknown): string | undefined {
+  return typeof message === "object" && message !== null && "uuid" in message
+    ? String((message as { uuid: unknown }).uuid)
+    : undefined;
+}
+
+/**
+ * Get the transcript of a conversation along one of its branches
+ * A branch follows a message of the main path or of another branch, so the
+ * messages leading to it are collected first.
+ * @param branchId - Branch to show, null for the main path
+ * @returns Messages in conversation order
+ */
+export function getBranchTranscript(
+  history: ConversationHistory,
+  branchId: string | null,
+): unknown[] {
+  const branch = branchId
+    ? history.branches.find((item) => item.id === branchId)
+    : undefined;
+  if (!branch) {
+    return history.messages;
+  }
+
+  const sequences = [
+    { parentUuid: null, messages: history.messages },
+    ...history.branches,
+  ];
+  const parts = [branch.messages];
+  const visited = new Set<string>();
+  let parentUuid = branch.parentUuid;
+
+  while (parentUuid && !visited.has(parentUuid)) {
+    visited.add(parentUuid);
+    const uuid = parentUuid;
+    const sequence = sequences.find((item) =>
+      item.messages.some((message) => getUuid(message) === uuid),
+    );
+    if (!sequence) {
+      break;
+    }
+    const index = sequence.messages.findIndex(
+      (message) => getUuid(message) === uuid,
+    );
+    parts.unshift(sequence.messages.slice(0, index + 1));
+    parentUuid = sequence.parentUuid;
+  }
+
+  return parts.flat();
+}
+
+/**
+ * Get the uuid of the last message of a branch
+ */
+export function getLastMessageUuid(messages: unknown[]): string | undefined {
+  return getUuid(messages[messages.length - 1]);
+}
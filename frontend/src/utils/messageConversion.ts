@@ -6,6 +6,8 @@ import type {
   ThinkingMessage,
   TodoMessage,
   TodoItem,
+  SubagentMessage,
+  SubagentStep,
   SDKMessage,
   TimestampedSDKMessage,
 } from "../types";
@@ -104,6 +106,42 @@ export function createToolResultMessage(
   };
 }
 
+/**
+ * Create a sub-agent message from a Task tool_use content item
+ */
+export function createSubagentMessage(
+  contentItem: {
+    id?: string;
+    input?: Record<string, unknown>;
+  },
+  timestamp?: number,
+): SubagentMessage {
+  const description = contentItem.input?.description;
+
+  return {
+    type: "subagent",
+    toolUseId: contentItem.id || "",
+    description: typeof description === "string" ? description : "Sub-agent",
+    steps: [],
+    filesRead: [],
+    status: "running",
+    timestamp: timestamp ?? Date.now(),
+  };
+}
+
+/**
+ * Create a sub-agent step from a tool_use content item of the sub-agent
+ */
+export function createSubagentStep(contentItem: {
+  name?: string;
+  input?: Record<string, unknown>;
+}): SubagentStep {
+  return {
+    toolName: contentItem.name || "Unknown",
+    detail: formatToolArguments(contentItem.input).replace(/^\((.*)\)$/, "$1"),
+  };
+}
+
 /**
  * Create a thinking message from content item
  */
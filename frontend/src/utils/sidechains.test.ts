@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import type { SubagentMessage, TimestampedSDKMessage } from "../types";
+import { interleaveSidechains } from "./sidechains";
+import { UnifiedMessageProcessor } from "./UnifiedMessageProcessor";
+
+const timestamp = "2025-01-01T10:00:00Z";
+
+const assistant = (content: unknown[]) => ({
+  type: "assistant",
+  timestamp,
+  message: { role: "assistant", content },
+  parent_tool_use_id: null,
+});
+
+const user = (content: unknown) => ({
+  type: "user",
+  timestamp,
+  message: { role: "user", content },
+  parent_tool_use_id: null,
+});
+
+const transcript = [
+  user("Where is the config loaded?"),
+  assistant([
+    {
+      type: "tool_use",
+      id: "toolu_task",
+      name: "Task",
+      input: { description: "Find config loading", prompt: "Find it" },
+    },
+  ]),
+  user([
+    {
+      type: "tool_result",
+      tool_use_id: "toolu_task",
+      content: [{ type: "text", text: "It is in loader.ts" }],
+    },
+  ]),
+  assistant([{ type: "text", text: "The config is loaded in loader.ts." }]),
+];
+
+const sidechain = {
+  id: "s1",
+  parentToolUseId: "toolu_task",
+  messages: [
+    user("Find it"),
+    assistant([
+      {
+        type: "tool_use",
+        id: "toolu_read",
+        name: "Read",
+        input: { file_path: "/work/loader.ts" },
+      },
+      {
+        type: "tool_use",
+        id: "toolu_grep",
+        name: "Grep",
+        input: { pattern: "loadConfig" },
+      },
+    ]),
+    assistant([{ type: "text", text: "It is in loader.ts" }]),
+  ],
+};
+
+describe("sidechains", () => {
+  it("should place sub-agent messages after their Task call", () => {
+    const messages = interleaveSidechains(transcript, [sidechain]);
+    expect(messages).toHaveLength(7);
+    expect(messages[2]).toMatchObject({
+      parent_tool_use_id: "toolu_task",
+    });
+    expect(messages[5]).toBe(transcript[2]);
+  });
+
+  it("should leave out runs whose Task call is not in the transcript", () => {
+    expect(
+      interleaveSidechains(transcript, [
+        { ...sidechain, parentToolUseId: "toolu_other" },
+      ]),
+    ).toEqual(transcript);
+  });
+
+  it("should group sub-agent activity into one exploration message", () => {
+    const processor = new UnifiedMessageProcessor();
+    const messages = processor.processMessagesBatch(
+      interleaveSidechains(transcript, [sidechain]) as TimestampedSDKMessage[],
+    );
+
+    const subagent = messages.find(
+      (message): message is SubagentMessage => message.type === "subagent",
+    );
+    expect(subagent).toMatchObject({
+      toolUseId: "toolu_task",
+      description: "Find config loading",
+      filesRead: ["/work/loader.ts"],
+      status: "completed",
+      result: "It is in loader.ts",
+    });
+    expect(subagent?.steps).toEqual([
+      { toolName: "Read", detail: "/work/loader.ts" },
+      { toolName: "Grep", detail: "loadConfig" },
+    ]);
+
+    // The sub-agent's text stays out of the chat
+    expect(
+      messages
+        .filter((message) => message.type === "chat")
+        .map((message) => message.type === "chat" && message.content),
+    ).toEqual([
+      "Where is the config loaded?",
+      "The config is loaded in loader.ts.",
+    ]);
+  });
+});
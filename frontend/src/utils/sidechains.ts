@@ -0,0 +1,49 @@
+import type { ConversationSidechain } from "../types";
+
+/**
+ * Get the ids of the tool calls in a history message
+ */
+function getToolUseIds(message: unknown): string[] {
+  const content = (message as { message?: { content?: unknown } })?.message
+    ?.content;
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content
+    .filter((item) => item?.type === "tool_use" && typeof item.id === "string")
+    .map((item) => item.id as string);
+}
+
+/**
+ * Put sub-agent messages back into a transcript
+ * Each run follows the message holding its Task call and is marked with the
+ * call's id like streamed sub-agent messages, so both are grouped the same
+ * way. Runs whose call is not in the transcript are left out.
+ * @returns Messages in conversation order
+ */
+export function interleaveSidechains(
+  messages: unknown[],
+  sidechains: ConversationSidechain[],
+): unknown[] {
+  const runs = new Map<string, unknown[]>();
+  for (const sidechain of sidechains) {
+    const toolUseId = sidechain.parentToolUseId;
+    if (toolUseId) {
+      runs.set(
+        toolUseId,
+        sidechain.messages.map((message) => ({
+          ...(message as object),
+          parent_tool_use_id: toolUseId,
+        })),
+      );
+    }
+  }
+  if (runs.size === 0) {
+    return messages;
+  }
+
+  return messages.flatMap((message) => [
+    message,
+    ...getToolUseIds(message).flatMap((id) => runs.get(id) ?? []),
+  ]);
+}
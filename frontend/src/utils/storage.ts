@@ -1,5 +1,5 @@
 import type { AppSettings, Theme, EnterBehavior } from "../types/settings";
-import { CURRENT_SETTINGS_VERSION } from "../types/settings";
+import { CURRENT_SETTINGS_VERSION, DEFAULT_SETTINGS } from "../types/settings";
 
 export const STORAGE_KEYS = {
   // Unified settings key
@@ -45,7 +45,8 @@ export function getSettings(): AppSettings {
   );
 
   if (unifiedSettings && unifiedSettings.version === CURRENT_SETTINGS_VERSION) {
-    return unifiedSettings;
+    // Settings added later fall back to their defaults
+    return { ...DEFAULT_SETTINGS, ...unifiedSettings };
   }
 
   // If no unified settings or outdated version, migrate from legacy format
@@ -75,6 +76,7 @@ function migrateLegacySettings(): AppSettings {
   const migratedSettings: AppSettings = {
     theme: legacyTheme,
     enterBehavior: legacyEnterBehavior,
+    streamTransport: DEFAULT_SETTINGS.streamTransport,
     version: CURRENT_SETTINGS_VERSION,
   };
 
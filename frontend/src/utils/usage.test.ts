@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import type { UsageGroup } from "../types";
+import {
+  fillUsageDays,
+  formatCost,
+  formatTokens,
+  getUsageRangeStart,
+} from "./usage";
+
+const group = (key: string, costUsd: number): UsageGroup => ({
+  key,
+  requests: 1,
+  inputTokens: 100,
+  outputTokens: 50,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  costUsd,
+});
+
+describe("fillUsageDays", () => {
+  it("adds empty days between the days with usage", () => {
+    const days = fillUsageDays(
+      [group("2025-02-27", 1), group("2025-03-02", 2)],
+      "2025-02-27",
+      "2025-03-02",
+    );
+    expect(days.map((day) => [day.key, day.costUsd])).toEqual([
+      ["2025-02-27", 1],
+      ["2025-02-28", 0],
+      ["2025-03-01", 0],
+      ["2025-03-02", 2],
+    ]);
+  });
+});
+
+describe("getUsageRangeStart", () => {
+  it("counts today as the last day", () => {
+    expect(getUsageRangeStart(7, new Date("2025-03-07T12:00:00Z"))).toBe(
+      "2025-03-01",
+    );
+  });
+});
+
+describe("formatting", () => {
+  it("formats costs and token counts", () => {
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(0.01234)).toBe("$0.0123");
+    expect(formatCost(12.5)).toBe("$12.50");
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(1234)).toBe("1.2k");
+    expect(formatTokens(3_400_000)).toBe("3.4M");
+  });
+});
@@ -0,0 +1,61 @@
+import type { UsageGroup } from "../types";
+
+/**
+ * Fill in the days without usage, so daily charts have no gaps
+ * @param groups - Usage grouped by day
+ * @param from - First day, YYYY-MM-DD
+ * @param to - Last day, YYYY-MM-DD
+ * @returns One group per day from the first to the last day
+ */
+export function fillUsageDays(
+  groups: UsageGroup[],
+  from: string,
+  to: string,
+): UsageGroup[] {
+  const byDay = new Map(groups.map((group) => [group.key, group]));
+  const days: UsageGroup[] = [];
+
+  const date = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (date <= end) {
+    const day = date.toISOString().substring(0, 10);
+    days.push(
+      byDay.get(day) ?? {
+        key: day,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+        costUsd: 0,
+      },
+    );
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Get the first day of a range of days ending today (UTC)
+ */
+export function getUsageRangeStart(days: number, today = new Date()): string {
+  const start = new Date(today);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return start.toISOString().substring(0, 10);
+}
+
+/**
+ * Format a cost in dollars, with cents below one dollar shown more precisely
+ */
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd > 0 && costUsd < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Format a token count, e.g. 1.2k or 3.4M
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
@@ -22,10 +22,12 @@ export default defineConfig(({ mode }) => {
     server: {
       port: 3000,
       proxy: {
+        // The Host header is kept, as the backend compares it with the
+        // page's Origin
         "/api": {
           target: `http://localhost:${apiPort}`,
-          changeOrigin: true,
           secure: false,
+          ws: true,
         },
       },
     },
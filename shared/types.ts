@@ -1,7 +1,27 @@
 export interface StreamResponse {
-  type: "claude_json" | "error" | "done" | "aborted";
+  type:
+    | "claude_json"
+    | "error"
+    | "done"
+    | "aborted"
+    | "policy_denied"
+    | "queued";
   data?: unknown; // SDKMessage object for claude_json type
   error?: string;
+  queuePosition?: number; // Place in the request queue for queued type, 1 runs next
+  policyDenial?: PolicyDenial; // Details for policy_denied type
+  redactions?: RedactionSummary; // Secrets redacted from the stream, sent with done type
+}
+
+export interface PolicyDenial {
+  toolName: string;
+  toolUseId?: string;
+  reason: string;
+}
+
+export interface RedactionSummary {
+  total: number;
+  byType: Record<string, number>; // e.g. { aws_access_key: 1, jwt: 2 }
 }
 
 export interface ChatRequest {
@@ -11,8 +31,31 @@ export interface ChatRequest {
   allowedTools?: string[];
   workingDirectory?: string;
   permissionMode?: "default" | "plan" | "acceptEdits";
+  rulesProfiles?: string[]; // Named rule profiles layered on top of the project rules
 }
 
+// A chat request's stream, which can be replayed while and after it runs
+export interface LiveStreamInfo {
+  requestId: string;
+  sessionId: string | null; // Session reported by Claude, null until the first message
+  resumedSessionId: string | null; // Session the request continued, null for new conversations
+  message: string; // Message sent with the request
+  chunkCount: number; // Chunks sent so far, pass up to this as ?from= to skip them
+  done: boolean;
+  startedAt: string;
+}
+
+// Messages a client sends over the chat WebSocket (/api/chat/ws)
+export type ChatSocketRequest =
+  | { type: "chat"; request: ChatRequest } // Start a request, like POST /api/chat
+  | { type: "follow"; requestId: string; from?: number }; // Replay and follow a request
+
+// Messages the server sends over the chat WebSocket
+export type ChatSocketMessage =
+  | { type: "chunk"; requestId: string; id: number; chunk: StreamResponse }
+  | { type: "end"; requestId: string } // The request finished, no chunks follow
+  | { type: "error"; requestId?: string; status: number; error: string };
+
 export interface AbortRequest {
   requestId: string;
 }
@@ -33,21 +76,228 @@ export interface ConversationSummary {
   lastTime: string;
   messageCount: number;
   lastMessagePreview: string;
+  title: string; // Given by the user, or generated from the first question
+  tags: string[];
+  pinned: boolean; // Pinned conversations are listed first
+  forkedFrom?: ConversationForkPoint;
+  rulesHash?: string; // Rules the conversation was started with (see /api/rules/versions)
+}
+
+// User-given details of a conversation, stored next to Claude's history files
+export interface ConversationMetadata {
+  title?: string;
+  tags: string[];
+  pinned: boolean;
+  notes?: string;
+  forkedFrom?: ConversationForkPoint; // Set when the session was forked, not editable
+  updatedAt: string;
+}
+
+// Message of another session a conversation was forked from
+export interface ConversationForkPoint {
+  sessionId: string;
+  messageId: string; // uuid of the last message copied into the fork
+}
+
+// Body of POST .../histories/:sessionId/fork
+export interface ConversationForkRequest {
+  messageId: string;
+}
+
+export interface ConversationForkResponse {
+  sessionId: string; // New session, continue it with ChatRequest.sessionId
+  forkedFrom: ConversationForkPoint;
 }
 
+// Body of PUT .../histories/:sessionId/metadata, omitted fields are kept
+export interface ConversationMetadataUpdate {
+  title?: string | null; // null or "" goes back to the generated title
+  tags?: string[];
+  pinned?: boolean;
+  notes?: string | null;
+}
+
+export interface ConversationMetadataResponse {
+  sessionId: string;
+  metadata: ConversationMetadata | null; // null when nothing was set
+}
+
+export type HistorySortKey = "startTime" | "lastTime" | "messageCount";
+export type HistorySortOrder = "asc" | "desc";
+
 export interface HistoryListResponse {
-  conversations: ConversationSummary[];
+  conversations: ConversationSummary[]; // One page
+  nextCursor: string | null; // Pass as ?cursor= for the next page, null on the last page
+  total: number; // Conversations matching the filters, across all pages
+  tags: string[]; // All tags used in the project, for filtering
+}
+
+// Conversation search types
+export type SearchRole = "user" | "assistant";
+
+export interface SearchResult {
+  sessionId: string;
+  messageId: string; // uuid of the matching history line
+  role: SearchRole;
+  timestamp: string;
+  snippet: string; // Excerpt of the message around the first match
+  highlights: [number, number][]; // [start, end) offsets of matches in snippet
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  total: number; // Number of matching messages before the limit
 }
 
 // Conversation history types
 // Note: messages are typed as unknown[] to avoid frontend/backend dependency issues
 // Frontend should cast to TimestampedSDKMessage[] (defined in frontend/src/types.ts)
+// An alternative continuation, e.g. after a response was retried or a prompt edited
+export interface ConversationBranch {
+  id: string; // uuid of the first message
+  parentUuid: string | null; // Message it follows, in messages or another branch; null when detached
+  messages: unknown[];
+  preview: string; // Start of the first text, to tell branches apart
+  lastTime: string;
+}
+
+// Messages of a sub-agent (Task tool) run
+export interface ConversationSidechain {
+  id: string; // uuid of the first message
+  parentToolUseId: string | null; // Task tool_use that started the run, null when unknown
+  messages: unknown[];
+}
+
 export interface ConversationHistory {
   sessionId: string;
   messages: unknown[]; // TimestampedSDKMessage[] in practice, but avoiding frontend type dependency
+  branches: ConversationBranch[]; // Left out of messages, which hold the main path
+  sidechains: ConversationSidechain[];
   metadata: {
     startTime: string;
     endTime: string;
     messageCount: number;
   };
 }
+
+// Server settings, changed by admins at runtime
+export interface ServerSettings {
+  showSubagentActivity: boolean; // Whether non-admin users see sub-agent (Task tool) activity
+  dailyBudgetUsd: number | null; // Cost all users together may run up per day (UTC), null for no limit
+  dailyUserBudgetUsd: number | null; // Cost each user may run up per day (UTC), null for no limit
+}
+
+export type ServerSettingsUpdate = Partial<ServerSettings>;
+
+// Usage accounting, taken from the result message of every request
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+}
+
+export type UsageGroupBy = "day" | "user" | "project" | "session";
+
+export interface UsageGroup extends UsageTotals {
+  key: string; // Day (YYYY-MM-DD), user id, project path or session ID
+}
+
+export interface UsageBudgetStatus {
+  dailyBudgetUsd: number | null;
+  dailyUserBudgetUsd: number | null;
+  spentTodayUsd?: number; // All users, admins only
+  userSpentTodayUsd: number; // Current user
+}
+
+export interface UsageResponse {
+  from: string; // First day, YYYY-MM-DD
+  to: string; // Last day, YYYY-MM-DD
+  groupBy: UsageGroupBy;
+  userId?: string; // Set when limited to one user
+  total: UsageTotals;
+  groups: UsageGroup[]; // By day in date order, otherwise by cost
+  budget: UsageBudgetStatus;
+}
+
+// Authentication types
+export type AuthMode = "none" | "token" | "basic" | "oidc";
+
+export interface AuthUser {
+  id: string; // Stable identifier (username, OIDC subject, ...)
+  name: string; // Display name
+  provider: AuthMode;
+  isAdmin?: boolean; // Admins see every user's sessions
+}
+
+export interface AuthStatusResponse {
+  mode: AuthMode;
+  authenticated: boolean;
+  user: AuthUser | null;
+}
+
+// Rules types
+/**
+ * Where a rules layer comes from
+ * - default: built-in rules, used when the server has no RULES.md
+ * - global: RULES.md in the server directory
+ * - project: .webui/RULES.md in the working directory
+ * - profile: named profile from the server's rules.d directory
+ */
+export type RulesLayerKind = "default" | "global" | "project" | "profile";
+
+export interface RulesLayerInfo {
+  kind: RulesLayerKind;
+  name: string; // Profile name, or the kind for other layers
+  path: string | null; // null for the built-in default rules
+}
+
+export interface RulesSectionSource {
+  heading: string | null; // "## " heading, null for the text before the first heading
+  layer: RulesLayerInfo;
+}
+
+export interface RulesVersionInfo {
+  version: number; // Increases whenever the global rules change
+  hash: string; // Content hash of the global rules
+  updatedAt: string; // ISO timestamp of the last change
+  error: string | null; // Why the last reload was rejected (previous rules stay active)
+}
+
+export interface RulesResponse {
+  success: boolean;
+  rules: string; // Effective merged rules
+  length: number;
+  layers: RulesLayerInfo[];
+  sections: RulesSectionSource[];
+  profiles: string[]; // Available profile names
+  version: RulesVersionInfo;
+  source: string; // Text of the server's RULES.md for editing (with front matter)
+}
+
+export interface RulesUpdateRequest {
+  content: string;
+  baseHash: string; // Hash of the version the edit started from
+}
+
+export interface RulesDryRunRequest {
+  content: string; // Draft rules
+  question: string; // Sample question answered with the draft
+  requestId: string;
+  workingDirectory?: string;
+}
+
+export interface RulesVersionSummary {
+  hash: string;
+  createdAt: string; // ISO timestamp of the first use
+  length: number;
+  layers: RulesLayerInfo[]; // Layers the rules were merged from
+}
+
+export interface RulesVersionSnapshot extends RulesVersionSummary {
+  content: string;
+}